@@ -7,6 +7,7 @@ import { AuthProvider } from './app/contexts/AuthContext';
 import * as Notifications from 'expo-notifications';
 import { notificationService } from './app/services/notifications';
 import { cleanupService } from './app/services/cleanup';
+import { sightingQueue } from './app/services/sightingQueue';
 import { SplashScreen as CustomSplashScreen } from './app/components';
 import { useLoading } from './app/hooks';
 import * as SplashScreen from 'expo-splash-screen';
@@ -80,20 +81,10 @@ export default function App() {
     prepare();
   }, []);
 
-  // Handle notification taps
+  // Sync sightings that were saved while offline
   useEffect(() => {
-    // Handle notification tap when app is in foreground or background
-    const subscription = notificationService.addNotificationResponseListener((response) => {
-      const data = response.notification.request.content.data;
-      console.log('Notification tapped:', data);
-
-      if (data.type === 'lost_animal_match' && data.sightingId) {
-        // Navigate to the sighting details
-        navigationRef.current?.navigate('CatDetails', { catId: data.sightingId });
-      }
-    });
-
-    return () => subscription.remove();
+    const stopSightingSync = sightingQueue.start();
+    return () => stopSightingSync();
   }, []);
 
   // Handle splash screen completion
@@ -0,0 +1,149 @@
+import React from 'react';
+import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { CARE_ACTIONS, CareAction, Comment } from '../services/comments';
+import { COLORS } from '../styles/theme';
+
+export const CARE_ACTION_ICONS: Record<CareAction, keyof typeof Ionicons.glyphMap> = {
+  fed: 'restaurant-outline',
+  vet_visit: 'medkit-outline',
+  trapped: 'lock-closed-outline',
+  released: 'leaf-outline',
+};
+
+export const careActionLabel = (action: CareAction | null): string =>
+  CARE_ACTIONS.find((option) => option.value === action)?.label || 'Update';
+
+interface CareLogProps {
+  // Status update comments, newest first
+  entries: Comment[];
+  onAddUpdate?: () => void;
+}
+
+/**
+ * Timeline of an animal's status updates: fed, vet visits, trapping and release
+ */
+const CareLog: React.FC<CareLogProps> = ({ entries, onAddUpdate }) => {
+  return (
+    <View>
+      {entries.length === 0 ? (
+        <Text style={styles.emptyText}>No care updates yet</Text>
+      ) : (
+        entries.map((entry, index) => (
+          <View key={entry.id} style={styles.entry}>
+            <View style={styles.iconColumn}>
+              <View style={styles.iconCircle}>
+                <Ionicons
+                  name={entry.care_action ? CARE_ACTION_ICONS[entry.care_action] : 'clipboard-outline'}
+                  size={16}
+                  color="#fff"
+                />
+              </View>
+              {index < entries.length - 1 && <View style={styles.line} />}
+            </View>
+            <View style={styles.entryContent}>
+              <Text style={styles.entryTitle}>
+                {careActionLabel(entry.care_action)}
+                {entry.health_status ? ` · ${entry.health_status}` : ''}
+              </Text>
+              <Text style={styles.entryMeta}>
+                {entry.profiles?.display_name || 'Anonymous'} ·{' '}
+                {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+              </Text>
+              {!!entry.comment_text && <Text style={styles.entryText}>{entry.comment_text}</Text>}
+              {entry.image_urls?.length > 0 && (
+                <View style={styles.photos}>
+                  {entry.image_urls.map((url) => (
+                    <Image key={url} source={{ uri: url }} style={styles.photo} />
+                  ))}
+                </View>
+              )}
+            </View>
+          </View>
+        ))
+      )}
+
+      {onAddUpdate && (
+        <TouchableOpacity style={styles.addButton} onPress={onAddUpdate}>
+          <Ionicons name="add-circle-outline" size={18} color={COLORS.primaryDark} />
+          <Text style={styles.addButtonText}>Post an update</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    fontStyle: 'italic',
+  },
+  entry: {
+    flexDirection: 'row',
+  },
+  iconColumn: {
+    alignItems: 'center',
+    width: 28,
+  },
+  iconCircle: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: COLORS.primaryDark,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#E0E0E0',
+    marginVertical: 2,
+  },
+  entryContent: {
+    flex: 1,
+    marginLeft: 10,
+    paddingBottom: 16,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  entryText: {
+    fontSize: 14,
+    color: COLORS.textPrimary,
+    marginTop: 4,
+  },
+  photos: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+    backgroundColor: '#E0E0E0',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primaryDark,
+  },
+});
+
+export default CareLog;
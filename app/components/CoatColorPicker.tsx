@@ -0,0 +1,206 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { COLORS } from '../styles/theme';
+import {
+  COAT_COLORS,
+  COAT_PATTERNS,
+  COAT_COLOR_LABELS,
+  COAT_PATTERN_LABELS,
+  CAT_ONLY_PATTERNS,
+  DOG_ONLY_PATTERNS,
+  getImpliedColors,
+  parseCoat,
+  formatCoat,
+  type Coat,
+  type CoatColor,
+  type CoatPattern,
+} from '../services/coatColors';
+
+interface CoatColorPickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  animalType?: 'cat' | 'dog' | '';
+}
+
+// Swatches for the color chips
+const SWATCHES: Record<CoatColor, string> = {
+  black: '#212121',
+  white: '#FFFFFF',
+  gray: '#9E9E9E',
+  silver: '#CFD8DC',
+  orange: '#EF8B2C',
+  cream: '#F3E5C8',
+  brown: '#6D4C41',
+  tan: '#C8A27A',
+  golden: '#E0B04B',
+};
+
+/**
+ * Split a color value into the picked coat and free-text notes
+ * Values are written as "Black & White Tuxedo (white socks)". Anything else,
+ * e.g. text saved before the picker or by the vision model, is kept as notes
+ */
+const readValue = (value: string): { coat: Coat; notes: string } => {
+  const match = value.match(/^(.*?)\s*\((.*)\)$/);
+  const coatText = match ? match[1].trim() : value.trim();
+  const coat = parseCoat(coatText, { impliedColors: false });
+  if (coatText && formatCoat(coat) === coatText) {
+    return { coat, notes: match ? match[2] : '' };
+  }
+  return { coat: parseCoat(value), notes: value };
+};
+
+const writeValue = (coat: Coat, notes: string): string => {
+  const coatText = formatCoat(coat);
+  if (!coatText) return notes;
+  return notes.trim() ? `${coatText} (${notes})` : coatText;
+};
+
+/**
+ * Multi-select coat color and pattern chips, plus free-text notes
+ * Reads and writes the canonical color string (e.g. "Black & White Tuxedo")
+ */
+const CoatColorPicker: React.FC<CoatColorPickerProps> = ({ value, onChange, animalType }) => {
+  const { coat, notes } = useMemo(() => readValue(value), [value]);
+
+  const patterns = COAT_PATTERNS.filter((p) => {
+    if (animalType === 'dog') return !CAT_ONLY_PATTERNS.includes(p) || coat.patterns.includes(p);
+    if (animalType === 'cat') return !DOG_ONLY_PATTERNS.includes(p) || coat.patterns.includes(p);
+    return true;
+  });
+
+  const emit = (colors: CoatColor[], patterns: CoatPattern[], nextNotes = notes) => {
+    onChange(writeValue({ colors, patterns }, nextNotes));
+  };
+
+  const toggleColor = (color: CoatColor) => {
+    const colors = coat.colors.includes(color)
+      ? coat.colors.filter((c) => c !== color)
+      : COAT_COLORS.filter((c) => c === color || coat.colors.includes(c));
+    emit(colors, coat.patterns);
+  };
+
+  // Picking calico or tuxedo also picks its colors, which can then be removed
+  const togglePattern = (pattern: CoatPattern) => {
+    if (coat.patterns.includes(pattern)) {
+      emit(coat.colors, coat.patterns.filter((p) => p !== pattern));
+      return;
+    }
+    const implied = getImpliedColors(pattern);
+    emit(
+      COAT_COLORS.filter((c) => coat.colors.includes(c) || implied.includes(c)),
+      COAT_PATTERNS.filter((p) => p === pattern || coat.patterns.includes(p))
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.chips}>
+        {COAT_COLORS.map((color) => {
+          const active = coat.colors.includes(color);
+          return (
+            <TouchableOpacity
+              key={color}
+              style={[styles.chip, active && styles.activeChip]}
+              onPress={() => toggleColor(color)}
+            >
+              <View style={[styles.swatch, { backgroundColor: SWATCHES[color] }]} />
+              <Text style={[styles.chipText, active && styles.activeChipText]}>
+                {COAT_COLOR_LABELS[color]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.subLabel}>Pattern</Text>
+      <View style={styles.chips}>
+        {patterns.map((pattern) => {
+          const active = coat.patterns.includes(pattern);
+          return (
+            <TouchableOpacity
+              key={pattern}
+              style={[styles.chip, active && styles.activeChip]}
+              onPress={() => togglePattern(pattern)}
+            >
+              <Text style={[styles.chipText, active && styles.activeChipText]}>
+                {COAT_PATTERN_LABELS[pattern]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.subLabel}>Other details</Text>
+      <TextInput
+        style={styles.notesInput}
+        value={notes}
+        onChangeText={(text) => emit(coat.colors, coat.patterns, text)}
+        placeholder="e.g. white socks, ginger patch on nose"
+      />
+
+      {value ? <Text style={styles.summary}>{value}</Text> : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    gap: 6,
+  },
+  activeChip: {
+    backgroundColor: COLORS.activeButton,
+    borderColor: COLORS.activeButton,
+  },
+  swatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1,
+    borderColor: '#bdbdbd',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  subLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  notesInput: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  summary: {
+    fontSize: 13,
+    color: '#757575',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+});
+
+export default CoatColorPicker;
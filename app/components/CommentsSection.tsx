@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,30 +9,76 @@ import {
   ActivityIndicator,
   KeyboardAvoidingView,
   Platform,
+  Image,
+  Modal,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { commentService, Comment } from '../services/comments';
+import * as ImagePicker from 'expo-image-picker';
+import {
+  commentService,
+  Comment,
+  CommentChange,
+  CareAction,
+  CareHealthStatus,
+  CARE_ACTIONS,
+  isCommentTextOptional,
+  MAX_COMMENT_PHOTOS,
+  MENTION_PATTERN,
+  toMentionHandle,
+} from '../services/comments';
 import { useAuth } from '../contexts/AuthContext';
 import { COLORS } from '../styles/theme';
+import ReportContentModal from './ReportContentModal';
+import { CARE_ACTION_ICONS, careActionLabel } from './CareLog';
 
 interface CommentsSectionProps {
   animalId: string;
+  // Called after a status update changed the animal
+  onStatusUpdate?: () => void;
+  // Open with the status update picker showing
+  startWithStatusUpdate?: boolean;
+}
+
+interface CommentThread {
+  comment: Comment;
+  // Oldest first
+  replies: Comment[];
 }
 
-export const CommentsSection: React.FC<CommentsSectionProps> = ({ animalId }) => {
+// The @handle being typed at the end of the input, if any
+const TRAILING_MENTION = /@([\p{L}\p{N}_]*)$/u;
+
+const HEALTH_OPTIONS: CareHealthStatus[] = ['healthy', 'injured', 'sick'];
+
+// Most people suggested while typing a mention
+const MAX_MENTION_SUGGESTIONS = 5;
+
+export const CommentsSection: React.FC<CommentsSectionProps> = ({
+  animalId,
+  onStatusUpdate,
+  startWithStatusUpdate = false,
+}) => {
   const { user } = useAuth();
   const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(true);
   const [commentText, setCommentText] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [reportingCommentId, setReportingCommentId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [editingComment, setEditingComment] = useState<Comment | null>(null);
+  // Threads showing their replies
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+  const [photoUris, setPhotoUris] = useState<string[]>([]);
+  const [showCareOptions, setShowCareOptions] = useState(startWithStatusUpdate);
+  const [careAction, setCareAction] = useState<CareAction | null>(null);
+  const [healthStatus, setHealthStatus] = useState<CareHealthStatus | null>(null);
+  const [viewingPhoto, setViewingPhoto] = useState<string | null>(null);
 
   useEffect(() => {
     loadComments();
 
     // Subscribe to real-time updates
-    const channel = commentService.subscribeToComments(animalId, (newComment) => {
-      setComments((prev) => [newComment, ...prev]);
-    });
+    const channel = commentService.subscribeToComments(animalId, applyChange);
 
     return () => {
       commentService.unsubscribeFromComments(channel);
@@ -54,13 +100,188 @@ export const CommentsSection: React.FC<CommentsSectionProps> = ({ animalId }) =>
     }
   };
 
+  const applyChange = (change: CommentChange) => {
+    setComments((prev) => {
+      switch (change.type) {
+        case 'created':
+          // Our own comments arrive both from posting and from realtime
+          return prev.some((c) => c.id === change.comment.id) ? prev : [change.comment, ...prev];
+        case 'updated':
+          return prev.map((c) => (c.id === change.comment.id ? change.comment : c));
+        case 'deleted':
+          // Replies go with their thread
+          return prev.filter((c) => c.id !== change.id && c.parent_id !== change.id);
+      }
+    });
+  };
+
+  const threads = useMemo<CommentThread[]>(() => {
+    const repliesByParent = new Map<string, Comment[]>();
+    comments.forEach((c) => {
+      if (!c.parent_id) return;
+      repliesByParent.set(c.parent_id, [...(repliesByParent.get(c.parent_id) || []), c]);
+    });
+
+    return comments
+      .filter((c) => !c.parent_id)
+      .map((comment) => ({
+        comment,
+        replies: (repliesByParent.get(comment.id) || []).sort(
+          (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        ),
+      }));
+  }, [comments]);
+
+  // People in the conversation matching the @handle being typed
+  const mentionSuggestions = useMemo(() => {
+    const match = commentText.match(TRAILING_MENTION);
+    if (!match) return [];
+
+    const query = match[1].toLowerCase();
+    const seen = new Set<string>();
+    const suggestions: { id: string; displayName: string; handle: string }[] = [];
+    comments.forEach((c) => {
+      const displayName = c.profiles?.display_name;
+      if (!displayName || c.auth_user_id === user?.id || seen.has(c.auth_user_id)) return;
+      seen.add(c.auth_user_id);
+
+      const handle = toMentionHandle(displayName);
+      if (handle && handle.toLowerCase().startsWith(query)) {
+        suggestions.push({ id: c.auth_user_id, displayName, handle });
+      }
+    });
+    return suggestions.slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [commentText, comments, user?.id]);
+
+  const handlePickMention = (handle: string) => {
+    setCommentText((text) => text.replace(TRAILING_MENTION, `@${handle} `));
+  };
+
+  const toggleThread = (commentId: string) => {
+    setExpandedThreads((prev) => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+
+  const resetStatusUpdate = () => {
+    setShowCareOptions(false);
+    setCareAction(null);
+    setHealthStatus(null);
+  };
+
+  const addPhoto = async (source: 'camera' | 'library') => {
+    const { status } = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (status !== 'granted') {
+      // Respect user's decision - don't show alert asking to reconsider
+      console.log('[Comments] Photo permission denied by user');
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.7,
+    };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (!result.canceled && result.assets && result.assets.length > 0) {
+      const uri = result.assets[0].uri;
+      setPhotoUris((prev) => [...prev, uri].slice(0, MAX_COMMENT_PHOTOS));
+    }
+  };
+
+  const handleAddPhoto = () => {
+    if (photoUris.length >= MAX_COMMENT_PHOTOS) {
+      Alert.alert('Photo Limit', `You can attach up to ${MAX_COMMENT_PHOTOS} photos.`);
+      return;
+    }
+
+    Alert.alert('Add Photo', undefined, [
+      { text: 'Take Photo', onPress: () => addPhoto('camera') },
+      { text: 'Choose from Library', onPress: () => addPhoto('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleToggleCareOptions = () => {
+    if (showCareOptions) {
+      resetStatusUpdate();
+    } else {
+      // Status updates are top-level care log entries, not replies
+      setReplyingTo(null);
+      setShowCareOptions(true);
+    }
+  };
+
+  const handleReply = (comment: Comment) => {
+    if (!user) {
+      Alert.alert('Sign In Required', 'Please sign in to reply');
+      return;
+    }
+
+    setEditingComment(null);
+    resetStatusUpdate();
+    setReplyingTo(comment);
+    // Replies all sit under the top comment, so name who is being answered
+    const handle = toMentionHandle(comment.profiles?.display_name || '');
+    setCommentText(comment.auth_user_id !== user.id && handle ? `@${handle} ` : '');
+  };
+
+  const handleEdit = (comment: Comment) => {
+    setReplyingTo(null);
+    resetStatusUpdate();
+    setPhotoUris([]);
+    setEditingComment(comment);
+    setCommentText(comment.comment_text);
+  };
+
+  const handleCancelCompose = () => {
+    setReplyingTo(null);
+    setEditingComment(null);
+    setCommentText('');
+  };
+
+  // Photos and status updates can be posted without text
+  const canSubmit = !!user && !submitting && (
+    !!commentText.trim() ||
+    (editingComment ? isCommentTextOptional(editingComment) : photoUris.length > 0 || !!careAction)
+  );
+
+  const handleShowHistory = async (comment: Comment) => {
+    const revisions = await commentService.getRevisions(comment.id);
+    if (revisions.length === 0) {
+      Alert.alert('Edit History', 'No earlier versions are available.');
+      return;
+    }
+
+    const history = revisions
+      .map((revision) => `${formatTimeAgo(revision.replaced_at)} replaced:\n${revision.comment_text}`)
+      .join('\n\n');
+    Alert.alert('Edit History', history);
+  };
+
   const handleSubmitComment = async () => {
     if (!user) {
       Alert.alert('Sign In Required', 'Please sign in to comment');
       return;
     }
 
-    if (!commentText.trim()) {
+    if (!canSubmit) {
+      return;
+    }
+
+    if (showCareOptions && !careAction) {
+      Alert.alert('Choose an Update', 'Pick what happened, or close the status update.');
       return;
     }
 
@@ -71,21 +292,47 @@ export const CommentsSection: React.FC<CommentsSectionProps> = ({ animalId }) =>
 
     try {
       setSubmitting(true);
-      await commentService.addComment(animalId, commentText.trim());
+      if (editingComment) {
+        const updated = await commentService.editComment(editingComment, commentText.trim());
+        applyChange({ type: 'updated', comment: updated });
+        setEditingComment(null);
+        setCommentText('');
+        return;
+      }
+
+      const threadId = replyingTo ? replyingTo.parent_id || replyingTo.id : undefined;
+      const postedStatusUpdate = !!careAction;
+      const posted = await commentService.addComment(animalId, commentText.trim(), {
+        parentId: threadId,
+        photoUris,
+        careAction: careAction ?? undefined,
+        healthStatus: healthStatus ?? undefined,
+      });
       setCommentText('');
-      // Reload to get the new comment with profile data
-      await loadComments();
+      setReplyingTo(null);
+      setPhotoUris([]);
+      resetStatusUpdate();
+      if (threadId) {
+        setExpandedThreads((prev) => new Set(prev).add(threadId));
+      }
+      // The returned comment already has its author, no reload needed
+      applyChange({ type: 'created', comment: posted });
+      if (postedStatusUpdate) {
+        onStatusUpdate?.();
+      }
     } catch (error) {
-      Alert.alert('Error', 'Failed to post comment');
+      Alert.alert('Error', editingComment ? 'Failed to save comment' : 'Failed to post comment');
     } finally {
       setSubmitting(false);
     }
   };
 
-  const handleDeleteComment = (commentId: string) => {
+  const handleDeleteComment = (commentId: string, replyCount = 0) => {
     Alert.alert(
       'Delete Comment',
-      'Are you sure you want to delete this comment?',
+      replyCount > 0
+        ? 'Are you sure you want to delete this comment and its replies?'
+        : 'Are you sure you want to delete this comment?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -94,7 +341,7 @@ export const CommentsSection: React.FC<CommentsSectionProps> = ({ animalId }) =>
           onPress: async () => {
             try {
               await commentService.deleteComment(commentId);
-              setComments((prev) => prev.filter((c) => c.id !== commentId));
+              applyChange({ type: 'deleted', id: commentId });
             } catch (error) {
               Alert.alert('Error', 'Failed to delete comment');
             }
@@ -120,31 +367,125 @@ export const CommentsSection: React.FC<CommentsSectionProps> = ({ animalId }) =>
     }
   };
 
-  const renderComment = ({ item }: { item: Comment }) => {
+  // Comment text with @mentions highlighted
+  const renderCommentText = (text: string) => (
+    <Text style={styles.commentText}>
+      {text.split(MENTION_PATTERN).map((part, index) =>
+        // split() puts the captured mentions at odd indexes
+        index % 2 === 1 ? (
+          <Text key={index} style={styles.mention}>{part}</Text>
+        ) : (
+          part
+        )
+      )}
+    </Text>
+  );
+
+  const renderComment = ({ item, replyCount = 0 }: { item: Comment; replyCount?: number }) => {
     const isOwnComment = user?.id === item.auth_user_id;
+    const isReply = !!item.parent_id;
     const displayName = item.profiles?.display_name || 'Anonymous';
     const avatarEmoji = item.profiles?.avatar_url || '🐾';
 
     return (
-      <View style={styles.commentCard}>
+      <View style={[styles.commentCard, isReply && styles.replyCard]}>
         <View style={styles.commentHeader}>
           <View style={styles.commentAuthor}>
-            <Text style={styles.avatarEmoji}>{avatarEmoji}</Text>
+            <Text style={[styles.avatarEmoji, isReply && styles.replyAvatarEmoji]}>{avatarEmoji}</Text>
             <View>
               <Text style={styles.authorName}>{displayName}</Text>
-              <Text style={styles.commentTime}>{formatTimeAgo(item.created_at)}</Text>
+              <View style={styles.commentMeta}>
+                <Text style={styles.commentTime}>{formatTimeAgo(item.created_at)}</Text>
+                {item.edited_at && (
+                  <TouchableOpacity onPress={() => handleShowHistory(item)}>
+                    <Text style={styles.editedMarker}> · edited</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
             </View>
           </View>
           {isOwnComment && (
             <TouchableOpacity
-              onPress={() => handleDeleteComment(item.id)}
+              onPress={() => handleEdit(item)}
+              style={styles.deleteButton}
+            >
+              <Ionicons name="create-outline" size={18} color={COLORS.textLight} />
+            </TouchableOpacity>
+          )}
+          {isOwnComment && (
+            <TouchableOpacity
+              onPress={() => handleDeleteComment(item.id, replyCount)}
               style={styles.deleteButton}
             >
               <Ionicons name="trash-outline" size={18} color={COLORS.error} />
             </TouchableOpacity>
           )}
+          {user && !isOwnComment && (
+            <TouchableOpacity
+              onPress={() => setReportingCommentId(item.id)}
+              style={styles.deleteButton}
+            >
+              <Ionicons name="flag-outline" size={18} color={COLORS.textLight} />
+            </TouchableOpacity>
+          )}
         </View>
-        <Text style={styles.commentText}>{item.comment_text}</Text>
+        {item.comment_type === 'status_update' && (
+          <View style={styles.statusBadge}>
+            <Ionicons
+              name={item.care_action ? CARE_ACTION_ICONS[item.care_action] : 'clipboard-outline'}
+              size={14}
+              color={COLORS.primaryDark}
+            />
+            <Text style={styles.statusBadgeText}>
+              {careActionLabel(item.care_action)}
+              {item.health_status ? ` · ${item.health_status}` : ''}
+            </Text>
+          </View>
+        )}
+        {!!item.comment_text && renderCommentText(item.comment_text)}
+        {item.image_urls?.length > 0 && (
+          <View style={styles.commentPhotos}>
+            {item.image_urls.map((url) => (
+              <TouchableOpacity key={url} onPress={() => setViewingPhoto(url)}>
+                <Image source={{ uri: url }} style={styles.commentPhoto} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {user && (
+          <TouchableOpacity onPress={() => handleReply(item)} style={styles.replyButton}>
+            <Text style={styles.replyButtonText}>Reply</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderThread = ({ comment, replies }: CommentThread) => {
+    const expanded = expandedThreads.has(comment.id);
+
+    return (
+      <View key={comment.id}>
+        {renderComment({ item: comment, replyCount: replies.length })}
+        {replies.length > 0 && (
+          <TouchableOpacity onPress={() => toggleThread(comment.id)} style={styles.threadToggle}>
+            <Ionicons
+              name={expanded ? 'chevron-up' : 'chevron-down'}
+              size={14}
+              color={COLORS.primaryDark}
+            />
+            <Text style={styles.threadToggleText}>
+              {expanded
+                ? 'Hide replies'
+                : `Show ${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}`}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {expanded && replies.map((reply) => (
+          <View key={reply.id}>
+            {renderComment({ item: reply })}
+          </View>
+        ))}
       </View>
     );
   };
@@ -170,11 +511,7 @@ export const CommentsSection: React.FC<CommentsSectionProps> = ({ animalId }) =>
         </View>
       ) : (
         <View style={styles.commentsList}>
-          {comments.map((item) => (
-            <View key={item.id}>
-              {renderComment({ item })}
-            </View>
-          ))}
+          {threads.map(renderThread)}
         </View>
       )}
 
@@ -184,9 +521,99 @@ export const CommentsSection: React.FC<CommentsSectionProps> = ({ animalId }) =>
         keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
       >
         <View style={styles.inputContainer}>
+        {(replyingTo || editingComment) && (
+          <View style={styles.composeBanner}>
+            <Text style={styles.composeBannerText} numberOfLines={1}>
+              {editingComment
+                ? 'Editing your comment'
+                : `Replying to ${replyingTo?.profiles?.display_name || 'Anonymous'}`}
+            </Text>
+            <TouchableOpacity onPress={handleCancelCompose}>
+              <Ionicons name="close" size={18} color={COLORS.textLight} />
+            </TouchableOpacity>
+          </View>
+        )}
+        {showCareOptions && (
+          <View style={styles.careOptions}>
+            <View style={styles.careChips}>
+              {CARE_ACTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.careChip, careAction === option.value && styles.careChipActive]}
+                  onPress={() => setCareAction(option.value)}
+                >
+                  <Ionicons
+                    name={CARE_ACTION_ICONS[option.value]}
+                    size={14}
+                    color={careAction === option.value ? '#fff' : COLORS.textSecondary}
+                  />
+                  <Text style={[styles.careChipText, careAction === option.value && styles.careChipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {careAction && (
+              <Text style={styles.careDescription}>
+                {CARE_ACTIONS.find((option) => option.value === careAction)?.description}
+              </Text>
+            )}
+            {(careAction === 'fed' || careAction === 'vet_visit') && (
+              <View style={styles.careChips}>
+                {HEALTH_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.careChip, healthStatus === option && styles.careChipActive]}
+                    onPress={() => setHealthStatus(healthStatus === option ? null : option)}
+                  >
+                    <Text style={[styles.careChipText, healthStatus === option && styles.careChipTextActive]}>
+                      {option.charAt(0).toUpperCase() + option.slice(1)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+        {photoUris.length > 0 && (
+          <View style={styles.commentPhotos}>
+            {photoUris.map((uri) => (
+              <View key={uri}>
+                <Image source={{ uri }} style={styles.commentPhoto} />
+                <TouchableOpacity
+                  style={styles.removePhotoButton}
+                  onPress={() => setPhotoUris((prev) => prev.filter((p) => p !== uri))}
+                >
+                  <Ionicons name="close-circle" size={20} color={COLORS.error} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+        {mentionSuggestions.length > 0 && (
+          <View style={styles.mentionSuggestions}>
+            {mentionSuggestions.map((suggestion) => (
+              <TouchableOpacity
+                key={suggestion.id}
+                style={styles.mentionChip}
+                onPress={() => handlePickMention(suggestion.handle)}
+              >
+                <Text style={styles.mentionChipText}>@{suggestion.handle}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
         <TextInput
           style={styles.input}
-          placeholder={user ? 'Add a comment...' : 'Sign in to comment'}
+          placeholder={
+            !user
+              ? 'Sign in to comment'
+              : showCareOptions
+                ? 'Add a note (optional)...'
+                : replyingTo
+                  ? 'Write a reply...'
+                  : 'Add a comment...'
+          }
           value={commentText}
           onChangeText={setCommentText}
           multiline
@@ -195,16 +622,32 @@ export const CommentsSection: React.FC<CommentsSectionProps> = ({ animalId }) =>
           placeholderTextColor={COLORS.textLight}
         />
         <View style={styles.inputFooter}>
-          <Text style={styles.charCount}>
-            {commentText.length}/500
-          </Text>
+          <View style={styles.inputTools}>
+            {user && !editingComment && (
+              <TouchableOpacity onPress={handleAddPhoto} style={styles.toolButton}>
+                <Ionicons name="camera-outline" size={22} color={COLORS.textSecondary} />
+              </TouchableOpacity>
+            )}
+            {user && !editingComment && (
+              <TouchableOpacity onPress={handleToggleCareOptions} style={styles.toolButton}>
+                <Ionicons
+                  name="clipboard-outline"
+                  size={22}
+                  color={showCareOptions ? COLORS.primaryDark : COLORS.textSecondary}
+                />
+              </TouchableOpacity>
+            )}
+            <Text style={styles.charCount}>
+              {commentText.length}/500
+            </Text>
+          </View>
           <TouchableOpacity
             style={[
               styles.sendButton,
-              (!commentText.trim() || submitting || !user) && styles.sendButtonDisabled,
+              !canSubmit && styles.sendButtonDisabled,
             ]}
             onPress={handleSubmitComment}
-            disabled={!commentText.trim() || submitting || !user}
+            disabled={!canSubmit}
           >
             {submitting ? (
               <ActivityIndicator size="small" color="#fff" />
@@ -215,6 +658,26 @@ export const CommentsSection: React.FC<CommentsSectionProps> = ({ animalId }) =>
         </View>
       </View>
       </KeyboardAvoidingView>
+
+      <Modal
+        visible={!!viewingPhoto}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setViewingPhoto(null)}
+      >
+        <TouchableOpacity style={styles.photoViewer} onPress={() => setViewingPhoto(null)}>
+          {viewingPhoto && (
+            <Image source={{ uri: viewingPhoto }} style={styles.photoViewerImage} resizeMode="contain" />
+          )}
+        </TouchableOpacity>
+      </Modal>
+
+      <ReportContentModal
+        visible={!!reportingCommentId}
+        targetType="comment"
+        targetId={reportingCommentId}
+        onClose={() => setReportingCommentId(null)}
+      />
     </View>
   );
 };
@@ -294,10 +757,26 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: COLORS.textPrimary,
   },
+  commentMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
   commentTime: {
     fontSize: 12,
     color: COLORS.textLight,
-    marginTop: 2,
+  },
+  editedMarker: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    fontStyle: 'italic',
+  },
+  replyCard: {
+    marginLeft: 24,
+    padding: 10,
+  },
+  replyAvatarEmoji: {
+    fontSize: 24,
   },
   deleteButton: {
     padding: 4,
@@ -307,6 +786,59 @@ const styles = StyleSheet.create({
     color: COLORS.textPrimary,
     lineHeight: 20,
   },
+  mention: {
+    color: COLORS.primaryDark,
+    fontWeight: '600',
+  },
+  replyButton: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  replyButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  threadToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 24,
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  threadToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.primaryDark,
+  },
+  composeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  composeBannerText: {
+    flex: 1,
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  mentionSuggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  mentionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#F5F5F5',
+  },
+  mentionChipText: {
+    fontSize: 13,
+    color: COLORS.primaryDark,
+  },
   inputContainer: {
     backgroundColor: '#fff',
     borderTopWidth: 1,
@@ -333,6 +865,96 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: COLORS.textLight,
   },
+  inputTools: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  toolButton: {
+    padding: 4,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    backgroundColor: '#E8F5E9',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginBottom: 6,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.primaryDark,
+  },
+  commentPhotos: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  commentPhoto: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: '#E0E0E0',
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+  },
+  careOptions: {
+    marginBottom: 8,
+    gap: 6,
+  },
+  careChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  careChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    backgroundColor: '#F5F5F5',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  careChipActive: {
+    backgroundColor: COLORS.primaryDark,
+    borderColor: COLORS.primaryDark,
+  },
+  careChipText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  careChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  careDescription: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    fontStyle: 'italic',
+  },
+  photoViewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoViewerImage: {
+    width: '100%',
+    height: '80%',
+  },
   sendButton: {
     backgroundColor: COLORS.primaryDark,
     borderRadius: 20,
@@ -0,0 +1,77 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { COLORS } from '../styles/theme';
+import { LOCATION_PRIVACY_LEVELS } from '../services/location/locationPrivacy';
+import type { LocationPrivacy } from '../types';
+
+interface LocationPrivacyPickerProps {
+  value: LocationPrivacy;
+  onChange: (value: LocationPrivacy) => void;
+}
+
+/**
+ * Chips for how precisely a post's location is shown to others
+ * The poster always sees the exact spot
+ */
+const LocationPrivacyPicker: React.FC<LocationPrivacyPickerProps> = ({ value, onChange }) => {
+  const selected = LOCATION_PRIVACY_LEVELS.find((level) => level.value === value);
+
+  return (
+    <View>
+      <View style={styles.chips}>
+        {LOCATION_PRIVACY_LEVELS.map((level) => {
+          const active = level.value === value;
+          return (
+            <TouchableOpacity
+              key={level.value}
+              style={[styles.chip, active && styles.activeChip]}
+              onPress={() => onChange(level.value)}
+            >
+              <Text style={[styles.chipText, active && styles.activeChipText]}>
+                {level.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {selected ? <Text style={styles.summary}>{selected.description}</Text> : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  activeChip: {
+    backgroundColor: COLORS.activeButton,
+    borderColor: COLORS.activeButton,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  summary: {
+    fontSize: 13,
+    color: '#757575',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+});
+
+export default LocationPrivacyPicker;
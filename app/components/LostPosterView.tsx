@@ -0,0 +1,179 @@
+import React, { forwardRef, useEffect, useState } from 'react';
+import { Image, StyleSheet, Text, View } from 'react-native';
+import { SvgXml } from 'react-native-svg';
+import type { PosterContent, PosterLayout } from '../services/poster';
+
+interface LostPosterViewProps {
+  content: PosterContent;
+  layout: PosterLayout;
+  qrSvg: string;
+  // Called once every photo has loaded (or failed), so a capture isn't blank
+  onReady?: () => void;
+}
+
+const POSTER_RED = '#D32F2F';
+const POSTER_TEXT = '#212121';
+
+/**
+ * Native rendering of a lost-pet poster, mirrors renderPosterHtml
+ * Sized in layout points, so mount it offscreen and capture it for the image
+ */
+const LostPosterView = forwardRef<View, LostPosterViewProps>(({ content, layout, qrSvg, onReady }, ref) => {
+  const [mainPhoto, ...thumbnails] = content.photos;
+  const [loadedCount, setLoadedCount] = useState(0);
+
+  useEffect(() => {
+    setLoadedCount(0);
+  }, [content.photos]);
+
+  useEffect(() => {
+    if (loadedCount >= content.photos.length) {
+      onReady?.();
+    }
+  }, [loadedCount, content.photos.length, onReady]);
+
+  const handlePhotoSettled = () => setLoadedCount((count) => count + 1);
+
+  return (
+    <View
+      ref={ref}
+      collapsable={false}
+      style={[styles.page, { width: layout.width, height: layout.height, padding: layout.margin }]}
+    >
+      <Text style={[styles.headline, { fontSize: layout.headlineSize }]}>{content.headline}</Text>
+
+      {mainPhoto && (
+        <Image
+          source={{ uri: mainPhoto }}
+          style={[styles.mainPhoto, { height: layout.mainPhotoHeight, marginTop: layout.margin / 2 }]}
+          onLoadEnd={handlePhotoSettled}
+        />
+      )}
+
+      {thumbnails.length > 0 && (
+        <View style={styles.thumbnails}>
+          {thumbnails.map((url) => (
+            <Image
+              key={url}
+              source={{ uri: url }}
+              style={[styles.thumbnail, { height: layout.thumbnailHeight }]}
+              onLoadEnd={handlePhotoSettled}
+            />
+          ))}
+        </View>
+      )}
+
+      <Text style={[styles.name, { fontSize: layout.nameSize, marginTop: layout.margin / 2 }]}>{content.name}</Text>
+      {content.summary && (
+        <Text style={[styles.summary, { fontSize: layout.bodySize }]}>{content.summary}</Text>
+      )}
+
+      {content.features.length > 0 && (
+        <View style={styles.features}>
+          {content.features.map((feature) => (
+            <Text key={feature} style={[styles.bodyText, { fontSize: layout.bodySize }]}>• {feature}</Text>
+          ))}
+        </View>
+      )}
+
+      <Text style={[styles.lastSeen, { fontSize: layout.bodySize }]}>
+        {content.lastSeen}{content.lastSeenPlace ? ` near ${content.lastSeenPlace}` : ''}
+      </Text>
+
+      <View style={styles.footer}>
+        <View style={styles.contact}>
+          <Text style={[styles.call, { fontSize: layout.nameSize * 0.6 }]}>
+            If seen, please contact {content.contactName}
+          </Text>
+          {content.contactLines.map((line) => (
+            <Text key={line} style={[styles.bodyText, { fontSize: layout.bodySize }]}>{line}</Text>
+          ))}
+        </View>
+        <View style={{ width: layout.qrSize }}>
+          <SvgXml xml={qrSvg} width={layout.qrSize} height={layout.qrSize} />
+          <Text style={[styles.qrCaption, { fontSize: layout.smallSize }]}>{content.callToAction}</Text>
+        </View>
+      </View>
+    </View>
+  );
+});
+
+LostPosterView.displayName = 'LostPosterView';
+
+const styles = StyleSheet.create({
+  page: {
+    backgroundColor: '#FFFFFF',
+    overflow: 'hidden',
+  },
+  headline: {
+    fontWeight: '900',
+    letterSpacing: 2,
+    textAlign: 'center',
+    color: '#FFFFFF',
+    backgroundColor: POSTER_RED,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  mainPhoto: {
+    width: '100%',
+    borderRadius: 6,
+    resizeMode: 'cover',
+  },
+  thumbnails: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 6,
+  },
+  thumbnail: {
+    flex: 1,
+    borderRadius: 4,
+    resizeMode: 'cover',
+  },
+  name: {
+    fontWeight: '800',
+    textAlign: 'center',
+    color: POSTER_TEXT,
+  },
+  summary: {
+    marginTop: 2,
+    textAlign: 'center',
+    color: '#424242',
+  },
+  features: {
+    marginTop: 8,
+    paddingLeft: 8,
+  },
+  bodyText: {
+    color: POSTER_TEXT,
+    marginVertical: 1,
+  },
+  lastSeen: {
+    marginTop: 8,
+    fontWeight: '700',
+    color: POSTER_TEXT,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 2,
+    borderTopColor: POSTER_TEXT,
+  },
+  contact: {
+    flex: 1,
+  },
+  call: {
+    fontWeight: '800',
+    color: POSTER_TEXT,
+    marginBottom: 4,
+  },
+  qrCaption: {
+    marginTop: 4,
+    textAlign: 'center',
+    color: '#616161',
+  },
+});
+
+export default LostPosterView;
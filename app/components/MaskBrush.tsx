@@ -0,0 +1,208 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Image, PanResponder, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { copyMask, createMask, ImageMask, MaskPoint, paintMask, Segmentation } from '../services/segmentation';
+import { backgroundRemovalService } from '../services/backgroundRemoval';
+
+type BrushMode = 'erase' | 'restore';
+
+// Brush radii in screen points
+const BRUSH_SIZES = [8, 16, 28];
+
+// Undo steps kept
+const MAX_HISTORY = 10;
+
+type MaskBrushProps = {
+  segmentation: Segmentation;
+  mask: ImageMask;
+  onMaskChange: (mask: ImageMask) => void;
+  // Longest side of the editor in screen points
+  size: number;
+};
+
+/**
+ * Paint over a cutout to fix its mask: erase leftover background or
+ * restore parts of the animal that were cut away
+ * The removed background shows faintly so it can be brushed back in
+ */
+const MaskBrush: React.FC<MaskBrushProps> = ({ segmentation, mask, onMaskChange, size }) => {
+  const [mode, setMode] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+  const [stroke, setStroke] = useState<MaskPoint[]>([]);
+  const [history, setHistory] = useState<ImageMask[]>([]);
+
+  const aspect = mask.width / mask.height;
+  const displayWidth = aspect >= 1 ? size : size * aspect;
+  const displayHeight = aspect >= 1 ? size / aspect : size;
+  const maskScale = mask.width / displayWidth;
+
+  // The full photo for the faint underlay and the cutout on top
+  const originalUri = useMemo(
+    () => backgroundRemovalService.renderCutout(segmentation, createMask(mask.width, mask.height, 255)),
+    [segmentation]
+  );
+  const cutoutUri = useMemo(() => backgroundRemovalService.renderCutout(segmentation, mask), [segmentation, mask]);
+
+  // PanResponder handlers are created once, so read the latest values from a ref
+  const latest = useRef({ mask, mode, brushSize, maskScale, onMaskChange, stroke });
+  latest.current = { mask, mode, brushSize, maskScale, onMaskChange, stroke };
+
+  const finishStroke = () => {
+    const current = latest.current;
+    if (current.stroke.length === 0) return;
+
+    const next = copyMask(current.mask);
+    paintMask(
+      next,
+      current.stroke.map((point) => ({ x: point.x * current.maskScale, y: point.y * current.maskScale })),
+      current.brushSize * current.maskScale,
+      current.mode === 'restore' ? 255 : 0
+    );
+    setHistory((prev) => [...prev.slice(-(MAX_HISTORY - 1)), current.mask]);
+    setStroke([]);
+    current.onMaskChange(next);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (event) => {
+        setStroke([{ x: event.nativeEvent.locationX, y: event.nativeEvent.locationY }]);
+      },
+      onPanResponderMove: (event) => {
+        const point = { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY };
+        setStroke((prev) => [...prev, point]);
+      },
+      onPanResponderRelease: () => finishStroke(),
+      onPanResponderTerminate: () => finishStroke(),
+    })
+  ).current;
+
+  const handleUndo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory((prev) => prev.slice(0, -1));
+    onMaskChange(previous);
+  };
+
+  const strokeColor = mode === 'restore' ? 'rgba(76, 175, 80, 0.5)' : 'rgba(244, 67, 54, 0.5)';
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.canvas, { width: displayWidth, height: displayHeight }]} {...panResponder.panHandlers}>
+        <Image source={{ uri: originalUri }} style={[StyleSheet.absoluteFill, styles.underlay]} />
+        <Image source={{ uri: cutoutUri }} style={StyleSheet.absoluteFill} />
+        {stroke.map((point, index) => (
+          <View
+            key={index}
+            pointerEvents="none"
+            style={[
+              styles.dab,
+              {
+                left: point.x - brushSize,
+                top: point.y - brushSize,
+                width: brushSize * 2,
+                height: brushSize * 2,
+                borderRadius: brushSize,
+                backgroundColor: strokeColor,
+              },
+            ]}
+          />
+        ))}
+      </View>
+
+      <View style={styles.toolbar}>
+        <TouchableOpacity
+          style={[styles.toolButton, mode === 'erase' && styles.toolButtonActive]}
+          onPress={() => setMode('erase')}
+        >
+          <Ionicons name="remove-circle-outline" size={18} color={mode === 'erase' ? '#fff' : '#333'} />
+          <Text style={[styles.toolText, mode === 'erase' && styles.toolTextActive]}>Erase</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.toolButton, mode === 'restore' && styles.toolButtonActive]}
+          onPress={() => setMode('restore')}
+        >
+          <Ionicons name="add-circle-outline" size={18} color={mode === 'restore' ? '#fff' : '#333'} />
+          <Text style={[styles.toolText, mode === 'restore' && styles.toolTextActive]}>Restore</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.toolButton} onPress={handleUndo} disabled={history.length === 0}>
+          <Ionicons name="arrow-undo-outline" size={18} color={history.length === 0 ? '#BDBDBD' : '#333'} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.toolbar}>
+        {BRUSH_SIZES.map((radius) => (
+          <TouchableOpacity
+            key={radius}
+            style={[styles.sizeButton, brushSize === radius && styles.sizeButtonActive]}
+            onPress={() => setBrushSize(radius)}
+          >
+            <View style={[styles.sizeDot, { width: radius, height: radius, borderRadius: radius / 2 }]} />
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  canvas: {
+    backgroundColor: '#E0E0E0',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  underlay: {
+    opacity: 0.25,
+  },
+  dab: {
+    position: 'absolute',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  toolButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F5F5F5',
+  },
+  toolButtonActive: {
+    backgroundColor: '#4CAF50',
+  },
+  toolText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  toolTextActive: {
+    color: '#fff',
+  },
+  sizeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F5F5F5',
+  },
+  sizeButtonActive: {
+    borderWidth: 2,
+    borderColor: '#4CAF50',
+  },
+  sizeDot: {
+    backgroundColor: '#333',
+  },
+});
+
+export default MaskBrush;
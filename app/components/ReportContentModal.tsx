@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  moderationService,
+  REPORT_CATEGORIES,
+  type ReportCategory,
+  type ReportTargetType,
+} from '../services/moderation';
+
+interface ReportContentModalProps {
+  visible: boolean;
+  targetType: ReportTargetType;
+  // null while nothing is being reported
+  targetId: string | null;
+  onClose: () => void;
+}
+
+const TARGET_LABELS: Record<ReportTargetType, string> = {
+  animal: 'sighting',
+  comment: 'comment',
+  lost_animal: 'post',
+};
+
+/**
+ * Report a sighting, comment or lost animal post to the moderators
+ */
+const ReportContentModal: React.FC<ReportContentModalProps> = ({
+  visible,
+  targetType,
+  targetId,
+  onClose,
+}) => {
+  const [category, setCategory] = useState<ReportCategory | null>(null);
+  const [note, setNote] = useState('');
+  const [sending, setSending] = useState(false);
+
+  // Start fresh for every item
+  useEffect(() => {
+    if (visible) {
+      setCategory(null);
+      setNote('');
+    }
+  }, [visible, targetId]);
+
+  const handleSubmit = async () => {
+    if (!targetId || !category) return;
+
+    setSending(true);
+    const success = await moderationService.report(targetType, targetId, category, note);
+    setSending(false);
+
+    if (success) {
+      onClose();
+      Alert.alert('Thanks for letting us know', 'A moderator will review this soon.');
+    } else {
+      Alert.alert('Error', 'Failed to send the report. Please try again.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Report this {TARGET_LABELS[targetType]}</Text>
+          {REPORT_CATEGORIES.map((option) => {
+            const active = category === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.option, active && styles.optionActive]}
+                onPress={() => setCategory(option.value)}
+              >
+                <Text style={[styles.optionLabel, active && styles.optionLabelActive]}>
+                  {option.label}
+                </Text>
+                <Text style={styles.optionDescription}>{option.description}</Text>
+              </TouchableOpacity>
+            );
+          })}
+          <TextInput
+            style={styles.noteInput}
+            placeholder="Anything the moderators should know? (optional)"
+            placeholderTextColor="#9E9E9E"
+            value={note}
+            onChangeText={setNote}
+            maxLength={500}
+            multiline
+          />
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, (!category || sending) && styles.submitDisabled]}
+              onPress={handleSubmit}
+              disabled={!category || sending}
+            >
+              {sending ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitText}>Report</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  content: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 12,
+  },
+  option: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F5F5F5',
+    marginBottom: 8,
+  },
+  optionActive: {
+    backgroundColor: '#FFEBEE',
+    borderColor: '#D32F2F',
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#424242',
+  },
+  optionLabelActive: {
+    color: '#D32F2F',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#757575',
+    marginTop: 2,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 4,
+    minHeight: 60,
+    fontSize: 14,
+    color: '#212121',
+    textAlignVertical: 'top',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#F5F5F5',
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#757575',
+  },
+  submitButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#D32F2F',
+    alignItems: 'center',
+  },
+  submitDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
+
+export default ReportContentModal;
@@ -0,0 +1,414 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { COLORS } from '../styles/theme';
+import {
+  individualsService,
+  type Individual,
+  type IndividualSighting,
+  type SimilarSighting,
+} from '../services/individuals';
+
+interface SightingHistoryProps {
+  animal: {
+    id: string;
+    individual_id?: string | null;
+    image_hash?: string | null;
+    latitude: number;
+    longitude: number;
+    animal_type?: 'cat' | 'dog';
+    auth_user_id?: string | null;
+  };
+  userId?: string | null;
+  onOpenSighting: (sightingId: string) => void;
+  // Called after a merge or split so the screen can reload the animal
+  onChanged: () => void;
+}
+
+/**
+ * Timeline and mini-map of every sighting linked to the same individual
+ * Owners can merge lookalike sightings in or split sightings out
+ */
+const SightingHistory: React.FC<SightingHistoryProps> = ({ animal, userId, onOpenSighting, onChanged }) => {
+  const [individual, setIndividual] = useState<Individual | null>(null);
+  const [sightings, setSightings] = useState<IndividualSighting[]>([]);
+  const [candidates, setCandidates] = useState<SimilarSighting[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  const isOwner = !!userId && animal.auth_user_id === userId;
+  const isCreator = !!userId && individual?.created_by === userId;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      if (animal.individual_id) {
+        const [loadedIndividual, loadedSightings] = await Promise.all([
+          individualsService.getIndividual(animal.individual_id),
+          individualsService.getIndividualSightings(animal.individual_id),
+        ]);
+        setIndividual(loadedIndividual);
+        setSightings(loadedSightings);
+      } else {
+        setIndividual(null);
+        setSightings([]);
+      }
+
+      if (isOwner) {
+        setCandidates(await individualsService.getMergeCandidates(animal));
+      } else {
+        setCandidates([]);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [animal.id, animal.individual_id, animal.image_hash, isOwner]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const region = useMemo(() => {
+    const points = sightings.length > 0 ? sightings : [animal];
+    const lats = points.map((p) => p.latitude);
+    const lngs = points.map((p) => p.longitude);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLng = Math.min(...lngs);
+    const maxLng = Math.max(...lngs);
+    return {
+      latitude: (minLat + maxLat) / 2,
+      longitude: (minLng + maxLng) / 2,
+      latitudeDelta: Math.max((maxLat - minLat) * 1.5, 0.005),
+      longitudeDelta: Math.max((maxLng - minLng) * 1.5, 0.005),
+    };
+  }, [sightings, animal.latitude, animal.longitude]);
+
+  const handleMerge = (candidate: SimilarSighting) => {
+    Alert.alert(
+      'Same animal?',
+      `Link the sighting from ${new Date(candidate.spotted_at).toLocaleDateString()} to this animal's history?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Link',
+          onPress: async () => {
+            setUpdating(true);
+            const individualId = await individualsService.mergeSightings(animal.id, candidate.id);
+            setUpdating(false);
+            if (!individualId) {
+              Alert.alert('Error', 'Failed to link sightings');
+              return;
+            }
+            onChanged();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSplit = (sighting: IndividualSighting) => {
+    Alert.alert(
+      'Not the same animal?',
+      'This sighting will be removed from the history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setUpdating(true);
+            const success = await individualsService.splitSighting(sighting.id);
+            setUpdating(false);
+            if (!success) {
+              Alert.alert('Error', 'Failed to remove sighting');
+              return;
+            }
+            if (sighting.id === animal.id) {
+              onChanged();
+            } else {
+              load();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Nothing to show for a lone sighting that the viewer can't link
+  if (!animal.individual_id && candidates.length === 0) {
+    return null;
+  }
+
+  const firstSeen = individual?.first_seen_at ?? sightings[0]?.spotted_at;
+  const lastSeen = individual?.last_seen_at ?? sightings[sightings.length - 1]?.spotted_at;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Sighting History</Text>
+
+      {loading ? (
+        <ActivityIndicator color={COLORS.activeButton} style={styles.loader} />
+      ) : (
+        <>
+          {sightings.length > 0 && (
+            <>
+              <View style={styles.summaryRow}>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>First seen</Text>
+                  <Text style={styles.summaryValue}>
+                    {firstSeen ? new Date(firstSeen).toLocaleDateString() : '—'}
+                  </Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>Last seen</Text>
+                  <Text style={styles.summaryValue}>
+                    {lastSeen ? formatDistanceToNow(new Date(lastSeen), { addSuffix: true }) : '—'}
+                  </Text>
+                </View>
+                <View style={styles.summaryItem}>
+                  <Text style={styles.summaryLabel}>Sightings</Text>
+                  <Text style={styles.summaryValue}>{sightings.length}</Text>
+                </View>
+              </View>
+
+              <View style={styles.mapContainer}>
+                <MapView
+                  style={styles.map}
+                  region={region}
+                  scrollEnabled={false}
+                  zoomEnabled={false}
+                  rotateEnabled={false}
+                >
+                  {sightings.map((sighting, index) => (
+                    <Marker
+                      key={sighting.id}
+                      coordinate={{ latitude: sighting.latitude, longitude: sighting.longitude }}
+                      pinColor={sighting.id === animal.id ? COLORS.activeButton : undefined}
+                      title={`#${index + 1}`}
+                      description={new Date(sighting.spotted_at).toLocaleDateString()}
+                    />
+                  ))}
+                </MapView>
+              </View>
+
+              <View style={styles.timeline}>
+                {[...sightings].reverse().map((sighting, index) => {
+                  const isCurrent = sighting.id === animal.id;
+                  const canSplit = isCreator || (!!userId && sighting.auth_user_id === userId);
+                  return (
+                    <View key={sighting.id} style={styles.timelineRow}>
+                      <View style={styles.timelineRail}>
+                        <View style={[styles.timelineDot, isCurrent && styles.timelineDotCurrent]} />
+                        {index < sightings.length - 1 && <View style={styles.timelineLine} />}
+                      </View>
+                      <TouchableOpacity
+                        style={styles.timelineCard}
+                        onPress={() => !isCurrent && onOpenSighting(sighting.id)}
+                        disabled={isCurrent}
+                      >
+                        <Image source={{ uri: sighting.image_url }} style={styles.timelineImage} />
+                        <View style={styles.timelineInfo}>
+                          <Text style={styles.timelineDate}>
+                            {new Date(sighting.spotted_at).toLocaleDateString()}
+                          </Text>
+                          <Text style={styles.timelineMeta} numberOfLines={1}>
+                            {isCurrent ? 'This sighting' : sighting.description || sighting.name || 'Sighting'}
+                          </Text>
+                        </View>
+                        {canSplit && (
+                          <TouchableOpacity
+                            style={styles.iconButton}
+                            onPress={() => handleSplit(sighting)}
+                            disabled={updating}
+                          >
+                            <Ionicons name="remove-circle-outline" size={22} color="#D32F2F" />
+                          </TouchableOpacity>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          {candidates.length > 0 && (
+            <View style={styles.candidates}>
+              <Text style={styles.candidatesTitle}>Seen this animal elsewhere?</Text>
+              {candidates.map((candidate) => (
+                <View key={candidate.id} style={styles.candidateRow}>
+                  <Image source={{ uri: candidate.image_url }} style={styles.timelineImage} />
+                  <View style={styles.timelineInfo}>
+                    <Text style={styles.timelineDate}>
+                      {new Date(candidate.spotted_at).toLocaleDateString()}
+                    </Text>
+                    <Text style={styles.timelineMeta}>
+                      {Math.round(candidate.distance_m)} m away
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.linkButton, updating && styles.buttonDisabled]}
+                    onPress={() => handleMerge(candidate)}
+                    disabled={updating}
+                  >
+                    <Ionicons name="link-outline" size={16} color="#fff" />
+                    <Text style={styles.linkButtonText}>Link</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#757575',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#212121',
+    textAlign: 'center',
+  },
+  mapContainer: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#f5f5f5',
+    marginBottom: 12,
+  },
+  map: {
+    width: '100%',
+    height: 160,
+  },
+  timeline: {
+    paddingLeft: 4,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineRail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#bdbdbd',
+    marginTop: 22,
+  },
+  timelineDotCurrent: {
+    backgroundColor: COLORS.activeButton,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e0e0e0',
+  },
+  timelineCard: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    marginLeft: 8,
+  },
+  timelineImage: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#eee',
+  },
+  timelineInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  timelineDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  timelineMeta: {
+    fontSize: 13,
+    color: '#757575',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  candidates: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#E8F5E9',
+  },
+  candidatesTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
+    marginBottom: 8,
+  },
+  candidateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.activeButton,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 4,
+  },
+  linkButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default SightingHistory;
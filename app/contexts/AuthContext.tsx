@@ -4,6 +4,8 @@ import { Linking } from 'react-native';
 import * as WebBrowser from 'expo-web-browser';
 import { supabase } from '../services/api/supabaseClient';
 import { profileCache } from '../services/profileCache';
+import { profileResolver } from '../services/profileResolver';
+import { petalogService } from '../services/petalogService';
 
 // Complete the WebBrowser session when the component unmounts
 WebBrowser.maybeCompleteAuthSession();
@@ -15,6 +17,8 @@ export type UserProfile = {
   avatar_url: string | null;
   is_supporter: boolean;
   supporter_since: string | null;
+  role: 'user' | 'admin';
+  banned_at: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -145,6 +149,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         const profileData = data as UserProfile;
         setProfile(profileData);
         await profileCache.save(userId, profileData);
+        // Show our own latest name and avatar next to our comments
+        await profileResolver.prime({
+          id: profileData.id,
+          display_name: profileData.display_name,
+          avatar_url: profileData.avatar_url,
+        });
 
         if (__DEV__) {
           console.log('[AuthContext] Profile fetched and cached successfully');
@@ -228,6 +238,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
               retryTimerRef.current = null;
             }
             fetchProfile(session.user.id);
+            // Bring a Pet-a-log made before signing in into the account, once
+            petalogService.migrateLocalCollection(session.user.id);
           }
         } else {
           // User signed out
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NotificationDigestMode } from '../types';
 
 type SettingsContextType = {
   notificationRadius: number;
@@ -12,6 +13,8 @@ type SettingsContextType = {
   setIsBackgroundTrackingEnabled: (enabled: boolean) => void;
   searchRadius: number;
   setSearchRadius: (radius: number) => void;
+  notificationDigest: NotificationDigestMode;
+  setNotificationDigest: (mode: NotificationDigestMode) => void;
 };
 
 const defaultSettings: Omit<
@@ -21,12 +24,14 @@ const defaultSettings: Omit<
   | 'setIsNotificationsEnabled'
   | 'setIsBackgroundTrackingEnabled'
   | 'setSearchRadius'
+  | 'setNotificationDigest'
 > = {
   notificationRadius: 0.8, // Default radius in kilometers (0.5 miles ≈ 0.8 km)
   notificationTimeFrame: 24, // Default time frame in hours
   isNotificationsEnabled: true,
   isBackgroundTrackingEnabled: false,
   searchRadius: 50, // Default search radius in kilometers (about 31 miles)
+  notificationDigest: 'off',
 };
 
 const SettingsContext = createContext<SettingsContextType | undefined>(
@@ -58,6 +63,8 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
   const [searchRadius, setSearchRadiusState] = useState(
     defaultSettings.searchRadius
   );
+  const [notificationDigest, setNotificationDigestState] =
+    useState<NotificationDigestMode>(defaultSettings.notificationDigest);
 
   // Load settings from AsyncStorage on mount
   useEffect(() => {
@@ -84,6 +91,9 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
           setSearchRadiusState(
             settings.searchRadius ?? defaultSettings.searchRadius
           );
+          setNotificationDigestState(
+            settings.notificationDigest ?? defaultSettings.notificationDigest
+          );
         }
       } catch (error) {
         console.error('Error loading settings:', error);
@@ -110,6 +120,7 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       notificationTimeFrame,
       isNotificationsEnabled,
       isBackgroundTrackingEnabled,
+      notificationDigest,
     });
   };
 
@@ -120,6 +131,7 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       notificationTimeFrame: hours,
       isNotificationsEnabled,
       isBackgroundTrackingEnabled,
+      notificationDigest,
     });
   };
 
@@ -130,6 +142,7 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       notificationTimeFrame,
       isNotificationsEnabled: enabled,
       isBackgroundTrackingEnabled,
+      notificationDigest,
     });
   };
 
@@ -141,6 +154,7 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       isNotificationsEnabled,
       isBackgroundTrackingEnabled: enabled,
       searchRadius,
+      notificationDigest,
     });
   };
 
@@ -152,6 +166,19 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       isNotificationsEnabled,
       isBackgroundTrackingEnabled,
       searchRadius: radius,
+      notificationDigest,
+    });
+  };
+
+  const setNotificationDigest = (mode: NotificationDigestMode) => {
+    setNotificationDigestState(mode);
+    saveSettings({
+      notificationRadius,
+      notificationTimeFrame,
+      isNotificationsEnabled,
+      isBackgroundTrackingEnabled,
+      searchRadius,
+      notificationDigest: mode,
     });
   };
 
@@ -168,6 +195,8 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
         setIsBackgroundTrackingEnabled,
         searchRadius,
         setSearchRadius,
+        notificationDigest,
+        setNotificationDigest,
       }}
     >
       {children}
@@ -19,19 +19,28 @@ import PetALogScreen from '../screens/PetALogScreen';
 import LostAnimalsScreen from '../screens/LostAnimalsScreen';
 import CreateLostAnimalScreen from '../screens/CreateLostAnimalScreen';
 import LostAnimalDetailsScreen from '../screens/LostAnimalDetailsScreen';
+import WatchZonesScreen from '../screens/WatchZonesScreen';
+import DigestScreen from '../screens/DigestScreen';
+import MatchReviewScreen from '../screens/MatchReviewScreen';
+import ModerationQueueScreen from '../screens/ModerationQueueScreen';
 import { useAuth } from '../contexts/AuthContext';
+import { linking, setLinkingReady } from './linking';
 
 // types for navigation parameters
 export type RootStackParamList = {
   Onboarding: undefined;
   Main: undefined;
   SignIn: undefined;
-  CatDetails: { catId: string };
+  CatDetails: { catId: string; tab?: 'details' | 'comments' };
   AddCat: { latitude?: number; longitude?: number } | undefined;
   EditAnimal: { animalId: string };
   LostAnimals: undefined;
   CreateLostAnimal: undefined;
   LostAnimalDetails: { lostAnimalId: string };
+  MatchReview: { matchId: string };
+  WatchZones: undefined;
+  Digest: { digestId?: string } | undefined;
+  ModerationQueue: undefined;
 };
 
 export type MainTabParamList = {
@@ -158,6 +167,12 @@ const RootNavigator = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Open held deep links once the main stack is showing
+  const isMainStackShown = !isLoading && !authLoading && onboardingCompleted && !!user;
+  useEffect(() => {
+    setLinkingReady(isMainStackShown);
+  }, [isMainStackShown]);
+
   // Determine which screen to show
   const getInitialRoute = (): keyof RootStackParamList => {
     if (!onboardingCompleted) {
@@ -259,6 +274,54 @@ const RootNavigator = () => {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="MatchReview"
+        component={MatchReviewScreen}
+        options={{
+          headerShown: true,
+          title: "Review Match",
+          headerStyle: {
+            backgroundColor: THEME.primary,
+          },
+          headerTintColor: THEME.secondary,
+        }}
+      />
+      <Stack.Screen
+        name="WatchZones"
+        component={WatchZonesScreen}
+        options={{
+          headerShown: true,
+          title: "Watch Zones",
+          headerStyle: {
+            backgroundColor: THEME.primary,
+          },
+          headerTintColor: THEME.secondary,
+        }}
+      />
+      <Stack.Screen
+        name="Digest"
+        component={DigestScreen}
+        options={{
+          headerShown: true,
+          title: "Your Digest",
+          headerStyle: {
+            backgroundColor: THEME.primary,
+          },
+          headerTintColor: THEME.secondary,
+        }}
+      />
+      <Stack.Screen
+        name="ModerationQueue"
+        component={ModerationQueueScreen}
+        options={{
+          headerShown: true,
+          title: "Moderation",
+          headerStyle: {
+            backgroundColor: THEME.primary,
+          },
+          headerTintColor: THEME.secondary,
+        }}
+      />
     </Stack.Navigator>
   );
 };
@@ -266,7 +329,7 @@ const RootNavigator = () => {
 // main app container
 const Navigation = ({ navigationRef }: { navigationRef?: React.RefObject<NavigationContainerRef<RootStackParamList>> }) => {
   return (
-    <NavigationContainer ref={navigationRef}>
+    <NavigationContainer ref={navigationRef} linking={linking}>
       <RootNavigator />
     </NavigationContainer>
   );
@@ -0,0 +1,133 @@
+import { Linking } from 'react-native';
+import { LinkingOptions } from '@react-navigation/native';
+import * as Notifications from 'expo-notifications';
+import type { RootStackParamList } from './index';
+
+// Matches "scheme" in app.json
+export const LINK_PREFIX = 'straysync://';
+// Landing site claimed as a universal/app link in app.json ("associatedDomains"
+// and "intentFilters"), it shows the post in the browser without the app
+export const WEB_LINK_PREFIX = 'https://stray-sync-landing.vercel.app/';
+
+// Build in-app URLs, e.g. for sharing or notification payloads
+export const links = {
+  sighting: (catId: string) => `${LINK_PREFIX}sighting/${catId}`,
+  comments: (catId: string) => `${LINK_PREFIX}sighting/${catId}/comments`,
+  lostAnimal: (lostAnimalId: string) => `${LINK_PREFIX}lost/${lostAnimalId}`,
+  match: (matchId: string) => `${LINK_PREFIX}match/${matchId}`,
+  digest: (digestId?: string) => `${LINK_PREFIX}digest${digestId ? `/${digestId}` : ''}`,
+};
+
+// Links for outside the app, e.g. printed QR codes, open any phone's browser
+export const webLinks = {
+  lostAnimal: (lostAnimalId: string) => `${WEB_LINK_PREFIX}lost/${lostAnimalId}`,
+};
+
+/**
+ * Map a notification's data payload to an in-app URL
+ * Dispatches on data.type, as set by the edge functions and local notifications
+ */
+export const getNotificationLink = (data: Record<string, any> | undefined): string | null => {
+  if (!data) return null;
+
+  switch (data.type) {
+    case 'lost_animal_match':
+      if (data.matchId) return links.match(data.matchId);
+      if (data.lostAnimalId) return links.lostAnimal(data.lostAnimalId);
+      return data.sightingId ? links.sighting(data.sightingId) : null;
+    case 'match_confirmed':
+    case 'match_reunited':
+    case 'sighting_match':
+    case 'match_reporter_update':
+      return data.matchId ? links.match(data.matchId) : null;
+    case 'watch_zone_sighting':
+      return data.sightingId ? links.sighting(data.sightingId) : null;
+    case 'favorite_rescued':
+      return data.animalId ? links.sighting(data.animalId) : null;
+    case 'comment':
+    case 'comment_mention':
+      return data.animalId ? links.comments(data.animalId) : null;
+    case 'notification_digest':
+      return links.digest(data.digestId);
+    default:
+      return null;
+  }
+};
+
+// Links that arrive before the main stack is mounted (onboarding, signed out,
+// auth still loading) are held here and opened once it is
+let isReady = false;
+let pendingUrl: string | null = null;
+let deliver: ((url: string) => void) | null = null;
+
+const handleUrl = (url: string | null) => {
+  if (!url) return;
+  if (isReady && deliver) {
+    deliver(url);
+  } else {
+    pendingUrl = url;
+  }
+};
+
+/**
+ * Called by the root navigator whenever the main stack mounts or unmounts
+ */
+export const setLinkingReady = (ready: boolean) => {
+  isReady = ready;
+  if (ready && pendingUrl && deliver) {
+    const url = pendingUrl;
+    pendingUrl = null;
+    deliver(url);
+  }
+};
+
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [LINK_PREFIX, WEB_LINK_PREFIX],
+  config: {
+    screens: {
+      Main: {
+        screens: {
+          Map: 'map',
+          Animals: 'animals',
+          PetALog: 'petalog',
+          Profile: 'profile',
+          Settings: 'settings',
+        },
+      },
+      CatDetails: 'sighting/:catId/:tab?',
+      LostAnimalDetails: 'lost/:lostAnimalId',
+      MatchReview: 'match/:matchId',
+      WatchZones: 'watch-zones',
+      Digest: 'digest/:digestId?',
+    },
+  },
+
+  // Cold start from a link or a notification tap
+  async getInitialURL() {
+    const url = await Linking.getInitialURL();
+    const response = url ? null : await Notifications.getLastNotificationResponseAsync();
+    const initialUrl = url ?? getNotificationLink(response?.notification.request.content.data);
+
+    // Never let the container resolve it itself, the stack may not be mounted yet
+    handleUrl(initialUrl);
+    return null;
+  },
+
+  subscribe(listener) {
+    deliver = listener;
+
+    const linkSubscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    const notificationSubscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      handleUrl(getNotificationLink(response.notification.request.content.data));
+    });
+
+    // Something may have been held before we subscribed
+    setLinkingReady(isReady);
+
+    return () => {
+      deliver = null;
+      linkSubscription.remove();
+      notificationSubscription.remove();
+    };
+  },
+};
@@ -17,6 +17,7 @@ import {
   TouchableWithoutFeedback,
   LayoutChangeEvent,
   SafeAreaView,
+  Modal,
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp, CommonActions } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -29,6 +30,12 @@ import { locationService } from '../services/location/locationService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuth } from '../contexts/AuthContext';
 import { aiAnalysisService } from '../services/aiAnalysis';
+import { sightingQueue, SightingDraft } from '../services/sightingQueue';
+import CoatColorPicker from '../components/CoatColorPicker';
+import LocationPrivacyPicker from '../components/LocationPrivacyPicker';
+import { DEFAULT_LOCATION_PRIVACY } from '../services/location/locationPrivacy';
+import type { LocationPrivacy } from '../types';
+import { individualsService, SimilarSighting } from '../services/individuals';
 
 type AddCatScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -58,6 +65,10 @@ const AddCatScreen: React.FC = () => {
   const [animalType, setAnimalType] = useState<'cat' | 'dog'>('cat');
   const [locationName, setLocationName] = useState('Current Location');
 
+  // Lookalike sightings nearby, shown before creating a possible duplicate
+  const [similarSightings, setSimilarSightings] = useState<SimilarSighting[]>([]);
+  const sameAnimalResolver = useRef<((sightingId: string | null) => void) | null>(null);
+
   // Additional animal details
   const [breed, setBreed] = useState('');
   const [color, setColor] = useState('');
@@ -66,6 +77,7 @@ const AddCatScreen: React.FC = () => {
   const [healthStatus, setHealthStatus] = useState<'healthy' | 'injured' | 'sick' | 'unknown'>('unknown');
   const [isNeutered, setIsNeutered] = useState(false);
   const [isAdoptable, setIsAdoptable] = useState(false);
+  const [locationPrivacy, setLocationPrivacy] = useState<LocationPrivacy>(DEFAULT_LOCATION_PRIVACY);
   const [contactInfo, setContactInfo] = useState('');
   const [showDetails, setShowDetails] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
@@ -382,11 +394,10 @@ const AddCatScreen: React.FC = () => {
             {/* Color */}
             <View style={styles.detailField}>
               <Text style={styles.detailLabel}>Color</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="e.g., Orange, Black & White, Brown"
+              <CoatColorPicker
                 value={color}
-                onChangeText={setColor}
+                onChange={setColor}
+                animalType={animalType}
               />
             </View>
 
@@ -500,6 +511,38 @@ const AddCatScreen: React.FC = () => {
     );
   };
 
+  // Queue the sighting in the outbox when it can't be posted right now
+  const saveForLater = async (draft: SightingDraft, imageUrl?: string) => {
+    try {
+      await sightingQueue.enqueue(imageUri!, draft, imageUrl);
+      navigation.goBack();
+
+      setTimeout(() => {
+        Alert.alert(
+          'Saved Offline',
+          `Your ${animalType} sighting will be uploaded automatically once you're back online. You can check its status in your profile.`
+        );
+      }, 100);
+    } catch (error) {
+      console.error('Failed to queue sighting:', error);
+      Alert.alert('Error', 'Failed to save animal sighting. Please try again.');
+    }
+  };
+
+  // Ask whether the new photo shows one of the lookalike sightings
+  // Resolves with the chosen sighting ID, or null for a new animal
+  const askSameAnimal = (candidates: SimilarSighting[]) =>
+    new Promise<string | null>((resolve) => {
+      sameAnimalResolver.current = resolve;
+      setSimilarSightings(candidates);
+    });
+
+  const resolveSameAnimal = (sightingId: string | null) => {
+    sameAnimalResolver.current?.(sightingId);
+    sameAnimalResolver.current = null;
+    setSimilarSightings([]);
+  };
+
   // Update the handleSubmit function to include the animal_type
   const handleSubmit = async () => {
     console.log('Submit button pressed');
@@ -527,34 +570,13 @@ const AddCatScreen: React.FC = () => {
 
       console.log('Using user ID:', userId);
 
-      // Use the catService's uploadImage method instead of direct Supabase calls
-      console.log('Uploading image using catService...');
-      let imageUrl;
-
-      try {
-        imageUrl = await catService.uploadImage(imageUri, userId);
-        console.log('Image uploaded successfully, URL:', imageUrl);
-      } catch (uploadError) {
-        console.error('Error uploading image:', uploadError);
-        Alert.alert('Upload Error', 'Failed to upload image. Please try again.');
-        setLoading(false);
-        return;
-      }
-
-      if (!imageUrl) {
-        console.error('No image URL returned from upload');
-        Alert.alert('Upload Error', 'Failed to get image URL. Please try again.');
-        setLoading(false);
-        return;
-      }
-
-      // Prepare the cat data with all details
-      const catData = {
+      // Prepare the sighting details (image URL is added after upload)
+      const draft: SightingDraft = {
         user_id: userId,
         auth_user_id: userId, // Use authenticated user ID
         latitude: location.latitude,
         longitude: location.longitude,
-        image_url: imageUrl,
+        location_privacy: locationPrivacy,
         description: description || name || `A stray ${animalType} spotted at this location`,
         spotted_at: new Date().toISOString(),
         animal_type: animalType,
@@ -570,11 +592,45 @@ const AddCatScreen: React.FC = () => {
         contact_info: isAdoptable && contactInfo ? contactInfo : null,
       };
 
+      // No signal - keep the sighting in the outbox and sync it later
+      if (!(await sightingQueue.isOnline())) {
+        console.log('Device is offline, queueing sighting');
+        await saveForLater(draft);
+        return;
+      }
+
+      // A failed upload (e.g. a flaky connection) keeps the sighting in the outbox
+      console.log('Uploading image using catService...');
+      const imageUrl = await catService.uploadSightingPhoto(imageUri, userId);
+      if (!imageUrl) {
+        console.error('Image upload failed, queueing for retry');
+        await saveForLater(draft);
+        return;
+      }
+      console.log('Image uploaded successfully, URL:', imageUrl);
+
+      // Check for a lookalike reported nearby before creating a duplicate
+      const imageHash = await individualsService.hashImage(imageUrl);
+      let sameAsSightingId: string | undefined;
+      if (imageHash) {
+        const similar = await individualsService.findSimilarSightings({
+          imageHash,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          animalType,
+        });
+        if (similar.length > 0) {
+          sameAsSightingId = (await askSameAnimal(similar)) ?? undefined;
+        }
+      }
+
+      const catData = { ...draft, image_url: imageUrl, image_hash: imageHash };
+
       console.log('Animal data prepared:', JSON.stringify(catData, null, 2));
 
       // Add the cat to the database
       console.log('Attempting to add cat to database');
-      const newCat = await catService.addCat(catData);
+      const newCat = await catService.addCat(catData, { sameAsSightingId });
 
       if (newCat) {
         console.log('Successfully added animal:', newCat.id);
@@ -613,8 +669,9 @@ const AddCatScreen: React.FC = () => {
           );
         }, 100);
       } else {
-        console.error('Failed to add animal to database');
-        Alert.alert('Error', 'Failed to save animal sighting. Please try again.');
+        console.error('Failed to add animal to database, queueing for retry');
+        // The photo is already in storage, don't upload it again
+        await saveForLater(draft, imageUrl);
       }
     } catch (error) {
       console.error('Unhandled error in handleSubmit:', error);
@@ -755,6 +812,9 @@ const AddCatScreen: React.FC = () => {
                 </MapView>
                 <Text style={styles.dragPinText}>Drag the pin to adjust location</Text>
               </View>
+
+              <Text style={[styles.detailLabel, styles.privacyLabel]}>Who sees the exact spot?</Text>
+              <LocationPrivacyPicker value={locationPrivacy} onChange={setLocationPrivacy} />
             </View>
 
             <TouchableOpacity
@@ -772,6 +832,52 @@ const AddCatScreen: React.FC = () => {
               )}
             </TouchableOpacity>
           </ScrollView>
+
+          {/* Same animal prompt */}
+          <Modal
+            visible={similarSightings.length > 0}
+            transparent
+            animationType="slide"
+            onRequestClose={() => resolveSameAnimal(null)}
+          >
+            <View style={styles.sameAnimalOverlay}>
+              <View style={styles.sameAnimalSheet}>
+                <Text style={styles.sameAnimalTitle}>Is this the same animal?</Text>
+                <Text style={styles.sameAnimalSubtitle}>
+                  {similarSightings.length === 1
+                    ? `A similar ${animalType} was already reported nearby.`
+                    : `Similar ${animalType}s were already reported nearby.`}{' '}
+                  Tap it to add your photo to its sighting history.
+                </Text>
+                <ScrollView style={styles.sameAnimalList}>
+                  {similarSightings.map((sighting) => (
+                    <TouchableOpacity
+                      key={sighting.id}
+                      style={styles.sameAnimalCard}
+                      onPress={() => resolveSameAnimal(sighting.id)}
+                    >
+                      <Image source={{ uri: sighting.image_url }} style={styles.sameAnimalImage} />
+                      <View style={styles.sameAnimalInfo}>
+                        <Text style={styles.sameAnimalName} numberOfLines={1}>
+                          {sighting.name || sighting.color || `Stray ${animalType}`}
+                        </Text>
+                        <Text style={styles.sameAnimalMeta}>
+                          Seen {new Date(sighting.spotted_at).toLocaleDateString()} · {Math.round(sighting.distance_m)} m away
+                        </Text>
+                      </View>
+                      <Ionicons name="checkmark-circle-outline" size={24} color={COLORS.activeButton} />
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+                <TouchableOpacity
+                  style={styles.sameAnimalNewButton}
+                  onPress={() => resolveSameAnimal(null)}
+                >
+                  <Text style={styles.sameAnimalNewButtonText}>No, it's a different animal</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </Modal>
         </SafeAreaView>
       </KeyboardAvoidingView>
     </TouchableWithoutFeedback>
@@ -783,6 +889,72 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#fff',
   },
+  sameAnimalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sameAnimalSheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '75%',
+  },
+  sameAnimalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 6,
+  },
+  sameAnimalSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  sameAnimalList: {
+    marginBottom: 12,
+  },
+  sameAnimalCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginBottom: 10,
+    gap: 12,
+  },
+  sameAnimalImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#eee',
+  },
+  sameAnimalInfo: {
+    flex: 1,
+  },
+  sameAnimalName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sameAnimalMeta: {
+    fontSize: 13,
+    color: '#757575',
+    marginTop: 4,
+  },
+  sameAnimalNewButton: {
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+  },
+  sameAnimalNewButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
   scrollContent: {
     padding: 16,
     paddingBottom: 40,
@@ -981,6 +1153,9 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 8,
   },
+  privacyLabel: {
+    marginTop: 16,
+  },
   submitButton: {
     backgroundColor: '#2E7D32',
     borderRadius: 8,
@@ -13,16 +13,19 @@ import {
   StatusBar,
   Modal,
   ScrollView,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
-import { RootStackParamList, Cat } from '../types';
+import { RootStackParamList, Cat, AnimalsCursor, AdvancedFilters } from '../types';
 import { catService } from '../services/supabase';
 import { locationService } from '../services/location';
 import { useSettings } from '../contexts/SettingsContext';
 import { AnimalCardSkeleton } from '../components/SkeletonLoader';
 import { cache, CACHE_KEYS } from '../services/cache';
+import { filterPresetsService, FilterPreset } from '../services/filterPresets';
 
 type AnimalsListScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -31,36 +34,46 @@ type AnimalsListScreenNavigationProp = NativeStackNavigationProp<
 
 type AnimalFilter = 'all' | 'cats' | 'dogs';
 type StatusFilter = 'active' | 'rescued';
+type SortMode = 'recent' | 'distance';
 
-interface AdvancedFilters {
-  adoptable: boolean | null;
-  gender: 'male' | 'female' | 'unknown' | null;
-  healthStatus: 'healthy' | 'injured' | 'sick' | 'unknown' | null;
-  neutered: boolean | null;
+// Loaded pages kept in cache so returning to the list doesn't refetch them
+interface CachedAnimalsList {
+  items: Cat[];
+  nextCursor: AnimalsCursor | null;
 }
 
+const EMPTY_FILTERS: AdvancedFilters = {
+  adoptable: null,
+  gender: null,
+  healthStatus: null,
+  neutered: null,
+};
+
 const AnimalsListScreen: React.FC = () => {
   const navigation = useNavigation<AnimalsListScreenNavigationProp>();
   const { searchRadius } = useSettings();
   const [animals, setAnimals] = useState<Cat[]>([]);
-  const [filteredAnimals, setFilteredAnimals] = useState<Cat[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  // Search text sent to the server, updated after typing pauses
+  const [debouncedQuery, setDebouncedQuery] = useState('');
   const [animalFilter, setAnimalFilter] = useState<AnimalFilter>('all');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [sortMode, setSortMode] = useState<SortMode>('recent');
+  const [nextCursor, setNextCursor] = useState<AnimalsCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [userLocation, setUserLocation] = useState<{
     latitude: number;
     longitude: number;
   } | null>(null);
   const [showFilterModal, setShowFilterModal] = useState(false);
-  const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilters>({
-    adoptable: null,
-    gender: null,
-    healthStatus: null,
-    neutered: null,
-  });
+  // Draft filters edited in the modal, applied on "Apply Filters"
+  const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AdvancedFilters>(EMPTY_FILTERS);
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
 
   // Theme colors
   const THEME = {
@@ -86,98 +99,96 @@ const AnimalsListScreen: React.FC = () => {
     getUserLocation();
   }, []);
 
+  // Rounded to ~1km so small GPS drift keeps using the cached page, while the
+  // page fetched before the location resolved isn't reused once it has
+  const originKey = userLocation
+    ? `${userLocation.latitude.toFixed(2)},${userLocation.longitude.toFixed(2)}`
+    : 'none';
+  const cacheKey = `${CACHE_KEYS.ANIMALS_LIST(animalFilter)}_${statusFilter}_${sortMode}_${originKey}_${searchRadius}km_${JSON.stringify({ q: debouncedQuery.trim(), ...appliedFilters })}`;
+  // Responses for an older query are dropped once the filters or search change
+  const latestCacheKey = useRef(cacheKey);
+  latestCacheKey.current = cacheKey;
+
+  const fetchPage = useCallback(async (cursor: AnimalsCursor | null) => {
+    const page = await catService.getAnimalsPage({
+      animalFilter,
+      status: statusFilter,
+      sort: sortMode,
+      origin: userLocation,
+      radiusKm: searchRadius,
+      search: debouncedQuery,
+      filters: appliedFilters,
+      cursor,
+    });
+
+    // Filter out any invalid animals (missing required fields)
+    const validItems = page.items.filter(animal => {
+      const isValid = animal.id && animal.image_url && animal.latitude && animal.longitude;
+      if (!isValid && __DEV__) {
+        console.warn('[AnimalsListScreen] Filtering out invalid animal:', animal.id);
+      }
+      return isValid;
+    });
+
+    return { items: validItems as Cat[], nextCursor: page.nextCursor };
+  }, [animalFilter, statusFilter, sortMode, userLocation, searchRadius, debouncedQuery, appliedFilters]);
+
   const fetchAnimals = useCallback(async (forceRefresh = false) => {
     try {
       // Check cache first (unless force refresh)
-      const cacheKey = `${CACHE_KEYS.ANIMALS_LIST(animalFilter)}_${statusFilter}`;
-      
       if (!forceRefresh) {
-        const cachedData = cache.get<Cat[]>(cacheKey);
+        const cachedData = cache.get<CachedAnimalsList>(cacheKey);
         if (cachedData) {
-          setAnimals(cachedData);
-          applySearch(cachedData, searchQuery);
+          setAnimals(cachedData.items);
+          setNextCursor(cachedData.nextCursor);
           setLoading(false);
           return;
         }
       }
       
       setLoading(true);
-      let fetchedAnimals: Cat[] = [];
-      
-      // Fetch based on status and animal type filters
-      if (statusFilter === 'rescued') {
-        // Fetch rescued animals
-        if (animalFilter === 'all') {
-          fetchedAnimals = await catService.getRescuedAnimals();
-        } else if (animalFilter === 'cats') {
-          fetchedAnimals = await catService.getRescuedCats();
-        } else if (animalFilter === 'dogs') {
-          fetchedAnimals = await catService.getRescuedDogs();
-        }
-      } else {
-        // Fetch active animals (not rescued)
-        if (animalFilter === 'all') {
-          fetchedAnimals = await catService.getCats();
-        } else if (animalFilter === 'cats') {
-          fetchedAnimals = await catService.getCatsOnly();
-        } else if (animalFilter === 'dogs') {
-          fetchedAnimals = await catService.getDogsOnly();
-        }
-      }
-      
-      // Filter by distance if user location is available
-      if (userLocation) {
-        console.log('[AnimalsListScreen] User location:', userLocation);
-        console.log('[AnimalsListScreen] Search radius:', searchRadius, 'km');
-        console.log('[AnimalsListScreen] Animals before distance filter:', fetchedAnimals.length);
-        
-        const beforeFilter = fetchedAnimals.length;
-        const allAnimals = [...fetchedAnimals]; // Keep a copy
-        
-        fetchedAnimals = fetchedAnimals.filter(animal => {
-          const distance = locationService.calculateDistance(
-            userLocation.latitude,
-            userLocation.longitude,
-            animal.latitude,
-            animal.longitude
-          );
-          const withinRadius = distance <= searchRadius;
-          if (!withinRadius && __DEV__) {
-            console.log(`[AnimalsListScreen] Animal ${animal.id} is ${distance.toFixed(2)}km away (outside ${searchRadius}km radius)`);
-          }
-          return withinRadius;
-        });
-        
-        console.log('[AnimalsListScreen] Animals after distance filter:', fetchedAnimals.length);
-        
-        if (fetchedAnimals.length === 0 && beforeFilter > 0) {
-          console.warn('[AnimalsListScreen] All animals filtered out by distance! Increase search radius in Settings to see more animals.');
-        }
-      } else {
-        console.log('[AnimalsListScreen] No user location, showing all animals');
-      }
-      
-      // Filter out any invalid animals (missing required fields)
-      fetchedAnimals = fetchedAnimals.filter(animal => {
-        const isValid = animal.id && animal.image_url && animal.latitude && animal.longitude;
-        if (!isValid && __DEV__) {
-          console.warn('[AnimalsListScreen] Filtering out invalid animal:', animal.id);
-        }
-        return isValid;
-      });
+      const firstPage = await fetchPage(null);
       
       // Cache the results (2 minutes TTL for animals list)
-      cache.set(cacheKey, fetchedAnimals, 2 * 60 * 1000);
+      cache.set<CachedAnimalsList>(cacheKey, firstPage, 2 * 60 * 1000);
       
-      setAnimals(fetchedAnimals);
-      applySearch(fetchedAnimals, searchQuery);
+      if (cacheKey !== latestCacheKey.current) return;
+      setAnimals(firstPage.items);
+      setNextCursor(firstPage.nextCursor);
     } catch (error) {
       console.error('Error fetching animals:', error);
     } finally {
-      setLoading(false);
+      // A newer query still loading keeps the spinner
+      if (cacheKey === latestCacheKey.current) {
+        setLoading(false);
+      }
       setRefreshing(false);
     }
-  }, [animalFilter, statusFilter, searchQuery, userLocation, searchRadius]);
+  }, [cacheKey, fetchPage]);
+
+  // Infinite scroll: append the next page
+  const loadMoreAnimals = async () => {
+    if (!nextCursor || loadingMore || loading || refreshing) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await fetchPage(nextCursor);
+      if (cacheKey !== latestCacheKey.current) return;
+
+      setAnimals(current => {
+        // Skip rows already shown if the list shifted between pages
+        const seen = new Set(current.map(animal => animal.id));
+        const combined = [...current, ...page.items.filter(animal => !seen.has(animal.id))];
+        cache.set<CachedAnimalsList>(cacheKey, { items: combined, nextCursor: page.nextCursor }, 2 * 60 * 1000);
+        return combined;
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more animals:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   // Load from cache on focus, only fetch if cache miss
   useFocusEffect(
@@ -190,55 +201,10 @@ const AnimalsListScreen: React.FC = () => {
     fetchAnimals(false); // Use cache if available
   }, [fetchAnimals]);
 
-  // Re-apply filters when advanced filters change
+  // Load saved filter presets
   useEffect(() => {
-    applySearch(animals, searchQuery);
-  }, [advancedFilters]);
-
-  const applySearch = (animalsList: Cat[], query: string) => {
-    let filtered = animalsList;
-
-    // Apply text search
-    if (query.trim()) {
-      const lowerCaseQuery = query.toLowerCase();
-      filtered = filtered.filter(animal => {
-        const description = animal.description?.toLowerCase() || '';
-        const name = animal.name?.toLowerCase() || '';
-        const breed = animal.breed?.toLowerCase() || '';
-        const color = animal.color?.toLowerCase() || '';
-        const type = animal.animal_type?.toLowerCase() || '';
-        const date = new Date(animal.spotted_at).toLocaleDateString();
-
-        return (
-          description.includes(lowerCaseQuery) ||
-          name.includes(lowerCaseQuery) ||
-          breed.includes(lowerCaseQuery) ||
-          color.includes(lowerCaseQuery) ||
-          type.includes(lowerCaseQuery) ||
-          date.includes(lowerCaseQuery)
-        );
-      });
-    }
-
-    // Apply advanced filters
-    if (advancedFilters.adoptable !== null) {
-      filtered = filtered.filter(animal => animal.is_adoptable === advancedFilters.adoptable);
-    }
-
-    if (advancedFilters.gender !== null) {
-      filtered = filtered.filter(animal => animal.gender === advancedFilters.gender);
-    }
-
-    if (advancedFilters.healthStatus !== null) {
-      filtered = filtered.filter(animal => animal.health_status === advancedFilters.healthStatus);
-    }
-
-    if (advancedFilters.neutered !== null) {
-      filtered = filtered.filter(animal => animal.is_neutered === advancedFilters.neutered);
-    }
-
-    setFilteredAnimals(filtered);
-  };
+    filterPresetsService.getPresets().then(setPresets);
+  }, []);
 
   const handleSearch = (text: string) => {
     setSearchQuery(text);
@@ -250,7 +216,7 @@ const AnimalsListScreen: React.FC = () => {
     
     // Debounce search by 300ms
     searchTimeoutRef.current = setTimeout(() => {
-      applySearch(animals, text);
+      setDebouncedQuery(text);
     }, 300);
   };
   
@@ -274,26 +240,63 @@ const AnimalsListScreen: React.FC = () => {
 
   const getActiveFilterCount = () => {
     let count = 0;
-    if (advancedFilters.adoptable !== null) count++;
-    if (advancedFilters.gender !== null) count++;
-    if (advancedFilters.healthStatus !== null) count++;
-    if (advancedFilters.neutered !== null) count++;
+    if (appliedFilters.adoptable !== null) count++;
+    if (appliedFilters.gender !== null) count++;
+    if (appliedFilters.healthStatus !== null) count++;
+    if (appliedFilters.neutered !== null) count++;
     return count;
   };
 
+  const openFilterModal = () => {
+    setAdvancedFilters(appliedFilters);
+    setShowFilterModal(true);
+  };
+
   const clearAllFilters = () => {
-    setAdvancedFilters({
-      adoptable: null,
-      gender: null,
-      healthStatus: null,
-      neutered: null,
-    });
+    setAdvancedFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
     setShowFilterModal(false);
   };
 
   const applyFiltersAndClose = () => {
+    setAppliedFilters(advancedFilters);
+    setShowFilterModal(false);
+  };
+
+  const applyPreset = (preset: FilterPreset) => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+    setSearchQuery(preset.search);
+    setDebouncedQuery(preset.search);
+    setAnimalFilter(preset.animalFilter);
+    setAdvancedFilters(preset.filters);
+    setAppliedFilters(preset.filters);
     setShowFilterModal(false);
-    applySearch(animals, searchQuery);
+  };
+
+  // Save the search text, animal type and the filters in the modal
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) return;
+    const updated = await filterPresetsService.savePreset({
+      name: presetName,
+      search: searchQuery,
+      animalFilter,
+      filters: advancedFilters,
+    });
+    setPresets(updated);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = (preset: FilterPreset) => {
+    Alert.alert('Delete Preset', `Delete "${preset.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => setPresets(await filterPresetsService.deletePreset(preset.id)),
+      },
+    ]);
   };
 
   const getTimeAgo = (dateString: string) => {
@@ -490,6 +493,47 @@ const AnimalsListScreen: React.FC = () => {
             </View>
 
             <ScrollView style={styles.modalScroll}>
+              {/* Saved presets */}
+              <View style={styles.filterSection}>
+                <Text style={styles.filterLabel}>Saved Filters</Text>
+                {presets.length > 0 ? (
+                  <View style={styles.filterOptions}>
+                    {presets.map((preset) => (
+                      <TouchableOpacity
+                        key={preset.id}
+                        style={styles.presetChip}
+                        onPress={() => applyPreset(preset)}
+                        onLongPress={() => handleDeletePreset(preset)}
+                      >
+                        <Ionicons name="bookmark" size={14} color={THEME.secondary} />
+                        <Text style={styles.presetChipText}>{preset.name}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                ) : (
+                  <Text style={styles.presetHint}>
+                    Save your search and filters to reuse them. Long-press a preset to delete it.
+                  </Text>
+                )}
+                <View style={styles.presetSaveRow}>
+                  <TextInput
+                    style={styles.presetInput}
+                    placeholder="Preset name"
+                    value={presetName}
+                    onChangeText={setPresetName}
+                    placeholderTextColor={THEME.lightText}
+                    maxLength={30}
+                  />
+                  <TouchableOpacity
+                    style={[styles.presetSaveButton, !presetName.trim() && styles.presetSaveButtonDisabled]}
+                    onPress={handleSavePreset}
+                    disabled={!presetName.trim()}
+                  >
+                    <Text style={styles.presetSaveButtonText}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
               {/* Adoptable Filter */}
               <View style={styles.filterSection}>
                 <Text style={styles.filterLabel}>Adoption Status</Text>
@@ -755,7 +799,7 @@ const AnimalsListScreen: React.FC = () => {
 
         <TouchableOpacity
           style={styles.filterIconButton}
-          onPress={() => setShowFilterModal(true)}
+          onPress={openFilterModal}
         >
           <Ionicons name="options-outline" size={24} color={THEME.secondary} />
           {getActiveFilterCount() > 0 && (
@@ -773,8 +817,21 @@ const AnimalsListScreen: React.FC = () => {
         <View style={styles.radiusInfo}>
           <Ionicons name="location" size={16} color={THEME.secondary} />
           <Text style={styles.radiusText}>
-            Showing animals within {searchRadius}km of your location
+            Within {searchRadius}km of your location
           </Text>
+          <TouchableOpacity
+            style={styles.sortButton}
+            onPress={() => setSortMode(sortMode === 'recent' ? 'distance' : 'recent')}
+          >
+            <Ionicons
+              name={sortMode === 'recent' ? 'time-outline' : 'navigate-outline'}
+              size={14}
+              color={THEME.secondary}
+            />
+            <Text style={styles.sortButtonText}>
+              {sortMode === 'recent' ? 'Newest' : 'Nearest'}
+            </Text>
+          </TouchableOpacity>
         </View>
       )}
       
@@ -786,7 +843,7 @@ const AnimalsListScreen: React.FC = () => {
         </View>
       ) : (
         <FlatList
-          data={filteredAnimals}
+          data={animals}
           renderItem={renderAnimalItem}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContent}
@@ -800,6 +857,13 @@ const AnimalsListScreen: React.FC = () => {
             />
           }
           ListEmptyComponent={renderEmptyList}
+          onEndReached={loadMoreAnimals}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator style={styles.listFooter} color={THEME.secondary} />
+            ) : null
+          }
         />
       )}
 
@@ -1061,6 +1125,24 @@ const styles = StyleSheet.create({
     marginLeft: 6,
     fontWeight: '500',
   },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 'auto',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'white',
+    gap: 4,
+  },
+  sortButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  listFooter: {
+    paddingVertical: 16,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -1123,6 +1205,53 @@ const styles = StyleSheet.create({
     color: '#2E7D32',
     fontWeight: '600',
   },
+  presetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: '#E8F5E9',
+  },
+  presetChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  presetHint: {
+    fontSize: 13,
+    color: '#757575',
+  },
+  presetSaveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  presetInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#212121',
+  },
+  presetSaveButton: {
+    backgroundColor: '#2E7D32',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  presetSaveButtonDisabled: {
+    opacity: 0.5,
+  },
+  presetSaveButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
   modalFooter: {
     flexDirection: 'row',
     padding: 20,
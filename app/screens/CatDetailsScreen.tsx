@@ -19,18 +19,25 @@ import {
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation';
-import MapView, { Marker } from 'react-native-maps';
+import MapView, { Marker, Circle } from 'react-native-maps';
 import { Ionicons } from '@expo/vector-icons';
 import { catService, supabase } from '../services/supabase';
 import { locationService } from '../services/location/locationService';
+import { getFuzzRadiusMeters, isApproximateLocation } from '../services/location/locationPrivacy';
+import type { LocationCoordinates } from '../types';
 import { formatDistanceToNow } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 import { CommentsSection } from '../components/CommentsSection';
-import { commentService } from '../services/comments';
+import ReportContentModal from '../components/ReportContentModal';
+import SightingHistory from '../components/SightingHistory';
+import { commentService, Comment } from '../services/comments';
+import CareLog from '../components/CareLog';
 import { COLORS } from '../styles/theme';
 import { favoritesService } from '../services/favorites';
+import { profileResolver } from '../services/profileResolver';
 import BottomSheet, { BottomSheetScrollView, BottomSheetBackdrop } from '@gorhom/bottom-sheet';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { links } from '../navigation/linking';
 
 type CatDetailsScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -39,6 +46,26 @@ type CatDetailsScreenNavigationProp = NativeStackNavigationProp<
 
 type CatDetailsScreenRouteProp = RouteProp<RootStackParamList, 'CatDetails'>;
 
+// Display names of the people involved with a sighting
+interface AnimalPeople {
+  poster: string | null;
+  helpers: string[];
+  rescuers: string[];
+  favoriters: string[];
+}
+
+const NO_PEOPLE: AnimalPeople = { poster: null, helpers: [], rescuers: [], favoriters: [] };
+
+// Most names listed before "and N more"
+const MAX_LISTED_NAMES = 3;
+
+// total counts people whose names weren't loaded, e.g. all favoriters
+const formatNames = (names: string[], total = names.length): string => {
+  const listed = names.slice(0, MAX_LISTED_NAMES);
+  const more = Math.max(total, names.length) - listed.length;
+  return more > 0 ? `${listed.join(', ')} and ${more} more` : listed.join(', ');
+};
+
 const CatDetailsScreen: React.FC = () => {
   const navigation = useNavigation<CatDetailsScreenNavigationProp>();
   const route = useRoute<CatDetailsScreenRouteProp>();
@@ -53,13 +80,20 @@ const CatDetailsScreen: React.FC = () => {
   const [editedDescription, setEditedDescription] = useState('');
   const [savingDescription, setSavingDescription] = useState(false);
   const [distance, setDistance] = useState<string | null>(null);
+  // Set for the poster, or an owner with a confirmed match, of a sighting with a fuzzed location
+  const [exactLocation, setExactLocation] = useState<LocationCoordinates | null>(null);
+  const [reportVisible, setReportVisible] = useState(false);
   const [hasHelped, setHasHelped] = useState(false);
   const [hasRescued, setHasRescued] = useState(false);
   const [recordingAction, setRecordingAction] = useState(false);
-  const [activeTab, setActiveTab] = useState<'details' | 'comments'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'comments'>(route.params?.tab ?? 'details');
   const [commentCount, setCommentCount] = useState(0);
+  // Status update comments, newest first
+  const [careLog, setCareLog] = useState<Comment[]>([]);
+  const [composeStatusUpdate, setComposeStatusUpdate] = useState(false);
   const [isFavorited, setIsFavorited] = useState(false);
   const [favoriteCount, setFavoriteCount] = useState(0);
+  const [people, setPeople] = useState<AnimalPeople>(NO_PEOPLE);
   const [rescuerName, setRescuerName] = useState('');
   const [rescuerPhone, setRescuerPhone] = useState('');
   const [rescuerEmail, setRescuerEmail] = useState('');
@@ -118,9 +152,10 @@ const CatDetailsScreen: React.FC = () => {
         setAnimal(animalDetails);
         setEditedDescription(animalDetails.description || '');
 
-        // Load comment count
+        // Load comment count and care log
         const count = await commentService.getCommentCount(animalId);
         setCommentCount(count);
+        setCareLog(await commentService.getCareLog(animalId));
 
         // Load favorite status and count
         if (user) {
@@ -152,6 +187,7 @@ const CatDetailsScreen: React.FC = () => {
         }
 
         // Check if current authenticated user is the owner
+        let exact: LocationCoordinates | null = null;
         if (user?.id) {
           // Check if user's auth ID matches the animal's auth_user_id
           const isUserOwner = (animalDetails as any).auth_user_id === user.id;
@@ -174,9 +210,18 @@ const CatDetailsScreen: React.FC = () => {
           );
           setHasHelped(userHelped);
           setHasRescued(userRescued);
+
+          // The poster and owners who confirmed it's their animal see where it
+          // really was, the server returns nothing for anyone else
+          if (isApproximateLocation(animalDetails.location_privacy)) {
+            exact = await catService.getExactLocation(animalId);
+          }
         } else {
           setIsOwner(false);
         }
+        setExactLocation(exact);
+        const animalLocation = exact ?? animalDetails;
+        const approximate = !exact && isApproximateLocation(animalDetails.location_privacy);
 
         // Get current location for distance calculation
         const location = await locationService.getCurrentLocation();
@@ -187,17 +232,18 @@ const CatDetailsScreen: React.FC = () => {
           const distanceInKm = locationService.calculateDistance(
             location.latitude,
             location.longitude,
-            animalDetails.latitude,
-            animalDetails.longitude
+            animalLocation.latitude,
+            animalLocation.longitude
           );
 
           // Convert to meters for display if less than 1 km
           const distanceInMeters = distanceInKm * 1000;
 
+          const prefix = approximate ? 'About ' : '';
           if (distanceInMeters < 1000) {
-            setDistance(`${Math.round(distanceInMeters)} meters away`);
+            setDistance(`${prefix}${Math.round(distanceInMeters)} meters away`);
           } else {
-            setDistance(`${distanceInKm.toFixed(1)} km away`);
+            setDistance(`${prefix}${distanceInKm.toFixed(1)} km away`);
           }
         }
       } catch (error) {
@@ -211,6 +257,47 @@ const CatDetailsScreen: React.FC = () => {
     fetchAnimalDetails();
   }, [route.params?.catId, user]);
 
+  // Resolve the poster, helpers, rescuers and favoriters in one profile lookup
+  const loadPeople = useCallback(async (animalId: string, posterId: string | null) => {
+    const [actions, favoriterIds] = await Promise.all([
+      catService.getAnimalActions(animalId),
+      favoritesService.getRecentFavoriters(animalId),
+    ]);
+    const helperIds = actions.filter((a) => a.action_type === 'helped').map((a) => a.user_id);
+    const rescuerIds = actions.filter((a) => a.action_type === 'rescued').map((a) => a.user_id);
+
+    const profiles = await profileResolver.resolveMany([
+      posterId,
+      ...helperIds,
+      ...rescuerIds,
+      ...favoriterIds,
+    ]);
+    const namesOf = (ids: string[]) =>
+      Array.from(new Set(ids))
+        .map((id) => profiles.get(id)?.display_name)
+        .filter((name): name is string => !!name);
+
+    setPeople({
+      poster: (posterId && profiles.get(posterId)?.display_name) || null,
+      helpers: namesOf(helperIds),
+      rescuers: namesOf(rescuerIds),
+      favoriters: namesOf(favoriterIds),
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!animal?.id) return;
+    loadPeople(animal.id, animal.auth_user_id ?? null);
+  }, [animal?.id, animal?.auth_user_id, loadPeople]);
+
+  // Reload after a merge or split so individual_id is current
+  const handleSightingGroupChanged = async () => {
+    const updated = await catService.getCatById(animal.id);
+    if (updated) {
+      setAnimal(updated);
+    }
+  };
+
   const handleDelete = async () => {
     Alert.alert(
       'Confirm Deletion',
@@ -275,6 +362,26 @@ const CatDetailsScreen: React.FC = () => {
     }
   };
 
+  // A status update may have changed the animal's status or health
+  const handleStatusUpdate = async () => {
+    const animalId = route.params?.catId;
+    if (!animalId) return;
+
+    const [updated, log] = await Promise.all([
+      catService.getCatById(animalId),
+      commentService.getCareLog(animalId),
+    ]);
+    if (updated) {
+      setAnimal((prev: any) => ({ ...prev, ...updated }));
+    }
+    setCareLog(log);
+  };
+
+  const handleAddCareUpdate = () => {
+    setComposeStatusUpdate(true);
+    setActiveTab('comments');
+  };
+
   const handleHelped = async () => {
     if (!user?.id) {
       Alert.alert('Sign In Required', 'Please sign in to record that you helped this animal.');
@@ -296,6 +403,7 @@ const CatDetailsScreen: React.FC = () => {
 
       if (success) {
         setHasHelped(true);
+        loadPeople(animal.id, animal.auth_user_id ?? null);
         Alert.alert(
           'Thank You!',
           'Your help has been recorded. Thank you for caring for this animal!'
@@ -406,6 +514,7 @@ const CatDetailsScreen: React.FC = () => {
       const newStatus = await favoritesService.toggleFavorite(animal.id);
       setIsFavorited(newStatus);
       setFavoriteCount(prev => newStatus ? prev + 1 : prev - 1);
+      loadPeople(animal.id, animal.auth_user_id ?? null);
     } catch (error) {
       Alert.alert('Error', 'Failed to update favorite');
     }
@@ -415,9 +524,11 @@ const CatDetailsScreen: React.FC = () => {
     try {
       const message = `Check out this stray animal I found using the  app! ${animal?.description || ''
         }`;
+      const url = links.sighting(animal?.id || route.params?.catId || '');
 
       await Share.share({
-        message,
+        message: `${message}\n${url}`,
+        url,
         title: `stray animal Sighting`,
       });
     } catch (error) {
@@ -435,13 +546,20 @@ const CatDetailsScreen: React.FC = () => {
     }
   };
 
+  // Where to show the animal: the exact spot if we may see it, otherwise the public one
+  const shownLocation: LocationCoordinates = exactLocation ?? {
+    latitude: animal?.latitude,
+    longitude: animal?.longitude,
+  };
+  const isApproximate = !exactLocation && isApproximateLocation(animal?.location_privacy);
+
   // Handle the "View on Full Map" button
   const handleViewOnMap = () => {
     if (animal) {
       // Use the locationService to open the map with directions
       locationService.openMapsWithDirections(
-        animal.latitude,
-        animal.longitude,
+        shownLocation.latitude,
+        shownLocation.longitude,
         'Cat Location'
       );
     }
@@ -532,7 +650,10 @@ const CatDetailsScreen: React.FC = () => {
           </TouchableOpacity>
           <TouchableOpacity
             style={[styles.tab, activeTab === 'comments' && styles.activeTab]}
-            onPress={() => setActiveTab('comments')}
+            onPress={() => {
+              setComposeStatusUpdate(false);
+              setActiveTab('comments');
+            }}
           >
             <Ionicons
               name="chatbubbles-outline"
@@ -564,6 +685,38 @@ const CatDetailsScreen: React.FC = () => {
               )}
             </View>
 
+            {/* People */}
+            {(people.poster || people.helpers.length > 0 || people.rescuers.length > 0 || people.favoriters.length > 0) && (
+              <View style={styles.peopleInfo}>
+                {people.poster && (
+                  <View style={styles.personRow}>
+                    <Ionicons name="eye-outline" size={16} color={COLORS.primaryDark} />
+                    <Text style={styles.personText}>Spotted by {people.poster}</Text>
+                  </View>
+                )}
+                {people.helpers.length > 0 && (
+                  <View style={styles.personRow}>
+                    <Ionicons name="hand-left-outline" size={16} color={COLORS.primaryDark} />
+                    <Text style={styles.personText}>Helped by {formatNames(people.helpers)}</Text>
+                  </View>
+                )}
+                {people.rescuers.length > 0 && (
+                  <View style={styles.personRow}>
+                    <Ionicons name="heart-circle-outline" size={16} color={COLORS.primaryDark} />
+                    <Text style={styles.personText}>Rescued by {formatNames(people.rescuers)}</Text>
+                  </View>
+                )}
+                {people.favoriters.length > 0 && (
+                  <View style={styles.personRow}>
+                    <Ionicons name="heart-outline" size={16} color={COLORS.primaryDark} />
+                    <Text style={styles.personText}>
+                      Favorited by {formatNames(people.favoriters, favoriteCount)}
+                    </Text>
+                  </View>
+                )}
+              </View>
+            )}
+
             {/* Description */}
             <View style={styles.descriptionContainer}>
               <View style={styles.descriptionHeader}>
@@ -639,7 +792,7 @@ const CatDetailsScreen: React.FC = () => {
             )}
 
             {/* Animal Details */}
-            {(animal.name || animal.breed || animal.color || animal.age || animal.gender || animal.health_status || animal.is_neutered || animal.is_adoptable) && (
+            {(animal.name || animal.breed || animal.color || animal.age || animal.gender || animal.health_status || animal.status === 'helped' || animal.is_neutered || animal.is_adoptable) && (
               <View style={styles.detailsSection}>
                 <Text style={styles.sectionTitle}>Animal Details</Text>
                 <View style={styles.detailsGrid}>
@@ -685,6 +838,13 @@ const CatDetailsScreen: React.FC = () => {
                       <Text style={styles.detailValue}>{animal.health_status.charAt(0).toUpperCase() + animal.health_status.slice(1)}</Text>
                     </View>
                   )}
+                  {animal.status === 'helped' && (
+                    <View style={styles.detailRow}>
+                      <Ionicons name="hand-left-outline" size={18} color={COLORS.primaryDark} />
+                      <Text style={styles.detailLabel}>Status:</Text>
+                      <Text style={styles.detailValue}>Being helped</Text>
+                    </View>
+                  )}
                   {animal.is_neutered && (
                     <View style={styles.detailRow}>
                       <Ionicons name="checkmark-circle" size={18} color={COLORS.primaryDark} />
@@ -714,29 +874,49 @@ const CatDetailsScreen: React.FC = () => {
               </View>
             )}
 
+            {/* Care Log */}
+            <View style={styles.careLogSection}>
+              <Text style={styles.sectionTitle}>Care Log</Text>
+              <CareLog entries={careLog} onAddUpdate={user ? handleAddCareUpdate : undefined} />
+            </View>
+
             {/* Location Map */}
             <View style={styles.mapSection}>
               <Text style={styles.sectionTitle}>Location</Text>
+              {isApproximate ? (
+                <Text style={styles.locationNote}>
+                  The poster shared an approximate location, the animal was seen somewhere in the circle.
+                </Text>
+              ) : exactLocation ? (
+                <Text style={styles.locationNote}>
+                  Exact location, only visible to you. Others see an approximate area.
+                </Text>
+              ) : null}
               <View style={styles.mapContainer}>
                 <MapView
                   ref={mapRef}
                   style={styles.map}
                   initialRegion={{
-                    latitude: animal.latitude,
-                    longitude: animal.longitude,
-                    latitudeDelta: 0.01,
-                    longitudeDelta: 0.01,
+                    latitude: shownLocation.latitude,
+                    longitude: shownLocation.longitude,
+                    // Zoom out far enough to show the whole neighborhood circle
+                    latitudeDelta: isApproximate ? Math.max(0.01, getFuzzRadiusMeters(animal.location_privacy) / 40000) : 0.01,
+                    longitudeDelta: isApproximate ? Math.max(0.01, getFuzzRadiusMeters(animal.location_privacy) / 40000) : 0.01,
                   }}
                   scrollEnabled={false}
                   zoomEnabled={false}
                   rotateEnabled={false}
                 >
-                  <Marker
-                    coordinate={{
-                      latitude: animal.latitude,
-                      longitude: animal.longitude,
-                    }}
-                  />
+                  {isApproximate ? (
+                    <Circle
+                      center={shownLocation}
+                      radius={getFuzzRadiusMeters(animal.location_privacy)}
+                      strokeColor="rgba(46, 125, 50, 0.5)"
+                      fillColor="rgba(46, 125, 50, 0.15)"
+                    />
+                  ) : (
+                    <Marker coordinate={shownLocation} />
+                  )}
                 </MapView>
                 <TouchableOpacity
                   style={styles.viewOnMapButton}
@@ -748,6 +928,14 @@ const CatDetailsScreen: React.FC = () => {
               </View>
             </View>
 
+            {/* Other sightings of the same individual */}
+            <SightingHistory
+              animal={animal}
+              userId={user?.id}
+              onOpenSighting={(sightingId) => navigation.push('CatDetails', { catId: sightingId })}
+              onChanged={handleSightingGroupChanged}
+            />
+
             {/* Help/Rescue Actions (for all authenticated users) */}
             {user && !animal.is_rescued && (
               <View style={styles.actionButtonsContainer}>
@@ -825,16 +1013,34 @@ const CatDetailsScreen: React.FC = () => {
                 </TouchableOpacity>
               </View>
             )}
+
+            {user && !isOwner && (
+              <TouchableOpacity style={styles.reportButton} onPress={() => setReportVisible(true)}>
+                <Ionicons name="flag-outline" size={16} color="#9E9E9E" />
+                <Text style={styles.reportButtonText}>Report this sighting</Text>
+              </TouchableOpacity>
+            )}
           </View>
         ) : null}
       </ScrollView>
       
       {activeTab === 'comments' && (
         <View style={styles.commentsContainer}>
-          <CommentsSection animalId={animal.id} />
+          <CommentsSection
+            animalId={animal.id}
+            onStatusUpdate={handleStatusUpdate}
+            startWithStatusUpdate={composeStatusUpdate}
+          />
         </View>
       )}
 
+      <ReportContentModal
+        visible={reportVisible}
+        targetType="animal"
+        targetId={animal.id}
+        onClose={() => setReportVisible(false)}
+      />
+
       {/* Edit Description Modal */}
       <Modal
         visible={editModalVisible}
@@ -1050,6 +1256,21 @@ const styles = StyleSheet.create({
     color: '#666',
     fontSize: 14,
   },
+  peopleInfo: {
+    marginTop: -8,
+    marginBottom: 20,
+    gap: 6,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  personText: {
+    flex: 1,
+    marginLeft: 6,
+    color: '#666',
+    fontSize: 14,
+  },
   descriptionContainer: {
     backgroundColor: '#f5f5f5',
     borderRadius: 12,
@@ -1144,12 +1365,32 @@ const styles = StyleSheet.create({
   mapSection: {
     marginBottom: 24,
   },
+  careLogSection: {
+    marginBottom: 24,
+  },
   sectionTitle: {
     fontSize: 16,
     fontWeight: '600',
     color: '#333',
     marginBottom: 12,
   },
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  reportButtonText: {
+    fontSize: 14,
+    color: '#9E9E9E',
+  },
+  locationNote: {
+    fontSize: 13,
+    color: '#757575',
+    marginBottom: 8,
+  },
   mapContainer: {
     borderRadius: 12,
     overflow: 'hidden',
@@ -19,6 +19,18 @@ import { useNavigation } from '@react-navigation/native';
 import { lostAnimalsService } from '../services/lostAnimals';
 import { locationService } from '../services/location/locationService';
 import { useAuth } from '../contexts/AuthContext';
+import CoatColorPicker from '../components/CoatColorPicker';
+import LocationPrivacyPicker from '../components/LocationPrivacyPicker';
+import { DEFAULT_LOCATION_PRIVACY } from '../services/location/locationPrivacy';
+import type { LocationPrivacy } from '../types';
+
+// Nominatim detail level for the suggested address, so it doesn't give away
+// more than the chosen privacy level (18 = building, 16 = street, 14 = suburb)
+const ADDRESS_ZOOM: Record<LocationPrivacy, number> = {
+  exact: 18,
+  approximate: 16,
+  neighborhood: 14,
+};
 
 const CreateLostAnimalScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -42,6 +54,7 @@ const CreateLostAnimalScreen: React.FC = () => {
   
   const [loading, setLoading] = useState(false);
   const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [locationPrivacy, setLocationPrivacy] = useState<LocationPrivacy>(DEFAULT_LOCATION_PRIVACY);
 
   const pickImage = async (index: number) => {
     const { status} = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -107,7 +120,7 @@ const CreateLostAnimalScreen: React.FC = () => {
         // Reverse geocode to get address
         try {
           const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${loc.latitude}&lon=${loc.longitude}`,
+            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${loc.latitude}&lon=${loc.longitude}&zoom=${ADDRESS_ZOOM[locationPrivacy]}`,
             {
               headers: {
                 // Provide a descriptive User-Agent per Nominatim usage policy
@@ -225,6 +238,7 @@ const CreateLostAnimalScreen: React.FC = () => {
         gender,
         photo_urls: photoUrls,
         last_seen_location: finalLocation,
+        location_privacy: locationPrivacy,
         last_seen_address: lastSeenAddress.trim() || undefined,
         last_seen_date: lastSeenDate,
         contact_name: contactName.trim(),
@@ -338,11 +352,11 @@ const CreateLostAnimalScreen: React.FC = () => {
               value={breed}
               onChangeText={setBreed}
             />
-            <TextInput
-              style={styles.input}
-              placeholder="Color (optional)"
+            <Text style={styles.fieldLabel}>Color (optional)</Text>
+            <CoatColorPicker
               value={color}
-              onChangeText={setColor}
+              onChange={setColor}
+              animalType={animalType}
             />
           </View>
 
@@ -361,6 +375,8 @@ const CreateLostAnimalScreen: React.FC = () => {
               value={lastSeenAddress}
               onChangeText={setLastSeenAddress}
             />
+            <Text style={styles.fieldLabel}>Who sees the exact spot?</Text>
+            <LocationPrivacyPicker value={locationPrivacy} onChange={setLocationPrivacy} />
           </View>
 
           {/* Contact Info */}
@@ -502,6 +518,12 @@ const styles = StyleSheet.create({
     height: 100,
     textAlignVertical: 'top',
   },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#424242',
+    marginBottom: 8,
+  },
   locationButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation';
+import { digestService, DigestItem, DigestItemKind } from '../services/digest';
+import { formatDistanceToNow } from 'date-fns';
+
+type DigestScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Digest'>;
+type DigestScreenRouteProp = RouteProp<RootStackParamList, 'Digest'>;
+
+const SECTIONS: { kind: DigestItemKind; title: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { kind: 'lost_match', title: 'Possible Matches', icon: 'search' },
+  { kind: 'rescue', title: 'Rescued Favorites', icon: 'heart' },
+  { kind: 'sighting', title: 'New Sightings', icon: 'eye' },
+];
+
+const DigestScreen: React.FC = () => {
+  const navigation = useNavigation<DigestScreenNavigationProp>();
+  const route = useRoute<DigestScreenRouteProp>();
+  const digestId = route.params?.digestId;
+  const [items, setItems] = useState<DigestItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadItems();
+  }, [digestId]);
+
+  const loadItems = async () => {
+    const data = await digestService.getDigestItems(digestId);
+    setItems(data);
+    setLoading(false);
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadItems();
+    setRefreshing(false);
+  };
+
+  const sections = SECTIONS
+    .map((section) => ({
+      ...section,
+      data: items.filter((item) => item.kind === section.kind && item.animal),
+    }))
+    .filter((section) => section.data.length > 0);
+
+  const renderItem = ({ item }: { item: DigestItem }) => (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => navigation.push('CatDetails', { catId: item.animal_id })}
+    >
+      <Image source={{ uri: item.animal?.image_url }} style={styles.thumbnail} />
+      <View style={styles.rowContent}>
+        <Text style={styles.rowTitle} numberOfLines={1}>
+          {item.animal?.name || (item.animal?.animal_type === 'dog' ? 'Unnamed dog' : 'Unnamed cat')}
+        </Text>
+        {!!item.summary && (
+          <Text style={styles.rowSummary} numberOfLines={1}>{item.summary}</Text>
+        )}
+        <Text style={styles.rowTime}>{formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}</Text>
+      </View>
+      <Ionicons name="chevron-forward" size={20} color="#BDBDBD" />
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#2E7D32" />
+      </View>
+    );
+  }
+
+  return (
+    <SectionList
+      style={styles.container}
+      sections={sections}
+      keyExtractor={(item) => item.id}
+      renderItem={renderItem}
+      renderSectionHeader={({ section }) => (
+        <View style={styles.sectionHeader}>
+          <Ionicons name={section.icon} size={18} color="#2E7D32" />
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+          <Text style={styles.sectionCount}>{section.data.length}</Text>
+        </View>
+      )}
+      stickySectionHeadersEnabled={false}
+      contentContainerStyle={styles.listContent}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} colors={['#2E7D32']} />
+      }
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Ionicons name="notifications-off-outline" size={48} color="#BDBDBD" />
+          <Text style={styles.emptyText}>Nothing in this digest</Text>
+        </View>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#212121',
+  },
+  sectionCount: {
+    fontSize: 14,
+    color: '#757575',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#E0E0E0',
+  },
+  rowContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  rowSummary: {
+    fontSize: 14,
+    color: '#2E7D32',
+    marginTop: 2,
+  },
+  rowTime: {
+    fontSize: 12,
+    color: '#757575',
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#757575',
+    marginTop: 12,
+  },
+});
+
+export default DigestScreen;
@@ -19,6 +19,10 @@ import MapView, { Marker, Region } from 'react-native-maps';
 import { Ionicons } from '@expo/vector-icons';
 import { catService } from '../services/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import CoatColorPicker from '../components/CoatColorPicker';
+import LocationPrivacyPicker from '../components/LocationPrivacyPicker';
+import { isApproximateLocation } from '../services/location/locationPrivacy';
+import type { LocationPrivacy } from '../types';
 
 type EditAnimalScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -42,6 +46,7 @@ const EditAnimalScreen: React.FC = () => {
     longitude: 0,
   });
   const [mapRegion, setMapRegion] = useState<Region | null>(null);
+  const [locationPrivacy, setLocationPrivacy] = useState<LocationPrivacy>('exact');
 
   // Additional detail fields
   const [name, setName] = useState('');
@@ -83,18 +88,25 @@ const EditAnimalScreen: React.FC = () => {
           return;
         }
 
+        // Edit from the real spot, the public one may be fuzzed
+        const exact = isApproximateLocation(animalData.location_privacy)
+          ? await catService.getExactLocation(animalData.id)
+          : null;
+        const spot = exact ?? animalData;
+
         setAnimal(animalData);
         setDescription(animalData.description || '');
         setLocation({
-          latitude: animalData.latitude,
-          longitude: animalData.longitude,
+          latitude: spot.latitude,
+          longitude: spot.longitude,
         });
         setMapRegion({
-          latitude: animalData.latitude,
-          longitude: animalData.longitude,
+          latitude: spot.latitude,
+          longitude: spot.longitude,
           latitudeDelta: 0.01,
           longitudeDelta: 0.01,
         });
+        setLocationPrivacy(animalData.location_privacy ?? 'exact');
 
         // Load additional details
         setName(animalData.name || '');
@@ -147,6 +159,7 @@ const EditAnimalScreen: React.FC = () => {
         name: name.trim() || null,
         latitude: location.latitude,
         longitude: location.longitude,
+        location_privacy: locationPrivacy,
         breed: breed.trim() || null,
         color: color.trim() || null,
         age: age.trim() || null,
@@ -259,12 +272,10 @@ const EditAnimalScreen: React.FC = () => {
               {/* Color */}
               <View style={styles.detailField}>
                 <Text style={styles.detailLabel}>Color</Text>
-                <TextInput
-                  style={styles.input}
+                <CoatColorPicker
                   value={color}
-                  onChangeText={setColor}
-                  placeholder="e.g., Orange, Black & White"
-                  placeholderTextColor="#999"
+                  onChange={setColor}
+                  animalType={animal?.animal_type}
                 />
               </View>
 
@@ -411,6 +422,8 @@ const EditAnimalScreen: React.FC = () => {
               {location.latitude.toFixed(6)}, {location.longitude.toFixed(6)}
             </Text>
           </View>
+          <Text style={[styles.label, styles.privacyLabel]}>Who sees the exact spot?</Text>
+          <LocationPrivacyPicker value={locationPrivacy} onChange={setLocationPrivacy} />
         </View>
 
         {/* Animal Type Info */}
@@ -490,6 +503,9 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 8,
   },
+  privacyLabel: {
+    marginTop: 16,
+  },
   hint: {
     fontSize: 13,
     color: '#666',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -10,16 +10,52 @@ import {
   ActivityIndicator,
   SafeAreaView,
   Linking,
+  Modal,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation';
-import { lostAnimalsService, LostAnimal, type LostAnimalMatch } from '../services/lostAnimals';
+import {
+  lostAnimalsService,
+  LostAnimal,
+  type LostAnimalMatch,
+  type MatchFeatureKey,
+} from '../services/lostAnimals';
+import {
+  posterService,
+  getPosterLayout,
+  POSTER_PAGE_SIZES,
+  type PosterPageSize,
+} from '../services/poster';
 import { useAuth } from '../contexts/AuthContext';
+import { isApproximateLocation } from '../services/location/locationPrivacy';
+import type { LocationCoordinates } from '../types';
+import LostPosterView from '../components/LostPosterView';
+import ReportContentModal from '../components/ReportContentModal';
 
 type LostAnimalDetailsRouteProp = RouteProp<RootStackParamList, 'LostAnimalDetails'>;
 
+const FEATURE_LABELS: Record<MatchFeatureKey, string> = {
+  coat_color: 'Coat color',
+  pattern: 'Pattern',
+  size: 'Size',
+  markings: 'Markings',
+  eye_color: 'Eye color',
+};
+
+// US and Canada print on Letter, everyone else on A4
+const getDefaultPosterSize = (): PosterPageSize => {
+  const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+  return /-(US|CA)\b/.test(locale) ? 'letter' : 'a4';
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return '#4CAF50';
+  if (score >= 50) return '#FFA000';
+  return '#FF5722';
+};
+
 const LostAnimalDetailsScreen: React.FC = () => {
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const route = useRoute<LostAnimalDetailsRouteProp>();
@@ -31,6 +67,24 @@ const LostAnimalDetailsScreen: React.FC = () => {
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
   const [matches, setMatches] = useState<LostAnimalMatch[]>([]);
   const [loadingMatches, setLoadingMatches] = useState(false);
+  const [showPosterModal, setShowPosterModal] = useState(false);
+  const [posterSize, setPosterSize] = useState<PosterPageSize>(getDefaultPosterSize);
+  const [posterQrSvg, setPosterQrSvg] = useState<string | null>(null);
+  const [posterImageReady, setPosterImageReady] = useState(false);
+  const [exportingPoster, setExportingPoster] = useState<'pdf' | 'image' | null>(null);
+  const [reportVisible, setReportVisible] = useState(false);
+  // Set for the owner of a post with a fuzzed location
+  const [exactLocation, setExactLocation] = useState<LocationCoordinates | null>(null);
+  const posterRef = useRef<View>(null);
+
+  const posterContent = useMemo(
+    () => (lostAnimal ? posterService.getContent(lostAnimal) : null),
+    [lostAnimal]
+  );
+  const posterLayout = useMemo(
+    () => (posterContent ? getPosterLayout(posterSize, posterContent) : null),
+    [posterSize, posterContent]
+  );
 
   useEffect(() => {
     loadLostAnimal();
@@ -59,6 +113,11 @@ const LostAnimalDetailsScreen: React.FC = () => {
     try {
       const animal = await lostAnimalsService.getById(lostAnimalId);
       setLostAnimal(animal || null);
+
+      // Only the owner gets the real last seen spot back
+      if (animal && user?.id === animal.user_id && isApproximateLocation(animal.location_privacy)) {
+        setExactLocation(await lostAnimalsService.getExactLocation(animal.id));
+      }
     } catch (error) {
       console.error('[LostAnimalDetails] Error loading by id:', error);
     } finally {
@@ -121,6 +180,77 @@ const LostAnimalDetailsScreen: React.FC = () => {
     }
   };
 
+  const handleOpenPoster = async () => {
+    if (!posterContent) return;
+
+    setShowPosterModal(true);
+    if (!posterQrSvg) {
+      const qrSvg = await posterService.getQrSvg(posterContent.link);
+      if (!qrSvg) {
+        setShowPosterModal(false);
+        Alert.alert('Error', 'Failed to create the poster. Please try again.');
+        return;
+      }
+      setPosterQrSvg(qrSvg);
+    }
+  };
+
+  const handlePosterImageReady = useCallback(() => setPosterImageReady(true), []);
+
+  const handleSharePoster = async (kind: 'pdf' | 'image') => {
+    if (!lostAnimal) return;
+
+    try {
+      setExportingPoster(kind);
+      const uri = kind === 'pdf'
+        ? await posterService.createPdf(lostAnimal, posterSize)
+        : await posterService.captureImage(posterRef);
+
+      if (!uri) {
+        Alert.alert('Error', 'Failed to create the poster. Please try again.');
+        return;
+      }
+      await posterService.share(uri, kind === 'pdf' ? 'application/pdf' : 'image/png');
+    } finally {
+      setExportingPoster(null);
+    }
+  };
+
+  const renderFeatureBreakdown = (match: LostAnimalMatch) => {
+    if (!match.feature_scores) return null;
+
+    return (
+      <View style={styles.featureBreakdown}>
+        {(Object.keys(FEATURE_LABELS) as MatchFeatureKey[]).map((key) => {
+          const feature = match.feature_scores?.[key];
+          return (
+            <View key={key} style={styles.featureRow}>
+              <Text style={styles.featureLabel}>{FEATURE_LABELS[key]}</Text>
+              <View style={styles.featureBarTrack}>
+                {feature && (
+                  <View
+                    style={[
+                      styles.featureBarFill,
+                      { width: `${feature.score}%`, backgroundColor: getScoreColor(feature.score) },
+                    ]}
+                  />
+                )}
+              </View>
+              <Text style={styles.featureScore}>
+                {feature ? `${feature.score}%` : 'n/a'}
+              </Text>
+            </View>
+          );
+        })}
+        {match.photos_compared ? (
+          <Text style={styles.featureFootnote}>
+            Compared against {match.photos_compared} photo{match.photos_compared === 1 ? '' : 's'}
+          </Text>
+        ) : null}
+      </View>
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -236,7 +366,10 @@ const LostAnimalDetailsScreen: React.FC = () => {
             <View style={styles.locationRow}>
               <Ionicons name="location" size={20} color="#4CAF50" />
               <Text style={styles.locationText}>
-                {lostAnimal.last_seen_address || 'Location provided'}
+                {lostAnimal.last_seen_address ||
+                  (exactLocation
+                    ? `${exactLocation.latitude.toFixed(5)}, ${exactLocation.longitude.toFixed(5)}`
+                    : 'Location provided')}
               </Text>
             </View>
             <Text style={styles.dateText}>
@@ -257,7 +390,7 @@ const LostAnimalDetailsScreen: React.FC = () => {
                 <TouchableOpacity
                   key={match.id}
                   style={styles.matchCard}
-                  onPress={() => navigation.navigate('CatDetails', { catId: match.sighting_id })}
+                  onPress={() => navigation.navigate('MatchReview', { matchId: match.id })}
                 >
                   {match.sighting?.image_url && (
                     <Image
@@ -272,15 +405,37 @@ const LostAnimalDetailsScreen: React.FC = () => {
                       </Text>
                       <Ionicons name="chevron-forward" size={20} color="#757575" />
                     </View>
+                    {match.match_reason && (
+                      <Text style={styles.matchReason} numberOfLines={3}>
+                        {match.match_reason}
+                      </Text>
+                    )}
+                    {renderFeatureBreakdown(match)}
                     <Text style={styles.matchSubtext}>
-                      Tap to view full details and compare
+                      {match.review_status === 'checking'
+                        ? "You're going to check this one"
+                        : match.review_status === 'confirmed'
+                          ? 'Confirmed - tap when you\'re reunited'
+                          : 'Tap to compare and review'}
                     </Text>
-                    <View style={styles.matchFooter}>
-                      <Ionicons name="calendar-outline" size={14} color="#757575" />
-                      <Text style={styles.matchDate}>
-                        Spotted {new Date(match.sighting?.spotted_at).toLocaleDateString()}
-                      </Text>
-                    </View>
+                    {match.sighting && (
+                      <View style={styles.matchFooter}>
+                        <Ionicons name="calendar-outline" size={14} color="#757575" />
+                        <Text style={styles.matchDate}>
+                          Spotted {new Date(match.sighting.spotted_at).toLocaleDateString()}
+                        </Text>
+                      </View>
+                    )}
+                    {match.distance_km != null && (
+                      <View style={styles.matchFooter}>
+                        <Ionicons name="navigate-outline" size={14} color="#757575" />
+                        <Text style={styles.matchDate}>
+                          {match.distance_km < 1
+                            ? `${Math.round(match.distance_km * 1000)} m`
+                            : `${match.distance_km.toFixed(1)} km`} from where {lostAnimal.name} was last seen
+                        </Text>
+                      </View>
+                    )}
                   </View>
                 </TouchableOpacity>
               ))}
@@ -321,6 +476,16 @@ const LostAnimalDetailsScreen: React.FC = () => {
             </View>
           </View>
 
+          {/* Poster */}
+          {lostAnimal.status === 'active' && (
+            <View style={styles.section}>
+              <TouchableOpacity style={styles.posterButton} onPress={handleOpenPoster}>
+                <Ionicons name="print-outline" size={20} color="#4CAF50" />
+                <Text style={styles.posterButtonText}>Make a Poster</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Owner Actions */}
           {isOwner && (
             <View style={styles.section}>
@@ -341,8 +506,95 @@ const LostAnimalDetailsScreen: React.FC = () => {
               </TouchableOpacity>
             </View>
           )}
+
+          {user && !isOwner && (
+            <TouchableOpacity style={styles.reportButton} onPress={() => setReportVisible(true)}>
+              <Ionicons name="flag-outline" size={16} color="#9E9E9E" />
+              <Text style={styles.reportButtonText}>Report this post</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </ScrollView>
+
+      <ReportContentModal
+        visible={reportVisible}
+        targetType="lost_animal"
+        targetId={lostAnimal.id}
+        onClose={() => setReportVisible(false)}
+      />
+
+      <Modal
+        visible={showPosterModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowPosterModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>Lost {lostAnimal.animal_type === 'dog' ? 'Dog' : 'Cat'} Poster</Text>
+            <Text style={styles.posterHint}>
+              Print it or share it online. The QR code opens {lostAnimal.name}'s post in StraySync.
+            </Text>
+
+            <View style={styles.posterSizeRow}>
+              {(Object.keys(POSTER_PAGE_SIZES) as PosterPageSize[]).map((size) => (
+                <TouchableOpacity
+                  key={size}
+                  style={[styles.posterSizeChip, posterSize === size && styles.posterSizeChipActive]}
+                  onPress={() => setPosterSize(size)}
+                >
+                  <Text style={[styles.posterSizeText, posterSize === size && styles.posterSizeTextActive]}>
+                    {POSTER_PAGE_SIZES[size].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.contactButton, styles.posterShareButton]}
+              onPress={() => handleSharePoster('pdf')}
+              disabled={!posterQrSvg || !!exportingPoster}
+            >
+              {exportingPoster === 'pdf' ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Ionicons name="document-outline" size={20} color="#fff" />
+              )}
+              <Text style={styles.contactButtonText}>Share PDF</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.contactButton, styles.posterShareButton]}
+              onPress={() => handleSharePoster('image')}
+              disabled={!posterImageReady || !!exportingPoster}
+            >
+              {exportingPoster === 'image' || !posterImageReady ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Ionicons name="image-outline" size={20} color="#fff" />
+              )}
+              <Text style={styles.contactButtonText}>Share Image</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.posterCloseButton} onPress={() => setShowPosterModal(false)}>
+              <Text style={styles.posterCloseText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Rendered offscreen at page size so it can be captured as an image */}
+          {posterQrSvg && posterContent && posterLayout && (
+            <View style={styles.posterOffscreen} pointerEvents="none">
+              <LostPosterView
+                ref={posterRef}
+                content={posterContent}
+                layout={posterLayout}
+                qrSvg={posterQrSvg}
+                onReady={handlePosterImageReady}
+              />
+            </View>
+          )}
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 };
@@ -491,6 +743,46 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     flex: 1,
   },
+  matchReason: {
+    fontSize: 13,
+    color: '#424242',
+    marginBottom: 8,
+  },
+  featureBreakdown: {
+    marginBottom: 8,
+  },
+  featureRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  featureLabel: {
+    fontSize: 12,
+    color: '#757575',
+    width: 72,
+  },
+  featureBarTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E0E0E0',
+    overflow: 'hidden',
+  },
+  featureBarFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  featureScore: {
+    fontSize: 12,
+    color: '#424242',
+    width: 36,
+    textAlign: 'right',
+  },
+  featureFootnote: {
+    fontSize: 11,
+    color: '#9E9E9E',
+    marginTop: 2,
+  },
   matchFooter: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -596,6 +888,95 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+  },
+  reportButtonText: {
+    fontSize: 14,
+    color: '#9E9E9E',
+  },
+  posterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    padding: 14,
+    borderRadius: 12,
+    gap: 8,
+    borderWidth: 2,
+    borderColor: '#4CAF50',
+  },
+  posterButtonText: {
+    color: '#4CAF50',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+  },
+  posterHint: {
+    fontSize: 14,
+    color: '#757575',
+    marginBottom: 16,
+  },
+  posterSizeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  posterSizeChip: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F5F5F5',
+    alignItems: 'center',
+  },
+  posterSizeChipActive: {
+    backgroundColor: '#D0F0C0',
+    borderColor: '#2E7D32',
+  },
+  posterSizeText: {
+    fontSize: 14,
+    color: '#757575',
+  },
+  posterSizeTextActive: {
+    color: '#2E7D32',
+    fontWeight: '600',
+  },
+  posterShareButton: {
+    flex: 0,
+    marginBottom: 10,
+  },
+  posterCloseButton: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#F5F5F5',
+    alignItems: 'center',
+  },
+  posterCloseText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#757575',
+  },
+  posterOffscreen: {
+    position: 'absolute',
+    top: 0,
+    left: -10000,
+  },
 });
 
 export default LostAnimalDetailsScreen;
@@ -10,21 +10,24 @@ import {
   StatusBar,
   Image,
 } from 'react-native';
-import MapView, { Marker, Callout, Region } from 'react-native-maps';
+import MapView, { Marker, Callout, Circle, Region } from 'react-native-maps';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import * as Location from 'expo-location';
-import { Cat, RootStackParamList } from '../types';
+import { MapCluster, RootStackParamList } from '../types';
 import { catService } from '../services/supabase';
 import { locationService } from '../services/location';
-import { useSettings } from '../contexts/SettingsContext';
+import { getFuzzRadiusMeters, isApproximateLocation } from '../services/location/locationPrivacy';
 
 type MapScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
   'Main'
 >;
 
+// Wait for the map to settle before querying the new region
+const REGION_QUERY_DEBOUNCE_MS = 400;
+
 type MapScreenProps = {
   route?: {
     params?: {
@@ -36,11 +39,11 @@ type MapScreenProps = {
 const MapScreen: React.FC<MapScreenProps> = ({ route }) => {
   const navigation = useNavigation<MapScreenNavigationProp>();
   const mapRef = useRef<MapView>(null);
-  const { searchRadius } = useSettings();
-  const [cats, setCats] = useState<Cat[]>([]);
-  const [filteredCats, setFilteredCats] = useState<Cat[]>([]);
+  const [clusters, setClusters] = useState<MapCluster[]>([]);
   const [animalFilter, setAnimalFilter] = useState<'all' | 'cats' | 'dogs'>('all');
   const [loading, setLoading] = useState(true);
+  // Only the first load replaces the map, later region queries load in place
+  const [initialLoading, setInitialLoading] = useState(true);
   const [region, setRegion] = useState<Region>({
     latitude: 42.2746,
     longitude: -71.8063,
@@ -51,7 +54,11 @@ const MapScreen: React.FC<MapScreenProps> = ({ route }) => {
     latitude: number;
     longitude: number;
   } | null>(null);
-  const [nearbyCount, setNearbyCount] = useState(0);
+  const regionQueryTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latestQueryId = useRef(0);
+  // Latest region and filter for callbacks created on mount
+  const regionRef = useRef(region);
+  const animalFilterRef = useRef(animalFilter);
 
   // Theme colors
   const THEME = {
@@ -66,61 +73,62 @@ const MapScreen: React.FC<MapScreenProps> = ({ route }) => {
     dogColor: '#8B4513', // Brown color for dogs
   };
 
-  // Fetch cats from the database
-  const fetchCats = async () => {
+  // Fetch clusters and pins for the visible region
+  const fetchRegion = async (
+    targetRegion: Region,
+    filter: 'all' | 'cats' | 'dogs' = animalFilterRef.current
+  ) => {
+    const queryId = ++latestQueryId.current;
     try {
       setLoading(true);
-      const catsData = await catService.getCats();
-      setCats(catsData);
-      applyFilter(catsData, animalFilter);
+      const animalType = filter === 'cats' ? 'cat' : filter === 'dogs' ? 'dog' : undefined;
+      const data = await catService.getMapRegion(targetRegion, animalType);
+      // Ignore responses for regions the user already panned away from
+      if (queryId === latestQueryId.current) {
+        setClusters(data);
+      }
     } catch (error) {
-      console.error('Error fetching cats:', error);
+      console.error('Error fetching map region:', error);
       Alert.alert('Error', 'Failed to load animals data');
     } finally {
-      setLoading(false);
+      if (queryId === latestQueryId.current) {
+        setLoading(false);
+        setInitialLoading(false);
+      }
     }
   };
 
-  // Apply filter to cats (by type and distance)
-  const applyFilter = (catsData: Cat[], filter: 'all' | 'cats' | 'dogs') => {
-    let filtered = catsData;
-    
-    // Filter by animal type
-    if (filter === 'cats') {
-      filtered = filtered.filter(cat => cat.animal_type !== 'dog');
-    } else if (filter === 'dogs') {
-      filtered = filtered.filter(cat => cat.animal_type === 'dog');
-    }
-    
-    // Filter by distance from user location
-    if (userLocation) {
-      filtered = filtered.filter(cat => {
-        const distance = locationService.calculateDistance(
-          userLocation.latitude,
-          userLocation.longitude,
-          cat.latitude,
-          cat.longitude
-        );
-        return distance <= searchRadius;
-      });
-      setNearbyCount(filtered.length);
+  // Debounce region queries while the user pans and zooms
+  const handleRegionChangeComplete = (newRegion: Region) => {
+    setRegion(newRegion);
+    regionRef.current = newRegion;
+    if (regionQueryTimeout.current) {
+      clearTimeout(regionQueryTimeout.current);
     }
-    
-    setFilteredCats(filtered);
+    regionQueryTimeout.current = setTimeout(() => {
+      fetchRegion(newRegion);
+    }, REGION_QUERY_DEBOUNCE_MS);
   };
 
   // Handle filter change
   const handleFilterChange = (filter: 'all' | 'cats' | 'dogs') => {
     setAnimalFilter(filter);
-    applyFilter(cats, filter);
+    animalFilterRef.current = filter;
+    fetchRegion(region, filter);
   };
 
-  // Re-apply filters when search radius or user location changes
-  useEffect(() => {
-    if (cats.length > 0) {
-      applyFilter(cats, animalFilter);
-    }
-  }, [searchRadius, userLocation]);
+  // Zoom into a cluster bubble
+  const handleClusterPress = (cluster: MapCluster) => {
+    mapRef.current?.animateToRegion({
+      latitude: cluster.latitude,
+      longitude: cluster.longitude,
+      latitudeDelta: region.latitudeDelta / 4,
+      longitudeDelta: region.longitudeDelta / 4,
+    });
+  };
+
+  const catsInView = clusters.reduce((sum, c) => sum + c.cat_count, 0);
+  const dogsInView = clusters.reduce((sum, c) => sum + c.dog_count, 0);
 
   // Get user's current location
   const getUserLocation = async () => {
@@ -128,19 +136,18 @@ const MapScreen: React.FC<MapScreenProps> = ({ route }) => {
       const location = await locationService.getCurrentLocation();
       if (location) {
         setUserLocation(location);
-        setRegion({
+        const userRegion = {
           ...location,
           latitudeDelta: 0.01,
           longitudeDelta: 0.01,
-        });
+        };
+        setRegion(userRegion);
+        regionRef.current = userRegion;
+        fetchRegion(userRegion);
         
         // Animate to user location
         if (mapRef.current) {
-          mapRef.current.animateToRegion({
-            ...location,
-            latitudeDelta: 0.01,
-            longitudeDelta: 0.01,
-          });
+          mapRef.current.animateToRegion(userRegion);
         }
       }
     } catch (error) {
@@ -181,7 +188,7 @@ const MapScreen: React.FC<MapScreenProps> = ({ route }) => {
   // Refresh data when screen is focused
   useFocusEffect(
     useCallback(() => {
-      fetchCats();
+      fetchRegion(regionRef.current);
       getUserLocation();
       return () => {};
     }, [])
@@ -189,13 +196,18 @@ const MapScreen: React.FC<MapScreenProps> = ({ route }) => {
 
   // Initial setup
   useEffect(() => {
-    fetchCats();
+    fetchRegion(region);
     getUserLocation();
+    return () => {
+      if (regionQueryTimeout.current) {
+        clearTimeout(regionQueryTimeout.current);
+      }
+    };
   }, []);
 
   return (
     <View style={styles.container}>
-      {loading && !cats.length ? (
+      {initialLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={THEME.secondary} />
           <Text style={styles.loadingText}>Loading map...</Text>
@@ -254,15 +266,14 @@ const MapScreen: React.FC<MapScreenProps> = ({ route }) => {
             </TouchableOpacity>
           </View>
 
-          {/* Search radius info */}
-          {userLocation && (
-            <View style={styles.radiusInfo}>
-              <Ionicons name="location" size={16} color={THEME.secondary} />
-              <Text style={styles.radiusText}>
-                {nearbyCount} nearby (within {searchRadius}km)
-              </Text>
-            </View>
-          )}
+          {/* Animals in the visible region */}
+          <View style={styles.radiusInfo}>
+            <Ionicons name="location" size={16} color={THEME.secondary} />
+            <Text style={styles.radiusText}>
+              {catsInView} {catsInView === 1 ? 'cat' : 'cats'} · {dogsInView} {dogsInView === 1 ? 'dog' : 'dogs'} in view
+            </Text>
+            {loading && <ActivityIndicator size="small" color={THEME.secondary} style={styles.regionLoader} />}
+          </View>
 
           <MapView
             ref={mapRef}
@@ -272,43 +283,86 @@ const MapScreen: React.FC<MapScreenProps> = ({ route }) => {
             showsMyLocationButton={false}
             showsCompass={true}
             rotateEnabled={true}
-            onRegionChangeComplete={setRegion}
+            onRegionChangeComplete={handleRegionChangeComplete}
           >
-            {filteredCats.map((cat) => (
+            {clusters.map((item) => item.is_cluster ? (
               <Marker
-                key={cat.id}
+                key={`cluster-${item.cluster_id}`}
                 coordinate={{
-                  latitude: cat.latitude,
-                  longitude: cat.longitude,
+                  latitude: item.latitude,
+                  longitude: item.longitude,
                 }}
-                onPress={() => handleCatPress(cat.id)}
+                onPress={() => handleClusterPress(item)}
               >
-                <View style={styles.markerContainer}>
-                  <MaterialCommunityIcons 
-                    name="paw" 
-                    size={30} 
-                    color={cat.animal_type === 'dog' ? THEME.dogColor : THEME.secondary} 
-                  />
-                </View>
-                <Callout onPress={() => handleCatPress(cat.id)}>
-                  <View style={styles.calloutContainer}>
-                    <Text style={styles.calloutTitle}>
-                      {cat.name || (cat.animal_type === 'dog' ? 'Dog' : 'Cat')}
-                    </Text>
-                    {cat.image_url ? (
-                      <Image 
-                        source={{ uri: cat.image_url }} 
-                        style={styles.calloutImage} 
-                        resizeMode="cover"
-                      />
-                    ) : null}
-                    <Text style={styles.calloutDescription} numberOfLines={2}>
-                      {cat.description || 'No description'}
-                    </Text>
-                    <Text style={styles.calloutAction}>Tap for details</Text>
+                <View style={styles.clusterBubble}>
+                  <Text style={styles.clusterCount}>{item.cat_count + item.dog_count}</Text>
+                  <View style={styles.clusterBreakdown}>
+                    {item.cat_count > 0 && (
+                      <View style={styles.clusterBreakdownItem}>
+                        <MaterialCommunityIcons name="cat" size={12} color={THEME.secondary} />
+                        <Text style={styles.clusterBreakdownText}>{item.cat_count}</Text>
+                      </View>
+                    )}
+                    {item.dog_count > 0 && (
+                      <View style={styles.clusterBreakdownItem}>
+                        <MaterialCommunityIcons name="dog" size={12} color={THEME.dogColor} />
+                        <Text style={[styles.clusterBreakdownText, { color: THEME.dogColor }]}>{item.dog_count}</Text>
+                      </View>
+                    )}
                   </View>
-                </Callout>
+                </View>
               </Marker>
+            ) : (
+              <React.Fragment key={item.id!}>
+                {/* Fuzzed pins show the area the animal was really seen in */}
+                {isApproximateLocation(item.location_privacy) && (
+                  <Circle
+                    center={{
+                      latitude: item.latitude,
+                      longitude: item.longitude,
+                    }}
+                    radius={getFuzzRadiusMeters(item.location_privacy)}
+                    strokeColor="rgba(46, 125, 50, 0.5)"
+                    fillColor="rgba(46, 125, 50, 0.12)"
+                  />
+                )}
+                <Marker
+                  coordinate={{
+                    latitude: item.latitude,
+                    longitude: item.longitude,
+                  }}
+                  onPress={() => handleCatPress(item.id!)}
+                >
+                  <View style={styles.markerContainer}>
+                    <MaterialCommunityIcons 
+                      name="paw" 
+                      size={30} 
+                      color={item.animal_type === 'dog' ? THEME.dogColor : THEME.secondary} 
+                    />
+                  </View>
+                  <Callout onPress={() => handleCatPress(item.id!)}>
+                    <View style={styles.calloutContainer}>
+                      <Text style={styles.calloutTitle}>
+                        {item.name || (item.animal_type === 'dog' ? 'Dog' : 'Cat')}
+                      </Text>
+                      {item.image_url ? (
+                        <Image 
+                          source={{ uri: item.image_url }} 
+                          style={styles.calloutImage} 
+                          resizeMode="cover"
+                        />
+                      ) : null}
+                      <Text style={styles.calloutDescription} numberOfLines={2}>
+                        {item.description || 'No description'}
+                      </Text>
+                      {isApproximateLocation(item.location_privacy) && (
+                        <Text style={styles.calloutApproximate}>Approximate location</Text>
+                      )}
+                      <Text style={styles.calloutAction}>Tap for details</Text>
+                    </View>
+                  </Callout>
+                </Marker>
+              </React.Fragment>
             ))}
           </MapView>
 
@@ -413,6 +467,11 @@ const styles = StyleSheet.create({
     color: '#2E7D32',
     fontStyle: 'italic',
   },
+  calloutApproximate: {
+    fontSize: 10,
+    color: '#757575',
+    marginBottom: 2,
+  },
   filterContainer: {
     position: 'absolute',
     top: Platform.OS === 'ios' ? 50 : 20,
@@ -468,6 +527,47 @@ const styles = StyleSheet.create({
     shadowRadius: 1.5,
     zIndex: 1,
   },
+  regionLoader: {
+    marginLeft: 8,
+  },
+  clusterBubble: {
+    minWidth: 48,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 24,
+    backgroundColor: 'rgba(46, 125, 50, 0.9)',
+    borderWidth: 2,
+    borderColor: 'white',
+    alignItems: 'center',
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 2,
+  },
+  clusterCount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  clusterBreakdown: {
+    flexDirection: 'row',
+    gap: 6,
+    backgroundColor: 'white',
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    marginTop: 2,
+  },
+  clusterBreakdownItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  clusterBreakdownText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
   radiusText: {
     fontSize: 14,
     color: '#333',
@@ -0,0 +1,927 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  TextInput,
+  Linking,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { format, formatDistanceToNow } from 'date-fns';
+import { RootStackParamList } from '../navigation';
+import {
+  lostAnimalsService,
+  type LostAnimalMatch,
+  type MatchContacts,
+  type MatchReporterUpdate,
+  type ReporterStillThere,
+} from '../services/lostAnimals';
+import { useAuth } from '../contexts/AuthContext';
+
+type MatchReviewRouteProp = RouteProp<RootStackParamList, 'MatchReview'>;
+
+const REJECT_REASONS = ['Different markings', 'Different size', 'Wrong area', 'Already found'];
+
+const STATUS_BANNERS: Record<string, { icon: keyof typeof Ionicons.glyphMap; text: string; color: string }> = {
+  checking: { icon: 'walk-outline', text: "You're going to check this sighting", color: '#FFA000' },
+  confirmed: { icon: 'checkmark-circle', text: 'You confirmed this is your pet', color: '#4CAF50' },
+  rejected: { icon: 'close-circle', text: 'You rejected this match', color: '#757575' },
+  reunited: { icon: 'heart', text: 'Reunited!', color: '#E91E63' },
+};
+
+// What the reporter sees instead of the owner's wording
+const REPORTER_BANNER_TEXT: Record<string, string> = {
+  pending: 'This sighting may be a lost pet',
+  checking: 'The owner is going to check',
+  confirmed: "The owner thinks this is their pet",
+  reunited: 'Reunited thanks to your sighting!',
+};
+
+const STILL_THERE_OPTIONS: { value: ReporterStillThere; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'still_here', label: 'Still here', icon: 'location' },
+  { value: 'moved_on', label: 'Moved on', icon: 'walk-outline' },
+  { value: 'not_sure', label: 'Not sure', icon: 'help-circle-outline' },
+];
+
+// Last seen choices, in hours ago
+const LAST_SEEN_OPTIONS: { label: string; hoursAgo: number }[] = [
+  { label: 'Just now', hoursAgo: 0 },
+  { label: 'An hour ago', hoursAgo: 1 },
+  { label: 'Earlier today', hoursAgo: 4 },
+  { label: 'Yesterday', hoursAgo: 24 },
+];
+
+const formatDate = (dateString?: string) => {
+  try {
+    return dateString ? format(new Date(dateString), 'MMM d, yyyy') : 'Unknown';
+  } catch {
+    return 'Unknown';
+  }
+};
+
+const MatchReviewScreen: React.FC = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<MatchReviewRouteProp>();
+  const { matchId } = route.params;
+  const { user } = useAuth();
+
+  const [match, setMatch] = useState<LostAnimalMatch | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [showRejectModal, setShowRejectModal] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+  const [updates, setUpdates] = useState<MatchReporterUpdate[]>([]);
+  const [contacts, setContacts] = useState<MatchContacts | null>(null);
+  const [showUpdateModal, setShowUpdateModal] = useState(false);
+  const [stillThere, setStillThere] = useState<ReporterStillThere>('still_here');
+  const [lastSeenHoursAgo, setLastSeenHoursAgo] = useState<number | null>(0);
+  const [updateNote, setUpdateNote] = useState('');
+  const [showContactModal, setShowContactModal] = useState(false);
+  const [reporterContact, setReporterContact] = useState('');
+
+  useEffect(() => {
+    loadMatch();
+  }, [matchId]);
+
+  const loadMatch = async () => {
+    setLoading(true);
+    const data = await lostAnimalsService.getMatch(matchId);
+    setMatch(data);
+    if (data) {
+      setUpdates(await lostAnimalsService.getReporterUpdates(matchId));
+      if (data.owner_shares_contact && data.reporter_shares_contact) {
+        setContacts(await lostAnimalsService.getMatchContacts(matchId));
+      }
+    }
+    setLoading(false);
+
+    if (data && !data.viewed && data.lost_animal?.user_id === user?.id) {
+      lostAnimalsService.markMatchViewed(data.id);
+    }
+  };
+
+  const handleReview = async (status: 'checking' | 'confirmed' | 'rejected', reason?: string) => {
+    setUpdating(true);
+    const updated = await lostAnimalsService.reviewMatch(matchId, status, reason);
+    setUpdating(false);
+
+    if (!updated) {
+      Alert.alert('Error', 'Failed to update this match. Please try again.');
+      return;
+    }
+    setMatch((current) => (current ? { ...current, ...updated } : current));
+
+    if (status === 'confirmed') {
+      Alert.alert(
+        'Match Confirmed',
+        "We've let the person who reported this sighting know. Leave them a comment to arrange a meeting."
+      );
+    } else if (status === 'rejected') {
+      navigation.goBack();
+    }
+  };
+
+  const handleConfirm = () => {
+    Alert.alert(
+      'Confirm Match',
+      `Is this ${match?.lost_animal?.name}? The person who reported the sighting will be notified.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Yes, it is', onPress: () => handleReview('confirmed') },
+      ]
+    );
+  };
+
+  const handleReject = async () => {
+    setShowRejectModal(false);
+    await handleReview('rejected', rejectReason);
+    setRejectReason('');
+  };
+
+  const handleReunite = () => {
+    Alert.alert(
+      'Reunited?',
+      `Mark ${match?.lost_animal?.name} as found? This closes your lost post and marks the sighting as rescued.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: "We're reunited!",
+          onPress: async () => {
+            setUpdating(true);
+            const updated = await lostAnimalsService.reuniteMatch(matchId);
+            setUpdating(false);
+
+            if (!updated) {
+              Alert.alert('Error', 'Failed to mark as reunited. Please try again.');
+              return;
+            }
+            setMatch((current) => (current ? { ...current, ...updated } : current));
+            Alert.alert('Welcome Home! 🎉', `So glad ${match?.lost_animal?.name} is back.`);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSendUpdate = async () => {
+    setUpdating(true);
+    const created = await lostAnimalsService.addReporterUpdate(matchId, {
+      stillThere,
+      lastSeenAt: lastSeenHoursAgo === null ? null : new Date(Date.now() - lastSeenHoursAgo * 60 * 60 * 1000),
+      note: updateNote,
+    });
+    setUpdating(false);
+
+    if (!created) {
+      Alert.alert('Error', 'Failed to send your update. Please try again.');
+      return;
+    }
+    setUpdates((current) => [created, ...current]);
+    setShowUpdateModal(false);
+    setUpdateNote('');
+    Alert.alert('Thank You!', `We've passed this on to ${match?.lost_animal?.name}'s owner.`);
+  };
+
+  const applyConsent = async (share: boolean, contact?: string) => {
+    setUpdating(true);
+    const updated = await lostAnimalsService.setContactConsent(matchId, share, contact);
+    setUpdating(false);
+
+    if (!updated) {
+      Alert.alert('Error', 'Failed to update contact sharing. Please try again.');
+      return;
+    }
+    setMatch((current) => (current ? { ...current, ...updated } : current));
+    setContacts(
+      updated.owner_shares_contact && updated.reporter_shares_contact
+        ? await lostAnimalsService.getMatchContacts(matchId)
+        : null
+    );
+  };
+
+  const handleShareContact = (asOwner: boolean) => {
+    if (!asOwner) {
+      setShowContactModal(true);
+      return;
+    }
+    Alert.alert(
+      'Share Contact Details?',
+      "The reporter will see the contact details from your lost post once they agree to share theirs too.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Share', onPress: () => applyConsent(true) },
+      ]
+    );
+  };
+
+  const handleSubmitReporterContact = async () => {
+    if (!reporterContact.trim()) {
+      Alert.alert('Contact Needed', 'Add a phone number or email to share.');
+      return;
+    }
+    setShowContactModal(false);
+    await applyConsent(true, reporterContact.trim());
+  };
+
+  const openContact = (contact: string) => {
+    Linking.openURL(contact.includes('@') ? `mailto:${contact}` : `tel:${contact}`);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </View>
+    );
+  }
+
+  if (!match || !match.lost_animal || !match.sighting) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="alert-circle-outline" size={48} color="#BDBDBD" />
+        <Text style={styles.errorText}>This match is no longer available</Text>
+      </View>
+    );
+  }
+
+  const lostAnimal = match.lost_animal;
+  const sighting = match.sighting;
+  const isOwner = user?.id === lostAnimal.user_id;
+  const isReporter = !isOwner && user?.id === sighting.auth_user_id;
+  const status = match.review_status ?? 'pending';
+  const banner = STATUS_BANNERS[status];
+  const bannerText = isReporter ? REPORTER_BANNER_TEXT[status] : banner?.text;
+  const iShareContact = isOwner ? match.owner_shares_contact : match.reporter_shares_contact;
+  const otherSharesContact = isOwner ? match.reporter_shares_contact : match.owner_shares_contact;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.confidenceBanner}>
+        <Text style={styles.confidenceText}>{match.confidence_score}% Match</Text>
+        {match.distance_km != null && (
+          <Text style={styles.confidenceSubtext}>
+            {match.distance_km < 1
+              ? `${Math.round(match.distance_km * 1000)} m`
+              : `${match.distance_km.toFixed(1)} km`} from where {lostAnimal.name} was last seen
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.compareRow}>
+        <TouchableOpacity
+          style={styles.compareColumn}
+          onPress={() => navigation.push('LostAnimalDetails', { lostAnimalId: lostAnimal.id })}
+        >
+          <Text style={styles.columnLabel}>Lost</Text>
+          <Image source={{ uri: lostAnimal.photo_url_1 }} style={styles.compareImage} />
+          <Text style={styles.columnTitle} numberOfLines={1}>{lostAnimal.name}</Text>
+          <Text style={styles.columnDetail}>Last seen {formatDate(lostAnimal.last_seen_date)}</Text>
+          {!!lostAnimal.last_seen_address && (
+            <Text style={styles.columnDetail} numberOfLines={2}>{lostAnimal.last_seen_address}</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.compareColumn}
+          onPress={() => navigation.push('CatDetails', { catId: sighting.id })}
+        >
+          <Text style={styles.columnLabel}>Sighting</Text>
+          <Image source={{ uri: sighting.image_url }} style={styles.compareImage} />
+          <Text style={styles.columnTitle} numberOfLines={1}>{sighting.name || 'Unnamed'}</Text>
+          <Text style={styles.columnDetail}>Spotted {formatDate(sighting.spotted_at)}</Text>
+          {!!sighting.description && (
+            <Text style={styles.columnDetail} numberOfLines={2}>{sighting.description}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {!!bannerText && (
+        <View style={[styles.statusBanner, { borderColor: banner?.color ?? '#FFA000' }]}>
+          <Ionicons name={banner?.icon ?? 'search'} size={20} color={banner?.color ?? '#FFA000'} />
+          <Text style={[styles.statusText, { color: banner?.color ?? '#FFA000' }]}>
+            {bannerText}
+          </Text>
+        </View>
+      )}
+      {status === 'rejected' && !!match.reject_reason && (
+        <Text style={styles.rejectReasonText}>Reason: {match.reject_reason}</Text>
+      )}
+
+      {!!match.match_reason && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Why this might be {lostAnimal.name}</Text>
+          <Text style={styles.reasonText}>{match.match_reason}</Text>
+        </View>
+      )}
+
+      {/* Owner actions */}
+      {isOwner && (status === 'pending' || status === 'checking') && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.confirmButton]}
+            onPress={handleConfirm}
+            disabled={updating}
+          >
+            <Ionicons name="checkmark" size={20} color="#fff" />
+            <Text style={styles.actionButtonText}>It's {lostAnimal.name}</Text>
+          </TouchableOpacity>
+          {status === 'pending' && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.checkButton]}
+              onPress={() => handleReview('checking')}
+              disabled={updating}
+            >
+              <Ionicons name="walk-outline" size={20} color="#fff" />
+              <Text style={styles.actionButtonText}>I'm going to check</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.actionButton, styles.rejectButton]}
+            onPress={() => setShowRejectModal(true)}
+            disabled={updating}
+          >
+            <Ionicons name="close" size={20} color="#757575" />
+            <Text style={[styles.actionButtonText, styles.rejectButtonText]}>Not {lostAnimal.name}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {isOwner && status === 'confirmed' && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.reuniteButton]}
+            onPress={handleReunite}
+            disabled={updating}
+          >
+            <Ionicons name="heart" size={20} color="#fff" />
+            <Text style={styles.actionButtonText}>We're reunited!</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Reporter: share what they know now */}
+      {isReporter && (status === 'pending' || status === 'checking' || status === 'confirmed') && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.checkButton]}
+            onPress={() => setShowUpdateModal(true)}
+            disabled={updating}
+          >
+            <Ionicons name="megaphone-outline" size={20} color="#fff" />
+            <Text style={styles.actionButtonText}>Is it still around? Tell the owner</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {(isOwner || isReporter) && updates.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{isOwner ? 'From the reporter' : 'Your updates'}</Text>
+          {updates.map((update) => {
+            const option = STILL_THERE_OPTIONS.find((o) => o.value === update.still_there);
+            return (
+              <View key={update.id} style={styles.updateRow}>
+                <Ionicons name={option?.icon ?? 'information-circle-outline'} size={18} color="#2E7D32" />
+                <View style={styles.updateBody}>
+                  <Text style={styles.updateTitle}>
+                    {option?.label ?? 'Update'}
+                    {update.last_seen_at
+                      ? ` · seen ${formatDistanceToNow(new Date(update.last_seen_at), { addSuffix: true })}`
+                      : ''}
+                  </Text>
+                  {!!update.note && <Text style={styles.reasonText}>{update.note}</Text>}
+                  <Text style={styles.updateTime}>
+                    {formatDistanceToNow(new Date(update.created_at), { addSuffix: true })}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Connect owner and reporter, contact details only once both agree */}
+      {(isOwner || isReporter) && status !== 'rejected' && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Get in touch</Text>
+          {contacts ? (
+            isReporter ? (
+              <>
+                <Text style={styles.reasonText}>{contacts.owner_name}</Text>
+                <View style={styles.contactRow}>
+                  {!!contacts.owner_phone && (
+                    <TouchableOpacity
+                      style={styles.contactButton}
+                      onPress={() => Linking.openURL(`tel:${contacts.owner_phone}`)}
+                    >
+                      <Ionicons name="call" size={18} color="#fff" />
+                      <Text style={styles.contactButtonText}>Call</Text>
+                    </TouchableOpacity>
+                  )}
+                  {!!contacts.owner_email && (
+                    <TouchableOpacity
+                      style={styles.contactButton}
+                      onPress={() => Linking.openURL(`mailto:${contacts.owner_email}`)}
+                    >
+                      <Ionicons name="mail" size={18} color="#fff" />
+                      <Text style={styles.contactButtonText}>Email</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </>
+            ) : (
+              !!contacts.reporter_contact && (
+                <TouchableOpacity
+                  style={styles.contactButton}
+                  onPress={() => openContact(contacts.reporter_contact!)}
+                >
+                  <Ionicons name={contacts.reporter_contact.includes('@') ? 'mail' : 'call'} size={18} color="#fff" />
+                  <Text style={styles.contactButtonText}>{contacts.reporter_contact}</Text>
+                </TouchableOpacity>
+              )
+            )
+          ) : iShareContact ? (
+            <>
+              <Text style={styles.reasonText}>
+                Waiting for {isOwner ? 'the reporter' : `${lostAnimal.name}'s owner`} to share their contact details too.
+              </Text>
+              <TouchableOpacity onPress={() => applyConsent(false)} disabled={updating}>
+                <Text style={styles.stopSharingText}>Stop sharing mine</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={styles.reasonText}>
+                {otherSharesContact
+                  ? `${isOwner ? 'The reporter has' : `${lostAnimal.name}'s owner has`} agreed to swap contact details.`
+                  : 'Contact details stay private until you both agree to share them.'}
+              </Text>
+              <TouchableOpacity
+                style={[styles.contactButton, styles.shareContactButton]}
+                onPress={() => handleShareContact(isOwner)}
+                disabled={updating}
+              >
+                <Ionicons name="swap-horizontal" size={18} color="#fff" />
+                <Text style={styles.contactButtonText}>Share my contact details</Text>
+              </TouchableOpacity>
+            </>
+          )}
+          {(status === 'confirmed' || status === 'reunited') && (
+            <TouchableOpacity
+              style={styles.commentLink}
+              onPress={() => navigation.push('CatDetails', { catId: sighting.id, tab: 'comments' })}
+            >
+              <Ionicons name="chatbubbles-outline" size={18} color="#2E7D32" />
+              <Text style={styles.commentLinkText}>
+                {isOwner ? 'Message the reporter on the sighting' : 'Reply on the sighting'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <Modal
+        visible={showUpdateModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowUpdateModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>Is the animal still there?</Text>
+            <View style={styles.reasonChips}>
+              {STILL_THERE_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.reasonChip, stillThere === option.value && styles.reasonChipActive]}
+                  onPress={() => setStillThere(option.value)}
+                >
+                  <Text style={[styles.reasonChipText, stillThere === option.value && styles.reasonChipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.modalLabel}>When did you last see it?</Text>
+            <View style={styles.reasonChips}>
+              {LAST_SEEN_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.reasonChip, lastSeenHoursAgo === option.hoursAgo && styles.reasonChipActive]}
+                  onPress={() => setLastSeenHoursAgo(option.hoursAgo)}
+                >
+                  <Text style={[styles.reasonChipText, lastSeenHoursAgo === option.hoursAgo && styles.reasonChipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.reasonChip, lastSeenHoursAgo === null && styles.reasonChipActive]}
+                onPress={() => setLastSeenHoursAgo(null)}
+              >
+                <Text style={[styles.reasonChipText, lastSeenHoursAgo === null && styles.reasonChipTextActive]}>
+                  Don't remember
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              style={styles.reasonInput}
+              placeholder="Anything else? e.g. hiding under the blue car (optional)"
+              placeholderTextColor="#9E9E9E"
+              value={updateNote}
+              onChangeText={setUpdateNote}
+              maxLength={500}
+              multiline
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalCancel} onPress={() => setShowUpdateModal(false)}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalReject, styles.modalSend]}
+                onPress={handleSendUpdate}
+                disabled={updating}
+              >
+                <Text style={styles.actionButtonText}>Send Update</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showContactModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowContactModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>Share your contact details</Text>
+            <Text style={styles.reasonText}>
+              {lostAnimal.name}'s owner will only see this once they agree to share theirs too.
+            </Text>
+            <TextInput
+              style={styles.reasonInput}
+              placeholder="Phone number or email"
+              placeholderTextColor="#9E9E9E"
+              value={reporterContact}
+              onChangeText={setReporterContact}
+              autoCapitalize="none"
+              maxLength={120}
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalCancel} onPress={() => setShowContactModal(false)}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalReject, styles.modalSend]}
+                onPress={handleSubmitReporterContact}
+                disabled={updating}
+              >
+                <Text style={styles.actionButtonText}>Share</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showRejectModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowRejectModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>Why isn't this {lostAnimal.name}?</Text>
+            <View style={styles.reasonChips}>
+              {REJECT_REASONS.map((reason) => (
+                <TouchableOpacity
+                  key={reason}
+                  style={[styles.reasonChip, rejectReason === reason && styles.reasonChipActive]}
+                  onPress={() => setRejectReason(reason)}
+                >
+                  <Text style={[styles.reasonChipText, rejectReason === reason && styles.reasonChipTextActive]}>
+                    {reason}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.reasonInput}
+              placeholder="Or describe what's different (optional)"
+              placeholderTextColor="#9E9E9E"
+              value={rejectReason}
+              onChangeText={setRejectReason}
+              maxLength={200}
+              multiline
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalCancel} onPress={() => setShowRejectModal(false)}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalReject} onPress={handleReject}>
+                <Text style={styles.actionButtonText}>Reject Match</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#757575',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  confidenceBanner: {
+    backgroundColor: '#E8F5E9',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    alignItems: 'center',
+  },
+  confidenceText: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#2E7D32',
+  },
+  confidenceSubtext: {
+    fontSize: 14,
+    color: '#4CAF50',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  compareRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  compareColumn: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 8,
+  },
+  columnLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#757575',
+    textTransform: 'uppercase',
+    marginBottom: 6,
+  },
+  compareImage: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 8,
+    backgroundColor: '#E0E0E0',
+  },
+  columnTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+    marginTop: 8,
+  },
+  columnDetail: {
+    fontSize: 13,
+    color: '#757575',
+    marginTop: 2,
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 8,
+  },
+  reasonText: {
+    fontSize: 14,
+    color: '#424242',
+    lineHeight: 20,
+  },
+  statusBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 16,
+    backgroundColor: 'white',
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rejectReasonText: {
+    fontSize: 13,
+    color: '#757575',
+    marginTop: 6,
+  },
+  actions: {
+    marginTop: 16,
+    gap: 10,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 10,
+  },
+  confirmButton: {
+    backgroundColor: '#4CAF50',
+  },
+  checkButton: {
+    backgroundColor: '#FFA000',
+  },
+  rejectButton: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  reuniteButton: {
+    backgroundColor: '#E91E63',
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  rejectButtonText: {
+    color: '#757575',
+  },
+  contactRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 10,
+  },
+  contactButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#2E7D32',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  contactButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  commentLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  commentLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+  },
+  reasonChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reasonChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F5F5F5',
+  },
+  reasonChipActive: {
+    backgroundColor: '#D0F0C0',
+    borderColor: '#2E7D32',
+  },
+  reasonChipText: {
+    fontSize: 13,
+    color: '#757575',
+  },
+  reasonChipTextActive: {
+    color: '#2E7D32',
+    fontWeight: '600',
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+    minHeight: 60,
+    fontSize: 14,
+    color: '#212121',
+    textAlignVertical: 'top',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 16,
+  },
+  modalCancel: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#F5F5F5',
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#757575',
+  },
+  modalReject: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#FF5722',
+    alignItems: 'center',
+  },
+  modalSend: {
+    backgroundColor: '#4CAF50',
+  },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#424242',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  updateRow: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  updateBody: {
+    flex: 1,
+  },
+  updateTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  updateTime: {
+    fontSize: 12,
+    color: '#9E9E9E',
+    marginTop: 2,
+  },
+  shareContactButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  stopSharingText: {
+    fontSize: 14,
+    color: '#757575',
+    textDecorationLine: 'underline',
+    marginTop: 8,
+  },
+});
+
+export default MatchReviewScreen;
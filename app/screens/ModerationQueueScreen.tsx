@@ -0,0 +1,346 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation';
+import {
+  moderationService,
+  ModerationAction,
+  ModerationQueueItem,
+  REPORT_CATEGORIES,
+} from '../services/moderation';
+import { formatDistanceToNow } from 'date-fns';
+
+type ModerationQueueScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ModerationQueue'>;
+
+const TARGET_LABELS: Record<ModerationQueueItem['target_type'], string> = {
+  animal: 'Sighting',
+  comment: 'Comment',
+  lost_animal: 'Lost post',
+};
+
+const ACTION_CONFIRMATIONS: Record<ModerationAction, { title: string; message: string }> = {
+  hide: { title: 'Hide', message: 'Hide this from everyone except moderators?' },
+  restore: { title: 'Restore', message: 'Make this visible again?' },
+  ban: { title: 'Ban Author', message: 'Hide this and stop its author from posting?' },
+  dismiss: { title: 'Dismiss', message: 'Close these reports without changing anything?' },
+};
+
+const categoryLabel = (value: string) =>
+  REPORT_CATEGORIES.find((category) => category.value === value)?.label || value;
+
+const ModerationQueueScreen: React.FC = () => {
+  const navigation = useNavigation<ModerationQueueScreenNavigationProp>();
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  // target_id of the item an action is running on
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    const data = await moderationService.getQueue();
+    setItems(data);
+    setLoading(false);
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadQueue();
+    setRefreshing(false);
+  };
+
+  const runAction = async (item: ModerationQueueItem, action: ModerationAction) => {
+    setBusyId(item.target_id);
+    const success = await moderationService.moderate(item.target_type, item.target_id, action);
+    setBusyId(null);
+
+    if (!success) {
+      Alert.alert('Error', 'Failed to update this item. Please try again.');
+      return;
+    }
+
+    // Every action closes the open reports, so the item leaves the queue
+    setItems((current) => current.filter((queued) => queued.target_id !== item.target_id));
+  };
+
+  const confirmAction = (item: ModerationQueueItem, action: ModerationAction) => {
+    const { title, message } = ACTION_CONFIRMATIONS[action];
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: title,
+        style: action === 'ban' || action === 'hide' ? 'destructive' : 'default',
+        onPress: () => runAction(item, action),
+      },
+    ]);
+  };
+
+  const openTarget = (item: ModerationQueueItem) => {
+    if (item.target_type === 'animal') {
+      navigation.push('CatDetails', { catId: item.target_id });
+    } else if (item.target_type === 'lost_animal') {
+      navigation.push('LostAnimalDetails', { lostAnimalId: item.target_id });
+    }
+  };
+
+  const renderItem = ({ item }: { item: ModerationQueueItem }) => {
+    const busy = busyId === item.target_id;
+
+    return (
+      <View style={styles.card}>
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() => openTarget(item)}
+          disabled={item.target_type === 'comment'}
+        >
+          {item.preview_image_url ? (
+            <Image source={{ uri: item.preview_image_url }} style={styles.thumbnail} />
+          ) : null}
+          <View style={styles.rowContent}>
+            <View style={styles.titleRow}>
+              <Text style={styles.targetType}>{TARGET_LABELS[item.target_type]}</Text>
+              {item.hidden_at ? <Text style={styles.hiddenBadge}>Hidden</Text> : null}
+              <Text style={styles.reportCount}>
+                {item.report_count} {item.report_count === 1 ? 'report' : 'reports'}
+              </Text>
+            </View>
+            <Text style={styles.previewText} numberOfLines={3}>
+              {item.preview_text || (item.author_id ? 'No text' : 'Deleted since it was reported')}
+            </Text>
+            <Text style={styles.meta}>
+              {item.author_name || 'Unknown author'}
+              {item.author_banned ? ' (banned)' : ''}
+              {' · '}
+              {formatDistanceToNow(new Date(item.first_reported_at), { addSuffix: true })}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        <View style={styles.categories}>
+          {item.categories.map((category) => (
+            <View
+              key={category}
+              style={[styles.categoryChip, category === 'animal_cruelty' && styles.urgentChip]}
+            >
+              <Text style={[styles.categoryText, category === 'animal_cruelty' && styles.urgentText]}>
+                {categoryLabel(category)}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {item.notes.map((note, index) => (
+          <Text key={index} style={styles.note}>"{note}"</Text>
+        ))}
+
+        {busy ? (
+          <ActivityIndicator style={styles.busy} color="#2E7D32" />
+        ) : (
+          <View style={styles.actions}>
+            {item.hidden_at ? (
+              <TouchableOpacity style={styles.actionButton} onPress={() => confirmAction(item, 'restore')}>
+                <Ionicons name="eye-outline" size={16} color="#2E7D32" />
+                <Text style={styles.actionText}>Restore</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.actionButton} onPress={() => confirmAction(item, 'hide')}>
+                <Ionicons name="eye-off-outline" size={16} color="#2E7D32" />
+                <Text style={styles.actionText}>Hide</Text>
+              </TouchableOpacity>
+            )}
+            {item.author_id && !item.author_banned ? (
+              <TouchableOpacity style={styles.actionButton} onPress={() => confirmAction(item, 'ban')}>
+                <Ionicons name="ban-outline" size={16} color="#D32F2F" />
+                <Text style={[styles.actionText, styles.banText]}>Ban</Text>
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity style={styles.actionButton} onPress={() => confirmAction(item, 'dismiss')}>
+              <Ionicons name="checkmark-outline" size={16} color="#757575" />
+              <Text style={[styles.actionText, styles.dismissText]}>Dismiss</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#2E7D32" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={items}
+      keyExtractor={(item) => `${item.target_type}:${item.target_id}`}
+      renderItem={renderItem}
+      contentContainerStyle={styles.listContent}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} colors={['#2E7D32']} />
+      }
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Ionicons name="shield-checkmark-outline" size={48} color="#BDBDBD" />
+          <Text style={styles.emptyText}>No open reports</Text>
+        </View>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#E0E0E0',
+    marginRight: 12,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  targetType: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+  },
+  hiddenBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#fff',
+    backgroundColor: '#757575',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  reportCount: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 13,
+    color: '#757575',
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#424242',
+    marginTop: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#757575',
+    marginTop: 4,
+  },
+  categories: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
+  categoryChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#F5F5F5',
+  },
+  urgentChip: {
+    backgroundColor: '#FFEBEE',
+  },
+  categoryText: {
+    fontSize: 12,
+    color: '#616161',
+  },
+  urgentText: {
+    color: '#D32F2F',
+    fontWeight: '600',
+  },
+  note: {
+    fontSize: 13,
+    color: '#616161',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  busy: {
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#EEEEEE',
+    paddingTop: 10,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  banText: {
+    color: '#D32F2F',
+  },
+  dismissText: {
+    color: '#757575',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#757575',
+    marginTop: 12,
+  },
+});
+
+export default ModerationQueueScreen;
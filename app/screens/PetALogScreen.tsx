@@ -16,16 +16,20 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import PagerView from 'react-native-pager-view';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import * as ImageManipulator from 'expo-image-manipulator';
 import { PetALogCollection, createSticker, AnimalSticker as AnimalStickerType, createCollectionPage } from '../types/petalog';
 import { petalogService } from '../services/petalogService';
 import AnimalSticker from '../components/AnimalSticker';
 import DottedBackground from '../components/DottedBackground';
 import { CANVAS_CONSTANTS } from '../types/petalog';
 import { backgroundRemovalService } from '../services/backgroundRemoval';
+import type { ImageMask, Segmentation } from '../services/segmentation';
+import MaskBrush from '../components/MaskBrush';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+// Mask brush canvas, fits inside the modal's padding
+const CROP_EDITOR_SIZE = Math.min(SCREEN_WIDTH * 0.85, 400) - 48;
+
 const PetALogScreen: React.FC = () => {
   const [collection, setCollection] = useState<PetALogCollection | null>(null);
   const [loading, setLoading] = useState(true);
@@ -34,8 +38,14 @@ const PetALogScreen: React.FC = () => {
   const [stickerName, setStickerName] = useState('');
   const [cropModalVisible, setCropModalVisible] = useState(false);
   const [imageToCrop, setImageToCrop] = useState<string | null>(null);
+  // Background removal result being refined in the crop modal
+  const [segmentation, setSegmentation] = useState<Segmentation | null>(null);
+  const [refinedMask, setRefinedMask] = useState<ImageMask | null>(null);
   const [processingImage, setProcessingImage] = useState(false);
   const pagerRef = useRef<PagerView>(null);
+  // Latest collection shown, to tell if it was edited while syncing
+  const collectionRef = useRef<PetALogCollection | null>(null);
+  collectionRef.current = collection;
 
   // Load collection on mount
   useEffect(() => {
@@ -47,6 +57,14 @@ const PetALogScreen: React.FC = () => {
       setLoading(true);
       const data = await petalogService.loadCollection();
       setCollection(data);
+      collectionRef.current = data;
+      setLoading(false);
+
+      // Bring in changes from the user's other devices in the background
+      const synced = await petalogService.syncCollection(data);
+      if (synced !== data && collectionRef.current === data) {
+        setCollection(synced);
+      }
     } catch (error) {
       console.error('[PetALog] Error loading collection:', error);
       Alert.alert('Error', 'Failed to load your collection');
@@ -56,50 +74,29 @@ const PetALogScreen: React.FC = () => {
   };
 
   const cropAndAddImage = async (imageUri: string) => {
-    try {
-      // Open crop editor
-      const result = await ImageManipulator.manipulateAsync(
-        imageUri,
-        [],
-        { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG }
-      );
+    // Try to remove background, falls back to the original image
+    setProcessingImage(true);
+    const bgRemovalResult = await backgroundRemovalService.removeBackground(imageUri);
+    setProcessingImage(false);
+
+    if (!bgRemovalResult) {
+      await addImageToCollection(imageUri, false);
+      return;
+    }
 
-      // Show cropping interface
-      setImageToCrop(result.uri);
-      setCropModalVisible(true);
-    } catch (error) {
-      console.error('[PetALog] Error preparing crop:', error);
-      // If cropping fails, just add the original image
-      await addImageToCollection(imageUri);
+    if (__DEV__) {
+      console.log('[PetALog] Background removed with', bgRemovalResult.backend);
     }
+
+    // Show the cutout for touching up with the mask brush
+    setImageToCrop(imageUri);
+    setSegmentation(bgRemovalResult.segmentation);
+    setRefinedMask(bgRemovalResult.segmentation.mask);
+    setCropModalVisible(true);
   };
 
-  const addImageToCollection = async (imageUri: string) => {
+  const addImageToCollection = async (finalImageUri: string, bgRemoved: boolean) => {
     try {
-      setProcessingImage(true);
-
-      // Try to remove background (with error handling)
-      let finalImageUri = imageUri;
-      let bgRemoved = false;
-
-      try {
-        const bgRemovalResult = await backgroundRemovalService.removeBackground(imageUri);
-
-        if (bgRemovalResult && bgRemovalResult.success) {
-          finalImageUri = bgRemovalResult.imageUri;
-          bgRemoved = true;
-          if (__DEV__) {
-            console.log('[PetALog] Background removed successfully');
-          }
-        }
-      } catch (bgError) {
-        // Silently fail background removal and use original image
-        console.error('[PetALog] Background removal error:', bgError);
-        if (__DEV__) {
-          console.log('[PetALog] Using original image due to error');
-        }
-      }
-
       // Add photo at center of canvas
       const centerX = SCREEN_WIDTH / 2 - CANVAS_CONSTANTS.STICKER_SIZE / 2; // Half of sticker width
       const centerY = SCREEN_HEIGHT / 2 - CANVAS_CONSTANTS.STICKER_SIZE / 2; // Half of sticker height
@@ -126,16 +123,30 @@ const PetALogScreen: React.FC = () => {
     } catch (error) {
       console.error('[PetALog] Error adding to collection:', error);
       Alert.alert('Error', 'Failed to add photo. Please try again.');
-    } finally {
-      setProcessingImage(false);
     }
   };
 
+  const closeCropModal = () => {
+    setCropModalVisible(false);
+    setImageToCrop(null);
+    setSegmentation(null);
+    setRefinedMask(null);
+  };
+
   const handleCropComplete = async () => {
+    if (segmentation && refinedMask) {
+      const cutoutUri = backgroundRemovalService.renderCutout(segmentation, refinedMask);
+      closeCropModal();
+      await addImageToCollection(cutoutUri, true);
+    }
+  };
+
+  // Keep the whole photo, background and all
+  const handleUseOriginal = async () => {
     if (imageToCrop) {
-      await addImageToCollection(imageToCrop);
-      setCropModalVisible(false);
-      setImageToCrop(null);
+      const originalUri = imageToCrop;
+      closeCropModal();
+      await addImageToCollection(originalUri, false);
     }
   };
 
@@ -159,7 +170,7 @@ const PetALogScreen: React.FC = () => {
       });
 
       if (!result.canceled && result.assets[0]) {
-        await addImageToCollection(result.assets[0].uri);
+        await cropAndAddImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('[PetALog] Error adding photo:', error);
@@ -185,7 +196,7 @@ const PetALogScreen: React.FC = () => {
       });
 
       if (!result.canceled && result.assets[0]) {
-        await addImageToCollection(result.assets[0].uri);
+        await cropAndAddImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('[PetALog] Error picking photo:', error);
@@ -425,6 +436,54 @@ const PetALogScreen: React.FC = () => {
           ))}
         </View>
 
+        {/* Crop Modal: refine the background removal with the mask brush */}
+        <Modal
+          visible={cropModalVisible}
+          transparent={true}
+          animationType="fade"
+          onRequestClose={closeCropModal}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>Touch Up Cutout</Text>
+              <Text style={styles.cropHint}>
+                Brush to erase leftover background or restore parts of your animal.
+              </Text>
+
+              {segmentation && refinedMask && (
+                <MaskBrush
+                  segmentation={segmentation}
+                  mask={refinedMask}
+                  onMaskChange={setRefinedMask}
+                  size={CROP_EDITOR_SIZE}
+                />
+              )}
+
+              <TouchableOpacity style={styles.useOriginalButton} onPress={handleUseOriginal}>
+                <Text style={styles.useOriginalText}>Use original photo</Text>
+              </TouchableOpacity>
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.cancelButton]}
+                  onPress={closeCropModal}
+                  activeOpacity={0.85}
+                >
+                  <Text style={styles.modalButtonTextDark}>Cancel</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.saveButton]}
+                  onPress={handleCropComplete}
+                  activeOpacity={0.9}
+                >
+                  <Text style={styles.modalButtonText}>Done</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
         {/* Edit Sticker Modal */}
         <Modal
           visible={editModalVisible}
@@ -646,6 +705,22 @@ const styles = StyleSheet.create({
     color: '#212121',
     marginBottom: 16,
   },
+  cropHint: {
+    fontSize: 14,
+    color: '#757575',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  useOriginalButton: {
+    alignSelf: 'center',
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  useOriginalText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
   modalInput: {
     borderWidth: 1,
     borderColor: '#E0E0E0',
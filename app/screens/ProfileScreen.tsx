@@ -18,11 +18,13 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
 import { catService, profileService } from '../services/supabase';
-import { Cat } from '../types';
+import { Cat, FavoritesCursor } from '../types';
 import { RootStackParamList } from '../navigation';
 import { AnimalCardSkeleton } from '../components/SkeletonLoader';
 import { favoritesService } from '../services/favorites';
+import { cache, CACHE_KEYS } from '../services/cache';
 import { notificationService } from '../services/notifications';
+import { sightingQueue, QueuedSighting } from '../services/sightingQueue';
 
 type ProfileScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -40,6 +42,9 @@ const ProfileScreen: React.FC = () => {
   const { user, profile, profileLoading, signOut, refreshProfile } = useAuth();
   const [myAnimals, setMyAnimals] = useState<Cat[]>([]);
   const [favoriteAnimals, setFavoriteAnimals] = useState<Cat[]>([]);
+  const [favoritesCursor, setFavoritesCursor] = useState<FavoritesCursor | null>(null);
+  const [loadingMoreFavorites, setLoadingMoreFavorites] = useState(false);
+  const [queuedSightings, setQueuedSightings] = useState<QueuedSighting[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'sightings' | 'favorites'>('sightings');
@@ -75,9 +80,45 @@ const ProfileScreen: React.FC = () => {
     }
   }, [profile?.avatar_url]);
 
-  const fetchMyAnimals = async () => {
+  // First page of favorites, from cache unless refreshing
+  const fetchFavoritesFirstPage = async (forceRefresh: boolean) => {
+    if (!user?.id) return { items: [], nextCursor: null };
+    const cacheKey = CACHE_KEYS.USER_FAVORITES(user.id);
+
+    if (!forceRefresh) {
+      const cached = cache.get<{ items: Cat[]; nextCursor: FavoritesCursor | null }>(cacheKey);
+      if (cached) return cached;
+    }
+
+    const page = await favoritesService.getUserFavoritesPage();
+    cache.set(cacheKey, page, 2 * 60 * 1000);
+    return page;
+  };
+
+  // Infinite scroll for the favorites tab
+  const loadMoreFavorites = async () => {
+    if (!user?.id || !favoritesCursor || loadingMoreFavorites) return;
+
+    try {
+      setLoadingMoreFavorites(true);
+      const page = await favoritesService.getUserFavoritesPage(favoritesCursor);
+      const seen = new Set(favoriteAnimals.map((animal) => animal.id));
+      const combined = [...favoriteAnimals, ...page.items.filter((animal) => !seen.has(animal.id))];
+
+      cache.set(CACHE_KEYS.USER_FAVORITES(user.id), { items: combined, nextCursor: page.nextCursor }, 2 * 60 * 1000);
+      setFavoriteAnimals(combined);
+      setFavoritesCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more favorites:', error);
+    } finally {
+      setLoadingMoreFavorites(false);
+    }
+  };
+
+  const fetchMyAnimals = async (forceRefresh = false) => {
     if (!user?.id) {
       setMyAnimals([]);
+      setQueuedSightings([]);
       setHelpedCount(0);
       setRescuedCount(0);
       setLoading(false);
@@ -85,15 +126,18 @@ const ProfileScreen: React.FC = () => {
     }
 
     try {
-      // Fetch animals, stats, and favorites in parallel
-      const [animals, stats, favorites] = await Promise.all([
+      // Fetch animals, stats, favorites and queued sightings in parallel
+      const [animals, stats, favorites, queued] = await Promise.all([
         catService.getUserAnimals(user.id),
         catService.getUserStats(user.id),
-        favoritesService.getUserFavorites(),
+        fetchFavoritesFirstPage(forceRefresh),
+        sightingQueue.getUserQueue(user.id),
       ]);
 
       setMyAnimals(animals);
-      setFavoriteAnimals(favorites);
+      setQueuedSightings(queued);
+      setFavoriteAnimals(favorites.items);
+      setFavoritesCursor(favorites.nextCursor);
       setHelpedCount(stats.helped);
       setRescuedCount(stats.rescued);
     } catch (error) {
@@ -117,7 +161,7 @@ const ProfileScreen: React.FC = () => {
       user.id,
       (animal) => {
         // Refresh favorites when an animal is rescued
-        fetchMyAnimals();
+        fetchMyAnimals(true);
       }
     );
 
@@ -126,6 +170,24 @@ const ProfileScreen: React.FC = () => {
     };
   }, [user]);
 
+  // Keep queued sightings in sync with the outbox
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const unsubscribe = sightingQueue.subscribe((event) => {
+      if (event.type === 'synced') {
+        // A queued sighting is now a real row - reload everything
+        fetchMyAnimals();
+      } else {
+        sightingQueue.getUserQueue(user.id).then(setQueuedSightings);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user]);
+
   // Refresh when screen comes into focus
   useFocusEffect(
     useCallback(() => {
@@ -135,7 +197,7 @@ const ProfileScreen: React.FC = () => {
 
   const handleRefresh = () => {
     setRefreshing(true);
-    fetchMyAnimals();
+    fetchMyAnimals(true);
   };
 
   const handleDeleteAnimal = (animalId: string) => {
@@ -171,6 +233,21 @@ const ProfileScreen: React.FC = () => {
     );
   };
 
+  const handleDiscardQueuedSighting = (entry: QueuedSighting) => {
+    Alert.alert(
+      'Discard Sighting',
+      'This sighting has not been uploaded yet. Discard it?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => sightingQueue.remove(entry.id),
+        },
+      ]
+    );
+  };
+
   const handleSignOut = () => {
     Alert.alert('Sign Out', 'Are you sure you want to sign out?', [
       { text: 'Cancel', style: 'cancel' },
@@ -368,6 +445,70 @@ const ProfileScreen: React.FC = () => {
     );
   };
 
+  const renderQueuedSightings = () => {
+    if (queuedSightings.length === 0) return null;
+
+    return (
+      <View>
+        {queuedSightings.map((entry) => {
+          const animalType = entry.draft.animal_type === 'dog' ? 'Dog' : 'Cat';
+          const isFailed = entry.status === 'failed';
+          const statusText =
+            entry.status === 'syncing'
+              ? 'Uploading...'
+              : isFailed
+                ? 'Upload failed'
+                : 'Waiting for connection';
+
+          return (
+            <View key={entry.id} style={[styles.animalCard, styles.queuedCard]}>
+              <Image source={{ uri: entry.photoUri }} style={styles.animalImage} />
+              <View style={styles.animalInfo}>
+                <Text style={styles.animalType}>{animalType}</Text>
+                <Text style={styles.animalDescription} numberOfLines={2}>
+                  {entry.draft.description || 'No description'}
+                </Text>
+                <Text style={styles.animalDate}>
+                  Spotted: {new Date(entry.draft.spotted_at).toLocaleDateString()}
+                </Text>
+                <View style={styles.queuedStatusRow}>
+                  {entry.status === 'syncing' ? (
+                    <ActivityIndicator size="small" color="#FF9800" />
+                  ) : (
+                    <Ionicons
+                      name={isFailed ? 'alert-circle' : 'cloud-upload-outline'}
+                      size={14}
+                      color={isFailed ? '#FF5722' : '#FF9800'}
+                    />
+                  )}
+                  <Text style={[styles.queuedStatusText, isFailed && styles.queuedStatusFailed]}>
+                    {statusText}
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.animalActions}>
+                {isFailed && (
+                  <TouchableOpacity
+                    style={styles.statusIconContainer}
+                    onPress={() => sightingQueue.retry(entry.id)}
+                  >
+                    <Ionicons name="refresh" size={24} color="#4CAF50" />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={() => handleDiscardQueuedSighting(entry)}
+                >
+                  <Ionicons name="trash-outline" size={24} color="#FF5722" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
   if (!user) {
     return (
       <View style={styles.container}>
@@ -471,7 +612,7 @@ const ProfileScreen: React.FC = () => {
             color={activeTab === 'favorites' ? '#4CAF50' : '#666'}
           />
           <Text style={[styles.profileTabText, activeTab === 'favorites' && styles.activeProfileTabText]}>
-            Favorites ({favoriteAnimals.length})
+            Favorites ({favoriteAnimals.length}{favoritesCursor ? '+' : ''})
           </Text>
         </TouchableOpacity>
       </View>
@@ -502,7 +643,7 @@ const ProfileScreen: React.FC = () => {
           ))}
         </View>
       ) : activeTab === 'sightings' ? (
-        myAnimals.length === 0 ? (
+        myAnimals.length === 0 && queuedSightings.length === 0 ? (
           <View style={styles.emptyContainer}>
             <Ionicons name="paw-outline" size={60} color="#ccc" />
             <Text style={styles.emptyText}>No animal sightings yet</Text>
@@ -515,6 +656,7 @@ const ProfileScreen: React.FC = () => {
             data={myAnimals}
             renderItem={renderAnimalItem}
             keyExtractor={(item) => item.id}
+            ListHeaderComponent={renderQueuedSightings}
             contentContainerStyle={styles.listContent}
             refreshControl={
               <RefreshControl
@@ -550,6 +692,13 @@ const ProfileScreen: React.FC = () => {
               renderItem={renderAnimalItem}
               keyExtractor={(item) => item.id}
               contentContainerStyle={styles.listContent}
+              onEndReached={loadMoreFavorites}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={
+                loadingMoreFavorites ? (
+                  <ActivityIndicator style={styles.listFooter} color="#4CAF50" />
+                ) : null
+              }
               refreshControl={
                 <RefreshControl
                   refreshing={refreshing}
@@ -730,6 +879,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  listFooter: {
+    paddingVertical: 16,
+  },
   listContent: {
     padding: 10,
   },
@@ -993,6 +1145,25 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     fontWeight: '600',
   },
+  queuedCard: {
+    borderWidth: 1,
+    borderColor: '#FFE0B2',
+    borderStyle: 'dashed',
+  },
+  queuedStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  queuedStatusText: {
+    fontSize: 12,
+    color: '#FF9800',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  queuedStatusFailed: {
+    color: '#FF5722',
+  },
   rescuedCard: {
     borderColor: '#4CAF50',
     borderWidth: 2,
@@ -23,6 +23,10 @@ import { cleanupService } from '../services/cleanup';
 import { useAuth } from '../contexts/AuthContext';
 import { purchaseService } from '../services/purchaseService';
 import { supabase } from '../services/api/supabaseClient';
+import { notificationService } from '../services/notifications';
+import { settingsService } from '../services/settings/settingsService';
+import { petalogSyncService } from '../services/petalogSync';
+import { NotificationDigestMode } from '../types';
 
 type SettingsScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -43,11 +47,27 @@ const SettingsScreen: React.FC = () => {
     setIsBackgroundTrackingEnabled,
     searchRadius,
     setSearchRadius,
+    notificationDigest,
+    setNotificationDigest,
   } = useSettings();
 
   const [purchaseLoading, setPurchaseLoading] = useState<string | null>(null);
   const [isSupporter, setIsSupporter] = useState(false);
   const [purchaseProvider, setPurchaseProvider] = useState<string>('none');
+  const [notifySightingMatches, setNotifySightingMatches] = useState(false);
+  const [petalogBackup, setPetalogBackup] = useState(true);
+
+  // Sighting match opt-in lives on the profile only
+  useEffect(() => {
+    if (!user) return;
+    notificationService.loadSightingMatchPreference().then(setNotifySightingMatches);
+  }, [user]);
+
+  // Pet-a-log backup is a per-account choice stored on the device
+  useEffect(() => {
+    if (!user) return;
+    petalogSyncService.isEnabled().then(setPetalogBackup);
+  }, [user]);
 
   // Initialize purchase service and check supporter status
   useEffect(() => {
@@ -118,6 +138,34 @@ const SettingsScreen: React.FC = () => {
   };
 
   // Handle toggling notifications
+  const handleDigestChange = async (mode: NotificationDigestMode) => {
+    const previous = notificationDigest;
+    setNotificationDigest(mode);
+    settingsService.setNotificationDigest(mode);
+
+    // The server decides whether to push immediately or batch
+    const saved = await notificationService.saveDigestPreference(mode);
+    if (!saved) {
+      setNotificationDigest(previous);
+      settingsService.setNotificationDigest(previous);
+      Alert.alert('Error', 'Failed to update digest mode. Please try again.');
+    }
+  };
+
+  const handleTogglePetalogBackup = async (value: boolean) => {
+    setPetalogBackup(value);
+    await petalogSyncService.setEnabled(value);
+  };
+
+  const handleToggleSightingMatches = async (value: boolean) => {
+    setNotifySightingMatches(value);
+    const saved = await notificationService.saveSightingMatchPreference(value);
+    if (!saved) {
+      setNotifySightingMatches(!value);
+      Alert.alert('Error', 'Failed to update this setting. Please try again.');
+    }
+  };
+
   const handleToggleNotifications = async (value: boolean) => {
     if (value) {
       const hasPermission = await requestNotificationPermission();
@@ -449,6 +497,86 @@ const SettingsScreen: React.FC = () => {
             </TouchableOpacity>
           ))}
         </View>
+
+        {user && (
+          <>
+            <View style={[styles.settingRow, !isNotificationsEnabled && styles.disabled]}>
+              <View style={styles.settingLabelContainer}>
+                <Ionicons name="albums-outline" size={24} color="#4CAF50" />
+                <Text style={styles.settingLabel}>Digest</Text>
+              </View>
+              <Text style={styles.settingValue}>
+                {notificationDigest === 'off' ? 'Send right away' : `One ${notificationDigest} summary`}
+              </Text>
+            </View>
+
+            <View style={styles.timeFrameButtons}>
+              {(['off', 'hourly', 'daily'] as NotificationDigestMode[]).map((mode) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[
+                    styles.timeFrameButton,
+                    notificationDigest === mode && styles.selectedTimeFrame,
+                    !isNotificationsEnabled && styles.disabledButton,
+                  ]}
+                  onPress={() => handleDigestChange(mode)}
+                  disabled={!isNotificationsEnabled}
+                >
+                  <Text
+                    style={[
+                      styles.timeFrameButtonText,
+                      notificationDigest === mode && styles.selectedTimeFrameText,
+                    ]}
+                  >
+                    {mode === 'off' ? 'Off' : mode === 'hourly' ? 'Hourly' : 'Daily'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {notificationDigest !== 'off' && (
+              <TouchableOpacity
+                style={styles.settingRow}
+                onPress={() => navigation.navigate('Digest')}
+              >
+                <View style={styles.settingLabelContainer}>
+                  <Ionicons name="list-outline" size={24} color="#4CAF50" />
+                  <Text style={styles.settingLabel}>Recent Digest Items</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color="#999" />
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+
+        {user && (
+          <View style={[styles.settingRow, !isNotificationsEnabled && styles.disabled]}>
+            <View style={styles.settingLabelContainer}>
+              <Ionicons name="search-outline" size={24} color="#4CAF50" />
+              <Text style={styles.settingLabel}>Matches for My Sightings</Text>
+            </View>
+            <Switch
+              value={notifySightingMatches}
+              onValueChange={handleToggleSightingMatches}
+              disabled={!isNotificationsEnabled}
+              trackColor={{ false: '#767577', true: '#4CAF50' }}
+              thumbColor={notifySightingMatches ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+        )}
+
+        {user && (
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => navigation.navigate('WatchZones')}
+          >
+            <View style={styles.settingLabelContainer}>
+              <Ionicons name="radio-outline" size={24} color="#4CAF50" />
+              <Text style={styles.settingLabel}>Watch Zones</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#999" />
+          </TouchableOpacity>
+        )}
       </View>
 
       <View style={styles.section}>
@@ -589,6 +717,19 @@ const SettingsScreen: React.FC = () => {
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Account</Text>
 
+          <View style={styles.settingRow}>
+            <View style={styles.settingLabelContainer}>
+              <Ionicons name="cloud-upload-outline" size={24} color="#4CAF50" />
+              <Text style={styles.settingLabel}>Back Up Pet-a-log</Text>
+            </View>
+            <Switch
+              value={petalogBackup}
+              onValueChange={handleTogglePetalogBackup}
+              trackColor={{ false: '#767577', true: '#4CAF50' }}
+              thumbColor={petalogBackup ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+
           <TouchableOpacity
             style={[styles.deleteAccountButton]}
             onPress={() => {
@@ -635,6 +776,24 @@ const SettingsScreen: React.FC = () => {
         </View>
       )}
 
+      {/* Moderators are granted the admin role from the dashboard */}
+      {profile?.role === 'admin' && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Moderation</Text>
+
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => navigation.navigate('ModerationQueue')}
+          >
+            <View style={styles.settingLabelContainer}>
+              <Ionicons name="flag-outline" size={24} color="#4CAF50" />
+              <Text style={styles.settingLabel}>Reported Content</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#999" />
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>About</Text>
 
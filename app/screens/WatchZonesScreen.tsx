@@ -0,0 +1,575 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Slider from '@react-native-community/slider';
+import MapView, { Marker, Circle, MapPressEvent } from 'react-native-maps';
+import { locationService } from '../services/location/locationService';
+import {
+  watchZonesService,
+  WatchZone,
+  WatchZoneInput,
+  WATCH_ZONE_MAX_RADIUS_KM,
+} from '../services/watchZones';
+
+const THEME = {
+  primary: '#D0F0C0',
+  secondary: '#2E7D32',
+  background: '#F5F5F5',
+  text: '#212121',
+  lightText: '#757575',
+};
+
+// Used when the device location is unavailable
+const DEFAULT_CENTER = { latitude: 37.7749, longitude: -122.4194 };
+
+const SPECIES_OPTIONS: { value: WatchZone['animal_type']; label: string }[] = [
+  { value: null, label: 'Cats & Dogs' },
+  { value: 'cat', label: 'Cats' },
+  { value: 'dog', label: 'Dogs' },
+];
+
+const EMPTY_DRAFT: WatchZoneInput = {
+  name: '',
+  ...DEFAULT_CENTER,
+  radius_km: 1,
+  animal_type: null,
+  quiet_start_hour: null,
+  quiet_end_hour: null,
+};
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+const describeZone = (zone: WatchZone) => {
+  const species = SPECIES_OPTIONS.find((o) => o.value === zone.animal_type)?.label ?? 'Cats & Dogs';
+  const quiet = zone.quiet_start_hour !== null && zone.quiet_end_hour !== null
+    ? ` · Quiet ${formatHour(zone.quiet_start_hour)}–${formatHour(zone.quiet_end_hour)}`
+    : '';
+  return `${zone.radius_km.toFixed(1)} km · ${species}${quiet}`;
+};
+
+const WatchZonesScreen: React.FC = () => {
+  const [zones, setZones] = useState<WatchZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingZoneId, setEditingZoneId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<WatchZoneInput>(EMPTY_DRAFT);
+
+  useEffect(() => {
+    loadZones();
+  }, []);
+
+  const loadZones = async () => {
+    setLoading(true);
+    const data = await watchZonesService.getZones();
+    setZones(data);
+    setLoading(false);
+  };
+
+  const openNewZone = async () => {
+    setEditingZoneId(null);
+    setDraft(EMPTY_DRAFT);
+    setShowEditor(true);
+
+    const location = await locationService.getCurrentLocation();
+    if (location) {
+      setDraft((d) => ({ ...d, latitude: location.latitude, longitude: location.longitude }));
+    }
+  };
+
+  const openEditZone = (zone: WatchZone) => {
+    setEditingZoneId(zone.id);
+    setDraft({
+      name: zone.name,
+      latitude: zone.latitude,
+      longitude: zone.longitude,
+      radius_km: zone.radius_km,
+      animal_type: zone.animal_type,
+      quiet_start_hour: zone.quiet_start_hour,
+      quiet_end_hour: zone.quiet_end_hour,
+    });
+    setShowEditor(true);
+  };
+
+  const handleMapPress = (event: MapPressEvent) => {
+    const { latitude, longitude } = event.nativeEvent.coordinate;
+    setDraft((d) => ({ ...d, latitude, longitude }));
+  };
+
+  const toggleQuietHours = (enabled: boolean) => {
+    setDraft((d) => ({
+      ...d,
+      quiet_start_hour: enabled ? 22 : null,
+      quiet_end_hour: enabled ? 7 : null,
+    }));
+  };
+
+  const stepHour = (field: 'quiet_start_hour' | 'quiet_end_hour', delta: number) => {
+    setDraft((d) => ({ ...d, [field]: (((d[field] ?? 0) + delta) % 24 + 24) % 24 }));
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      Alert.alert('Name Required', 'Give this zone a name, like "Home" or "Colony site".');
+      return;
+    }
+
+    setSaving(true);
+    const saved = editingZoneId
+      ? await watchZonesService.updateZone(editingZoneId, draft)
+      : await watchZonesService.createZone(draft);
+    setSaving(false);
+
+    if (!saved) {
+      Alert.alert('Error', 'Failed to save watch zone. Please try again.');
+      return;
+    }
+
+    setZones((current) => editingZoneId
+      ? current.map((z) => (z.id === saved.id ? saved : z))
+      : [...current, saved]);
+    setShowEditor(false);
+  };
+
+  const handleToggleActive = async (zone: WatchZone, isActive: boolean) => {
+    setZones((current) => current.map((z) => (z.id === zone.id ? { ...z, is_active: isActive } : z)));
+    const updated = await watchZonesService.updateZone(zone.id, { is_active: isActive });
+    if (!updated) {
+      setZones((current) => current.map((z) => (z.id === zone.id ? zone : z)));
+    }
+  };
+
+  const handleDelete = (zone: WatchZone) => {
+    Alert.alert(
+      'Delete Watch Zone',
+      `Stop alerts for "${zone.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const deleted = await watchZonesService.deleteZone(zone.id);
+            if (deleted) {
+              setZones((current) => current.filter((z) => z.id !== zone.id));
+            } else {
+              Alert.alert('Error', 'Failed to delete watch zone. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderZone = ({ item }: { item: WatchZone }) => (
+    <TouchableOpacity style={styles.zoneCard} onPress={() => openEditZone(item)}>
+      <View style={styles.zoneInfo}>
+        <Text style={styles.zoneName}>{item.name}</Text>
+        <Text style={styles.zoneDetails}>{describeZone(item)}</Text>
+      </View>
+      <Switch
+        value={item.is_active}
+        onValueChange={(value) => handleToggleActive(item, value)}
+        trackColor={{ false: '#767577', true: '#4CAF50' }}
+        thumbColor={item.is_active ? '#fff' : '#f4f3f4'}
+      />
+      <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(item)}>
+        <Ionicons name="trash-outline" size={20} color="#E53935" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  const renderHourStepper = (label: string, field: 'quiet_start_hour' | 'quiet_end_hour') => (
+    <View style={styles.stepperRow}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <TouchableOpacity style={styles.stepperButton} onPress={() => stepHour(field, -1)}>
+        <Ionicons name="remove" size={18} color={THEME.secondary} />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{formatHour(draft[field] ?? 0)}</Text>
+      <TouchableOpacity style={styles.stepperButton} onPress={() => stepHour(field, 1)}>
+        <Ionicons name="add" size={18} color={THEME.secondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEditor = () => {
+    const quietEnabled = draft.quiet_start_hour !== null && draft.quiet_end_hour !== null;
+
+    return (
+      <Modal
+        visible={showEditor}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowEditor(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingZoneId ? 'Edit Zone' : 'New Zone'}</Text>
+              <TouchableOpacity onPress={() => setShowEditor(false)}>
+                <Ionicons name="close" size={24} color={THEME.secondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalScroll}>
+              <Text style={styles.fieldLabel}>Name</Text>
+              <TextInput
+                style={styles.textInput}
+                placeholder="Home, work, colony site..."
+                value={draft.name}
+                onChangeText={(name) => setDraft((d) => ({ ...d, name }))}
+                placeholderTextColor={THEME.lightText}
+                maxLength={40}
+              />
+
+              <Text style={styles.fieldLabel}>Center</Text>
+              <MapView
+                style={styles.map}
+                region={{
+                  latitude: draft.latitude,
+                  longitude: draft.longitude,
+                  latitudeDelta: Math.max(0.02, (draft.radius_km / 111) * 3),
+                  longitudeDelta: Math.max(0.02, (draft.radius_km / 111) * 3),
+                }}
+                onPress={handleMapPress}
+              >
+                <Marker coordinate={{ latitude: draft.latitude, longitude: draft.longitude }} />
+                <Circle
+                  center={{ latitude: draft.latitude, longitude: draft.longitude }}
+                  radius={draft.radius_km * 1000}
+                  strokeColor={THEME.secondary}
+                  fillColor="rgba(46, 125, 50, 0.15)"
+                />
+              </MapView>
+              <Text style={styles.hint}>Tap the map to move the zone</Text>
+
+              <View style={styles.fieldRow}>
+                <Text style={styles.fieldLabel}>Radius</Text>
+                <Text style={styles.fieldValue}>{draft.radius_km.toFixed(1)} km</Text>
+              </View>
+              <Slider
+                minimumValue={0.2}
+                maximumValue={WATCH_ZONE_MAX_RADIUS_KM}
+                step={0.1}
+                value={draft.radius_km}
+                onSlidingComplete={(radius_km) => setDraft((d) => ({ ...d, radius_km }))}
+                minimumTrackTintColor="#4CAF50"
+                maximumTrackTintColor="#d3d3d3"
+                thumbTintColor="#4CAF50"
+              />
+
+              <Text style={styles.fieldLabel}>Species</Text>
+              <View style={styles.optionRow}>
+                {SPECIES_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[
+                      styles.optionButton,
+                      draft.animal_type === option.value && styles.optionButtonActive,
+                    ]}
+                    onPress={() => setDraft((d) => ({ ...d, animal_type: option.value }))}
+                  >
+                    <Text
+                      style={[
+                        styles.optionText,
+                        draft.animal_type === option.value && styles.optionTextActive,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <View style={styles.fieldRow}>
+                <Text style={styles.fieldLabel}>Quiet Hours</Text>
+                <Switch
+                  value={quietEnabled}
+                  onValueChange={toggleQuietHours}
+                  trackColor={{ false: '#767577', true: '#4CAF50' }}
+                  thumbColor={quietEnabled ? '#fff' : '#f4f3f4'}
+                />
+              </View>
+              {quietEnabled && (
+                <>
+                  {renderHourStepper('From', 'quiet_start_hour')}
+                  {renderHourStepper('Until', 'quiet_end_hour')}
+                </>
+              )}
+            </ScrollView>
+
+            <View style={styles.modalFooter}>
+              <TouchableOpacity
+                style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save Zone</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={THEME.secondary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={zones}
+        keyExtractor={(item) => item.id}
+        renderItem={renderZone}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <Text style={styles.intro}>
+            Get a push notification when a new animal is reported inside one of your zones.
+          </Text>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="radio-outline" size={48} color={THEME.lightText} />
+            <Text style={styles.emptyText}>No watch zones yet</Text>
+          </View>
+        }
+      />
+
+      <TouchableOpacity style={styles.addButton} onPress={openNewZone}>
+        <Ionicons name="add" size={22} color="white" />
+        <Text style={styles.addButtonText}>Add Zone</Text>
+      </TouchableOpacity>
+
+      {renderEditor()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: THEME.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 96,
+  },
+  intro: {
+    fontSize: 14,
+    color: THEME.lightText,
+    marginBottom: 16,
+  },
+  zoneCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  zoneInfo: {
+    flex: 1,
+  },
+  zoneName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  zoneDetails: {
+    fontSize: 13,
+    color: THEME.lightText,
+    marginTop: 4,
+  },
+  deleteButton: {
+    marginLeft: 12,
+    padding: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: THEME.lightText,
+    marginTop: 12,
+  },
+  addButton: {
+    position: 'absolute',
+    bottom: 24,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: THEME.secondary,
+    borderRadius: 24,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: THEME.text,
+  },
+  modalScroll: {
+    padding: 20,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: THEME.text,
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  fieldValue: {
+    fontSize: 14,
+    color: THEME.lightText,
+    marginTop: 12,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: THEME.text,
+  },
+  map: {
+    height: 200,
+    borderRadius: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: THEME.lightText,
+    marginTop: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#F5F5F5',
+  },
+  optionButtonActive: {
+    backgroundColor: THEME.primary,
+    borderColor: THEME.secondary,
+  },
+  optionText: {
+    fontSize: 14,
+    color: THEME.lightText,
+    fontWeight: '500',
+  },
+  optionTextActive: {
+    color: THEME.secondary,
+    fontWeight: '600',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  stepperLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: THEME.text,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#E8F5E9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    width: 64,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: THEME.text,
+  },
+  modalFooter: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#E0E0E0',
+  },
+  saveButton: {
+    paddingVertical: 14,
+    borderRadius: 10,
+    backgroundColor: THEME.secondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
+
+export default WatchZonesScreen;
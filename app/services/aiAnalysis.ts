@@ -1,6 +1,7 @@
 import { supabase } from './api/supabaseClient';
 import { Alert } from 'react-native';
 import * as FileSystem from 'expo-file-system';
+import type { Coat } from './coatColors';
 
 // Free tier daily analysis limit (kept in one place)
 export const FREE_TIER_DAILY_LIMIT = 30;
@@ -9,7 +10,9 @@ export interface AIAnalysisResult {
   animalType: 'cat' | 'dog' | 'unknown';
   breed: string;
   confidence?: number;
+  // Normalized to the coat vocabulary, e.g. "Orange Tabby"
   color?: string;
+  coat?: Coat;
   age?: string;
   healthStatus?: string;
   description?: string;
@@ -1,5 +1,6 @@
 import { supabase } from './supabaseClient';
 import { Cat } from '../../types';
+import { getFuzzRadiusMeters } from '../location/locationPrivacy';
 
 export const catService = {
   // Add a new cat to the database
@@ -112,7 +113,7 @@ export const catService = {
       // Fallback: Get all cats within the time frame and filter by distance
       const recentCats = await this.getCatsWithinTimeFrame(hours);
       
-      // Filter cats by distance
+      // Filter cats by distance, allowing for fuzzed locations
       const nearbyCats = recentCats.filter(cat => {
         const distance = this.calculateDistance(
           latitude,
@@ -120,7 +121,7 @@ export const catService = {
           cat.latitude,
           cat.longitude
         );
-        return distance <= radiusKm;
+        return distance <= radiusKm + getFuzzRadiusMeters(cat.location_privacy) / 1000;
       });
       
       console.log(`Found ${nearbyCats.length} cats within ${radiusKm}km radius`);
@@ -1,16 +1,26 @@
-import { Alert } from 'react-native';
-import { REMOVE_BG_API_KEY } from '@env';
+import {
+  applyMask,
+  encodePngDataUri,
+  ImageMask,
+  Segmentation,
+  segmentationService,
+} from './segmentation';
 
 export interface BackgroundRemovalResult {
   imageUri: string;
   success: boolean;
+  // Backend that removed the background, e.g. remove_bg or local
+  backend: string;
+  // Photo and mask, for refining the cutout with the mask brush
+  segmentation: Segmentation;
 }
 
 export const backgroundRemovalService = {
   /**
-   * Remove background from an image using remove.bg API
-   * @param imageUri - Local file URI or base64
-   * @returns Image with transparent background
+   * Remove background from an image, with remove.bg when it's configured
+   * and has credit left, otherwise on the device
+   * @param imageUri - Local file URI
+   * @returns Image with transparent background, null if no subject was found
    */
   async removeBackground(imageUri: string): Promise<BackgroundRemovalResult | null> {
     try {
@@ -18,93 +28,49 @@ export const backgroundRemovalService = {
         console.log('[BG Removal] Processing image...');
       }
 
-      if (!REMOVE_BG_API_KEY) {
+      const segmentation = await segmentationService.segment(imageUri);
+      if (!segmentation) {
+        // Silently fall back - don't show alert
         if (__DEV__) {
-          console.log('[BG Removal] No API key configured, using original image');
+          console.log('[BG Removal] No backend could remove the background, using original image');
         }
         return null;
       }
 
-      // Create FormData with file URI (React Native specific)
-      const formData = new FormData();
-      formData.append('size', 'auto');
-      formData.append('image_file', {
-        uri: imageUri,
-        type: 'image/jpeg',
-        name: 'photo.jpg',
-      } as any);
-
-      // Add timeout to prevent hanging
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-
-      const response = await fetch('https://api.remove.bg/v1.0/removebg', {
-        method: 'POST',
-        headers: {
-          'X-Api-Key': REMOVE_BG_API_KEY,
-        },
-        body: formData,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[BG Removal] API error:', errorText);
-        
-        // Check if it's a credit limit error (403 or 402)
-        if (response.status === 403 || response.status === 402) {
-          if (__DEV__) {
-            console.log('[BG Removal] Monthly limit reached, using original image');
-          }
-          // Silently fall back - don't show alert
-          return null;
-        }
-        
-        // For other errors, also fall back silently
-        if (__DEV__) {
-          console.log('[BG Removal] API error, using original image');
-        }
-        return null;
-      }
-
-      // Convert response blob to base64 data URI
-      const resultBlob = await response.blob();
-      const reader = new FileReader();
-      
-      const resultUri = await new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          resolve(reader.result as string);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(resultBlob);
-      });
-
       if (__DEV__) {
         console.log('[BG Removal] Background removed successfully');
       }
 
       return {
-        imageUri: resultUri,
+        imageUri: this.renderCutout(segmentation),
         success: true,
+        backend: segmentation.backend,
+        segmentation,
       };
     } catch (error: any) {
       console.error('[BG Removal] Error:', error);
-      
+
       // Silently fall back to original image - no alert needed
       if (__DEV__) {
         console.log('[BG Removal] Failed, using original image');
       }
-      
+
       return null;
     }
   },
 
+  /**
+   * Render a segmented photo as a transparent PNG data URI,
+   * optionally with a mask refined by the user
+   */
+  renderCutout(segmentation: Segmentation, mask: ImageMask = segmentation.mask): string {
+    return encodePngDataUri(applyMask(segmentation.image, mask));
+  },
+
   /**
    * Check if background removal is available
    */
   isAvailable(): boolean {
-    return true; // Always available, will fall back gracefully if limit reached
+    return segmentationService.getBackends().length > 0;
   },
 };
@@ -0,0 +1,25 @@
+/**
+ * Coat color and pattern taxonomy
+ * The vocabulary lives with the edge functions so the matcher and the app
+ * parse colors the same way
+ */
+export {
+  COAT_COLORS,
+  COAT_PATTERNS,
+  COAT_COLOR_LABELS,
+  COAT_PATTERN_LABELS,
+  CAT_ONLY_PATTERNS,
+  DOG_ONLY_PATTERNS,
+  getImpliedColors,
+  parseCoat,
+  formatCoat,
+  normalizeCoatText,
+  areCoatsCompatible,
+} from '../../supabase/functions/_shared/coatColors';
+export type {
+  Coat,
+  CoatColor,
+  CoatPattern,
+  CoatCompatibility,
+  ParseCoatOptions,
+} from '../../supabase/functions/_shared/coatColors';
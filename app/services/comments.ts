@@ -1,19 +1,120 @@
 import { supabase } from './api/supabaseClient';
+import { catService } from './supabase';
+import { profileResolver } from './profileResolver';
+
+// Matches the CHECK constraints in 20-add-comment-attachments-and-care-log.sql
+export type CommentType = 'comment' | 'status_update';
+export type CareAction = 'fed' | 'vet_visit' | 'trapped' | 'released';
+export type CareHealthStatus = 'healthy' | 'injured' | 'sick';
+
+export const CARE_ACTIONS: { value: CareAction; label: string; description: string }[] = [
+  { value: 'fed', label: 'Fed', description: 'Gave food or water' },
+  { value: 'vet_visit', label: 'Vet visit', description: 'Seen by a vet, marks the animal as helped' },
+  { value: 'trapped', label: 'Trapped', description: 'Trapped for TNR or rescue, marks the animal as helped' },
+  { value: 'released', label: 'Released', description: 'Back outdoors, marks the animal as active' },
+];
+
+// Most photos on one comment
+export const MAX_COMMENT_PHOTOS = 4;
 
 export interface Comment {
   id: string;
   animal_id: string;
   auth_user_id: string;
   comment_text: string;
+  // Top comment of the thread, null for top comments
+  parent_id: string | null;
+  // Set once the text has been edited
+  edited_at: string | null;
+  image_urls: string[];
+  comment_type: CommentType;
+  // Only on status updates
+  care_action: CareAction | null;
+  health_status: CareHealthStatus | null;
+  // Set when a moderator hides the comment
+  hidden_at?: string | null;
   created_at: string;
   updated_at: string;
-  // Joined profile data
+  // Author profile, attached by profileResolver
   profiles?: {
-    display_name: string;
-    avatar_url: string;
+    display_name: string | null;
+    avatar_url: string | null;
   };
 }
 
+export interface CommentRevision {
+  id: string;
+  comment_id: string;
+  comment_text: string;
+  replaced_at: string;
+}
+
+export interface NewCommentOptions {
+  // Thread to reply in
+  parentId?: string;
+  // Local photo URIs, uploaded before the comment is saved
+  photoUris?: string[];
+  // Makes the comment a status update
+  careAction?: CareAction;
+  healthStatus?: CareHealthStatus;
+}
+
+// Realtime changes to an animal's comments
+export type CommentChange =
+  | { type: 'created' | 'updated'; comment: Comment }
+  | { type: 'deleted'; id: string };
+
+// An @handle as matched in 19-add-comment-threads.sql, captured whole so
+// comment text can be split into plain and mention parts
+export const MENTION_PATTERN = /(@[\p{L}\p{N}_]+)/u;
+
+/**
+ * The @handle for a display name, e.g. "Jane Doe" -> "JaneDoe"
+ */
+export const toMentionHandle = (displayName: string): string =>
+  displayName.replace(/[^\p{L}\p{N}_]/gu, '');
+
+const ANONYMOUS_PROFILE = {
+  display_name: 'Anonymous',
+  avatar_url: '🐾',
+};
+
+/**
+ * Whether a comment may be saved without text: it has photos or is a status update
+ */
+export const isCommentTextOptional = (comment: Pick<Comment, 'image_urls' | 'comment_type'>): boolean =>
+  comment.image_urls?.length > 0 || comment.comment_type === 'status_update';
+
+// Trim, check the length and strip angle brackets
+// Photos and status updates may go without text
+const sanitizeCommentText = (commentText: string, allowEmpty = false): string => {
+  const trimmed = (commentText ?? '').trim();
+  if (trimmed.length === 0 && !allowEmpty) {
+    throw new Error('Comment cannot be empty');
+  }
+  if (trimmed.length > 1000) {
+    throw new Error('Comment is too long (max 1000 characters)');
+  }
+
+  // Basic sanitization: strip dangerous angle brackets to avoid HTML/script injection
+  // For stronger needs, wire up a sanitizer util/library in the future
+  return trimmed.replace(/[<>]/g, '');
+};
+
+// Remove photos uploaded for a comment that couldn't be saved
+const removeUploadedPhotos = async (imageUrls: string[]): Promise<void> => {
+  await Promise.all(imageUrls.map((url) => catService.deleteImageFromStorage(url).catch(() => false)));
+};
+
+// Attach author profiles, resolved in one batched lookup
+const attachProfiles = async (comments: Comment[]): Promise<Comment[]> => {
+  const profiles = await profileResolver.resolveMany(comments.map(c => c.auth_user_id));
+  return comments.map(comment => ({
+    ...comment,
+    profiles: profiles.get(comment.auth_user_id) || ANONYMOUS_PROFILE,
+  }));
+};
+
 export const commentService = {
   // Get comments for an animal
   async getComments(animalId: string): Promise<Comment[]> {
@@ -27,6 +128,7 @@ export const commentService = {
         .from('comments')
         .select('*')
         .eq('animal_id', animalId)
+        .is('hidden_at', null)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -47,22 +149,7 @@ export const commentService = {
         return [];
       }
 
-      // Fetch profiles for all unique user IDs
-      const userIds = [...new Set(comments.map(c => c.auth_user_id))];
-      const { data: profiles } = await supabase
-        .from('profiles')
-        .select('id, display_name, avatar_url')
-        .in('id', userIds);
-
-      // Map profiles to comments
-      const profileMap = new Map(profiles?.map(p => [p.id, p]) || []);
-      const commentsWithProfiles = comments.map(comment => ({
-        ...comment,
-        profiles: profileMap.get(comment.auth_user_id) || {
-          display_name: 'Anonymous',
-          avatar_url: '🐾',
-        },
-      }));
+      const commentsWithProfiles = await attachProfiles(comments);
 
       if (__DEV__) {
         console.log('[Comments] Fetched', commentsWithProfiles.length, 'comments');
@@ -82,7 +169,8 @@ export const commentService = {
       const { count, error } = await supabase
         .from('comments')
         .select('*', { count: 'exact', head: true })
-        .eq('animal_id', animalId);
+        .eq('animal_id', animalId)
+        .is('hidden_at', null);
 
       if (error) {
         if (error.message?.includes('relation') || error.message?.includes('does not exist')) {
@@ -105,7 +193,8 @@ export const commentService = {
       const { data, error } = await supabase
         .from('comments')
         .select('animal_id')
-        .in('animal_id', animalIds);
+        .in('animal_id', animalIds)
+        .is('hidden_at', null);
 
       if (error) throw error;
 
@@ -124,25 +213,38 @@ export const commentService = {
     }
   },
 
-  // Add a comment
-  async addComment(animalId: string, commentText: string): Promise<Comment> {
+  // Add a comment, a reply, or a status update, with optional photos
+  async addComment(
+    animalId: string,
+    commentText: string,
+    options: NewCommentOptions = {}
+  ): Promise<Comment> {
     try {
-      // Server-side validation before any DB/auth calls
-      const trimmed = (commentText ?? '').trim();
-      if (trimmed.length === 0) {
-        throw new Error('Comment cannot be empty');
-      }
-      if (trimmed.length > 1000) {
-        throw new Error('Comment is too long (max 1000 characters)');
+      const photoUris = options.photoUris ?? [];
+      if (photoUris.length > MAX_COMMENT_PHOTOS) {
+        throw new Error(`Too many photos (max ${MAX_COMMENT_PHOTOS})`);
       }
 
-      // Basic sanitization: strip dangerous angle brackets to avoid HTML/script injection
-      // For stronger needs, wire up a sanitizer util/library in the future
-      const sanitized = trimmed.replace(/[<>]/g, '');
+      // Server-side validation before any DB/auth calls
+      const sanitized = sanitizeCommentText(
+        commentText,
+        photoUris.length > 0 || !!options.careAction
+      );
 
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
+      // Photos go to the same bucket as sightings, all or none
+      const imageUrls: string[] = [];
+      for (const uri of photoUris) {
+        const url = await catService.uploadImageBase64(uri, user.id);
+        if (!url) {
+          await removeUploadedPhotos(imageUrls);
+          throw new Error('Failed to upload photo');
+        }
+        imageUrls.push(url);
+      }
+
       if (__DEV__) {
         console.log('[Comments] Adding comment for user:', user.id);
       }
@@ -154,6 +256,11 @@ export const commentService = {
           animal_id: animalId,
           auth_user_id: user.id,
           comment_text: sanitized,
+          parent_id: options.parentId ?? null,
+          image_urls: imageUrls,
+          comment_type: options.careAction ? 'status_update' : 'comment',
+          care_action: options.careAction ?? null,
+          health_status: options.careAction ? options.healthStatus ?? null : null,
         })
         .select('*')
         .single();
@@ -162,27 +269,16 @@ export const commentService = {
         if (__DEV__) {
           console.error('[Comments] Insert error:', error);
         }
+        await removeUploadedPhotos(imageUrls);
         throw error;
       }
 
-      // Fetch profile separately
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id, display_name, avatar_url')
-        .eq('id', user.id)
-        .single();
-
       if (__DEV__) {
         console.log('[Comments] Comment added successfully');
       }
 
-      return {
-        ...comment,
-        profiles: profile || {
-          display_name: 'Anonymous',
-          avatar_url: '🐾',
-        },
-      };
+      const [commentWithProfile] = await attachProfiles([comment]);
+      return commentWithProfile;
     } catch (error: any) {
       if (__DEV__) {
         console.error('[Comments] Failed to add comment:', error.message);
@@ -191,6 +287,74 @@ export const commentService = {
     }
   },
 
+  // Edit the text of your own comment, the old text is kept as a revision
+  // Photos and status updates can have their text cleared, like when posted
+  async editComment(original: Comment, commentText: string): Promise<Comment> {
+    try {
+      const sanitized = sanitizeCommentText(commentText, isCommentTextOptional(original));
+
+      const { data: comment, error } = await supabase
+        .from('comments')
+        .update({ comment_text: sanitized })
+        .eq('id', original.id)
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!comment) throw new Error('Comment not found');
+
+      const [commentWithProfile] = await attachProfiles([comment]);
+      return commentWithProfile;
+    } catch (error: any) {
+      if (__DEV__) {
+        console.error('[Comments] Failed to edit comment:', error.message);
+      }
+      throw error;
+    }
+  },
+
+  // Status updates for an animal, newest first
+  async getCareLog(animalId: string): Promise<Comment[]> {
+    try {
+      const { data: updates, error } = await supabase
+        .from('comments')
+        .select('*')
+        .eq('animal_id', animalId)
+        .eq('comment_type', 'status_update')
+        .is('hidden_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      if (!updates || updates.length === 0) return [];
+
+      return attachProfiles(updates);
+    } catch (error: any) {
+      if (__DEV__) {
+        console.error('[Comments] Failed to fetch care log:', error.message);
+      }
+      return [];
+    }
+  },
+
+  // Earlier versions of an edited comment, oldest first
+  async getRevisions(commentId: string): Promise<CommentRevision[]> {
+    try {
+      const { data, error } = await supabase
+        .from('comment_revisions')
+        .select('*')
+        .eq('comment_id', commentId)
+        .order('replaced_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error: any) {
+      if (__DEV__) {
+        console.error('[Comments] Failed to fetch revisions:', error.message);
+      }
+      return [];
+    }
+  },
+
   // Delete a comment
   async deleteComment(commentId: string): Promise<void> {
     try {
@@ -208,10 +372,10 @@ export const commentService = {
     }
   },
 
-  // Subscribe to comments for an animal (real-time)
+  // Subscribe to new, edited and deleted comments for an animal (real-time)
   subscribeToComments(
     animalId: string,
-    callback: (comment: Comment) => void
+    callback: (change: CommentChange) => void
   ) {
     const channel = supabase
       .channel(`comments:${animalId}`)
@@ -224,28 +388,46 @@ export const commentService = {
           filter: `animal_id=eq.${animalId}`,
         },
         async (payload) => {
-          // Fetch the full comment with profile data
-          const { data: comment } = await supabase
-            .from('comments')
-            .select('*')
-            .eq('id', payload.new.id)
-            .single();
-
-          if (comment) {
-            // Fetch profile separately
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('id, display_name, avatar_url')
-              .eq('id', comment.auth_user_id)
-              .single();
-
-            callback({
-              ...comment,
-              profiles: profile || {
-                display_name: 'Anonymous',
-                avatar_url: '🐾',
-              },
-            });
+          // The payload is the whole row, only the author needs resolving
+          const comment = payload.new as Comment;
+          if (comment.hidden_at) return;
+
+          const [commentWithProfile] = await attachProfiles([comment]);
+          callback({ type: 'created', comment: commentWithProfile });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'comments',
+          filter: `animal_id=eq.${animalId}`,
+        },
+        async (payload) => {
+          const comment = payload.new as Comment;
+          // Hidden by a moderator, drop it like a deleted comment
+          if (comment.hidden_at) {
+            callback({ type: 'deleted', id: comment.id });
+            return;
+          }
+
+          const [commentWithProfile] = await attachProfiles([comment]);
+          callback({ type: 'updated', comment: commentWithProfile });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Delete events can't be filtered and only carry the id,
+          // so ids that aren't on this animal are ignored by the listener
+          event: 'DELETE',
+          schema: 'public',
+          table: 'comments',
+        },
+        (payload) => {
+          if (payload.old?.id) {
+            callback({ type: 'deleted', id: payload.old.id });
           }
         }
       )
@@ -0,0 +1,55 @@
+import { supabase } from './api/supabaseClient';
+
+export type DigestItemKind = 'sighting' | 'rescue' | 'lost_match';
+
+export interface DigestItem {
+  id: string;
+  kind: DigestItemKind;
+  animal_id: string;
+  lost_animal_id: string | null;
+  summary: string | null;
+  // Set for sightings held back by watch-zone quiet hours
+  deliver_after: string | null;
+  digest_id: string | null;
+  sent_at: string | null;
+  created_at: string;
+  animal: {
+    id: string;
+    name?: string | null;
+    image_url: string;
+    animal_type?: 'cat' | 'dog';
+    spotted_at: string;
+  } | null;
+}
+
+// How many recent items to show when opened without a digest id
+const RECENT_DIGEST_ITEMS_LIMIT = 50;
+
+export const digestService = {
+  /**
+   * Get the items of one digest, or the most recent items if no id is given
+   */
+  async getDigestItems(digestId?: string): Promise<DigestItem[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      let query = supabase
+        .from('notification_digest_items')
+        .select('*, animal:animals(id, name, image_url, animal_type, spotted_at)')
+        .eq('auth_user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      query = digestId
+        ? query.eq('digest_id', digestId)
+        : query.limit(RECENT_DIGEST_ITEMS_LIMIT);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    } catch (error: any) {
+      console.error('[Digest] Error loading digest items:', error.message || error);
+      return [];
+    }
+  },
+};
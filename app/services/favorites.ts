@@ -1,4 +1,8 @@
 import { supabase } from './api/supabaseClient';
+import { cache, CACHE_KEYS } from './cache';
+import type { FavoritesCursor, Page } from '../types';
+
+export const FAVORITES_PAGE_SIZE = 20;
 
 export interface Favorite {
   id: string;
@@ -49,6 +53,7 @@ export const favoritesService = {
         });
 
       if (error) throw error;
+      cache.invalidate(CACHE_KEYS.USER_FAVORITES(user.id));
 
       // Track action for rating
       import('./rating').then(({ ratingService }) => {
@@ -80,6 +85,7 @@ export const favoritesService = {
         .eq('animal_id', animalId);
 
       if (error) throw error;
+      cache.invalidate(CACHE_KEYS.USER_FAVORITES(user.id));
 
       if (__DEV__) {
         console.log('[Favorites] Removed favorite');
@@ -105,6 +111,7 @@ export const favoritesService = {
         .insert({ auth_user_id: user.id, animal_id: animalId });
 
       if (!error) {
+        cache.invalidate(CACHE_KEYS.USER_FAVORITES(user.id));
         if (__DEV__) console.log('[Favorites] Toggled on (inserted)');
         return true;
       }
@@ -140,53 +147,66 @@ export const favoritesService = {
       throw delError;
     }
 
+    cache.invalidate(CACHE_KEYS.USER_FAVORITES(user.id));
+
     // If no rows affected, treat as already removed
     const removed = (count ?? 0) > 0;
     if (__DEV__) console.log('[Favorites] Toggled off (deleted rows):', count ?? 0);
     return removed ? false : false;
   },
 
-  // Get user's favorite animals
-  async getUserFavorites(): Promise<any[]> {
+  // Get one page of the user's favorite animals, most recently favorited first
+  async getUserFavoritesPage(
+    cursor: FavoritesCursor | null = null,
+    pageSize = FAVORITES_PAGE_SIZE
+  ): Promise<Page<any, FavoritesCursor>> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return [];
+      if (!user) return { items: [], nextCursor: null };
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('favorites')
-        .select(`
-          id,
-          created_at,
-          animal_id
-        `)
-        .eq('auth_user_id', user.id)
-        .order('created_at', { ascending: false });
+        .select('id, created_at, animal_id')
+        .eq('auth_user_id', user.id);
+
+      if (cursor) {
+        query = query.or(
+          `created_at.lt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`
+        );
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(pageSize);
 
       if (error) throw error;
+      if (!data || data.length === 0) return { items: [], nextCursor: null };
 
-      if (!data || data.length === 0) return [];
+      const last = data[data.length - 1];
+      const nextCursor = data.length === pageSize
+        ? { created_at: last.created_at, id: last.id }
+        : null;
 
-      // Fetch animal details for each favorite (including rescued ones)
-      const animalIds = data.map(f => f.animal_id);
+      // Fetch animal details for the page (including rescued ones)
       const { data: animals, error: animalsError } = await supabase
         .from('animals')
         .select('*')
-        .in('id', animalIds);
+        .in('id', data.map(f => f.animal_id))
+        .is('hidden_at', null);
 
       if (animalsError) throw animalsError;
 
-      // Sort: active animals first, then rescued
-      const sorted = (animals || []).sort((a, b) => {
-        if (a.is_rescued === b.is_rescued) return 0;
-        return a.is_rescued ? 1 : -1;
-      });
+      // Keep favorite order, skipping animals that were deleted
+      const byId = new Map((animals || []).map(animal => [animal.id, animal]));
+      const items = data.map(f => byId.get(f.animal_id)).filter(Boolean);
 
-      return sorted;
+      return { items, nextCursor };
     } catch (error: any) {
       if (__DEV__) {
-        console.error('[Favorites] Failed to fetch favorites:', error.message);
+        console.error('[Favorites] Failed to fetch favorites page:', error.message);
       }
-      return [];
+      return { items: [], nextCursor: null };
     }
   },
 
@@ -208,6 +228,26 @@ export const favoritesService = {
     }
   },
 
+  // Get the users who most recently favorited an animal, newest first
+  async getRecentFavoriters(animalId: string, limit = 5): Promise<string[]> {
+    try {
+      const { data, error } = await supabase
+        .from('favorites')
+        .select('auth_user_id')
+        .eq('animal_id', animalId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data?.map((favorite) => favorite.auth_user_id) || [];
+    } catch (error: any) {
+      if (__DEV__) {
+        console.error('[Favorites] Failed to fetch favoriters');
+      }
+      return [];
+    }
+  },
+
   // Get favorite counts for multiple animals
   async getFavoriteCounts(animalIds: string[]): Promise<Record<string, number>> {
     try {
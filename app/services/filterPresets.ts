@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AdvancedFilters } from '../types';
+
+const PRESETS_KEY = 'animal_filter_presets';
+const MAX_PRESETS = 10;
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  search: string;
+  animalFilter: 'all' | 'cats' | 'dogs';
+  filters: AdvancedFilters;
+  created_at: string;
+}
+
+export const filterPresetsService = {
+  /**
+   * Get saved presets, newest first
+   */
+  async getPresets(): Promise<FilterPreset[]> {
+    try {
+      const stored = await AsyncStorage.getItem(PRESETS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[FilterPresets] Error loading presets:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Save the current search and filters under a name
+   * A preset with the same name is replaced
+   */
+  async savePreset(preset: Omit<FilterPreset, 'id' | 'created_at'>): Promise<FilterPreset[]> {
+    try {
+      const presets = await this.getPresets();
+      const name = preset.name.trim();
+      const saved: FilterPreset = {
+        ...preset,
+        name,
+        id: `${Date.now()}`,
+        created_at: new Date().toISOString(),
+      };
+
+      const updated = [
+        saved,
+        ...presets.filter((p) => p.name.toLowerCase() !== name.toLowerCase()),
+      ].slice(0, MAX_PRESETS);
+
+      await AsyncStorage.setItem(PRESETS_KEY, JSON.stringify(updated));
+      return updated;
+    } catch (error) {
+      console.error('[FilterPresets] Error saving preset:', error);
+      return this.getPresets();
+    }
+  },
+
+  /**
+   * Delete a preset
+   */
+  async deletePreset(presetId: string): Promise<FilterPreset[]> {
+    try {
+      const presets = await this.getPresets();
+      const updated = presets.filter((p) => p.id !== presetId);
+      await AsyncStorage.setItem(PRESETS_KEY, JSON.stringify(updated));
+      return updated;
+    } catch (error) {
+      console.error('[FilterPresets] Error deleting preset:', error);
+      return this.getPresets();
+    }
+  },
+};
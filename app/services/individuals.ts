@@ -0,0 +1,261 @@
+import { supabase } from './api/supabaseClient';
+import * as FileSystem from 'expo-file-system';
+
+// Hash distance (differing bits out of 64) and radius for grouping sightings.
+// Very close photos taken nearby are grouped automatically, looser ones are
+// offered to the reporter as "Is this the same animal?"
+export const SAME_ANIMAL_THRESHOLDS = {
+  auto: { maxHashDistance: 6, radiusM: 150 },
+  suggest: { maxHashDistance: 12, radiusM: 500 },
+};
+
+export interface Individual {
+  id: string;
+  animal_type: 'cat' | 'dog';
+  name?: string | null;
+  cover_image_url?: string | null;
+  first_seen_at: string | null;
+  last_seen_at: string | null;
+  sighting_count: number;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface SimilarSighting {
+  id: string;
+  image_url: string;
+  name?: string | null;
+  description?: string | null;
+  color?: string | null;
+  animal_type?: 'cat' | 'dog';
+  spotted_at: string;
+  latitude: number;
+  longitude: number;
+  individual_id?: string | null;
+  hash_distance: number;
+  distance_m: number;
+}
+
+// One linked sighting as shown on an individual's timeline
+export interface IndividualSighting {
+  id: string;
+  image_url: string;
+  name?: string | null;
+  description?: string | null;
+  animal_type?: 'cat' | 'dog';
+  spotted_at: string;
+  latitude: number;
+  longitude: number;
+  auth_user_id?: string | null;
+}
+
+export const individualsService = {
+  /**
+   * Compute the perceptual hash of a photo via the image-hash edge function
+   * @param imageUri - Local file URI or remote URL
+   * @returns 16 hex char hash, or null if hashing failed
+   */
+  async hashImage(imageUri: string): Promise<string | null> {
+    try {
+      let body: { imageUrl?: string; imageBase64?: string };
+      if (imageUri.startsWith('file://')) {
+        const imageBase64 = await FileSystem.readAsStringAsync(imageUri, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        body = { imageBase64 };
+      } else {
+        body = { imageUrl: imageUri };
+      }
+
+      const { data, error } = await supabase.functions.invoke('image-hash', { body });
+      if (error) throw error;
+      return data?.hash ?? null;
+    } catch (error) {
+      console.error('[Individuals] Error hashing image:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Find nearby sightings with a similar photo
+   */
+  async findSimilarSightings(params: {
+    imageHash: string;
+    latitude: number;
+    longitude: number;
+    animalType?: 'cat' | 'dog';
+    excludeId?: string;
+    radiusM?: number;
+    maxHashDistance?: number;
+  }): Promise<SimilarSighting[]> {
+    try {
+      const { data, error } = await supabase.rpc('find_similar_sightings', {
+        p_image_hash: params.imageHash,
+        p_lat: params.latitude,
+        p_lng: params.longitude,
+        p_radius_m: params.radiusM ?? SAME_ANIMAL_THRESHOLDS.suggest.radiusM,
+        p_max_hash_distance: params.maxHashDistance ?? SAME_ANIMAL_THRESHOLDS.suggest.maxHashDistance,
+        p_animal_type: params.animalType ?? null,
+        p_exclude_id: params.excludeId ?? null,
+      });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('[Individuals] Error finding similar sightings:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Group a sighting with an existing one as the same individual
+   * @returns The individual ID, or null on failure
+   */
+  async linkSighting(sightingId: string, sameAsSightingId: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('link_sighting_to_individual', {
+        p_sighting_id: sightingId,
+        p_same_as_sighting_id: sameAsSightingId,
+      });
+
+      if (error) throw error;
+      if (__DEV__) {
+        console.log('[Individuals] Linked sighting', sightingId, 'to individual', data);
+      }
+      return data;
+    } catch (error) {
+      console.error('[Individuals] Error linking sighting:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Group a freshly added sighting automatically when an almost identical
+   * photo was reported nearby
+   */
+  async autoLinkSighting(sighting: {
+    id: string;
+    image_hash?: string | null;
+    latitude: number;
+    longitude: number;
+    animal_type?: 'cat' | 'dog';
+  }): Promise<string | null> {
+    if (!sighting.image_hash) return null;
+
+    const [match] = await this.findSimilarSightings({
+      imageHash: sighting.image_hash,
+      latitude: sighting.latitude,
+      longitude: sighting.longitude,
+      animalType: sighting.animal_type,
+      excludeId: sighting.id,
+      radiusM: SAME_ANIMAL_THRESHOLDS.auto.radiusM,
+      maxHashDistance: SAME_ANIMAL_THRESHOLDS.auto.maxHashDistance,
+    });
+
+    if (!match) return null;
+    return this.linkSighting(sighting.id, match.id);
+  },
+
+  /**
+   * Get an individual by ID
+   */
+  async getIndividual(individualId: string): Promise<Individual | null> {
+    try {
+      const { data, error } = await supabase
+        .from('individuals')
+        .select('*')
+        .eq('id', individualId)
+        .single();
+
+      if (error) throw error;
+      return data || null;
+    } catch (error) {
+      console.error('[Individuals] Error fetching individual:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Get all sightings linked to an individual, oldest first
+   */
+  async getIndividualSightings(individualId: string): Promise<IndividualSighting[]> {
+    try {
+      const { data, error } = await supabase
+        .from('animals')
+        .select('id, image_url, name, description, animal_type, spotted_at, latitude, longitude, auth_user_id')
+        .eq('individual_id', individualId)
+        .is('hidden_at', null)
+        .order('spotted_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('[Individuals] Error fetching sightings:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Lookalike sightings that could be merged into this sighting's individual
+   * Uses a wider radius than the add flow since owners review each one
+   */
+  async getMergeCandidates(sighting: {
+    id: string;
+    image_hash?: string | null;
+    individual_id?: string | null;
+    latitude: number;
+    longitude: number;
+    animal_type?: 'cat' | 'dog';
+  }): Promise<SimilarSighting[]> {
+    if (!sighting.image_hash) return [];
+
+    const candidates = await this.findSimilarSightings({
+      imageHash: sighting.image_hash,
+      latitude: sighting.latitude,
+      longitude: sighting.longitude,
+      animalType: sighting.animal_type,
+      excludeId: sighting.id,
+      radiusM: SAME_ANIMAL_THRESHOLDS.suggest.radiusM * 4,
+    });
+
+    return candidates.filter(
+      (candidate) => !sighting.individual_id || candidate.individual_id !== sighting.individual_id
+    );
+  },
+
+  /**
+   * Merge the groups of two sightings into one individual
+   * @returns The individual ID, or null on failure
+   */
+  async mergeSightings(sightingId: string, otherSightingId: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('merge_sighting_groups', {
+        p_sighting_id: sightingId,
+        p_other_sighting_id: otherSightingId,
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('[Individuals] Error merging sightings:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Remove a sighting from its individual
+   */
+  async splitSighting(sightingId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('split_sighting', {
+        p_sighting_id: sightingId,
+      });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('[Individuals] Error splitting sighting:', error);
+      return false;
+    }
+  },
+};
@@ -1,2 +1,3 @@
 // Export all location-related services
-export * from './locationService'; 
\ No newline at end of file
+export * from './locationService';
+export * from './locationPrivacy';
@@ -0,0 +1,29 @@
+import { LocationPrivacy } from '../../types';
+import { getFuzzRadiusKm } from '../../../supabase/functions/_shared/roaming';
+
+/**
+ * Per-post location privacy levels
+ * The fuzzing itself happens in the database (17-add-location-privacy.sql),
+ * the app only picks a level and shows how approximate a location is
+ */
+export const LOCATION_PRIVACY_LEVELS: {
+  value: LocationPrivacy;
+  label: string;
+  description: string;
+}[] = [
+  { value: 'exact', label: 'Exact', description: 'Everyone sees the exact spot' },
+  { value: 'approximate', label: '~100 m', description: 'Others see a spot within about 100 m' },
+  { value: 'neighborhood', label: 'Neighborhood', description: 'Others see a spot within about 1 km' },
+];
+
+export const DEFAULT_LOCATION_PRIVACY: LocationPrivacy = 'approximate';
+
+/** Furthest the public location can be from the real one, in meters */
+export function getFuzzRadiusMeters(privacy?: LocationPrivacy | null): number {
+  return getFuzzRadiusKm(privacy) * 1000;
+}
+
+/** Whether the public location of a post is fuzzed */
+export function isApproximateLocation(privacy?: LocationPrivacy | null): boolean {
+  return getFuzzRadiusMeters(privacy) > 0;
+}
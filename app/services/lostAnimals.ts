@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
 import { Alert } from 'react-native';
+import type { Cat, LocationCoordinates, LocationPrivacy } from '../types';
 
 export interface LostAnimal {
   id: string;
@@ -15,7 +16,9 @@ export interface LostAnimal {
   photo_url_1: string;
   photo_url_2?: string;
   photo_url_3?: string;
+  // Fuzzed server-side unless location_privacy is 'exact'
   last_seen_location: { latitude: number; longitude: number };
+  location_privacy?: LocationPrivacy;
   last_seen_address?: string;
   last_seen_date: string;
   contact_name: string;
@@ -27,17 +30,70 @@ export interface LostAnimal {
   created_at: string;
 }
 
+export type MatchFeatureKey = 'coat_color' | 'pattern' | 'size' | 'markings' | 'eye_color';
+
+export interface MatchFeatureScore {
+  score: number;
+  note?: string;
+}
+
+// null means the feature wasn't visible in one of the photos
+export type MatchFeatureScores = Record<MatchFeatureKey, MatchFeatureScore | null>;
+
+// Owner's review of a match, see 13-add-match-review.sql
+export type MatchReviewStatus = 'pending' | 'checking' | 'confirmed' | 'rejected' | 'reunited';
+
 export interface LostAnimalMatch {
   id: string;
   lost_animal_id: string;
   sighting_id: string;
   confidence_score: number;
   match_reason?: string;
+  feature_scores?: MatchFeatureScores | null;
+  photos_compared?: number | null;
+  // Inputs to confidence_score's distance and time weighting
+  vision_confidence?: number | null;
+  distance_km?: number | null;
+  days_since_last_seen?: number | null;
+  proximity_score?: number | null;
+  // Joined animals row
+  sighting?: Cat;
+  // Only joined by getMatch
+  lost_animal?: LostAnimal;
   viewed: boolean;
   dismissed: boolean;
+  review_status?: MatchReviewStatus;
+  reject_reason?: string | null;
+  reviewed_at?: string | null;
+  reunited_at?: string | null;
+  // Set when the sighting's reporter was told, see 16-add-reporter-match-updates.sql
+  reporter_notified_at?: string | null;
+  owner_shares_contact?: boolean;
+  reporter_shares_contact?: boolean;
   created_at: string;
 }
 
+export type ReporterStillThere = 'still_here' | 'moved_on' | 'not_sure';
+
+// What the sighting's reporter knows now, shared with the owner
+export interface MatchReporterUpdate {
+  id: string;
+  match_id: string;
+  reporter_id: string;
+  still_there: ReporterStillThere;
+  last_seen_at: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+// Only returned once both the owner and the reporter agreed to share
+export interface MatchContacts {
+  owner_name: string | null;
+  owner_phone: string | null;
+  owner_email: string | null;
+  reporter_contact: string | null;
+}
+
 export const lostAnimalsService = {
   // Simple event listeners for UI refreshes
   _listeners: new Set<(event: any) => void>(),
@@ -78,6 +134,7 @@ export const lostAnimalsService = {
         .from('lost_animals_with_matches')
         .select('*')
         .eq('status', 'active')
+        .is('hidden_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -97,6 +154,7 @@ export const lostAnimalsService = {
         .from('lost_animals_with_matches')
         .select('*')
         .eq('user_id', userId)
+        .is('hidden_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -121,6 +179,7 @@ export const lostAnimalsService = {
     distinctive_features?: string[];
     photo_urls: string[]; // 1-3 photos
     last_seen_location: { latitude: number; longitude: number };
+    location_privacy?: LocationPrivacy;
     last_seen_address?: string;
     last_seen_date: Date;
     contact_name: string;
@@ -145,6 +204,7 @@ export const lostAnimalsService = {
         photo_url_2: data.photo_urls[1] || null,
         photo_url_3: data.photo_urls[2] || null,
         last_seen_location: `POINT(${data.last_seen_location.longitude} ${data.last_seen_location.latitude})`,
+        location_privacy: data.location_privacy,
         last_seen_address: data.last_seen_address,
         last_seen_date: data.last_seen_date.toISOString(),
         contact_name: data.contact_name,
@@ -258,6 +318,29 @@ export const lostAnimalsService = {
     }
   },
 
+  /**
+   * Get a single match with its sighting and lost animal
+   */
+  async getMatch(matchId: string): Promise<LostAnimalMatch | null> {
+    try {
+      const { data, error } = await supabase
+        .from('lost_animal_matches')
+        .select(`
+          *,
+          sighting:animals(*),
+          lost_animal:lost_animals(*)
+        `)
+        .eq('id', matchId)
+        .single();
+
+      if (error) throw error;
+      return data || null;
+    } catch (error) {
+      console.error('[LostAnimals] Error fetching match:', error);
+      return null;
+    }
+  },
+
   /**
    * Mark match as viewed
    */
@@ -296,6 +379,151 @@ export const lostAnimalsService = {
     }
   },
 
+  /**
+   * Record the owner's review of a match
+   * Rejecting also dismisses it; confirming notifies the sighting's reporter
+   */
+  async reviewMatch(
+    matchId: string,
+    status: 'checking' | 'confirmed' | 'rejected',
+    reason?: string
+  ): Promise<LostAnimalMatch | null> {
+    try {
+      const { data, error } = await supabase.rpc('review_lost_animal_match', {
+        p_match_id: matchId,
+        p_status: status,
+        p_reason: reason ?? null,
+      });
+
+      if (error) throw error;
+      if (data) {
+        this._emit({ type: 'match_reviewed', record: data });
+      }
+      return data || null;
+    } catch (error) {
+      console.error('[LostAnimals] Error reviewing match:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Mark a confirmed match as reunited
+   * The lost animal becomes found and the sighting rescued
+   */
+  async reuniteMatch(matchId: string): Promise<LostAnimalMatch | null> {
+    try {
+      const { data, error } = await supabase.rpc('reunite_lost_animal_match', {
+        p_match_id: matchId,
+      });
+
+      if (error) throw error;
+      if (data) {
+        this._emit({ type: 'updated', record: { id: data.lost_animal_id, status: 'found' } });
+      }
+      return data || null;
+    } catch (error) {
+      console.error('[LostAnimals] Error reuniting match:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Reporter updates on a match, newest first
+   */
+  async getReporterUpdates(matchId: string): Promise<MatchReporterUpdate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('match_reporter_updates')
+        .select('*')
+        .eq('match_id', matchId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('[LostAnimals] Error fetching reporter updates:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Reporter shares what they know now, the owner gets a push
+   */
+  async addReporterUpdate(
+    matchId: string,
+    update: { stillThere: ReporterStillThere; lastSeenAt?: Date | null; note?: string }
+  ): Promise<MatchReporterUpdate | null> {
+    try {
+      const { data, error } = await supabase.rpc('add_match_reporter_update', {
+        p_match_id: matchId,
+        p_still_there: update.stillThere,
+        p_last_seen_at: update.lastSeenAt ? update.lastSeenAt.toISOString() : null,
+        p_note: update.note ?? null,
+      });
+
+      if (error) throw error;
+      return data || null;
+    } catch (error) {
+      console.error('[LostAnimals] Error adding reporter update:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Agree (or stop agreeing) to share contact details on a match
+   * Reporters pass the phone number or email they want to share
+   */
+  async setContactConsent(matchId: string, share: boolean, contact?: string): Promise<LostAnimalMatch | null> {
+    try {
+      const { data, error } = await supabase.rpc('set_match_contact_consent', {
+        p_match_id: matchId,
+        p_share: share,
+        p_contact: contact ?? null,
+      });
+
+      if (error) throw error;
+      return data || null;
+    } catch (error) {
+      console.error('[LostAnimals] Error updating contact consent:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Both sides' contact details, null until both agreed to share
+   */
+  async getMatchContacts(matchId: string): Promise<MatchContacts | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_match_contacts', {
+        p_match_id: matchId,
+      });
+
+      if (error) throw error;
+      return data?.[0] || null;
+    } catch (error) {
+      console.error('[LostAnimals] Error fetching match contacts:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Exact last seen location of a post whose public location is fuzzed
+   * Only returned to the post's owner, null otherwise
+   */
+  async getExactLocation(lostAnimalId: string): Promise<LocationCoordinates | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_lost_animal_exact_location', {
+        p_lost_animal_id: lostAnimalId,
+      });
+
+      if (error) throw error;
+      return data?.[0] ?? null;
+    } catch (error) {
+      console.error('[LostAnimals] Error fetching exact location:', error);
+      return null;
+    }
+  },
+
   /**
    * Mark lost animal as found
    */
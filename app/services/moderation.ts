@@ -0,0 +1,121 @@
+import { supabase } from './api/supabaseClient';
+
+// Matches the CHECK constraints in 18-add-moderation.sql
+export type ReportTargetType = 'animal' | 'comment' | 'lost_animal';
+export type ReportCategory = 'spam' | 'abuse' | 'wrong_location' | 'animal_cruelty';
+export type ModerationAction = 'hide' | 'restore' | 'ban' | 'dismiss';
+
+export const REPORT_CATEGORIES: { value: ReportCategory; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Ads, scams or repeated posts' },
+  { value: 'abuse', label: 'Abuse', description: 'Harassment, hate or threats' },
+  { value: 'wrong_location', label: 'Wrong location', description: 'The pin is misleading or exposes a home' },
+  { value: 'animal_cruelty', label: 'Animal cruelty', description: 'Shows or encourages harm to an animal' },
+];
+
+/** One reported item in the moderator queue, with its open reports rolled up */
+export interface ModerationQueueItem {
+  target_type: ReportTargetType;
+  target_id: string;
+  report_count: number;
+  categories: ReportCategory[];
+  notes: string[];
+  first_reported_at: string;
+  // null when the item has been deleted since it was reported
+  author_id: string | null;
+  author_name: string | null;
+  author_banned: boolean;
+  preview_text: string | null;
+  preview_image_url: string | null;
+  hidden_at: string | null;
+}
+
+export const moderationService = {
+  /**
+   * Report a sighting, comment or lost animal post
+   * Reporting the same item again replaces the earlier report
+   */
+  async report(
+    targetType: ReportTargetType,
+    targetId: string,
+    category: ReportCategory,
+    note?: string
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('report_content', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_category: category,
+        p_note: note?.trim() || null,
+      });
+
+      if (error) throw error;
+      return true;
+    } catch (error: any) {
+      console.error('[Moderation] Error reporting content:', error.message || error);
+      return false;
+    }
+  },
+
+  /**
+   * Whether the current user is a moderator (profiles.role 'admin')
+   */
+  async isModerator(): Promise<boolean> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return false;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      return data?.role === 'admin';
+    } catch (error: any) {
+      console.error('[Moderation] Error checking role:', error.message || error);
+      return false;
+    }
+  },
+
+  /**
+   * Open reports grouped by item, most urgent first. Moderators only
+   */
+  async getQueue(limit = 50): Promise<ModerationQueueItem[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_moderation_queue', { p_limit: limit });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error: any) {
+      console.error('[Moderation] Error loading queue:', error.message || error);
+      return [];
+    }
+  },
+
+  /**
+   * Hide, restore, ban the author of, or dismiss the reports on an item
+   * Closes the item's open reports either way
+   */
+  async moderate(
+    targetType: ReportTargetType,
+    targetId: string,
+    action: ModerationAction,
+    note?: string
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('moderate_content', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_action: action,
+        p_note: note?.trim() || null,
+      });
+
+      if (error) throw error;
+      return true;
+    } catch (error: any) {
+      console.error('[Moderation] Error moderating content:', error.message || error);
+      return false;
+    }
+  },
+};
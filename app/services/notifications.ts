@@ -1,6 +1,7 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import { supabase } from './api/supabaseClient';
+import type { NotificationDigestMode } from '../types';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -12,6 +13,9 @@ Notifications.setNotificationHandler({
 });
 
 export const notificationService = {
+  // Mirrors profiles.notification_digest, loaded on initialize
+  digestMode: 'off' as NotificationDigestMode,
+
   // Request notification permissions
   async requestPermissions(): Promise<boolean> {
     // Skip on web/simulator
@@ -104,6 +108,93 @@ export const notificationService = {
     }
   },
 
+  // Save digest mode so the server batches pushes for this user
+  async saveDigestPreference(mode: NotificationDigestMode): Promise<boolean> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return false;
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ notification_digest: mode })
+        .eq('id', user.id);
+
+      if (error) throw error;
+      this.digestMode = mode;
+      return true;
+    } catch (error: any) {
+      if (__DEV__) {
+        console.error('[Notifications] Failed to save digest preference:', error.message);
+      }
+      return false;
+    }
+  },
+
+  // Load the saved digest mode
+  async loadDigestPreference(): Promise<NotificationDigestMode> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return this.digestMode;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('notification_digest')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      this.digestMode = data?.notification_digest ?? 'off';
+    } catch (error: any) {
+      if (__DEV__) {
+        console.error('[Notifications] Failed to load digest preference:', error.message);
+      }
+    }
+    return this.digestMode;
+  },
+
+  // Opt in or out of pushes when one of your sightings may be a lost pet
+  async saveSightingMatchPreference(enabled: boolean): Promise<boolean> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return false;
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ notify_sighting_matches: enabled })
+        .eq('id', user.id);
+
+      if (error) throw error;
+      return true;
+    } catch (error: any) {
+      if (__DEV__) {
+        console.error('[Notifications] Failed to save sighting match preference:', error.message);
+      }
+      return false;
+    }
+  },
+
+  // Load the sighting match opt-in, off unless the user turned it on
+  async loadSightingMatchPreference(): Promise<boolean> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return false;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('notify_sighting_matches')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      return !!data?.notify_sighting_matches;
+    } catch (error: any) {
+      if (__DEV__) {
+        console.error('[Notifications] Failed to load sighting match preference:', error.message);
+      }
+      return false;
+    }
+  },
+
   // Initialize notifications
   async initialize(): Promise<void> {
     const hasPermission = await this.requestPermissions();
@@ -113,6 +204,7 @@ export const notificationService = {
     if (token) {
       await this.savePushToken(token);
     }
+    await this.loadDigestPreference();
   },
 
   // Send local notification (for testing)
@@ -153,12 +245,15 @@ export const notificationService = {
             // Check if status changed to rescued
             if (payload.new.is_rescued && (!payload.old || !payload.old.is_rescued)) {
               callback(payload.new);
+
+              // Digest users get rescues in their next digest instead
+              if (this.digestMode !== 'off') return;
               
               // Send local notification
               await this.sendLocalNotification(
                 '🎉 Animal Rescued!',
                 `An animal you favorited has been rescued!`,
-                { animalId: payload.new.id }
+                { type: 'favorite_rescued', animalId: payload.new.id }
               );
             }
           }
@@ -4,6 +4,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { LocationCoordinates, NotifiedArea } from '../../types';
 import { catService } from '../api/catService';
 import { locationService } from '../location/locationService';
+import { settingsService } from '../settings/settingsService';
 
 // Configure notifications
 Notifications.setNotificationHandler({
@@ -223,6 +224,12 @@ export const notificationService = {
   ): Promise<void> {
     try {
       console.log(`Checking for cats within ${radiusKm}km in the last ${timeFrameHours} hours...`);
+
+      // Digest users get new sightings batched server-side instead
+      if (settingsService.getSettings().notificationDigest !== 'off') {
+        console.log('Digest mode enabled, skipping immediate nearby notification');
+        return;
+      }
       
       // Check if we've recently notified about this area
       const recentlyNotified = await this.hasRecentlyNotifiedArea(
@@ -269,14 +276,21 @@ export const notificationService = {
       if (newCats.length === 1) {
         const cat = newCats[0];
         const timeAgo = this.getTimeAgo(cat.created_at);
+        const species = cat.animal_type === 'dog' ? 'dog' : 'cat';
         await this.sendNotification(
           'stray animal Nearby',
-          `A cat was spotted ${timeAgo} near your location. Tap to view details.`
+          `A ${species} was spotted ${timeAgo} near your location. Tap to view details.`
         );
       } else {
+        const dogCount = newCats.filter(cat => cat.animal_type === 'dog').length;
+        const catCount = newCats.length - dogCount;
+        const counts = [
+          catCount > 0 ? `${catCount} ${catCount === 1 ? 'cat' : 'cats'}` : null,
+          dogCount > 0 ? `${dogCount} ${dogCount === 1 ? 'dog' : 'dogs'}` : null,
+        ].filter(Boolean).join(' and ');
         await this.sendNotification(
           'stray animals Nearby',
-          `${newCats.length} cats were spotted near your location. Tap to view details.`
+          `${counts} were spotted near your location. Tap to view details.`
         );
       }
     } catch (error: any) {
@@ -4,11 +4,16 @@ import {
   CollectionPage,
   AnimalSticker,
   createInitialCollection,
+  isPristineCollection,
 } from '../types/petalog';
 import { supabase } from './supabase';
+import { petalogSyncService } from './petalogSync';
 
 const STORAGE_KEY_PREFIX = '@straysync_petalog_collection';
+const ANONYMOUS_STORAGE_KEY = `${STORAGE_KEY_PREFIX}_anonymous`;
 const SAVE_DEBOUNCE_MS = 300;
+// Changes are pushed to the cloud in batches after they're saved locally
+const PUSH_DEBOUNCE_MS = 5000;
 
 // Get user-specific storage key
 async function getStorageKey(): Promise<string> {
@@ -17,9 +22,42 @@ async function getStorageKey(): Promise<string> {
   return `${STORAGE_KEY_PREFIX}_${userId}`;
 }
 
+// Convert date strings back to Date objects
+// Stickers saved before sync have no updatedAt, so they use capturedAt
+function reviveCollection(data: any): PetALogCollection {
+  return {
+    ...data,
+    pages: data.pages.map((page: any) => ({
+      ...page,
+      createdAt: new Date(page.createdAt),
+      updatedAt: new Date(page.updatedAt),
+      stickers: page.stickers.map((sticker: any) => ({
+        ...sticker,
+        capturedAt: new Date(sticker.capturedAt),
+        updatedAt: new Date(sticker.updatedAt ?? sticker.capturedAt),
+      })),
+    })),
+  };
+}
+
 // Internal debounced save state
 let pendingSaveTimer: ReturnType<typeof setTimeout> | null = null;
 let latestSerialized: string | null = null;
+let pendingPushTimer: ReturnType<typeof setTimeout> | null = null;
+let migration: Promise<void> | null = null;
+
+// Push the latest saved state once edits settle
+function schedulePush() {
+  if (pendingPushTimer) {
+    clearTimeout(pendingPushTimer);
+  }
+  pendingPushTimer = setTimeout(() => {
+    pendingPushTimer = null;
+    if (latestSerialized) {
+      petalogSyncService.push(reviveCollection(JSON.parse(latestSerialized)));
+    }
+  }, PUSH_DEBOUNCE_MS);
+}
 
 /**
  * Pet-a-log Service
@@ -32,6 +70,11 @@ export const petalogService = {
    */
   async loadCollection(): Promise<PetALogCollection> {
     try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        await this.migrateLocalCollection(user.id);
+      }
+
       const storageKey = await getStorageKey();
       const data = await AsyncStorage.getItem(storageKey);
 
@@ -44,18 +87,7 @@ export const petalogService = {
         return initial;
       }
 
-      const collection = JSON.parse(data);
-
-      // Convert date strings back to Date objects
-      collection.pages = collection.pages.map((page: any) => ({
-        ...page,
-        createdAt: new Date(page.createdAt),
-        updatedAt: new Date(page.updatedAt),
-        stickers: page.stickers.map((sticker: any) => ({
-          ...sticker,
-          capturedAt: new Date(sticker.capturedAt),
-        })),
-      }));
+      const collection = reviveCollection(JSON.parse(data));
 
       if (__DEV__) {
         console.log(`[PetALog] Loaded collection with ${collection.pages.length} pages for user`);
@@ -86,6 +118,7 @@ export const petalogService = {
           if (__DEV__) {
             console.log('[PetALog] Collection saved (flush)');
           }
+          schedulePush();
         } catch (error) {
           console.error('[PetALog] Error flushing save:', error);
         } finally {
@@ -114,7 +147,81 @@ export const petalogService = {
       if (__DEV__) {
         console.log('[PetALog] Collection saved (flush now)');
       }
+      schedulePush();
+    }
+  },
+
+  /**
+   * Merge the collection with the signed-in user's cloud copy
+   * Saves and returns the merged collection, or the given one when signed
+   * out, sync is off, or it was edited meanwhile (the next sync catches up)
+   */
+  async syncCollection(collection: PetALogCollection): Promise<PetALogCollection> {
+    await this.flushNow();
+    const savedBefore = latestSerialized;
+    const synced = await petalogSyncService.sync(collection);
+    if (synced === collection || latestSerialized !== savedBefore) {
+      return collection;
+    }
+    await this.saveCollection(synced);
+    return synced;
+  },
+
+  /**
+   * Move the collection made while signed out into the user's own,
+   * once per user on this device, so it's kept and backed up
+   */
+  migrateLocalCollection(userId: string): Promise<void> {
+    if (!migration) {
+      migration = (async () => {
+        try {
+          if (await petalogSyncService.isMigrated(userId)) return;
+
+          const userKey = `${STORAGE_KEY_PREFIX}_${userId}`;
+          const [anonymousData, userData] = await Promise.all([
+            AsyncStorage.getItem(ANONYMOUS_STORAGE_KEY),
+            AsyncStorage.getItem(userKey),
+          ]);
+
+          if (anonymousData) {
+            const anonymous = reviveCollection(JSON.parse(anonymousData));
+            const existing = userData ? reviveCollection(JSON.parse(userData)) : null;
+
+            // Migrated pages count as new changes so they're pushed
+            const now = new Date();
+            const movedPages = isPristineCollection(anonymous)
+              ? []
+              : anonymous.pages.map((page) => ({
+                  ...page,
+                  updatedAt: now,
+                  stickers: page.stickers.map((sticker) => ({ ...sticker, updatedAt: now })),
+                }));
+            const keptPages = existing && !isPristineCollection(existing) ? existing.pages : [];
+            const pages = [...keptPages, ...movedPages];
+
+            if (pages.length > 0) {
+              const migrated: PetALogCollection = {
+                pages,
+                currentPageIndex: existing && keptPages.length > 0 ? existing.currentPageIndex : 0,
+              };
+              await AsyncStorage.setItem(userKey, JSON.stringify(migrated));
+            }
+            await AsyncStorage.removeItem(ANONYMOUS_STORAGE_KEY);
+
+            if (__DEV__) {
+              console.log(`[PetALog] Migrated ${movedPages.length} signed-out pages to the user's collection`);
+            }
+          }
+
+          await petalogSyncService.markMigrated(userId);
+        } catch (error) {
+          console.error('[PetALog] Error migrating local collection:', error);
+        } finally {
+          migration = null;
+        }
+      })();
     }
+    return migration;
   },
 
   /**
@@ -149,7 +256,7 @@ export const petalogService = {
     const pageIndex = collection.currentPageIndex;
     const oldPage = collection.pages[pageIndex];
     const newStickers = oldPage.stickers.map((s) =>
-      s.id === stickerId ? { ...s, ...updates } : s
+      s.id === stickerId ? { ...s, ...updates, updatedAt: new Date() } : s
     );
     const newPage: CollectionPage = {
       ...oldPage,
@@ -180,6 +287,7 @@ export const petalogService = {
     const newPages = collection.pages.map((p, i) => (i === pageIndex ? newPage : p));
     const newCollection: PetALogCollection = { ...collection, pages: newPages };
 
+    await petalogSyncService.recordDeletions([stickerId], 'sticker');
     await this.saveCollection(newCollection);
     return newCollection;
   },
@@ -250,6 +358,9 @@ export const petalogService = {
       updatedCollection.currentPageIndex = updatedCollection.pages.length - 1;
     }
 
+    const deletedPage = collection.pages[pageIndex];
+    await petalogSyncService.recordDeletions([deletedPage.id], 'page');
+    await petalogSyncService.recordDeletions(deletedPage.stickers.map((s) => s.id), 'sticker');
     await this.saveCollection(updatedCollection);
     return updatedCollection;
   },
@@ -0,0 +1,422 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import {
+  PetALogCollection,
+  CollectionPage,
+  AnimalSticker,
+  createInitialCollection,
+  isPristineCollection,
+} from '../types/petalog';
+import { supabase } from './api/supabaseClient';
+import { utilsService } from './utils/utilsService';
+
+const SYNC_STATE_KEY_PREFIX = '@straysync_petalog_sync';
+const STICKER_BUCKET = 'petalog-stickers';
+// Downloaded sticker images from other devices
+const LOCAL_IMAGE_DIR = `${FileSystem.documentDirectory}petalog/`;
+
+interface PetALogDeletion {
+  type: 'page' | 'sticker';
+  deletedAt: string;
+}
+
+// Per-user sync bookkeeping, kept next to the collection on this device
+interface PetALogSyncState {
+  enabled: boolean;
+  // When the signed-out collection was moved into this account
+  migratedAt: string | null;
+  // Local time the last push started, later changes are pushed next time
+  lastSyncedAt: string | null;
+  // Stickers whose image is already in storage
+  uploadedImageIds: string[];
+  // Stickers whose image upload failed, pushed again whatever their updatedAt
+  pendingStickerIds: string[];
+  // Deleted pages and stickers not pushed yet
+  deletions: Record<string, PetALogDeletion>;
+}
+
+interface PageRow {
+  id: string;
+  name: string;
+  background_color: string;
+  position: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+interface StickerRow {
+  id: string;
+  page_id: string;
+  image_path: string | null;
+  image_url: string | null;
+  name: string;
+  position_x: number;
+  position_y: number;
+  scale: number;
+  rotation: number;
+  animal_type: AnimalSticker['animalType'] | null;
+  captured_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+const DEFAULT_SYNC_STATE: PetALogSyncState = {
+  enabled: true,
+  migratedAt: null,
+  lastSyncedAt: null,
+  uploadedImageIds: [],
+  pendingStickerIds: [],
+  deletions: {},
+};
+
+const syncStateKey = (userId: string) => `${SYNC_STATE_KEY_PREFIX}_${userId}`;
+
+const loadSyncState = async (userId: string): Promise<PetALogSyncState> => {
+  try {
+    const data = await AsyncStorage.getItem(syncStateKey(userId));
+    return data ? { ...DEFAULT_SYNC_STATE, ...JSON.parse(data) } : { ...DEFAULT_SYNC_STATE };
+  } catch (error) {
+    console.error('[PetALog Sync] Error loading sync state:', error);
+    return { ...DEFAULT_SYNC_STATE };
+  }
+};
+
+const saveSyncState = async (userId: string, state: PetALogSyncState): Promise<void> => {
+  await AsyncStorage.setItem(syncStateKey(userId), JSON.stringify(state));
+};
+
+const getUserId = async (): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.id ?? null;
+};
+
+const time = (value: Date | string | null | undefined): number =>
+  value ? new Date(value).getTime() : 0;
+
+const isRemoteUri = (uri: string) => /^https?:\/\//.test(uri);
+
+const pageToRow = (page: CollectionPage, position: number): PageRow => ({
+  id: page.id,
+  name: page.name,
+  background_color: page.backgroundColor,
+  position,
+  created_at: new Date(page.createdAt).toISOString(),
+  updated_at: new Date(page.updatedAt).toISOString(),
+  deleted_at: null,
+});
+
+const rowToPage = (row: PageRow): CollectionPage => ({
+  id: row.id,
+  name: row.name,
+  backgroundColor: row.background_color,
+  stickers: [],
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+/**
+ * Upload a sticker's image, returns its storage path
+ * Images online already aren't uploaded
+ */
+const uploadStickerImage = async (userId: string, sticker: AnimalSticker): Promise<string | null> => {
+  const dataUri = sticker.imageUri.match(/^data:image\/(\w+);base64,(.*)$/);
+  const extension = dataUri ? dataUri[1] : sticker.imageUri.split('.').pop()?.toLowerCase() || 'jpg';
+  const base64 = dataUri
+    ? dataUri[2]
+    : await FileSystem.readAsStringAsync(sticker.imageUri, { encoding: FileSystem.EncodingType.Base64 });
+
+  const path = `${userId}/${sticker.id}.${extension}`;
+  const { error } = await supabase.storage
+    .from(STICKER_BUCKET)
+    .upload(path, utilsService.decode(base64), {
+      upsert: true,
+      contentType: `image/${extension === 'jpg' ? 'jpeg' : extension}`,
+    });
+
+  if (error) {
+    console.error('[PetALog Sync] Error uploading sticker image:', error.message);
+    return null;
+  }
+  return path;
+};
+
+/**
+ * Download a sticker image from storage, returns its local file uri
+ */
+const downloadStickerImage = async (row: StickerRow): Promise<string | null> => {
+  if (row.image_url) return row.image_url;
+  if (!row.image_path) return null;
+
+  const { data, error } = await supabase.storage
+    .from(STICKER_BUCKET)
+    .createSignedUrl(row.image_path, 60);
+  if (error || !data) {
+    console.error('[PetALog Sync] Error signing sticker image:', error?.message);
+    return null;
+  }
+
+  await FileSystem.makeDirectoryAsync(LOCAL_IMAGE_DIR, { intermediates: true }).catch(() => {});
+  const localUri = `${LOCAL_IMAGE_DIR}${row.image_path.split('/').pop()}`;
+  const result = await FileSystem.downloadAsync(data.signedUrl, localUri);
+  return result.status === 200 ? result.uri : null;
+};
+
+/**
+ * Pet-a-log cloud sync
+ * Copies the local collection to Supabase so it survives a phone change.
+ * Every page and sticker keeps its own updatedAt and the newer copy wins,
+ * so edits to different stickers on two phones both survive
+ */
+export const petalogSyncService = {
+  async isEnabled(): Promise<boolean> {
+    const userId = await getUserId();
+    if (!userId) return false;
+    return (await loadSyncState(userId)).enabled;
+  },
+
+  async setEnabled(enabled: boolean): Promise<void> {
+    const userId = await getUserId();
+    if (!userId) return;
+    const state = await loadSyncState(userId);
+    await saveSyncState(userId, { ...state, enabled });
+  },
+
+  /**
+   * Whether the signed-out collection was already moved into this account
+   */
+  async isMigrated(userId: string): Promise<boolean> {
+    return !!(await loadSyncState(userId)).migratedAt;
+  },
+
+  async markMigrated(userId: string): Promise<void> {
+    const state = await loadSyncState(userId);
+    await saveSyncState(userId, { ...state, migratedAt: new Date().toISOString() });
+  },
+
+  /**
+   * Remember deleted pages and stickers until the deletion is pushed
+   */
+  async recordDeletions(ids: string[], type: PetALogDeletion['type']): Promise<void> {
+    const userId = await getUserId();
+    if (!userId || ids.length === 0) return;
+
+    const state = await loadSyncState(userId);
+    const deletedAt = new Date().toISOString();
+    ids.forEach((id) => {
+      state.deletions[id] = { type, deletedAt };
+    });
+    await saveSyncState(userId, state);
+  },
+
+  /**
+   * Push pages, stickers and deletions changed since the last sync
+   * Returns false if sync is off or the push failed
+   */
+  async push(collection: PetALogCollection): Promise<boolean> {
+    const userId = await getUserId();
+    if (!userId) return false;
+
+    const state = await loadSyncState(userId);
+    if (!state.enabled) return false;
+
+    try {
+      const startedAt = new Date().toISOString();
+      const since = time(state.lastSyncedAt);
+
+      const pageRows = collection.pages
+        .map((page, position) => ({ page, position }))
+        .filter(({ page }) => time(page.updatedAt) > since)
+        .map(({ page, position }) => pageToRow(page, position));
+
+      const stickerRows: Partial<StickerRow>[] = [];
+      const uploadedImageIds = new Set(state.uploadedImageIds);
+      const retryIds = new Set(state.pendingStickerIds);
+      const pendingStickerIds: string[] = [];
+      for (const page of collection.pages) {
+        for (const sticker of page.stickers) {
+          if (time(sticker.updatedAt) <= since && !retryIds.has(sticker.id)) continue;
+
+          let imagePath: string | null = null;
+          if (!uploadedImageIds.has(sticker.id) && !isRemoteUri(sticker.imageUri)) {
+            imagePath = await uploadStickerImage(userId, sticker);
+            // Try again next sync rather than syncing a sticker with no image
+            if (!imagePath) {
+              pendingStickerIds.push(sticker.id);
+              continue;
+            }
+            uploadedImageIds.add(sticker.id);
+          }
+
+          stickerRows.push({
+            id: sticker.id,
+            page_id: page.id,
+            image_path: imagePath,
+            image_url: isRemoteUri(sticker.imageUri) ? sticker.imageUri : null,
+            name: sticker.name,
+            position_x: sticker.position.x,
+            position_y: sticker.position.y,
+            scale: sticker.scale,
+            rotation: sticker.rotation,
+            animal_type: sticker.animalType ?? null,
+            captured_at: new Date(sticker.capturedAt).toISOString(),
+            updated_at: new Date(sticker.updatedAt).toISOString(),
+            deleted_at: null,
+          });
+        }
+      }
+
+      const deletionIds = Object.keys(state.deletions);
+      deletionIds.forEach((id) => {
+        const { type, deletedAt } = state.deletions[id];
+        const deleted = { id, updated_at: deletedAt, deleted_at: deletedAt };
+        if (type === 'page') {
+          pageRows.push({ ...deleted, name: '', background_color: '#FFFFFF', position: 0, created_at: deletedAt });
+        } else {
+          // Deletions keep the stored page, sync_petalog ignores this one
+          stickerRows.push({ ...deleted, page_id: '' });
+        }
+      });
+
+      if (pageRows.length > 0 || stickerRows.length > 0) {
+        const { error } = await supabase.rpc('sync_petalog', {
+          p_pages: pageRows,
+          p_stickers: stickerRows,
+        });
+        if (error) throw error;
+      }
+
+      // Deletions recorded while pushing are kept for next time
+      const latest = await loadSyncState(userId);
+      deletionIds.forEach((id) => {
+        if (latest.deletions[id]?.deletedAt === state.deletions[id].deletedAt) {
+          delete latest.deletions[id];
+        }
+      });
+      await saveSyncState(userId, {
+        ...latest,
+        lastSyncedAt: startedAt,
+        uploadedImageIds: Array.from(uploadedImageIds),
+        pendingStickerIds,
+      });
+
+      if (__DEV__) {
+        console.log(`[PetALog Sync] Pushed ${pageRows.length} pages and ${stickerRows.length} stickers`);
+      }
+      return true;
+    } catch (error) {
+      console.error('[PetALog Sync] Error pushing changes:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Two-way sync: merge the account's collection into the local one and
+   * push whatever is newer here
+   * Returns the merged collection, or the local one if sync is off or fails
+   */
+  async sync(local: PetALogCollection): Promise<PetALogCollection> {
+    const userId = await getUserId();
+    if (!userId) return local;
+
+    const state = await loadSyncState(userId);
+    if (!state.enabled) return local;
+
+    try {
+      const [{ data: pageRows, error: pagesError }, { data: stickerRows, error: stickersError }] =
+        await Promise.all([
+          supabase.from('petalog_pages').select('*'),
+          supabase.from('petalog_stickers').select('*'),
+        ]);
+      if (pagesError) throw pagesError;
+      if (stickersError) throw stickersError;
+
+      const remotePages = new Map((pageRows as PageRow[]).map((row) => [row.id, row]));
+      const remoteStickers = (stickerRows as StickerRow[]) || [];
+
+      // A new phone's empty starter page shouldn't sit next to the real ones
+      const hasRemotePages = (pageRows as PageRow[]).some((row) => !row.deleted_at);
+      const localPages = !state.lastSyncedAt && isPristineCollection(local) && hasRemotePages ? [] : local.pages;
+
+      // Pages: newer of the local page, its deletion, or the remote row
+      const merged: { page: CollectionPage; position: number }[] = [];
+      localPages.forEach((page, position) => {
+        const row = remotePages.get(page.id);
+        if (row && time(row.updated_at) > time(page.updatedAt)) {
+          if (!row.deleted_at) {
+            merged.push({ page: { ...rowToPage(row), stickers: page.stickers }, position: row.position });
+          }
+        } else {
+          merged.push({ page, position });
+        }
+      });
+      // Pages only in the account, unless deleted here since
+      remotePages.forEach((row) => {
+        if (row.deleted_at || localPages.some((page) => page.id === row.id)) return;
+        const deletion = state.deletions[row.id];
+        if (deletion && time(deletion.deletedAt) >= time(row.updated_at)) return;
+        merged.push({ page: rowToPage(row), position: row.position });
+      });
+      merged.sort((a, b) => a.position - b.position);
+
+      // Stickers: same rule, one sticker at a time
+      const pages = merged.map(({ page }) => ({ ...page, stickers: [...page.stickers] }));
+      const pageById = new Map(pages.map((page) => [page.id, page]));
+      for (const row of remoteStickers) {
+        const deletion = state.deletions[row.id];
+        if (deletion && time(deletion.deletedAt) >= time(row.updated_at)) continue;
+
+        const localPage = pages.find((page) => page.stickers.some((sticker) => sticker.id === row.id));
+        const localSticker = localPage?.stickers.find((sticker) => sticker.id === row.id);
+        if (localSticker && time(localSticker.updatedAt) >= time(row.updated_at)) continue;
+
+        if (localPage) {
+          localPage.stickers = localPage.stickers.filter((sticker) => sticker.id !== row.id);
+        }
+        const page = pageById.get(row.page_id);
+        if (row.deleted_at || !page) continue;
+
+        // Images never change, so only new stickers need downloading
+        const imageUri = localSticker?.imageUri ?? (await downloadStickerImage(row));
+        if (!imageUri) continue;
+
+        page.stickers.push({
+          id: row.id,
+          imageUri,
+          name: row.name,
+          position: { x: row.position_x, y: row.position_y },
+          scale: row.scale,
+          rotation: row.rotation,
+          capturedAt: new Date(row.captured_at),
+          updatedAt: new Date(row.updated_at),
+          animalType: row.animal_type ?? undefined,
+        });
+      }
+
+      // Downloaded images are already in storage
+      const uploaded = new Set(state.uploadedImageIds);
+      remoteStickers.forEach((row) => {
+        if (row.image_path) uploaded.add(row.id);
+      });
+      await saveSyncState(userId, { ...(await loadSyncState(userId)), uploadedImageIds: Array.from(uploaded) });
+
+      const currentPageId = local.pages[local.currentPageIndex]?.id;
+      const result: PetALogCollection = pages.length > 0
+        ? {
+            pages,
+            currentPageIndex: Math.max(0, pages.findIndex((page) => page.id === currentPageId)),
+          }
+        : createInitialCollection();
+
+      await this.push(result);
+
+      if (__DEV__) {
+        console.log(`[PetALog Sync] Synced collection with ${result.pages.length} pages`);
+      }
+      return result;
+    } catch (error) {
+      console.error('[PetALog Sync] Error syncing collection:', error);
+      return local;
+    }
+  },
+};
@@ -0,0 +1,87 @@
+import type { LostAnimal } from '../../lostAnimals';
+import { buildPosterContent, getPosterLayout, PosterContent } from '../posterLayout';
+import { renderPosterHtml } from '../posterHtml';
+
+const QR_SVG = '<svg class="qr-code"></svg>';
+
+const makeContent = (overrides: Partial<PosterContent> = {}): PosterContent => ({
+  headline: 'LOST CAT',
+  name: 'Mochi',
+  photos: ['https://example.com/1.jpg', 'https://example.com/2.jpg'],
+  summary: 'Tabby · Orange',
+  features: ['White socks'],
+  lastSeen: 'Last seen March 14, 2026',
+  lastSeenPlace: 'Elm Street',
+  contactName: 'Sam',
+  contactLines: ['555-0100'],
+  link: 'https://stray-sync-landing.vercel.app/lost/lost-1',
+  callToAction: 'Scan for photos and updates, or to report a sighting',
+  ...overrides,
+});
+
+const render = (content: PosterContent, size: 'a4' | 'letter' = 'letter') =>
+  renderPosterHtml(content, getPosterLayout(size, content), QR_SVG);
+
+describe('renderPosterHtml', () => {
+  it('sizes the page from the layout', () => {
+    const content = makeContent();
+    expect(render(content, 'a4')).toContain('@page { size: 595pt 842pt; margin: 0; }');
+    expect(render(content, 'letter')).toContain('@page { size: 612pt 792pt; margin: 0; }');
+  });
+
+  it('renders the main photo and thumbnails', () => {
+    const html = render(makeContent());
+    expect(html).toContain('<img class="main-photo" src="https://example.com/1.jpg" />');
+    expect(html).toContain('<div class="thumbnails"><img src="https://example.com/2.jpg" /></div>');
+  });
+
+  it('leaves out empty sections', () => {
+    const html = render(makeContent({ photos: ['https://example.com/1.jpg'], summary: null, features: [], lastSeenPlace: null }));
+    expect(html).not.toContain('class="thumbnails"');
+    expect(html).not.toContain('class="summary"');
+    expect(html).not.toContain('class="features"');
+    expect(html).toContain('<p class="last-seen">Last seen March 14, 2026</p>');
+  });
+
+  it('includes the details, contact and QR code', () => {
+    const html = render(makeContent());
+    expect(html).toContain('<h1 class="headline">LOST CAT</h1>');
+    expect(html).toContain('<p class="name">Mochi</p>');
+    expect(html).toContain('<li>White socks</li>');
+    expect(html).toContain('Last seen March 14, 2026 near Elm Street');
+    expect(html).toContain('If seen, please contact Sam');
+    expect(html).toContain('<p>555-0100</p>');
+    expect(html).toContain(QR_SVG);
+  });
+
+  it('escapes user-entered text', () => {
+    const html = render(
+      makeContent({
+        name: '<script>alert("hi")</script>',
+        features: ["Tom & Jerry's collar"],
+        photos: ['https://example.com/1.jpg?a=1&b="2"'],
+      })
+    );
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt;');
+    expect(html).toContain('<li>Tom &amp; Jerry&#39;s collar</li>');
+    expect(html).toContain('src="https://example.com/1.jpg?a=1&amp;b=&quot;2&quot;"');
+  });
+
+  it('renders a poster built from a lost animal', () => {
+    const lostAnimal = {
+      id: 'lost-1',
+      animal_type: 'dog',
+      name: 'Rex',
+      photo_url_1: 'https://example.com/rex.jpg',
+      last_seen_date: '2026-03-14T12:00:00Z',
+      contact_name: 'Alex',
+      contact_email: 'alex@example.com',
+    } as LostAnimal;
+    const html = render(buildPosterContent(lostAnimal, 'https://stray-sync-landing.vercel.app/lost/lost-1'));
+
+    expect(html).toContain('<h1 class="headline">LOST DOG</h1>');
+    expect(html).toContain('<p class="name">Rex</p>');
+    expect(html).toContain('<p>alex@example.com</p>');
+  });
+});
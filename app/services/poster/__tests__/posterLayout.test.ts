@@ -0,0 +1,138 @@
+import type { LostAnimal } from '../../lostAnimals';
+import { buildPosterContent, getPosterLayout, POSTER_PAGE_SIZES } from '../posterLayout';
+
+const LINK = 'https://stray-sync-landing.vercel.app/lost/lost-1';
+
+const makeLostAnimal = (overrides: Partial<LostAnimal> = {}): LostAnimal => ({
+  id: 'lost-1',
+  user_id: 'user-1',
+  animal_type: 'cat',
+  name: 'Mochi',
+  description: 'Indoor cat, very shy',
+  breed: 'Tabby',
+  color: 'Orange',
+  age: '3 years',
+  gender: 'female',
+  distinctive_features: ['White socks', 'Notched left ear'],
+  photo_url_1: 'https://example.com/1.jpg',
+  last_seen_location: { latitude: 51.5, longitude: -0.12 },
+  last_seen_address: 'Elm Street',
+  last_seen_date: '2026-03-14T12:00:00Z',
+  contact_name: 'Sam',
+  contact_phone: '555-0100',
+  contact_email: 'sam@example.com',
+  status: 'active',
+  created_at: '2026-03-14T13:00:00Z',
+  ...overrides,
+});
+
+describe('buildPosterContent', () => {
+  it('fills the poster from a lost animal', () => {
+    const content = buildPosterContent(makeLostAnimal(), LINK);
+
+    expect(content.headline).toBe('LOST CAT');
+    expect(content.name).toBe('Mochi');
+    expect(content.photos).toEqual(['https://example.com/1.jpg']);
+    expect(content.summary).toBe('Tabby · Orange · Female · 3 years');
+    expect(content.features).toEqual(['White socks', 'Notched left ear']);
+    expect(content.lastSeen).toBe('Last seen March 14, 2026');
+    expect(content.lastSeenPlace).toBe('Elm Street');
+    expect(content.contactName).toBe('Sam');
+    expect(content.contactLines).toEqual(['555-0100', 'sam@example.com']);
+    expect(content.link).toBe(LINK);
+  });
+
+  it('uses the dog headline for dogs', () => {
+    expect(buildPosterContent(makeLostAnimal({ animal_type: 'dog' }), LINK).headline).toBe('LOST DOG');
+  });
+
+  it('keeps up to three photos in order', () => {
+    const content = buildPosterContent(
+      makeLostAnimal({ photo_url_2: 'https://example.com/2.jpg', photo_url_3: 'https://example.com/3.jpg' }),
+      LINK
+    );
+    expect(content.photos).toEqual([
+      'https://example.com/1.jpg',
+      'https://example.com/2.jpg',
+      'https://example.com/3.jpg',
+    ]);
+  });
+
+  it('drops blank and unknown details', () => {
+    const content = buildPosterContent(
+      makeLostAnimal({
+        breed: ' ',
+        color: undefined,
+        age: undefined,
+        gender: 'unknown',
+        distinctive_features: ['  ', 'Collar with bell '],
+        last_seen_address: '  ',
+        contact_phone: undefined,
+      }),
+      LINK
+    );
+
+    expect(content.summary).toBeNull();
+    expect(content.features).toEqual(['Collar with bell']);
+    expect(content.lastSeenPlace).toBeNull();
+    expect(content.contactLines).toEqual(['sam@example.com']);
+  });
+
+  it('limits the feature list', () => {
+    const features = ['one', 'two', 'three', 'four', 'five', 'six', 'seven'];
+    const content = buildPosterContent(makeLostAnimal({ distinctive_features: features }), LINK);
+    expect(content.features).toEqual(features.slice(0, 5));
+  });
+
+  it('falls back when the last seen date is invalid', () => {
+    const content = buildPosterContent(makeLostAnimal({ last_seen_date: 'not a date' }), LINK);
+    expect(content.lastSeen).toBe('Last seen recently');
+  });
+});
+
+describe('getPosterLayout', () => {
+  it.each(['a4', 'letter'] as const)('matches the %s page size', (size) => {
+    const layout = getPosterLayout(size, buildPosterContent(makeLostAnimal(), LINK));
+    expect(layout.width).toBe(POSTER_PAGE_SIZES[size].width);
+    expect(layout.height).toBe(POSTER_PAGE_SIZES[size].height);
+  });
+
+  it('only makes room for thumbnails when there are extra photos', () => {
+    const single = getPosterLayout('letter', buildPosterContent(makeLostAnimal(), LINK));
+    const multiple = getPosterLayout(
+      'letter',
+      buildPosterContent(makeLostAnimal({ photo_url_2: 'https://example.com/2.jpg' }), LINK)
+    );
+
+    expect(single.thumbnailHeight).toBe(0);
+    expect(multiple.thumbnailHeight).toBeGreaterThan(0);
+    expect(multiple.mainPhotoHeight).toBeLessThan(single.mainPhotoHeight);
+  });
+
+  it('shrinks the main photo for long feature lists but keeps a minimum', () => {
+    const short = getPosterLayout('a4', buildPosterContent(makeLostAnimal({ distinctive_features: [] }), LINK));
+    const long = getPosterLayout(
+      'a4',
+      buildPosterContent(
+        makeLostAnimal({
+          distinctive_features: ['one', 'two', 'three', 'four', 'five'],
+          photo_url_2: 'https://example.com/2.jpg',
+          photo_url_3: 'https://example.com/3.jpg',
+        }),
+        LINK
+      )
+    );
+
+    expect(long.mainPhotoHeight).toBeLessThan(short.mainPhotoHeight);
+    expect(long.mainPhotoHeight).toBeGreaterThanOrEqual(Math.round(180 * (595 / 612)));
+  });
+
+  it('fits the content blocks on the page', () => {
+    for (const size of ['a4', 'letter'] as const) {
+      const content = buildPosterContent(makeLostAnimal({ photo_url_2: 'https://example.com/2.jpg' }), LINK);
+      const layout = getPosterLayout(size, content);
+      const used = layout.margin * 2 + layout.headlineSize + layout.mainPhotoHeight + layout.thumbnailHeight + layout.qrSize;
+      expect(used).toBeLessThan(layout.height);
+    }
+  });
+});
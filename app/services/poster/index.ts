@@ -0,0 +1,4 @@
+// Export all poster-related modules
+export * from './posterLayout';
+export * from './posterHtml';
+export * from './posterService';
@@ -0,0 +1,93 @@
+import type { PosterContent, PosterLayout } from './posterLayout';
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render a poster as a single-page HTML document for expo-print
+ * @param qrSvg - SVG markup of the QR code for content.link
+ */
+export const renderPosterHtml = (content: PosterContent, layout: PosterLayout, qrSvg: string): string => {
+  const [mainPhoto, ...thumbnails] = content.photos;
+  const px = (value: number) => `${value}pt`;
+
+  const features = content.features.length > 0
+    ? `<ul class="features">${content.features.map((f) => `<li>${escapeHtml(f)}</li>`).join('')}</ul>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  @page { size: ${px(layout.width)} ${px(layout.height)}; margin: 0; }
+  * { box-sizing: border-box; }
+  html, body { margin: 0; padding: 0; }
+  body {
+    width: ${px(layout.width)};
+    height: ${px(layout.height)};
+    padding: ${px(layout.margin)};
+    font-family: -apple-system, Helvetica, Arial, sans-serif;
+    color: #212121;
+    overflow: hidden;
+  }
+  .headline {
+    margin: 0;
+    font-size: ${px(layout.headlineSize)};
+    font-weight: 900;
+    letter-spacing: 2pt;
+    text-align: center;
+    color: #fff;
+    background: #D32F2F;
+    border-radius: 8pt;
+  }
+  .main-photo {
+    display: block;
+    width: 100%;
+    height: ${px(layout.mainPhotoHeight)};
+    object-fit: cover;
+    margin-top: ${px(layout.margin / 2)};
+    border-radius: 6pt;
+  }
+  .thumbnails { display: flex; gap: 6pt; margin-top: 6pt; }
+  .thumbnails img { flex: 1; height: ${px(layout.thumbnailHeight)}; object-fit: cover; border-radius: 4pt; }
+  .name { margin: ${px(layout.margin / 2)} 0 0; font-size: ${px(layout.nameSize)}; font-weight: 800; text-align: center; }
+  .summary { margin: 2pt 0 0; font-size: ${px(layout.bodySize)}; text-align: center; color: #424242; }
+  .features { margin: 8pt 0 0; padding-left: 18pt; font-size: ${px(layout.bodySize)}; }
+  .last-seen { margin: 8pt 0 0; font-size: ${px(layout.bodySize)}; font-weight: 700; }
+  .footer { display: flex; align-items: center; gap: 12pt; margin-top: 12pt; padding-top: 12pt; border-top: 2pt solid #212121; }
+  .contact { flex: 1; font-size: ${px(layout.bodySize)}; }
+  .contact .call { font-size: ${px(layout.nameSize * 0.6)}; font-weight: 800; margin: 0 0 4pt; }
+  .contact p { margin: 2pt 0; }
+  .qr { width: ${px(layout.qrSize)}; text-align: center; font-size: ${px(layout.smallSize)}; color: #616161; }
+  .qr svg { width: ${px(layout.qrSize)}; height: ${px(layout.qrSize)}; }
+</style>
+</head>
+<body>
+  <h1 class="headline">${escapeHtml(content.headline)}</h1>
+  ${mainPhoto ? `<img class="main-photo" src="${escapeHtml(mainPhoto)}" />` : ''}
+  ${thumbnails.length > 0
+    ? `<div class="thumbnails">${thumbnails.map((url) => `<img src="${escapeHtml(url)}" />`).join('')}</div>`
+    : ''}
+  <p class="name">${escapeHtml(content.name)}</p>
+  ${content.summary ? `<p class="summary">${escapeHtml(content.summary)}</p>` : ''}
+  ${features}
+  <p class="last-seen">${escapeHtml(content.lastSeen)}${content.lastSeenPlace ? ` near ${escapeHtml(content.lastSeenPlace)}` : ''}</p>
+  <div class="footer">
+    <div class="contact">
+      <p class="call">If seen, please contact ${escapeHtml(content.contactName)}</p>
+      ${content.contactLines.map((line) => `<p>${escapeHtml(line)}</p>`).join('')}
+    </div>
+    <div class="qr">
+      ${qrSvg}
+      <div>${escapeHtml(content.callToAction)}</div>
+    </div>
+  </div>
+</body>
+</html>`;
+};
@@ -0,0 +1,124 @@
+import { format } from 'date-fns';
+import type { LostAnimal } from '../lostAnimals';
+
+// Poster content and page geometry, kept free of React Native and Expo so it
+// can be shared by the PDF and image renderers and tested on its own
+
+export type PosterPageSize = 'a4' | 'letter';
+
+// Page sizes in points (1/72 inch), as expo-print expects
+export const POSTER_PAGE_SIZES: Record<PosterPageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595, height: 842 },
+  letter: { label: 'US Letter', width: 612, height: 792 },
+};
+
+const MAX_PHOTOS = 3;
+const MAX_FEATURES = 5;
+
+export interface PosterContent {
+  headline: string;
+  name: string;
+  // Main photo first, then up to two thumbnails
+  photos: string[];
+  // e.g. "Tabby · Orange · Female · 3 years"
+  summary: string | null;
+  features: string[];
+  lastSeen: string;
+  lastSeenPlace: string | null;
+  contactName: string;
+  contactLines: string[];
+  link: string;
+  callToAction: string;
+}
+
+export interface PosterLayout {
+  width: number;
+  height: number;
+  margin: number;
+  headlineSize: number;
+  nameSize: number;
+  bodySize: number;
+  smallSize: number;
+  mainPhotoHeight: number;
+  thumbnailHeight: number;
+  qrSize: number;
+}
+
+const formatLastSeenDate = (dateString: string): string | null => {
+  const date = new Date(dateString);
+  return isNaN(date.getTime()) ? null : format(date, 'MMMM d, yyyy');
+};
+
+/**
+ * Pick and format what goes on a poster for a lost animal
+ * @param link - Deep link to the post, encoded in the QR code
+ */
+export const buildPosterContent = (lostAnimal: LostAnimal, link: string): PosterContent => {
+  const photos = [lostAnimal.photo_url_1, lostAnimal.photo_url_2, lostAnimal.photo_url_3]
+    .filter((url): url is string => !!url)
+    .slice(0, MAX_PHOTOS);
+
+  const gender = lostAnimal.gender && lostAnimal.gender !== 'unknown'
+    ? lostAnimal.gender.charAt(0).toUpperCase() + lostAnimal.gender.slice(1)
+    : null;
+  const summaryParts = [lostAnimal.breed, lostAnimal.color, gender, lostAnimal.age]
+    .map((part) => part?.trim())
+    .filter((part): part is string => !!part);
+
+  const features = (lostAnimal.distinctive_features || [])
+    .map((feature) => feature.trim())
+    .filter(Boolean)
+    .slice(0, MAX_FEATURES);
+
+  const lastSeenDate = formatLastSeenDate(lostAnimal.last_seen_date);
+
+  return {
+    headline: `LOST ${lostAnimal.animal_type === 'dog' ? 'DOG' : 'CAT'}`,
+    name: lostAnimal.name,
+    photos,
+    summary: summaryParts.length > 0 ? summaryParts.join(' · ') : null,
+    features,
+    lastSeen: lastSeenDate ? `Last seen ${lastSeenDate}` : 'Last seen recently',
+    lastSeenPlace: lostAnimal.last_seen_address?.trim() || null,
+    contactName: lostAnimal.contact_name,
+    contactLines: [lostAnimal.contact_phone, lostAnimal.contact_email]
+      .map((line) => line?.trim())
+      .filter((line): line is string => !!line),
+    link,
+    callToAction: 'Scan for photos and updates, or to report a sighting',
+  };
+};
+
+/**
+ * Page geometry for a page size, scaled from a US Letter baseline
+ * The main photo gives up height to thumbnails and long feature lists so
+ * everything fits on one page
+ */
+export const getPosterLayout = (size: PosterPageSize, content: PosterContent): PosterLayout => {
+  const { width, height } = POSTER_PAGE_SIZES[size];
+  const scale = width / POSTER_PAGE_SIZES.letter.width;
+  const margin = Math.round(32 * scale);
+
+  const hasThumbnails = content.photos.length > 1;
+  const thumbnailHeight = hasThumbnails ? Math.round(96 * scale) : 0;
+
+  // Rough height of the text blocks below the photos
+  const textLines = 2 + content.features.length + content.contactLines.length + (content.summary ? 1 : 0);
+  const reservedForText = Math.round((150 + textLines * 22) * scale);
+
+  const headlineBlock = Math.round(96 * scale);
+  const available = height - margin * 2 - headlineBlock - reservedForText - thumbnailHeight;
+
+  return {
+    width,
+    height,
+    margin,
+    headlineSize: Math.round(72 * scale),
+    nameSize: Math.round(34 * scale),
+    bodySize: Math.round(15 * scale),
+    smallSize: Math.round(11 * scale),
+    mainPhotoHeight: Math.max(Math.round(180 * scale), Math.min(available, Math.round(height * 0.42))),
+    thumbnailHeight,
+    qrSize: Math.round(104 * scale),
+  };
+};
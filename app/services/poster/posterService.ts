@@ -0,0 +1,88 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import QRCode from 'qrcode';
+import { captureRef } from 'react-native-view-shot';
+import type { RefObject } from 'react';
+import type { View } from 'react-native';
+import type { LostAnimal } from '../lostAnimals';
+import { webLinks } from '../../navigation/linking';
+import { buildPosterContent, getPosterLayout, PosterContent, PosterPageSize } from './posterLayout';
+import { renderPosterHtml } from './posterHtml';
+
+export const posterService = {
+  /**
+   * Poster content for a lost animal, with a QR link back to its post
+   * The link is https so phones without the app can still open it
+   */
+  getContent(lostAnimal: LostAnimal): PosterContent {
+    return buildPosterContent(lostAnimal, webLinks.lostAnimal(lostAnimal.id));
+  },
+
+  /**
+   * QR code for a link as SVG markup, shared by the PDF and image posters
+   */
+  async getQrSvg(link: string): Promise<string | null> {
+    try {
+      return await QRCode.toString(link, { type: 'svg', margin: 0, errorCorrectionLevel: 'M' });
+    } catch (error) {
+      console.error('[Poster] Error generating QR code:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Print a poster to a PDF file, returns its local uri
+   */
+  async createPdf(lostAnimal: LostAnimal, size: PosterPageSize): Promise<string | null> {
+    try {
+      const content = this.getContent(lostAnimal);
+      const layout = getPosterLayout(size, content);
+      const qrSvg = await this.getQrSvg(content.link);
+      if (!qrSvg) return null;
+
+      const { uri } = await Print.printToFileAsync({
+        html: renderPosterHtml(content, layout, qrSvg),
+        width: layout.width,
+        height: layout.height,
+      });
+      return uri;
+    } catch (error) {
+      console.error('[Poster] Error creating PDF:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Capture a rendered LostPosterView as a PNG, returns its local uri
+   */
+  async captureImage(viewRef: RefObject<View>): Promise<string | null> {
+    try {
+      if (!viewRef.current) return null;
+      return await captureRef(viewRef, { format: 'png', quality: 1, result: 'tmpfile' });
+    } catch (error) {
+      console.error('[Poster] Error capturing image:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Open the system share sheet for a poster file
+   */
+  async share(uri: string, mimeType: 'application/pdf' | 'image/png'): Promise<boolean> {
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        console.warn('[Poster] Sharing is not available on this device');
+        return false;
+      }
+      await Sharing.shareAsync(uri, {
+        mimeType,
+        UTI: mimeType === 'application/pdf' ? 'com.adobe.pdf' : 'public.png',
+        dialogTitle: 'Share poster',
+      });
+      return true;
+    } catch (error) {
+      console.error('[Poster] Error sharing poster:', error);
+      return false;
+    }
+  },
+};
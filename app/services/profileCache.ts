@@ -2,6 +2,28 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { UserProfile } from '../contexts/AuthContext';
 
 const PROFILE_CACHE_KEY = '@straysync_profile_cache';
+const PUBLIC_PROFILES_CACHE_KEY = '@straysync_public_profiles_cache';
+
+// How long other users' names and avatars are reused before refetching
+export const PUBLIC_PROFILE_TTL = 60 * 60 * 1000; // 1 hour
+const MAX_PUBLIC_PROFILES = 500;
+
+/** The parts of another user's profile shown next to their content */
+export interface PublicProfile {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+interface PublicProfileEntry {
+  profile: PublicProfile;
+  cachedAt: number;
+}
+
+const readPublicProfiles = async (): Promise<Record<string, PublicProfileEntry>> => {
+  const cached = await AsyncStorage.getItem(PUBLIC_PROFILES_CACHE_KEY);
+  return cached ? JSON.parse(cached) : {};
+};
 
 /**
  * Profile caching service to provide instant profile loading
@@ -63,12 +85,59 @@ export const profileCache = {
     }
   },
 
+  /**
+   * Load other users' cached public profiles
+   * Missing and expired ones are left out
+   */
+  async loadPublic(userIds: string[]): Promise<Record<string, PublicProfile>> {
+    try {
+      const entries = await readPublicProfiles();
+      const now = Date.now();
+      const profiles: Record<string, PublicProfile> = {};
+      userIds.forEach((id) => {
+        const entry = entries[id];
+        if (entry && now - entry.cachedAt < PUBLIC_PROFILE_TTL) {
+          profiles[id] = entry.profile;
+        }
+      });
+      return profiles;
+    } catch (error) {
+      console.error('[ProfileCache] Error loading public profiles:', error);
+      return {};
+    }
+  },
+
+  /**
+   * Save other users' public profiles, dropping expired entries and
+   * the oldest ones past MAX_PUBLIC_PROFILES
+   */
+  async savePublic(profiles: PublicProfile[]): Promise<void> {
+    if (profiles.length === 0) return;
+
+    try {
+      const entries = await readPublicProfiles();
+      const now = Date.now();
+      profiles.forEach((profile) => {
+        entries[profile.id] = { profile, cachedAt: now };
+      });
+
+      const kept = Object.entries(entries)
+        .filter(([, entry]) => now - entry.cachedAt < PUBLIC_PROFILE_TTL)
+        .sort(([, a], [, b]) => b.cachedAt - a.cachedAt)
+        .slice(0, MAX_PUBLIC_PROFILES);
+
+      await AsyncStorage.setItem(PUBLIC_PROFILES_CACHE_KEY, JSON.stringify(Object.fromEntries(kept)));
+    } catch (error) {
+      console.error('[ProfileCache] Error saving public profiles:', error);
+    }
+  },
+
   /**
    * Clear profile cache
    */
   async clear(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(PROFILE_CACHE_KEY);
+      await AsyncStorage.multiRemove([PROFILE_CACHE_KEY, PUBLIC_PROFILES_CACHE_KEY]);
       if (__DEV__) {
         console.log('[ProfileCache] Cleared profile cache');
       }
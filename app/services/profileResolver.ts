@@ -0,0 +1,133 @@
+import { supabase } from './api/supabaseClient';
+import { profileCache, PublicProfile, PUBLIC_PROFILE_TTL } from './profileCache';
+
+// How long to collect ids before fetching them in one query
+const BATCH_WINDOW_MS = 10;
+
+interface ResolvedEntry {
+  // null when the user has no profile (deleted account)
+  profile: PublicProfile | null;
+  expiresAt: number;
+}
+
+const resolved = new Map<string, ResolvedEntry>();
+const inFlight = new Map<string, Promise<PublicProfile | null>>();
+
+let pendingIds = new Set<string>();
+let batchPromise: Promise<void> | null = null;
+
+const getResolved = (userId: string): ResolvedEntry | null => {
+  const entry = resolved.get(userId);
+  if (!entry) return null;
+  if (Date.now() > entry.expiresAt) {
+    resolved.delete(userId);
+    return null;
+  }
+  return entry;
+};
+
+const remember = (userId: string, profile: PublicProfile | null) => {
+  resolved.set(userId, { profile, expiresAt: Date.now() + PUBLIC_PROFILE_TTL });
+};
+
+/**
+ * Fetch every id queued during the batch window:
+ * AsyncStorage first, then one profiles query for the rest
+ */
+const flushBatch = async (userIds: string[]): Promise<void> => {
+  const cached = await profileCache.loadPublic(userIds);
+  Object.values(cached).forEach((profile) => remember(profile.id, profile));
+
+  const missing = userIds.filter((id) => !cached[id]);
+  if (missing.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, display_name, avatar_url')
+    .in('id', missing);
+
+  if (error) {
+    // Leave these unresolved so the next request tries again
+    console.error('[ProfileResolver] Error fetching profiles:', error);
+    return;
+  }
+
+  const profiles = (data || []) as PublicProfile[];
+  profiles.forEach((profile) => remember(profile.id, profile));
+  missing
+    .filter((id) => !profiles.some((profile) => profile.id === id))
+    .forEach((id) => remember(id, null));
+
+  await profileCache.savePublic(profiles);
+};
+
+const scheduleBatch = (): Promise<void> => {
+  if (!batchPromise) {
+    batchPromise = new Promise((resolve) => {
+      setTimeout(async () => {
+        const userIds = Array.from(pendingIds);
+        pendingIds = new Set();
+        batchPromise = null;
+
+        try {
+          await flushBatch(userIds);
+        } catch (error) {
+          console.error('[ProfileResolver] Error resolving profiles:', error);
+        }
+        resolve();
+      }, BATCH_WINDOW_MS);
+    });
+  }
+  return batchPromise;
+};
+
+/**
+ * Shared lookup of other users' names and avatars
+ * Requests made close together are fetched in one query, the same id is
+ * only fetched once at a time, and results are kept in memory and in
+ * profileCache for PUBLIC_PROFILE_TTL
+ */
+export const profileResolver = {
+  /**
+   * Resolve one user's public profile
+   */
+  resolve(userId: string): Promise<PublicProfile | null> {
+    const entry = getResolved(userId);
+    if (entry) return Promise.resolve(entry.profile);
+
+    const existing = inFlight.get(userId);
+    if (existing) return existing;
+
+    pendingIds.add(userId);
+    const request = scheduleBatch().then(() => {
+      inFlight.delete(userId);
+      return getResolved(userId)?.profile ?? null;
+    });
+    inFlight.set(userId, request);
+    return request;
+  },
+
+  /**
+   * Resolve several users' public profiles, keyed by user id
+   * Users without a profile are left out
+   */
+  async resolveMany(userIds: (string | null | undefined)[]): Promise<Map<string, PublicProfile>> {
+    const uniqueIds = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+    const profiles = await Promise.all(uniqueIds.map((id) => this.resolve(id)));
+
+    const byId = new Map<string, PublicProfile>();
+    profiles.forEach((profile) => {
+      if (profile) byId.set(profile.id, profile);
+    });
+    return byId;
+  },
+
+  /**
+   * Seed or replace a profile that's already loaded, e.g. the signed-in
+   * user's after they edit it
+   */
+  async prime(profile: PublicProfile): Promise<void> {
+    remember(profile.id, profile);
+    await profileCache.savePublic([profile]);
+  },
+};
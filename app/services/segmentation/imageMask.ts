@@ -0,0 +1,148 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import UPNG from 'upng-js';
+import { utilsService } from '../utils/utilsService';
+
+/** Decoded RGBA pixels, 4 bytes per pixel, row by row */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Per-pixel opacity for a RasterImage, 0 (background) to 255 (foreground)
+ * Masks are edited at the image's size and stay in memory only
+ */
+export interface ImageMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay under the engine's argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Decode base64 PNG data to RGBA pixels
+ */
+export const decodePngBase64 = (base64: string): RasterImage => {
+  const bytes = utilsService.decode(base64);
+  const decoded = UPNG.decode(new Uint8Array(bytes).buffer);
+  const [rgba] = UPNG.toRGBA8(decoded);
+  return { width: decoded.width, height: decoded.height, data: new Uint8Array(rgba) };
+};
+
+/**
+ * Decode an image to RGBA pixels, resized so its longer side is at most maxSize
+ */
+export const loadRaster = async (imageUri: string, maxSize: number): Promise<RasterImage> => {
+  const info = await ImageManipulator.manipulateAsync(imageUri, []);
+  const resize = info.width >= info.height ? { width: maxSize } : { height: maxSize };
+  const actions = Math.max(info.width, info.height) > maxSize ? [{ resize }] : [];
+
+  const png = await ImageManipulator.manipulateAsync(imageUri, actions, {
+    format: ImageManipulator.SaveFormat.PNG,
+    base64: true,
+  });
+  if (!png.base64) {
+    throw new Error('Could not read image pixels');
+  }
+
+  return decodePngBase64(png.base64);
+};
+
+/**
+ * Encode pixels as a PNG data URI, keeping transparency
+ */
+export const encodePngDataUri = (image: RasterImage): string => {
+  const png = UPNG.encode([new Uint8Array(image.data).buffer], image.width, image.height, 0);
+  return `data:image/png;base64,${encodeBase64(new Uint8Array(png))}`;
+};
+
+export const createMask = (width: number, height: number, value = 0): ImageMask => ({
+  width,
+  height,
+  data: new Uint8Array(width * height).fill(value),
+});
+
+export const copyMask = (mask: ImageMask): ImageMask => ({ ...mask, data: mask.data.slice() });
+
+/**
+ * Read a mask from an image's alpha channel, e.g. a remove.bg cutout
+ */
+export const maskFromAlpha = (image: RasterImage): ImageMask => {
+  const mask = createMask(image.width, image.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    mask.data[i] = image.data[i * 4 + 3];
+  }
+  return mask;
+};
+
+/**
+ * Copy of the image with the mask as its alpha channel
+ * The mask is sampled to the image's size if they differ
+ */
+export const applyMask = (image: RasterImage, mask: ImageMask): RasterImage => {
+  const data = image.data.slice();
+  const scaleX = mask.width / image.width;
+  const scaleY = mask.height / image.height;
+
+  for (let y = 0; y < image.height; y++) {
+    const my = Math.min(mask.height - 1, Math.floor(y * scaleY));
+    for (let x = 0; x < image.width; x++) {
+      const mx = Math.min(mask.width - 1, Math.floor(x * scaleX));
+      data[(y * image.width + x) * 4 + 3] = mask.data[my * mask.width + mx];
+    }
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+/**
+ * Paint a brush stroke into the mask in place
+ * value 255 restores the photo under the stroke, 0 erases it
+ */
+export const paintMask = (
+  mask: ImageMask,
+  stroke: MaskPoint[],
+  radius: number,
+  value: number
+): void => {
+  const dab = (cx: number, cy: number) => {
+    const minX = Math.max(0, Math.floor(cx - radius));
+    const maxX = Math.min(mask.width - 1, Math.ceil(cx + radius));
+    const minY = Math.max(0, Math.floor(cy - radius));
+    const maxY = Math.min(mask.height - 1, Math.ceil(cy + radius));
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if ((x - cx) ** 2 + (y - cy) ** 2 <= radius * radius) {
+          mask.data[y * mask.width + x] = value;
+        }
+      }
+    }
+  };
+
+  stroke.forEach((point, index) => {
+    const previous = stroke[index - 1];
+    if (!previous) {
+      dab(point.x, point.y);
+      return;
+    }
+    // Fill the gap between touch events so fast strokes stay continuous
+    const steps = Math.max(1, Math.ceil(Math.hypot(point.x - previous.x, point.y - previous.y) / (radius / 2)));
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      dab(previous.x + (point.x - previous.x) * t, previous.y + (point.y - previous.y) * t);
+    }
+  });
+};
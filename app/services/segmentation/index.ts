@@ -0,0 +1,5 @@
+// Export all segmentation-related modules
+export * from './imageMask';
+export * from './segmentationService';
+export * from './localSegmentation';
+export * from './removeBgSegmentation';
@@ -0,0 +1,317 @@
+import { createMask, ImageMask, loadRaster, RasterImage } from './imageMask';
+import type { SegmentationBackend } from './segmentationService';
+
+// Longest side the photo is segmented at, enough for a 200px sticker
+const LOCAL_SEGMENT_SIZE = 320;
+
+// GrabCut-style settings
+const BORDER_FRACTION = 0.05; // Outer band taken as certain background
+const CLUSTERS = 5; // Colour clusters per model
+const ITERATIONS = 4; // Re-fit models to the new labels this many times
+const SMOOTHING_PASSES = 4;
+const MAX_SAMPLES = 4000; // Pixels sampled to fit each model
+
+// A cutout this small or large means the subject wasn't found
+const MIN_FOREGROUND = 0.03;
+const MAX_FOREGROUND = 0.97;
+
+// Pixel labels
+const BACKGROUND = 0;
+const PROBABLY_BACKGROUND = 1;
+const PROBABLY_FOREGROUND = 2;
+
+interface ColorCluster {
+  r: number;
+  g: number;
+  b: number;
+  variance: number;
+  // -log(weight), so the cluster's share of pixels counts in its cost
+  weightCost: number;
+}
+
+/**
+ * Fit colour clusters to pixels with a few rounds of k-means, a cheap
+ * stand-in for GrabCut's Gaussian mixtures
+ */
+const fitColorModel = (image: RasterImage, pixels: number[]): ColorCluster[] => {
+  const stride = Math.max(1, Math.floor(pixels.length / MAX_SAMPLES));
+  const samples: number[] = [];
+  for (let i = 0; i < pixels.length; i += stride) samples.push(pixels[i]);
+  if (samples.length === 0) return [];
+
+  const k = Math.min(CLUSTERS, samples.length);
+  // Deterministic seeds spread across the samples
+  let centers = Array.from({ length: k }, (_, c) => {
+    const p = samples[Math.floor((c * samples.length) / k)] * 4;
+    return [image.data[p], image.data[p + 1], image.data[p + 2]];
+  });
+  const assignment = new Int32Array(samples.length);
+
+  for (let round = 0; round < 6; round++) {
+    samples.forEach((pixel, s) => {
+      const p = pixel * 4;
+      let best = 0;
+      let bestDistance = Infinity;
+      centers.forEach(([r, g, b], c) => {
+        const distance = (image.data[p] - r) ** 2 + (image.data[p + 1] - g) ** 2 + (image.data[p + 2] - b) ** 2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      });
+      assignment[s] = best;
+    });
+
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    samples.forEach((pixel, s) => {
+      const p = pixel * 4;
+      const sum = sums[assignment[s]];
+      sum[0] += image.data[p];
+      sum[1] += image.data[p + 1];
+      sum[2] += image.data[p + 2];
+      sum[3] += 1;
+    });
+    centers = centers.map((center, c) =>
+      sums[c][3] > 0 ? [sums[c][0] / sums[c][3], sums[c][1] / sums[c][3], sums[c][2] / sums[c][3]] : center
+    );
+  }
+
+  const variances = centers.map(() => [0, 0]);
+  samples.forEach((pixel, s) => {
+    const p = pixel * 4;
+    const [r, g, b] = centers[assignment[s]];
+    variances[assignment[s]][0] += (image.data[p] - r) ** 2 + (image.data[p + 1] - g) ** 2 + (image.data[p + 2] - b) ** 2;
+    variances[assignment[s]][1] += 1;
+  });
+
+  return centers
+    .map(([r, g, b], c) => {
+      const [total, count] = variances[c];
+      return {
+        r,
+        g,
+        b,
+        // Floor keeps flat colour areas from getting infinitely confident
+        variance: Math.max(30, count > 0 ? total / (3 * count) : 0),
+        weightCost: -Math.log(Math.max(count, 1) / samples.length),
+      };
+    })
+    .filter((_, c) => variances[c][1] > 0);
+};
+
+// How badly a colour fits a model, lower is better
+const colorCost = (model: ColorCluster[], r: number, g: number, b: number): number => {
+  let best = Infinity;
+  model.forEach((cluster) => {
+    const distance = (r - cluster.r) ** 2 + (g - cluster.g) ** 2 + (b - cluster.b) ** 2;
+    const cost = distance / (2 * cluster.variance) + 1.5 * Math.log(cluster.variance) + cluster.weightCost;
+    if (cost < best) best = cost;
+  });
+  return best;
+};
+
+/**
+ * Keep only the largest foreground region, then fill the background
+ * holes inside it that don't reach the photo's edge
+ */
+const cleanUpLabels = (labels: Uint8Array, width: number, height: number): void => {
+  const regions = new Int32Array(labels.length).fill(-1);
+  const stack: number[] = [];
+
+  const flood = (start: number, region: number, isForeground: boolean): number => {
+    let size = 0;
+    stack.push(start);
+    regions[start] = region;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      size++;
+      const x = index % width;
+      const neighbors = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      neighbors.forEach((n) => {
+        if (n < 0 || n >= labels.length || regions[n] !== -1) return;
+        if ((labels[n] === PROBABLY_FOREGROUND) !== isForeground) return;
+        regions[n] = region;
+        stack.push(n);
+      });
+    }
+    return size;
+  };
+
+  // Foreground regions, keeping the largest
+  let largest = -1;
+  let largestSize = 0;
+  let region = 0;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== PROBABLY_FOREGROUND || regions[i] !== -1) continue;
+    const size = flood(i, region, true);
+    if (size > largestSize) {
+      largest = region;
+      largestSize = size;
+    }
+    region++;
+  }
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] === PROBABLY_FOREGROUND && regions[i] !== largest) {
+      labels[i] = PROBABLY_BACKGROUND;
+      regions[i] = -1;
+    }
+  }
+
+  // Background reachable from the edge stays background, the rest is a hole
+  const outside = region + 1;
+  for (let i = 0; i < labels.length; i++) {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    const onEdge = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+    if (onEdge && labels[i] !== PROBABLY_FOREGROUND && regions[i] === -1) {
+      flood(i, outside, false);
+    }
+  }
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== PROBABLY_FOREGROUND && regions[i] !== outside) {
+      labels[i] = PROBABLY_FOREGROUND;
+    }
+  }
+};
+
+/**
+ * Separate the subject from its background with no network call
+ *
+ * Follows GrabCut with the subject assumed to fill the middle of the photo:
+ * the outer border seeds a background colour model and the rest a
+ * foreground one, every pixel takes the better fitting model, and both
+ * models are re-fit to the new labels a few times. Graph cut's smoothness
+ * term is approximated by averaging each pixel's preference with its
+ * neighbours, weighted by how alike their colours are, so labels spread
+ * within regions but stop at edges.
+ *
+ * Returns null when no clear subject is found
+ */
+export const segmentForeground = (image: RasterImage): ImageMask | null => {
+  const { width, height, data } = image;
+  const count = width * height;
+  const border = Math.max(2, Math.round(Math.min(width, height) * BORDER_FRACTION));
+
+  const labels = new Uint8Array(count);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = x >= border && y >= border && x < width - border && y < height - border;
+      labels[y * width + x] = inside ? PROBABLY_FOREGROUND : BACKGROUND;
+    }
+  }
+
+  // Edge weights to the right and lower neighbours, as in GrabCut's beta
+  const colorDistance = (a: number, b: number) =>
+    (data[a * 4] - data[b * 4]) ** 2 + (data[a * 4 + 1] - data[b * 4 + 1]) ** 2 + (data[a * 4 + 2] - data[b * 4 + 2]) ** 2;
+  let totalDistance = 0;
+  for (let i = 0; i < count; i++) {
+    if (i % width < width - 1) totalDistance += colorDistance(i, i + 1);
+    if (i + width < count) totalDistance += colorDistance(i, i + width);
+  }
+  const beta = 1 / (2 * Math.max(1, totalDistance / (2 * count)));
+  const rightWeight = new Float32Array(count);
+  const downWeight = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    if (i % width < width - 1) rightWeight[i] = Math.exp(-beta * colorDistance(i, i + 1));
+    if (i + width < count) downWeight[i] = Math.exp(-beta * colorDistance(i, i + width));
+  }
+
+  // Positive when a pixel fits the foreground better
+  let preference = new Float32Array(count);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const foregroundPixels: number[] = [];
+    const backgroundPixels: number[] = [];
+    labels.forEach((label, i) => {
+      (label === PROBABLY_FOREGROUND ? foregroundPixels : backgroundPixels).push(i);
+    });
+
+    const foregroundModel = fitColorModel(image, foregroundPixels);
+    const backgroundModel = fitColorModel(image, backgroundPixels);
+    if (foregroundModel.length === 0 || backgroundModel.length === 0) return null;
+
+    for (let i = 0; i < count; i++) {
+      const r = data[i * 4];
+      const g = data[i * 4 + 1];
+      const b = data[i * 4 + 2];
+      preference[i] = colorCost(backgroundModel, r, g, b) - colorCost(foregroundModel, r, g, b);
+    }
+
+    for (let pass = 0; pass < SMOOTHING_PASSES; pass++) {
+      const smoothed = new Float32Array(count);
+      for (let i = 0; i < count; i++) {
+        let sum = preference[i];
+        let weight = 1;
+        if (i % width > 0) { sum += rightWeight[i - 1] * preference[i - 1]; weight += rightWeight[i - 1]; }
+        if (i % width < width - 1) { sum += rightWeight[i] * preference[i + 1]; weight += rightWeight[i]; }
+        if (i >= width) { sum += downWeight[i - width] * preference[i - width]; weight += downWeight[i - width]; }
+        if (i + width < count) { sum += downWeight[i] * preference[i + width]; weight += downWeight[i]; }
+        smoothed[i] = sum / weight;
+      }
+      preference = smoothed;
+    }
+
+    labels.forEach((label, i) => {
+      if (label !== BACKGROUND) {
+        labels[i] = preference[i] > 0 ? PROBABLY_FOREGROUND : PROBABLY_BACKGROUND;
+      }
+    });
+  }
+
+  cleanUpLabels(labels, width, height);
+
+  let foreground = 0;
+  labels.forEach((label) => {
+    if (label === PROBABLY_FOREGROUND) foreground++;
+  });
+  if (foreground < count * MIN_FOREGROUND || foreground > count * MAX_FOREGROUND) {
+    return null;
+  }
+
+  // Soften the edge with a 3x3 box blur
+  const mask = createMask(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let samples = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          sum += labels[ny * width + nx] === PROBABLY_FOREGROUND ? 255 : 0;
+          samples++;
+        }
+      }
+      mask.data[y * width + x] = Math.round(sum / samples);
+    }
+  }
+  return mask;
+};
+
+/**
+ * On-device backend, always available and never uses the network
+ */
+export const localSegmentationBackend: SegmentationBackend = {
+  name: 'local',
+
+  isConfigured(): boolean {
+    return true;
+  },
+
+  async segment(imageUri: string) {
+    const image = await loadRaster(imageUri, LOCAL_SEGMENT_SIZE);
+    const mask = segmentForeground(image);
+    if (!mask) {
+      if (__DEV__) {
+        console.log('[Segmentation] No clear subject found on device');
+      }
+      return null;
+    }
+    return { image, mask, backend: 'local' };
+  },
+};
@@ -0,0 +1,72 @@
+import { REMOVE_BG_API_KEY } from '@env';
+import { decodePngBase64, loadRaster, maskFromAlpha } from './imageMask';
+import type { SegmentationBackend } from './segmentationService';
+
+// Matches the 'small' remove.bg size, plenty for a 200px sticker and
+// small enough to decode on the phone
+const REMOVE_BG_SIZE = 500;
+
+/**
+ * remove.bg API backend, skipped when REMOVE_BG_API_KEY isn't set
+ */
+export const removeBgSegmentationBackend: SegmentationBackend = {
+  name: 'remove_bg',
+
+  isConfigured(): boolean {
+    return !!REMOVE_BG_API_KEY;
+  },
+
+  async segment(imageUri: string) {
+    // Create FormData with file URI (React Native specific)
+    const formData = new FormData();
+    formData.append('size', 'small');
+    formData.append('format', 'png');
+    formData.append('image_file', {
+      uri: imageUri,
+      type: 'image/jpeg',
+      name: 'photo.jpg',
+    } as any);
+
+    // Add timeout to prevent hanging
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+
+    const response = await fetch('https://api.remove.bg/v1.0/removebg', {
+      method: 'POST',
+      headers: {
+        'X-Api-Key': REMOVE_BG_API_KEY,
+      },
+      body: formData,
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[Segmentation] remove.bg error:', errorText);
+
+      // 402/403 means the monthly credit is used up
+      if (__DEV__ && (response.status === 403 || response.status === 402)) {
+        console.log('[Segmentation] remove.bg monthly limit reached');
+      }
+      return null;
+    }
+
+    // Convert response blob to base64
+    const resultBlob = await response.blob();
+    const reader = new FileReader();
+    const resultUri = await new Promise<string>((resolve, reject) => {
+      reader.onloadend = () => {
+        resolve(reader.result as string);
+      };
+      reader.onerror = reject;
+      reader.readAsDataURL(resultBlob);
+    });
+
+    // Cut-out pixels are blanked, so keep the photo for the brush to restore
+    const cutout = decodePngBase64(resultUri.slice(resultUri.indexOf(',') + 1));
+    const image = await loadRaster(imageUri, REMOVE_BG_SIZE);
+    return { image, mask: maskFromAlpha(cutout), backend: 'remove_bg' };
+  },
+};
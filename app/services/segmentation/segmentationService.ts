@@ -0,0 +1,76 @@
+import { SEGMENTATION_BACKENDS } from '@env';
+import type { ImageMask, RasterImage } from './imageMask';
+import { removeBgSegmentationBackend } from './removeBgSegmentation';
+import { localSegmentationBackend } from './localSegmentation';
+
+/** A photo split into its subject (mask 255) and background (mask 0) */
+export interface Segmentation {
+  image: RasterImage;
+  mask: ImageMask;
+  // Name of the backend that made the mask
+  backend: string;
+}
+
+export interface SegmentationBackend {
+  name: string;
+  // False when the backend can't run here, e.g. a missing API key
+  isConfigured(): boolean;
+  // null when no subject was found or the backend is unavailable right now
+  segment(imageUri: string): Promise<Segmentation | null>;
+}
+
+// Tried in this order unless SEGMENTATION_BACKENDS lists others,
+// e.g. SEGMENTATION_BACKENDS=local to never call remove.bg
+const DEFAULT_ORDER = ['remove_bg', 'local'];
+
+const backends = new Map<string, SegmentationBackend>([
+  [removeBgSegmentationBackend.name, removeBgSegmentationBackend],
+  [localSegmentationBackend.name, localSegmentationBackend],
+]);
+
+const backendOrder = (): string[] => {
+  const configured = (SEGMENTATION_BACKENDS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_ORDER;
+};
+
+export const segmentationService = {
+  /**
+   * Add a backend, e.g. a bundled model, or replace one with the same name
+   * It's used once its name is in SEGMENTATION_BACKENDS
+   */
+  registerBackend(backend: SegmentationBackend): void {
+    backends.set(backend.name, backend);
+  },
+
+  /**
+   * Backends that will be tried, in order
+   */
+  getBackends(): SegmentationBackend[] {
+    return backendOrder()
+      .map((name) => backends.get(name))
+      .filter((backend): backend is SegmentationBackend => !!backend && backend.isConfigured());
+  },
+
+  /**
+   * Segment a photo with the first backend that succeeds
+   */
+  async segment(imageUri: string): Promise<Segmentation | null> {
+    for (const backend of this.getBackends()) {
+      try {
+        const result = await backend.segment(imageUri);
+        if (result) {
+          if (__DEV__) {
+            console.log('[Segmentation] Segmented with', backend.name);
+          }
+          return result;
+        }
+      } catch (error) {
+        console.error(`[Segmentation] ${backend.name} failed:`, error);
+      }
+    }
+    return null;
+  },
+};
@@ -7,6 +7,7 @@ const DEFAULT_SETTINGS: AppSettings = {
   notificationTimeFrame: 24, // 24 hours
   isNotificationsEnabled: true,
   isBackgroundTrackingEnabled: false,
+  notificationDigest: 'off',
 };
 
 // Storage key
@@ -98,6 +99,11 @@ export const settingsService = {
     return this.saveSettings({ isBackgroundTrackingEnabled: enabled });
   },
   
+  // Update notification digest mode
+  async setNotificationDigest(mode: AppSettings['notificationDigest']): Promise<AppSettings> {
+    return this.saveSettings({ notificationDigest: mode });
+  },
+  
   // Get current settings
   getSettings(): AppSettings {
     return { ...this.currentSettings };
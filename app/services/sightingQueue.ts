@@ -0,0 +1,352 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+import { AppState, AppStateStatus } from 'react-native';
+import { catService, supabase } from './supabase';
+import { lostAnimalsService } from './lostAnimals';
+import { cache } from './cache';
+import type { LocationPrivacy } from '../types';
+
+const OUTBOX_STORAGE_KEY = '@straysync_sighting_outbox';
+const OUTBOX_PHOTO_DIR = `${FileSystem.documentDirectory}sighting-outbox/`;
+
+// Retry schedule: 30s, 1m, 2m, 4m ... capped at 30 minutes
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+/**
+ * Form fields captured by AddCatScreen, minus the uploaded image URL
+ */
+export type SightingDraft = {
+  user_id: string;
+  auth_user_id: string;
+  latitude: number;
+  longitude: number;
+  // Missing on drafts queued before privacy levels, the server default applies
+  location_privacy?: LocationPrivacy;
+  description: string;
+  spotted_at: string;
+  animal_type: 'cat' | 'dog';
+  name: string | null;
+  breed: string | null;
+  color: string | null;
+  age: string | null;
+  gender: string | null;
+  health_status: string | null;
+  is_neutered: boolean;
+  is_adoptable: boolean;
+  contact_info: string | null;
+};
+
+export type QueuedSightingStatus = 'pending' | 'syncing' | 'failed';
+
+export interface QueuedSighting {
+  id: string;
+  photoUri: string;
+  // Set once the photo is in storage so retries don't upload it twice
+  imageUrl?: string;
+  draft: SightingDraft;
+  status: QueuedSightingStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  queuedAt: string;
+}
+
+export type SightingQueueEvent =
+  | { type: 'queued'; entry: QueuedSighting }
+  | { type: 'updated'; entry: QueuedSighting }
+  | { type: 'synced'; entry: QueuedSighting; sightingId: string }
+  | { type: 'removed'; id: string };
+
+// Internal processing state
+let processing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_MS);
+}
+
+function isReachable(state: NetInfoState): boolean {
+  return !!state.isConnected && state.isInternetReachable !== false;
+}
+
+/**
+ * Sighting outbox
+ * Persists sightings that couldn't be posted (no signal, failed upload)
+ * and syncs them in the background once connectivity returns
+ */
+export const sightingQueue = {
+  _listeners: new Set<(event: SightingQueueEvent) => void>(),
+  subscribe(callback: (event: SightingQueueEvent) => void) {
+    this._listeners.add(callback);
+    return () => this._listeners.delete(callback);
+  },
+  _emit(event: SightingQueueEvent) {
+    this._listeners.forEach((cb) => {
+      try { cb(event); } catch {}
+    });
+  },
+
+  /**
+   * Load all queued sightings, oldest first
+   */
+  async getQueue(): Promise<QueuedSighting[]> {
+    try {
+      const data = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('[SightingQueue] Error loading queue:', error);
+      return [];
+    }
+  },
+
+  async _saveQueue(queue: QueuedSighting[]): Promise<void> {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(queue));
+  },
+
+  async _updateEntry(id: string, updates: Partial<QueuedSighting>): Promise<QueuedSighting | null> {
+    const queue = await this.getQueue();
+    const index = queue.findIndex((e) => e.id === id);
+    if (index === -1) return null;
+
+    queue[index] = { ...queue[index], ...updates };
+    await this._saveQueue(queue);
+    this._emit({ type: 'updated', entry: queue[index] });
+    return queue[index];
+  },
+
+  /**
+   * Get queued sightings belonging to a user
+   */
+  async getUserQueue(authUserId: string): Promise<QueuedSighting[]> {
+    const queue = await this.getQueue();
+    return queue.filter((e) => e.draft.auth_user_id === authUserId);
+  },
+
+  /**
+   * Check whether the device currently has a usable connection
+   */
+  async isOnline(): Promise<boolean> {
+    try {
+      return isReachable(await NetInfo.fetch());
+    } catch {
+      // Assume online so the normal submit path reports the real error
+      return true;
+    }
+  },
+
+  /**
+   * Add a sighting to the outbox
+   * The photo is copied out of the image picker cache so it survives restarts
+   * @param imageUrl - Already uploaded photo, e.g. when only saving the sighting failed
+   */
+  async enqueue(photoUri: string, draft: SightingDraft, imageUrl?: string): Promise<QueuedSighting> {
+    const id = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    let storedPhotoUri = photoUri;
+
+    try {
+      await FileSystem.makeDirectoryAsync(OUTBOX_PHOTO_DIR, { intermediates: true });
+      const fileExt = photoUri.split('.').pop()?.toLowerCase() || 'jpg';
+      storedPhotoUri = `${OUTBOX_PHOTO_DIR}${id}.${fileExt}`;
+      await FileSystem.copyAsync({ from: photoUri, to: storedPhotoUri });
+    } catch (error) {
+      console.error('[SightingQueue] Could not copy photo, keeping original URI:', error);
+      storedPhotoUri = photoUri;
+    }
+
+    const entry: QueuedSighting = {
+      id,
+      photoUri: storedPhotoUri,
+      imageUrl,
+      draft,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      queuedAt: new Date().toISOString(),
+    };
+
+    const queue = await this.getQueue();
+    await this._saveQueue([...queue, entry]);
+
+    if (__DEV__) {
+      console.log('[SightingQueue] Queued sighting:', id);
+    }
+    this._emit({ type: 'queued', entry });
+    return entry;
+  },
+
+  /**
+   * Reset a failed sighting so it's picked up on the next sync
+   */
+  async retry(id: string): Promise<void> {
+    await this._updateEntry(id, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: undefined,
+    });
+    this.processQueue();
+  },
+
+  /**
+   * Discard a queued sighting and its local photo copy
+   */
+  async remove(id: string): Promise<void> {
+    try {
+      const queue = await this.getQueue();
+      const entry = queue.find((e) => e.id === id);
+      await this._saveQueue(queue.filter((e) => e.id !== id));
+
+      if (entry?.photoUri.startsWith(OUTBOX_PHOTO_DIR)) {
+        await FileSystem.deleteAsync(entry.photoUri, { idempotent: true });
+      }
+      this._emit({ type: 'removed', id });
+    } catch (error) {
+      console.error('[SightingQueue] Error removing entry:', error);
+    }
+  },
+
+  /**
+   * Try to post every due sighting for the signed-in user
+   */
+  async processQueue(): Promise<void> {
+    if (processing) return;
+    processing = true;
+    // Only retry on a timer while online and signed in, reconnecting and
+    // returning to the app start the next run otherwise
+    let retryUserId: string | null = null;
+
+    try {
+      if (!(await this.isOnline())) {
+        if (__DEV__) {
+          console.log('[SightingQueue] Offline, skipping sync');
+        }
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      retryUserId = user.id;
+
+      const now = Date.now();
+      const due = (await this.getUserQueue(user.id)).filter(
+        (e) => e.status === 'pending' && e.nextAttemptAt <= now
+      );
+
+      for (const entry of due) {
+        await this._syncEntry(entry);
+      }
+    } catch (error) {
+      console.error('[SightingQueue] Error processing queue:', error);
+    } finally {
+      processing = false;
+      await this._scheduleRetry(retryUserId);
+    }
+  },
+
+  async _syncEntry(entry: QueuedSighting): Promise<void> {
+    await this._updateEntry(entry.id, { status: 'syncing' });
+
+    try {
+      let imageUrl = entry.imageUrl;
+      if (!imageUrl) {
+        imageUrl = (await catService.uploadSightingPhoto(entry.photoUri, entry.draft.user_id)) ?? undefined;
+        if (!imageUrl) {
+          throw new Error('Image upload failed');
+        }
+        await this._updateEntry(entry.id, { imageUrl });
+      }
+
+      const newCat = await catService.addCat({ ...entry.draft, image_url: imageUrl });
+      if (!newCat) {
+        throw new Error('Failed to save sighting');
+      }
+
+      if (__DEV__) {
+        console.log('[SightingQueue] Synced sighting:', entry.id, '->', newCat.id);
+      }
+
+      const queue = await this.getQueue();
+      await this._saveQueue(queue.filter((e) => e.id !== entry.id));
+      if (entry.photoUri.startsWith(OUTBOX_PHOTO_DIR)) {
+        FileSystem.deleteAsync(entry.photoUri, { idempotent: true }).catch(() => {});
+      }
+
+      // Same follow-up work as a direct submit from AddCatScreen
+      cache.invalidatePattern('animals:list');
+      await AsyncStorage.setItem('mapNeedsRefresh', 'true');
+      await lostAnimalsService.triggerMatchAnalysis(null, newCat.id);
+
+      this._emit({ type: 'synced', entry, sightingId: newCat.id });
+    } catch (error: any) {
+      const attempts = entry.attempts + 1;
+      const failed = attempts >= MAX_ATTEMPTS;
+      console.error(`[SightingQueue] Sync attempt ${attempts} failed for ${entry.id}:`, error.message || error);
+
+      await this._updateEntry(entry.id, {
+        status: failed ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: Date.now() + getRetryDelay(attempts),
+        lastError: error.message || String(error),
+      });
+    }
+  },
+
+  async _scheduleRetry(authUserId: string | null): Promise<void> {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    if (!authUserId) return;
+
+    const pending = (await this.getUserQueue(authUserId)).filter((e) => e.status === 'pending');
+    if (pending.length === 0) return;
+
+    const nextAt = Math.min(...pending.map((e) => e.nextAttemptAt));
+    const delay = Math.max(nextAt - Date.now(), 1000);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      this.processQueue();
+    }, delay);
+  },
+
+  /**
+   * Start background sync
+   * Syncs on connectivity changes and when the app returns to the foreground
+   * Returns a cleanup function
+   */
+  start(): () => void {
+    // Entries left mid-sync by a killed app go back to pending
+    this.getQueue().then(async (queue) => {
+      if (queue.some((e) => e.status === 'syncing')) {
+        await this._saveQueue(
+          queue.map((e) => (e.status === 'syncing' ? { ...e, status: 'pending' as const } : e))
+        );
+      }
+      this.processQueue();
+    });
+
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (isReachable(state)) {
+        this.processQueue();
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.processQueue();
+      }
+    });
+
+    return () => {
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+    };
+  },
+};
@@ -1,9 +1,13 @@
 import 'react-native-url-polyfill/auto';
+import * as ImageManipulator from 'expo-image-manipulator';
 import { locationService } from './location';
+import { getFuzzRadiusMeters } from './location/locationPrivacy';
 // Import the shared Supabase client instead of creating a new one
 import { supabase } from './api/supabaseClient';
-import { cache, CACHE_KEYS } from './cache';
+import { cache } from './cache';
 import { ratingService } from './rating';
+import { individualsService } from './individuals';
+import type { AnimalsCursor, AnimalsPageQuery, LocationCoordinates, LocationPrivacy, MapCluster, Page, Region } from '../types';
 
 // Re-export the supabase client for backward compatibility
 export { supabase };
@@ -175,13 +179,62 @@ export type Cat = {
   image_url: string;
   description?: string;
   spotted_at: string;
+  name?: string | null;
   animal_type?: 'cat' | 'dog';
+  // Perceptual hash of image_url, and the individual this sighting belongs to
+  image_hash?: string | null;
+  individual_id?: string | null;
+  // latitude/longitude are fuzzed server-side unless this is 'exact'
+  location_privacy?: LocationPrivacy;
+  // Set by paginated queries with an origin
+  distance_km?: number | null;
 };
 
+export const ANIMALS_PAGE_SIZE = 20;
+
+// In-app version of the search_animals filters, for the client-side fallback
+const matchesSearch = (animal: Cat, query: AnimalsPageQuery): boolean => {
+  const row = animal as Cat & Record<string, any>;
+  const filters = query.filters;
+  if (filters) {
+    if (filters.adoptable !== null && row.is_adoptable !== filters.adoptable) return false;
+    if (filters.gender !== null && row.gender !== filters.gender) return false;
+    if (filters.healthStatus !== null && row.health_status !== filters.healthStatus) return false;
+    if (filters.neutered !== null && row.is_neutered !== filters.neutered) return false;
+  }
+
+  const words = (query.search || '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = [row.name, row.breed, row.color, row.description].filter(Boolean).join(' ').toLowerCase();
+  const tokens = text.split(/[^a-z0-9]+/);
+  return words.every(word => tokens.some(token => token.startsWith(word)));
+};
+
+// Keep only the latest sighting of each individual so repeat reports of the
+// same animal show up once. Rows must be ordered newest first
+const collapseIndividuals = (animals: Cat[]): Cat[] => {
+  const seen = new Set<string>();
+  return animals.filter((animal) => {
+    if (!animal.individual_id) return true;
+    if (seen.has(animal.individual_id)) return false;
+    seen.add(animal.individual_id);
+    return true;
+  });
+};
+
+// Sighting photos are scaled to this longest side before upload, which keeps
+// camera photos well under the 3MB base64 upload limit
+const SIGHTING_PHOTO_MAX_SIZE = 1600;
+const SIGHTING_PHOTO_QUALITY = 0.8;
+
 // Functions to interact with the database
 export const catService = {
   // Add a new animal sighting
-  async addCat(cat: Omit<Cat, 'id' | 'created_at'>): Promise<Cat | null> {
+  // sameAsSightingId groups it with an existing sighting the reporter confirmed
+  async addCat(
+    cat: Omit<Cat, 'id' | 'created_at'>,
+    options: { sameAsSightingId?: string } = {}
+  ): Promise<Cat | null> {
     try {
       console.log('=== ADDING ANIMAL ===');
       console.log('Animal data:', JSON.stringify(cat, null, 2));
@@ -191,18 +244,43 @@ export const catService = {
         ...cat,
         animal_type: cat.animal_type || 'cat'
       };
+
+      // Hash the photo so repeat sightings of the same animal can be grouped
+      if (!catWithType.image_hash && catWithType.image_url) {
+        catWithType.image_hash = await individualsService.hashImage(catWithType.image_url);
+      }
       
       // Try to use the animals table first
       console.log('Attempting to add to animals table...');
       try {
-        const { data, error } = await supabase
+        let { data, error } = await supabase
           .from('animals')
           .insert(catWithType)
           .select()
           .single();
+
+        // Database without the individuals migration yet
+        if (error && error.message.includes('image_hash')) {
+          console.log('image_hash column does not exist in animals table, trying without it');
+          const { image_hash, ...catWithoutHash } = catWithType;
+          ({ data, error } = await supabase
+            .from('animals')
+            .insert(catWithoutHash)
+            .select()
+            .single());
+        }
         
         if (!error) {
           console.log('Successfully added to animals table:', data.id);
+
+          // Group with the confirmed or an almost identical nearby sighting
+          const individualId = options.sameAsSightingId
+            ? await individualsService.linkSighting(data.id, options.sameAsSightingId)
+            : await individualsService.autoLinkSighting(data);
+          if (individualId) {
+            data = { ...data, individual_id: individualId };
+          }
+
           // Track action for rating prompt
           ratingService.incrementActions();
           ratingService.promptForRating();
@@ -308,11 +386,12 @@ export const catService = {
         .from('animals')
         .select('*')
         .or('is_rescued.is.null,is_rescued.eq.false')
+        .is('hidden_at', null)
         .order('spotted_at', { ascending: false });
 
       if (!animalsError) {
         console.log(`Found ${animalsData?.length || 0} animals in animals table (excluding rescued)`);
-        return animalsData || [];
+        return collapseIndividuals(animalsData || []);
       }
 
       // If server-side filtering failed, try without the filter
@@ -368,11 +447,12 @@ export const catService = {
         .select('*')
         .eq('animal_type', 'cat')
         .or('is_rescued.is.null,is_rescued.eq.false')
+        .is('hidden_at', null)
         .order('spotted_at', { ascending: false });
       
       if (!animalsError) {
         console.log(`Found ${animalsData?.length || 0} cats in animals table (excluding rescued)`);
-        return animalsData || [];
+        return collapseIndividuals(animalsData || []);
       }
       
       console.log('Error fetching cats from animals table, trying alternative:', animalsError.message);
@@ -422,11 +502,12 @@ export const catService = {
         .select('*')
         .eq('animal_type', 'dog')
         .or('is_rescued.is.null,is_rescued.eq.false')
+        .is('hidden_at', null)
         .order('spotted_at', { ascending: false });
       
       if (!animalsError) {
         console.log(`Found ${animalsData?.length || 0} dogs in animals table (excluding rescued)`);
-        return animalsData || [];
+        return collapseIndividuals(animalsData || []);
       }
       
       console.log('Error fetching dogs from animals table, trying alternative:', animalsError.message);
@@ -467,6 +548,96 @@ export const catService = {
     }
   },
 
+  // Get one page of animals using keyset pagination
+  async getAnimalsPage(query: AnimalsPageQuery): Promise<Page<Cat, AnimalsCursor>> {
+    const pageSize = query.pageSize ?? ANIMALS_PAGE_SIZE;
+    const animalType = query.animalFilter === 'cats' ? 'cat' : query.animalFilter === 'dogs' ? 'dog' : null;
+    const sort = query.sort === 'distance' && query.origin ? 'distance' : 'recent';
+
+    const toPage = (items: Cat[]): Page<Cat, AnimalsCursor> => {
+      const last = items[items.length - 1];
+      return {
+        items,
+        nextCursor: items.length === pageSize && last
+          ? { spotted_at: last.spotted_at, distance_km: last.distance_km ?? null, id: last.id }
+          : null,
+      };
+    };
+
+    try {
+      const { data, error } = await supabase.rpc('search_animals', {
+        p_query: query.search?.trim() || null,
+        p_animal_type: animalType,
+        p_rescued: query.status === 'rescued',
+        p_adoptable: query.filters?.adoptable ?? null,
+        p_gender: query.filters?.gender ?? null,
+        p_health_status: query.filters?.healthStatus ?? null,
+        p_neutered: query.filters?.neutered ?? null,
+        p_sort: sort,
+        p_lat: query.origin?.latitude ?? null,
+        p_lng: query.origin?.longitude ?? null,
+        p_radius_km: query.origin ? query.radiusKm ?? null : null,
+        p_cursor_spotted_at: query.cursor?.spotted_at ?? null,
+        p_cursor_distance_km: query.cursor?.distance_km ?? null,
+        p_cursor_id: query.cursor?.id ?? null,
+        p_limit: pageSize,
+      });
+
+      if (!error && data) {
+        return toPage(data.map((row: { animal: Cat; distance_km: number | null }) => ({
+          ...row.animal,
+          distance_km: row.distance_km,
+        })));
+      }
+
+      // Fallback: fetch the whole list, filter and page through it in the app
+      console.log('Falling back to client-side pagination:', error?.message);
+      let animals: Cat[];
+      if (query.status === 'rescued') {
+        animals = await this.getRescuedAnimalsByType(animalType ?? undefined);
+      } else if (animalType === 'cat') {
+        animals = await this.getCatsOnly();
+      } else if (animalType === 'dog') {
+        animals = await this.getDogsOnly();
+      } else {
+        animals = await this.getCats();
+      }
+
+      animals = animals.filter(animal => matchesSearch(animal, query));
+
+      const origin = query.origin;
+      if (origin) {
+        animals = animals
+          .map(animal => ({
+            ...animal,
+            distance_km: locationService.calculateDistance(
+              origin.latitude,
+              origin.longitude,
+              animal.latitude,
+              animal.longitude
+            ),
+          }))
+          .filter(animal => query.radiusKm === undefined || animal.distance_km <= query.radiusKm);
+      }
+
+      const byRecent = (a: Cat, b: Cat) =>
+        b.spotted_at.localeCompare(a.spotted_at) || b.id.localeCompare(a.id);
+      const byDistance = (a: Cat, b: Cat) =>
+        (a.distance_km ?? 0) - (b.distance_km ?? 0) || a.id.localeCompare(b.id);
+      const compare = sort === 'distance' ? byDistance : byRecent;
+      animals.sort(compare);
+
+      const cursor = query.cursor;
+      const start = cursor
+        ? animals.findIndex(animal => compare(animal, cursor as Cat) > 0)
+        : 0;
+      return toPage(start === -1 ? [] : animals.slice(start, start + pageSize));
+    } catch (error: any) {
+      console.error('Error in getAnimalsPage:', error.message || error);
+      return { items: [], nextCursor: null };
+    }
+  },
+
   // Parameterized rescued animals getter to avoid duplication
   async getRescuedAnimalsByType(animalType?: 'cat' | 'dog'): Promise<Cat[]> {
     try {
@@ -474,7 +645,8 @@ export const catService = {
       let query = supabase
         .from('animals')
         .select('*')
-        .eq('is_rescued', true);
+        .eq('is_rescued', true)
+        .is('hidden_at', null);
       if (animalType) {
         query = query.eq('animal_type', animalType);
       }
@@ -592,11 +764,12 @@ export const catService = {
       console.log('Falling back to manual distance calculation');
       const cats = await this.getCatsWithinTimeFrame(hours);
       
+      // Fuzzed sightings may really be up to their fuzz radius closer
       return cats.filter(cat => 
         locationService.isLocationWithinRadius(
           { latitude, longitude },
           { latitude: cat.latitude, longitude: cat.longitude },
-          radiusKm
+          radiusKm + getFuzzRadiusMeters(cat.location_privacy) / 1000
         )
       );
     } catch (error) {
@@ -605,6 +778,79 @@ export const catService = {
     }
   },
   
+  // Get the animals inside a map region, clustered server-side when zoomed out
+  async getMapRegion(
+    region: Region,
+    animalType?: 'cat' | 'dog'
+  ): Promise<MapCluster[]> {
+    const minLat = region.latitude - region.latitudeDelta / 2;
+    const maxLat = region.latitude + region.latitudeDelta / 2;
+    const minLng = region.longitude - region.longitudeDelta / 2;
+    const maxLng = region.longitude + region.longitudeDelta / 2;
+
+    try {
+      const { data, error } = await supabase.rpc('get_map_region', {
+        p_min_lat: minLat,
+        p_min_lng: minLng,
+        p_max_lat: maxLat,
+        p_max_lng: maxLng,
+        p_animal_type: animalType ?? null,
+      });
+
+      if (!error && data) {
+        return data;
+      }
+
+      // Fallback: fetch all animals and keep the ones inside the region as pins
+      console.log('Falling back to client-side region filtering');
+      const animals = animalType === 'dog'
+        ? await this.getDogsOnly()
+        : animalType === 'cat'
+          ? await this.getCatsOnly()
+          : await this.getCats();
+
+      return animals
+        .filter(animal =>
+          animal.latitude >= minLat && animal.latitude <= maxLat &&
+          animal.longitude >= minLng && animal.longitude <= maxLng
+        )
+        .map(animal => ({
+          is_cluster: false,
+          cluster_id: null,
+          latitude: animal.latitude,
+          longitude: animal.longitude,
+          cat_count: animal.animal_type === 'dog' ? 0 : 1,
+          dog_count: animal.animal_type === 'dog' ? 1 : 0,
+          id: animal.id,
+          name: animal.name,
+          description: animal.description,
+          image_url: animal.image_url,
+          animal_type: animal.animal_type,
+          spotted_at: animal.spotted_at,
+          location_privacy: animal.location_privacy,
+        }));
+    } catch (error) {
+      console.error('Error in getMapRegion:', error);
+      return [];
+    }
+  },
+
+  // Exact location of a sighting whose public location is fuzzed
+  // Only returned to the poster and owners who confirmed a match with it, null otherwise
+  async getExactLocation(animalId: string): Promise<LocationCoordinates | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_animal_exact_location', {
+        p_animal_id: animalId,
+      });
+
+      if (error) throw error;
+      return data?.[0] ?? null;
+    } catch (error: any) {
+      console.error('Error in getExactLocation:', error.message || error);
+      return null;
+    }
+  },
+
   // Upload an image to Supabase storage
   async uploadImage(uri: string, userId: string): Promise<string> {
     console.log('Starting image upload process...');
@@ -796,6 +1042,29 @@ export const catService = {
     return url;
   },
   
+  // Upload a sighting photo, scaled down so camera photos stay under the
+  // base64 size limit. Returns null on failure instead of a placeholder image,
+  // so callers can keep the sighting and retry
+  async uploadSightingPhoto(uri: string, userId: string): Promise<string | null> {
+    let uploadUri = uri;
+    try {
+      const info = await ImageManipulator.manipulateAsync(uri, []);
+      const longestSide = Math.max(info.width, info.height);
+      const actions = longestSide > SIGHTING_PHOTO_MAX_SIZE
+        ? [{ resize: info.width >= info.height ? { width: SIGHTING_PHOTO_MAX_SIZE } : { height: SIGHTING_PHOTO_MAX_SIZE } }]
+        : [];
+      const resized = await ImageManipulator.manipulateAsync(uri, actions, {
+        compress: SIGHTING_PHOTO_QUALITY,
+        format: ImageManipulator.SaveFormat.JPEG,
+      });
+      uploadUri = resized.uri;
+    } catch (error: any) {
+      console.error('Error resizing sighting photo, uploading original:', error.message || error);
+    }
+
+    return this.uploadImageBase64(uploadUri, userId);
+  },
+
   // Alternative upload method using base64 encoding
   async uploadImageBase64(uri: string, userId: string): Promise<string | null> {
     try {
@@ -1102,56 +1371,11 @@ export const catService = {
   },
 
   // Refresh all animal caches after data changes
+  // Lists are paginated, so the next visit refetches its first page instead of
+  // prefetching every filter combination here
   async refreshAnimalCaches(): Promise<void> {
-    try {
-      console.log('[CatService] Refreshing animal caches after data changes...');
-      
-      // Invalidate all existing animal list caches
-      cache.invalidatePattern('animals:list');
-      
-      // Re-fetch and re-cache all common filter combinations
-      const filterCombinations = [
-        { animalFilter: 'all', statusFilter: 'active' },
-        { animalFilter: 'cats', statusFilter: 'active' },
-        { animalFilter: 'dogs', statusFilter: 'active' },
-        { animalFilter: 'all', statusFilter: 'rescued' },
-        { animalFilter: 'cats', statusFilter: 'rescued' },
-        { animalFilter: 'dogs', statusFilter: 'rescued' },
-      ];
-      
-      for (const { animalFilter, statusFilter } of filterCombinations) {
-        let fetchedAnimals: Cat[] = [];
-        
-        // Fetch based on status and animal type filters
-        if (statusFilter === 'rescued') {
-          if (animalFilter === 'all') {
-            fetchedAnimals = await this.getRescuedAnimals();
-          } else if (animalFilter === 'cats') {
-            fetchedAnimals = await this.getRescuedCats();
-          } else if (animalFilter === 'dogs') {
-            fetchedAnimals = await this.getRescuedDogs();
-          }
-        } else {
-          if (animalFilter === 'all') {
-            fetchedAnimals = await this.getCats();
-          } else if (animalFilter === 'cats') {
-            fetchedAnimals = await this.getCatsOnly();
-          } else if (animalFilter === 'dogs') {
-            fetchedAnimals = await this.getDogsOnly();
-          }
-        }
-        
-        // Re-cache with 2 minute TTL
-        const cacheKey = `${CACHE_KEYS.ANIMALS_LIST(animalFilter)}_${statusFilter}`;
-        cache.set(cacheKey, fetchedAnimals, 2 * 60 * 1000);
-        
-        console.log(`[CatService] Re-cached ${fetchedAnimals.length} animals for ${animalFilter}/${statusFilter}`);
-      }
-      
-      console.log('[CatService] Successfully refreshed all animal caches');
-    } catch (error) {
-      console.error('[CatService] Error refreshing animal caches:', error);
-    }
+    console.log('[CatService] Invalidating animal list caches after data changes');
+    cache.invalidatePattern('animals:list');
   },
   
   // Delete an image from storage
@@ -1538,6 +1762,7 @@ export const catService = {
         .from('animals')
         .select('*')
         .eq('auth_user_id', authUserId)
+        .is('hidden_at', null)
         .order('created_at', { ascending: false });
 
       if (!animalsError && animalsData) {
@@ -1575,6 +1800,7 @@ export const catService = {
       name?: string | null;
       latitude?: number;
       longitude?: number;
+      location_privacy?: LocationPrivacy;
       breed?: string | null;
       color?: string | null;
       age?: string | null;
@@ -0,0 +1,129 @@
+import { supabase } from './api/supabaseClient';
+
+// Matches the CHECK constraint on watch_zones.radius_km
+export const WATCH_ZONE_MAX_RADIUS_KM = 50;
+
+export interface WatchZone {
+  id: string;
+  auth_user_id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius_km: number;
+  // null means both cats and dogs
+  animal_type: 'cat' | 'dog' | null;
+  // Local hours (0-23), no pushes from start until end
+  quiet_start_hour: number | null;
+  quiet_end_hour: number | null;
+  timezone: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WatchZoneInput = Pick<
+  WatchZone,
+  'name' | 'latitude' | 'longitude' | 'radius_km' | 'animal_type' | 'quiet_start_hour' | 'quiet_end_hour'
+> & { is_active?: boolean };
+
+// Quiet hours are evaluated server-side in the device's timezone
+const getDeviceTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const watchZonesService = {
+  /**
+   * Get the current user's watch zones, oldest first
+   */
+  async getZones(): Promise<WatchZone[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('watch_zones')
+        .select('*')
+        .eq('auth_user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error: any) {
+      console.error('[WatchZones] Error loading zones:', error.message || error);
+      return [];
+    }
+  },
+
+  /**
+   * Create a watch zone for the current user
+   */
+  async createZone(zone: WatchZoneInput): Promise<WatchZone | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('watch_zones')
+        .insert({
+          ...zone,
+          name: zone.name.trim(),
+          auth_user_id: user.id,
+          timezone: getDeviceTimezone(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error: any) {
+      console.error('[WatchZones] Error creating zone:', error.message || error);
+      return null;
+    }
+  },
+
+  /**
+   * Update a watch zone, refreshing its timezone to the device's current one
+   */
+  async updateZone(zoneId: string, updates: Partial<WatchZoneInput>): Promise<WatchZone | null> {
+    try {
+      const { data, error } = await supabase
+        .from('watch_zones')
+        .update({
+          ...updates,
+          ...(updates.name !== undefined && { name: updates.name.trim() }),
+          timezone: getDeviceTimezone(),
+        })
+        .eq('id', zoneId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error: any) {
+      console.error('[WatchZones] Error updating zone:', error.message || error);
+      return null;
+    }
+  },
+
+  /**
+   * Delete a watch zone
+   */
+  async deleteZone(zoneId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('watch_zones')
+        .delete()
+        .eq('id', zoneId);
+
+      if (error) throw error;
+      return true;
+    } catch (error: any) {
+      console.error('[WatchZones] Error deleting zone:', error.message || error);
+      return false;
+    }
+  },
+};
@@ -9,6 +9,69 @@ export type Region = LocationCoordinates & {
   longitudeDelta: number;
 };
 
+// How precisely a post's location is published, see 17-add-location-privacy.sql
+// Non-exact posts have their public coordinates fuzzed server-side
+export type LocationPrivacy = 'exact' | 'approximate' | 'neighborhood';
+
+// Map Types
+// One entry of a region query: a cluster bubble when zoomed out, or a single
+// animal pin (is_cluster false, id set)
+export type MapCluster = {
+  is_cluster: boolean;
+  cluster_id: string | null;
+  latitude: number;
+  longitude: number;
+  cat_count: number;
+  dog_count: number;
+  id: string | null;
+  name?: string | null;
+  description?: string | null;
+  image_url?: string | null;
+  animal_type?: 'cat' | 'dog' | null;
+  spotted_at?: string | null;
+  location_privacy?: LocationPrivacy | null;
+};
+
+// Pagination Types
+// Keyset cursor: the sort value and id of the last row of the previous page
+export type AnimalsCursor = {
+  spotted_at: string;
+  distance_km?: number | null;
+  id: string;
+};
+
+export type FavoritesCursor = {
+  created_at: string;
+  id: string;
+};
+
+// Structured filters of the animals list, null means "any"
+export type AdvancedFilters = {
+  adoptable: boolean | null;
+  gender: 'male' | 'female' | 'unknown' | null;
+  healthStatus: 'healthy' | 'injured' | 'sick' | 'unknown' | null;
+  neutered: boolean | null;
+};
+
+export type AnimalsPageQuery = {
+  animalFilter: 'all' | 'cats' | 'dogs';
+  status: 'active' | 'rescued';
+  sort: 'recent' | 'distance';
+  // Required for distance sorting and the radius filter
+  origin?: LocationCoordinates | null;
+  radiusKm?: number;
+  // Full-text search over name, breed, color and description
+  search?: string;
+  filters?: AdvancedFilters;
+  cursor?: AnimalsCursor | null;
+  pageSize?: number;
+};
+
+export type Page<T, C> = {
+  items: T[];
+  nextCursor: C | null;
+};
+
 // Cat Types
 export type Cat = {
   id: string;
@@ -20,7 +83,7 @@ export type Cat = {
   image_url: string;
   description?: string;
   spotted_at: string;
-  name?: string;
+  name?: string | null;
   breed?: string;
   color?: string;
   age?: string;
@@ -35,6 +98,7 @@ export type Cat = {
   view_count?: number;
   // Optional rescue flag used by some queries/UI paths
   is_rescued?: boolean;
+  location_privacy?: LocationPrivacy;
 };
 
 // Notification Types
@@ -46,12 +110,16 @@ export type NotifiedArea = {
 };
 
 // Settings Types
+// 'off' sends each alert as it happens, otherwise alerts are batched into one push
+export type NotificationDigestMode = 'off' | 'hourly' | 'daily';
+
 export type AppSettings = {
   notificationRadius: number;
   notificationTimeFrame: number;
   isNotificationsEnabled: boolean;
   isBackgroundTrackingEnabled: boolean;
   searchRadius: number;
+  notificationDigest: NotificationDigestMode;
 };
 
 // Navigation Types
@@ -61,6 +129,9 @@ export type RootStackParamList = {
   SignIn: undefined;
   CatDetails: { catId: string };
   AddCat: { latitude?: number; longitude?: number } | undefined;
+  WatchZones: undefined;
+  Digest: { digestId?: string } | undefined;
+  ModerationQueue: undefined;
 };
 
 export type MainTabParamList = {
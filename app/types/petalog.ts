@@ -23,6 +23,7 @@ export interface AnimalSticker {
   scale: number; // Size multiplier (1.0 = original size)
   rotation: number; // Rotation in degrees (0-360)
   capturedAt: Date;
+  updatedAt: Date; // Last change, the newer copy wins when syncing
   animalType?: 'cat' | 'dog' | 'unknown';
 }
 
@@ -63,6 +64,7 @@ export const createSticker = (
   scale: CANVAS_CONSTANTS.DEFAULT_STICKER_SCALE,
   rotation: 0,
   capturedAt: new Date(),
+  updatedAt: new Date(),
   animalType,
 });
 
@@ -76,6 +78,10 @@ export const createCollectionPage = (name: string): CollectionPage => ({
   updatedAt: new Date(),
 });
 
+// A collection nobody has added to yet
+export const isPristineCollection = (collection: PetALogCollection): boolean =>
+  collection.pages.length === 1 && collection.pages[0].stickers.length === 0;
+
 // Helper to create initial empty collection
 export const createInitialCollection = (): PetALogCollection => ({
   pages: [createCollectionPage('My Collection')],
@@ -0,0 +1,17 @@
+-- =====================================================================
+-- Store Per-Feature Scores for Lost Animal Matches
+-- =====================================================================
+
+-- Breakdown produced by match-lost-animals, shape:
+-- { "coat_color": { "score": 0-100, "note": "..." } | null, "pattern": ..., "size": ...,
+--   "markings": ..., "eye_color": ... }
+ALTER TABLE public.lost_animal_matches
+  ADD COLUMN IF NOT EXISTS feature_scores JSONB;
+
+-- Number of lost animal photos compared against the sighting
+ALTER TABLE public.lost_animal_matches
+  ADD COLUMN IF NOT EXISTS photos_compared SMALLINT;
+
+-- Comments
+COMMENT ON COLUMN public.lost_animal_matches.feature_scores IS 'Per-feature similarity scores (coat color, pattern, size, markings, eye color) behind confidence_score';
+COMMENT ON COLUMN public.lost_animal_matches.photos_compared IS 'How many lost animal photos were compared against the sighting';
@@ -0,0 +1,18 @@
+-- =====================================================================
+-- Store Distance and Time Weighting for Lost Animal Matches
+-- =====================================================================
+
+-- confidence_score is now the vision confidence weighted by how far and how long
+-- after the last sighting the animal was spotted (see species roaming models in
+-- supabase/functions/_shared/roaming.ts). The inputs are kept for display.
+ALTER TABLE public.lost_animal_matches
+  ADD COLUMN IF NOT EXISTS vision_confidence INTEGER,
+  ADD COLUMN IF NOT EXISTS distance_km DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS days_since_last_seen DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS proximity_score DOUBLE PRECISION;
+
+-- Comments
+COMMENT ON COLUMN public.lost_animal_matches.vision_confidence IS 'Confidence from the vision model before distance/time weighting (0-100)';
+COMMENT ON COLUMN public.lost_animal_matches.distance_km IS 'Distance between the last seen location and the sighting, null if unknown';
+COMMENT ON COLUMN public.lost_animal_matches.days_since_last_seen IS 'Days between last_seen_date and the sighting';
+COMMENT ON COLUMN public.lost_animal_matches.proximity_score IS 'Distance and time plausibility factor (0-1) for the species';
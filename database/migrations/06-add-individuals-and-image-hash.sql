@@ -0,0 +1,207 @@
+-- =====================================================================
+-- Group Repeat Sightings of the Same Animal into Individuals
+-- =====================================================================
+
+-- An individual is one real animal seen one or more times
+CREATE TABLE IF NOT EXISTS public.individuals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  animal_type TEXT DEFAULT 'cat',
+  name TEXT,
+  cover_image_url TEXT,
+  first_seen_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  sighting_count INTEGER DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Perceptual hash (16 hex chars dHash) of the sighting photo and its individual
+ALTER TABLE public.animals ADD COLUMN IF NOT EXISTS image_hash TEXT;
+ALTER TABLE public.animals ADD COLUMN IF NOT EXISTS individual_id UUID REFERENCES public.individuals(id) ON DELETE SET NULL;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS animals_individual_id_idx ON public.animals(individual_id);
+CREATE INDEX IF NOT EXISTS animals_image_hash_idx ON public.animals(image_hash) WHERE image_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS individuals_last_seen_at_idx ON public.individuals(last_seen_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.individuals ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Anyone can view individuals, changes go through the functions below
+CREATE POLICY "Individuals are viewable by everyone"
+  ON public.individuals FOR SELECT
+  USING (true);
+
+-- Number of differing bits between two hex hashes
+CREATE OR REPLACE FUNCTION public.image_hash_distance(hash_a TEXT, hash_b TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT bit_count(('x' || hash_a)::bit(64) # ('x' || hash_b)::bit(64))::INTEGER;
+$$;
+
+-- Nearby sightings whose photo looks like the given hash, closest first
+CREATE OR REPLACE FUNCTION public.find_similar_sightings(
+  p_image_hash TEXT,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_m DOUBLE PRECISION DEFAULT 500,
+  p_max_hash_distance INTEGER DEFAULT 12,
+  p_animal_type TEXT DEFAULT NULL,
+  p_exclude_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  image_url TEXT,
+  name TEXT,
+  description TEXT,
+  color TEXT,
+  animal_type TEXT,
+  spotted_at TIMESTAMP WITH TIME ZONE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  individual_id UUID,
+  hash_distance INTEGER,
+  distance_m DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM (
+    SELECT
+      a.id,
+      a.image_url,
+      a.name,
+      a.description,
+      a.color,
+      a.animal_type,
+      a.spotted_at,
+      a.latitude,
+      a.longitude,
+      a.individual_id,
+      public.image_hash_distance(a.image_hash, p_image_hash) AS hash_distance,
+      6371000 * 2 * asin(sqrt(
+        power(sin(radians(a.latitude - p_lat) / 2), 2) +
+        cos(radians(p_lat)) * cos(radians(a.latitude)) * power(sin(radians(a.longitude - p_lng) / 2), 2)
+      )) AS distance_m
+    FROM public.animals a
+    WHERE a.image_hash IS NOT NULL
+      AND (p_exclude_id IS NULL OR a.id <> p_exclude_id)
+      AND (p_animal_type IS NULL OR a.animal_type = p_animal_type)
+      AND (a.is_rescued IS NULL OR a.is_rescued = false)
+      -- Cheap bounding box before the exact distance
+      AND a.latitude BETWEEN p_lat - p_radius_m / 111000.0 AND p_lat + p_radius_m / 111000.0
+      AND a.longitude BETWEEN p_lng - p_radius_m / (111000.0 * cos(radians(p_lat))) AND p_lng + p_radius_m / (111000.0 * cos(radians(p_lat)))
+  ) candidates
+  WHERE candidates.hash_distance <= p_max_hash_distance
+    AND candidates.distance_m <= p_radius_m
+  ORDER BY candidates.hash_distance ASC, candidates.distance_m ASC
+  LIMIT p_limit;
+$$;
+
+-- Recalculate first/last seen, count and cover photo of an individual
+CREATE OR REPLACE FUNCTION public.refresh_individual_stats(p_individual_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_individual_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.individuals i
+  SET
+    first_seen_at = stats.first_seen_at,
+    last_seen_at = stats.last_seen_at,
+    sighting_count = stats.sighting_count,
+    cover_image_url = stats.cover_image_url
+  FROM (
+    SELECT
+      MIN(a.spotted_at) AS first_seen_at,
+      MAX(a.spotted_at) AS last_seen_at,
+      COUNT(*)::INTEGER AS sighting_count,
+      (ARRAY_AGG(a.image_url ORDER BY a.spotted_at DESC))[1] AS cover_image_url
+    FROM public.animals a
+    WHERE a.individual_id = p_individual_id
+  ) stats
+  WHERE i.id = p_individual_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_animal_individual_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_individual_stats(OLD.individual_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.individual_id IS DISTINCT FROM OLD.individual_id) THEN
+    PERFORM public.refresh_individual_stats(NEW.individual_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_animal_individual_change ON public.animals;
+CREATE TRIGGER on_animal_individual_change
+  AFTER INSERT OR UPDATE OF individual_id, spotted_at, image_url OR DELETE ON public.animals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_animal_individual_change();
+
+-- Link the caller's new sighting to the same individual as an existing sighting
+-- Creates the individual on first link. Returns the individual ID
+CREATE OR REPLACE FUNCTION public.link_sighting_to_individual(
+  p_sighting_id UUID,
+  p_same_as_sighting_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_sighting public.animals%ROWTYPE;
+  v_existing public.animals%ROWTYPE;
+  v_individual_id UUID;
+BEGIN
+  SELECT * INTO v_sighting FROM public.animals WHERE id = p_sighting_id;
+  IF NOT FOUND OR v_sighting.auth_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Sighting not found or not owned by caller';
+  END IF;
+
+  SELECT * INTO v_existing FROM public.animals WHERE id = p_same_as_sighting_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sighting % not found', p_same_as_sighting_id;
+  END IF;
+
+  v_individual_id := v_existing.individual_id;
+  IF v_individual_id IS NULL THEN
+    INSERT INTO public.individuals (animal_type, name, created_by)
+    VALUES (v_existing.animal_type, v_existing.name, auth.uid())
+    RETURNING id INTO v_individual_id;
+
+    UPDATE public.animals SET individual_id = v_individual_id WHERE id = v_existing.id;
+  END IF;
+
+  UPDATE public.animals SET individual_id = v_individual_id WHERE id = v_sighting.id;
+  RETURN v_individual_id;
+END;
+$$;
+
+-- Grant permissions
+GRANT SELECT ON public.individuals TO authenticated;
+GRANT SELECT ON public.individuals TO anon;
+GRANT EXECUTE ON FUNCTION public.image_hash_distance(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.find_similar_sightings(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, TEXT, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.link_sighting_to_individual(UUID, UUID) TO authenticated;
+
+-- Comments
+COMMENT ON TABLE public.individuals IS 'One real animal, linked to all of its sightings in animals';
+COMMENT ON COLUMN public.animals.image_hash IS 'Perceptual hash (dHash, 16 hex chars) of image_url';
+COMMENT ON FUNCTION public.find_similar_sightings IS 'Nearby sightings with a similar photo hash, used to catch duplicate reports';
+COMMENT ON FUNCTION public.link_sighting_to_individual(UUID, UUID) IS 'Group a new sighting with an existing one as the same individual';
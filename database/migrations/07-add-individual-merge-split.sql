@@ -0,0 +1,131 @@
+-- =====================================================================
+-- Merge and Split Individuals
+-- =====================================================================
+
+-- The caller may edit the grouping of a sighting they reported, or of any
+-- sighting in an individual they created
+CREATE OR REPLACE FUNCTION public.can_edit_sighting_group(p_sighting_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.animals a
+    LEFT JOIN public.individuals i ON i.id = a.individual_id
+    WHERE a.id = p_sighting_id
+      AND auth.uid() IS NOT NULL
+      AND (a.auth_user_id = auth.uid() OR i.created_by = auth.uid())
+  );
+$$;
+
+-- Move every sighting of two groups into one individual
+-- The caller must be able to edit p_sighting_id's group. The other sighting is
+-- usually someone else's report, so it may only be linked on its own or have
+-- its individual joined, and an individual is only absorbed (and deleted) if
+-- the caller created it. Returns the individual ID
+CREATE OR REPLACE FUNCTION public.merge_sighting_groups(
+  p_sighting_id UUID,
+  p_other_sighting_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_sighting public.animals%ROWTYPE;
+  v_other public.animals%ROWTYPE;
+  v_individual_id UUID;
+  v_absorbed_id UUID;
+BEGIN
+  IF NOT public.can_edit_sighting_group(p_sighting_id) THEN
+    RAISE EXCEPTION 'Sighting not found or not editable by caller';
+  END IF;
+
+  SELECT * INTO v_sighting FROM public.animals WHERE id = p_sighting_id;
+  SELECT * INTO v_other FROM public.animals WHERE id = p_other_sighting_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sighting % not found', p_other_sighting_id;
+  END IF;
+
+  IF v_sighting.animal_type IS DISTINCT FROM v_other.animal_type THEN
+    RAISE EXCEPTION 'Cannot merge a % with a %', v_sighting.animal_type, v_other.animal_type;
+  END IF;
+
+  IF v_other.individual_id IS NULL THEN
+    -- A lone sighting joins this sighting's individual, or a new one
+    v_individual_id := v_sighting.individual_id;
+    IF v_individual_id IS NULL THEN
+      INSERT INTO public.individuals (animal_type, name, created_by)
+      VALUES (v_sighting.animal_type, COALESCE(v_sighting.name, v_other.name), auth.uid())
+      RETURNING id INTO v_individual_id;
+    END IF;
+  ELSIF v_sighting.individual_id IS NULL OR v_sighting.individual_id = v_other.individual_id THEN
+    -- Join the other sighting's individual, like link_sighting_to_individual
+    v_individual_id := v_other.individual_id;
+  ELSIF EXISTS (
+    SELECT 1 FROM public.individuals
+    WHERE id = v_other.individual_id AND created_by = auth.uid()
+  ) THEN
+    v_individual_id := v_sighting.individual_id;
+    v_absorbed_id := v_other.individual_id;
+  ELSIF EXISTS (
+    SELECT 1 FROM public.individuals
+    WHERE id = v_sighting.individual_id AND created_by = auth.uid()
+  ) THEN
+    v_individual_id := v_other.individual_id;
+    v_absorbed_id := v_sighting.individual_id;
+  ELSE
+    RAISE EXCEPTION 'Only individuals created by the caller can be merged into another';
+  END IF;
+
+  UPDATE public.animals
+  SET individual_id = v_individual_id
+  WHERE id IN (v_sighting.id, v_other.id)
+    OR (v_absorbed_id IS NOT NULL AND individual_id = v_absorbed_id);
+
+  IF v_absorbed_id IS NOT NULL THEN
+    DELETE FROM public.individuals WHERE id = v_absorbed_id;
+  END IF;
+
+  RETURN v_individual_id;
+END;
+$$;
+
+-- Take a sighting out of its individual
+-- An individual left with a single sighting is dissolved
+CREATE OR REPLACE FUNCTION public.split_sighting(p_sighting_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_individual_id UUID;
+BEGIN
+  IF NOT public.can_edit_sighting_group(p_sighting_id) THEN
+    RAISE EXCEPTION 'Sighting not found or not editable by caller';
+  END IF;
+
+  SELECT individual_id INTO v_individual_id FROM public.animals WHERE id = p_sighting_id;
+  IF v_individual_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.animals SET individual_id = NULL WHERE id = p_sighting_id;
+
+  IF (SELECT COUNT(*) FROM public.animals WHERE individual_id = v_individual_id) <= 1 THEN
+    UPDATE public.animals SET individual_id = NULL WHERE individual_id = v_individual_id;
+    DELETE FROM public.individuals WHERE id = v_individual_id;
+  END IF;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.can_edit_sighting_group(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_sighting_groups(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.split_sighting(UUID) TO authenticated;
+
+-- Comments
+COMMENT ON FUNCTION public.merge_sighting_groups(UUID, UUID) IS 'Merge the individuals (or lone sightings) of two sightings into one individual';
+COMMENT ON FUNCTION public.split_sighting(UUID) IS 'Remove a sighting from its individual, dissolving individuals left with one sighting';
@@ -0,0 +1,127 @@
+-- =====================================================================
+-- Region-Bounded Map Query with Server-Side Clustering
+-- =====================================================================
+
+-- Map queries filter on a lat/lng bounding box
+CREATE INDEX IF NOT EXISTS animals_lat_lng_idx ON public.animals(latitude, longitude);
+
+-- Animals inside a map region
+-- Regions taller than p_pin_max_span degrees come back as grid clusters with
+-- per-species counts, smaller regions as individual pins. Cells holding a
+-- single animal are returned as a pin either way. Only the latest sighting of
+-- each individual is counted
+CREATE OR REPLACE FUNCTION public.get_map_region(
+  p_min_lat DOUBLE PRECISION,
+  p_min_lng DOUBLE PRECISION,
+  p_max_lat DOUBLE PRECISION,
+  p_max_lng DOUBLE PRECISION,
+  p_animal_type TEXT DEFAULT NULL,
+  p_pin_max_span DOUBLE PRECISION DEFAULT 0.2,
+  p_grid_size INTEGER DEFAULT 8,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  is_cluster BOOLEAN,
+  cluster_id TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  cat_count INTEGER,
+  dog_count INTEGER,
+  id UUID,
+  name TEXT,
+  description TEXT,
+  image_url TEXT,
+  animal_type TEXT,
+  spotted_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_cell_lat DOUBLE PRECISION := GREATEST(p_max_lat - p_min_lat, 0.0001) / p_grid_size;
+  v_cell_lng DOUBLE PRECISION := GREATEST(p_max_lng - p_min_lng, 0.0001) / p_grid_size;
+BEGIN
+  IF p_max_lat - p_min_lat <= p_pin_max_span THEN
+    RETURN QUERY
+    SELECT
+      false,
+      NULL::TEXT,
+      v.latitude,
+      v.longitude,
+      CASE WHEN v.animal_type = 'dog' THEN 0 ELSE 1 END,
+      CASE WHEN v.animal_type = 'dog' THEN 1 ELSE 0 END,
+      v.id,
+      v.name,
+      v.description,
+      v.image_url,
+      v.animal_type,
+      v.spotted_at
+    FROM (
+      SELECT DISTINCT ON (COALESCE(a.individual_id, a.id)) a.*
+      FROM public.animals a
+      WHERE a.latitude BETWEEN p_min_lat AND p_max_lat
+        AND a.longitude BETWEEN p_min_lng AND p_max_lng
+        AND (a.is_rescued IS NULL OR a.is_rescued = false)
+        AND (p_animal_type IS NULL OR a.animal_type = p_animal_type)
+      ORDER BY COALESCE(a.individual_id, a.id), a.spotted_at DESC
+    ) v
+    ORDER BY v.spotted_at DESC
+    LIMIT p_limit;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH visible AS (
+    SELECT DISTINCT ON (COALESCE(a.individual_id, a.id)) a.*
+    FROM public.animals a
+    WHERE a.latitude BETWEEN p_min_lat AND p_max_lat
+      AND a.longitude BETWEEN p_min_lng AND p_max_lng
+      AND (a.is_rescued IS NULL OR a.is_rescued = false)
+      AND (p_animal_type IS NULL OR a.animal_type = p_animal_type)
+    ORDER BY COALESCE(a.individual_id, a.id), a.spotted_at DESC
+  ),
+  cells AS (
+    SELECT
+      floor((v.latitude - p_min_lat) / v_cell_lat)::INTEGER AS cell_y,
+      floor((v.longitude - p_min_lng) / v_cell_lng)::INTEGER AS cell_x,
+      v.*
+    FROM visible v
+  ),
+  grouped AS (
+    SELECT
+      c.cell_y,
+      c.cell_x,
+      AVG(c.latitude) AS latitude,
+      AVG(c.longitude) AS longitude,
+      COUNT(*) FILTER (WHERE c.animal_type IS DISTINCT FROM 'dog')::INTEGER AS cat_count,
+      COUNT(*) FILTER (WHERE c.animal_type = 'dog')::INTEGER AS dog_count,
+      -- The single animal of one-animal cells
+      (ARRAY_AGG(c.id))[1] AS only_id
+    FROM cells c
+    GROUP BY c.cell_y, c.cell_x
+  )
+  SELECT
+    (g.cat_count + g.dog_count) > 1,
+    CASE WHEN (g.cat_count + g.dog_count) > 1 THEN g.cell_y || ':' || g.cell_x END,
+    CASE WHEN (g.cat_count + g.dog_count) > 1 THEN g.latitude ELSE a.latitude END,
+    CASE WHEN (g.cat_count + g.dog_count) > 1 THEN g.longitude ELSE a.longitude END,
+    g.cat_count,
+    g.dog_count,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.id END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.name END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.description END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.image_url END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.animal_type END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.spotted_at END
+  FROM grouped g
+  JOIN public.animals a ON a.id = g.only_id
+  LIMIT p_limit;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.get_map_region(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_map_region(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER, INTEGER) TO anon;
+
+-- Comments
+COMMENT ON FUNCTION public.get_map_region IS 'Animals inside a map region: grid clusters with cat/dog counts when zoomed out, pins when zoomed in';
@@ -0,0 +1,68 @@
+-- =====================================================================
+-- Keyset Pagination for Animal and Favorite Lists
+-- =====================================================================
+
+-- Create indexes for the keyset orderings
+CREATE INDEX IF NOT EXISTS animals_spotted_at_id_idx ON public.animals(spotted_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS favorites_user_created_at_id_idx ON public.favorites(auth_user_id, created_at DESC, id DESC);
+
+-- One page of animals, newest first or nearest first
+-- Pass the last row of the previous page as the cursor (spotted_at or
+-- distance_km, plus id as tie-breaker). Only the latest sighting of each
+-- individual is listed. Distance sorting and the radius need p_lat/p_lng
+CREATE OR REPLACE FUNCTION public.get_animals_page(
+  p_animal_type TEXT DEFAULT NULL,
+  p_rescued BOOLEAN DEFAULT false,
+  p_sort TEXT DEFAULT 'recent',
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lng DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_spotted_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_distance_km DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  animal JSONB,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH visible AS (
+    SELECT DISTINCT ON (COALESCE(a.individual_id, a.id))
+      a.*,
+      CASE
+        WHEN p_lat IS NULL OR p_lng IS NULL THEN NULL
+        ELSE 6371 * 2 * asin(sqrt(
+          power(sin(radians(a.latitude - p_lat) / 2), 2) +
+          cos(radians(p_lat)) * cos(radians(a.latitude)) * power(sin(radians(a.longitude - p_lng) / 2), 2)
+        ))
+      END AS distance_km
+    FROM public.animals a
+    WHERE (p_animal_type IS NULL OR a.animal_type = p_animal_type)
+      AND (CASE WHEN p_rescued THEN a.is_rescued = true ELSE (a.is_rescued IS NULL OR a.is_rescued = false) END)
+    ORDER BY COALESCE(a.individual_id, a.id), a.spotted_at DESC
+  )
+  SELECT to_jsonb(v) - 'distance_km', v.distance_km
+  FROM visible v
+  WHERE (p_radius_km IS NULL OR v.distance_km IS NULL OR v.distance_km <= p_radius_km)
+    AND (
+      p_cursor_id IS NULL
+      OR (p_sort = 'distance' AND (v.distance_km, v.id) > (p_cursor_distance_km, p_cursor_id))
+      OR (p_sort <> 'distance' AND (v.spotted_at, v.id) < (p_cursor_spotted_at, p_cursor_id))
+    )
+  ORDER BY
+    CASE WHEN p_sort = 'distance' THEN v.distance_km END ASC,
+    CASE WHEN p_sort = 'distance' THEN v.id END ASC,
+    CASE WHEN p_sort <> 'distance' THEN v.spotted_at END DESC,
+    CASE WHEN p_sort <> 'distance' THEN v.id END DESC
+  LIMIT p_limit;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.get_animals_page(TEXT, BOOLEAN, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_animals_page(TEXT, BOOLEAN, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, UUID, INTEGER) TO anon;
+
+-- Comments
+COMMENT ON FUNCTION public.get_animals_page IS 'Keyset-paginated animal list, sorted by spotted_at or by distance from a point';
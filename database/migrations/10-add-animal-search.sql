@@ -0,0 +1,128 @@
+-- =====================================================================
+-- Server-Side Search and Filters for the Animals List
+-- =====================================================================
+
+-- Full-text index over the searchable fields
+-- 'simple' config keeps names and colors as typed (no English stemming)
+ALTER TABLE public.animals ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    to_tsvector('simple',
+      coalesce(name, '') || ' ' ||
+      coalesce(breed, '') || ' ' ||
+      coalesce(color, '') || ' ' ||
+      coalesce(description, '')
+    )
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS animals_search_vector_idx ON public.animals USING GIN(search_vector);
+
+-- Latest sighting of an individual comes first in this index, for the
+-- per-row deduplication in search_animals
+CREATE INDEX IF NOT EXISTS animals_individual_spotted_at_idx
+  ON public.animals(individual_id, spotted_at DESC, id DESC) WHERE individual_id IS NOT NULL;
+
+-- Prefix query from free text, so "tab ora" matches "Orange Tabby"
+-- Returns NULL for blank input
+CREATE OR REPLACE FUNCTION public.prefix_tsquery(p_text TEXT)
+RETURNS TSQUERY
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN count(*) = 0 THEN NULL
+    ELSE to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  END
+  FROM regexp_split_to_table(lower(coalesce(p_text, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+-- Search replaces the plain page query from 09-add-animals-keyset-pagination.sql
+DROP FUNCTION IF EXISTS public.get_animals_page(TEXT, BOOLEAN, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, UUID, INTEGER);
+
+-- One page of animals matching the search text and structured filters
+-- Same keyset cursor and sorting as before: pass the last row of the previous
+-- page (spotted_at or distance_km, plus id). NULL filters match everything
+-- Only the latest matching sighting of each individual is listed. That is
+-- checked row by row, so the cursor and LIMIT bound the scan instead of
+-- deduplicating the whole table for every page
+CREATE OR REPLACE FUNCTION public.search_animals(
+  p_query TEXT DEFAULT NULL,
+  p_animal_type TEXT DEFAULT NULL,
+  p_rescued BOOLEAN DEFAULT false,
+  p_adoptable BOOLEAN DEFAULT NULL,
+  p_gender TEXT DEFAULT NULL,
+  p_health_status TEXT DEFAULT NULL,
+  p_neutered BOOLEAN DEFAULT NULL,
+  p_sort TEXT DEFAULT 'recent',
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lng DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_spotted_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_distance_km DOUBLE PRECISION DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  animal JSONB,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT to_jsonb(a) - 'search_vector', d.distance_km
+  FROM public.animals a
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN p_lat IS NULL OR p_lng IS NULL THEN NULL
+      ELSE 6371 * 2 * asin(sqrt(
+        power(sin(radians(a.latitude - p_lat) / 2), 2) +
+        cos(radians(p_lat)) * cos(radians(a.latitude)) * power(sin(radians(a.longitude - p_lng) / 2), 2)
+      ))
+    END AS distance_km
+  ) d
+  WHERE (p_animal_type IS NULL OR a.animal_type = p_animal_type)
+    AND (CASE WHEN p_rescued THEN a.is_rescued = true ELSE (a.is_rescued IS NULL OR a.is_rescued = false) END)
+    AND (public.prefix_tsquery(p_query) IS NULL OR a.search_vector @@ public.prefix_tsquery(p_query))
+    AND (p_adoptable IS NULL OR a.is_adoptable = p_adoptable)
+    AND (p_gender IS NULL OR a.gender = p_gender)
+    AND (p_health_status IS NULL OR a.health_status = p_health_status)
+    AND (p_neutered IS NULL OR a.is_neutered = p_neutered)
+    AND (p_radius_km IS NULL OR d.distance_km IS NULL OR d.distance_km <= p_radius_km)
+    AND (
+      p_cursor_id IS NULL
+      OR (p_sort = 'distance' AND (d.distance_km, a.id) > (p_cursor_distance_km, p_cursor_id))
+      OR (p_sort <> 'distance' AND (a.spotted_at, a.id) < (p_cursor_spotted_at, p_cursor_id))
+    )
+    -- Skip the row if a later sighting of the same individual also matches
+    AND (
+      a.individual_id IS NULL
+      OR NOT EXISTS (
+        SELECT 1
+        FROM public.animals newer
+        WHERE newer.individual_id = a.individual_id
+          AND (newer.spotted_at, newer.id) > (a.spotted_at, a.id)
+          AND (p_animal_type IS NULL OR newer.animal_type = p_animal_type)
+          AND (CASE WHEN p_rescued THEN newer.is_rescued = true ELSE (newer.is_rescued IS NULL OR newer.is_rescued = false) END)
+          AND (public.prefix_tsquery(p_query) IS NULL OR newer.search_vector @@ public.prefix_tsquery(p_query))
+          AND (p_adoptable IS NULL OR newer.is_adoptable = p_adoptable)
+          AND (p_gender IS NULL OR newer.gender = p_gender)
+          AND (p_health_status IS NULL OR newer.health_status = p_health_status)
+          AND (p_neutered IS NULL OR newer.is_neutered = p_neutered)
+      )
+    )
+  ORDER BY
+    CASE WHEN p_sort = 'distance' THEN d.distance_km END ASC,
+    CASE WHEN p_sort = 'distance' THEN a.id END ASC,
+    CASE WHEN p_sort <> 'distance' THEN a.spotted_at END DESC,
+    CASE WHEN p_sort <> 'distance' THEN a.id END DESC
+  LIMIT p_limit;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.prefix_tsquery(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.prefix_tsquery(TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.search_animals(TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, BOOLEAN, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_animals(TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT, BOOLEAN, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, UUID, INTEGER) TO anon;
+
+-- Comments
+COMMENT ON COLUMN public.animals.search_vector IS 'Full-text vector over name, breed, color and description';
+COMMENT ON FUNCTION public.search_animals IS 'Keyset-paginated animal search with full-text query, structured filters and radius';
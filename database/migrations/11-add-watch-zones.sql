@@ -0,0 +1,253 @@
+-- =====================================================================
+-- Watch Zones with Server-Side Push Alerts for New Sightings
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. New sightings are pushed by the notify-watch-zones edge function,
+--    called from an AFTER INSERT trigger through pg_net
+-- 2. Enable pg_net in Database > Extensions if it isn't already
+-- 3. The trigger reads the project URL and service role key from
+--    database settings. Set them once in the SQL Editor:
+--      ALTER DATABASE postgres SET app.settings.supabase_url = 'https://<project>.supabase.co';
+--      ALTER DATABASE postgres SET app.settings.service_role_key = '<service role key>';
+--    Without them the trigger does nothing and inserts are unaffected
+-- 4. Sightings in a zone's quiet hours are queued in
+--    notification_digest_items (12-add-notification-digest.sql) and sent
+--    by the hourly digest run once the quiet hours end
+-- =====================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- A named area a user wants alerts for
+CREATE TABLE IF NOT EXISTS public.watch_zones (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  auth_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  radius_km DOUBLE PRECISION NOT NULL DEFAULT 1 CHECK (radius_km > 0 AND radius_km <= 50),
+  -- NULL means both cats and dogs
+  animal_type TEXT CHECK (animal_type IN ('cat', 'dog')),
+  -- Local hours (0-23) during which no pushes are sent, may wrap past midnight
+  quiet_start_hour SMALLINT CHECK (quiet_start_hour BETWEEN 0 AND 23),
+  quiet_end_hour SMALLINT CHECK (quiet_end_hour BETWEEN 0 AND 23),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per zone and sighting already alerted, so retries don't double-push
+CREATE TABLE IF NOT EXISTS public.watch_zone_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  zone_id UUID NOT NULL REFERENCES public.watch_zones(id) ON DELETE CASCADE,
+  animal_id UUID NOT NULL REFERENCES public.animals(id) ON DELETE CASCADE,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (zone_id, animal_id)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS watch_zones_auth_user_id_idx ON public.watch_zones(auth_user_id);
+CREATE INDEX IF NOT EXISTS watch_zones_lat_lng_idx ON public.watch_zones(latitude, longitude) WHERE is_active;
+
+-- Enable RLS
+ALTER TABLE public.watch_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.watch_zone_alerts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own watch zones"
+  ON public.watch_zones FOR SELECT
+  USING (auth.uid() = auth_user_id);
+
+CREATE POLICY "Users can create their own watch zones"
+  ON public.watch_zones FOR INSERT
+  WITH CHECK (auth.uid() = auth_user_id);
+
+CREATE POLICY "Users can update their own watch zones"
+  ON public.watch_zones FOR UPDATE
+  USING (auth.uid() = auth_user_id);
+
+CREATE POLICY "Users can delete their own watch zones"
+  ON public.watch_zones FOR DELETE
+  USING (auth.uid() = auth_user_id);
+
+-- Alerts are written by the edge function with the service role only
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION public.handle_watch_zone_updated()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_watch_zone_updated ON public.watch_zones;
+CREATE TRIGGER on_watch_zone_updated
+  BEFORE UPDATE ON public.watch_zones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_watch_zone_updated();
+
+-- Whether the current local time falls inside a zone's quiet hours
+CREATE OR REPLACE FUNCTION public.is_in_quiet_hours(
+  p_start_hour SMALLINT,
+  p_end_hour SMALLINT,
+  p_timezone TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_hour INTEGER;
+BEGIN
+  IF p_start_hour IS NULL OR p_end_hour IS NULL OR p_start_hour = p_end_hour THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    v_hour := EXTRACT(HOUR FROM NOW() AT TIME ZONE p_timezone);
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_hour := EXTRACT(HOUR FROM NOW() AT TIME ZONE 'UTC');
+  END;
+
+  IF p_start_hour < p_end_hour THEN
+    RETURN v_hour >= p_start_hour AND v_hour < p_end_hour;
+  END IF;
+  -- Wraps past midnight, e.g. 22 -> 7
+  RETURN v_hour >= p_start_hour OR v_hour < p_end_hour;
+END;
+$$;
+
+-- When the quiet hours that are on now end, as the next p_end_hour o'clock
+-- in the zone's timezone
+CREATE OR REPLACE FUNCTION public.quiet_hours_end(
+  p_end_hour SMALLINT,
+  p_timezone TEXT
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_timezone TEXT := p_timezone;
+  v_local TIMESTAMP;
+  v_end TIMESTAMP;
+BEGIN
+  BEGIN
+    v_local := NOW() AT TIME ZONE v_timezone;
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_timezone := 'UTC';
+    v_local := NOW() AT TIME ZONE v_timezone;
+  END;
+
+  v_end := date_trunc('day', v_local) + make_interval(hours => p_end_hour);
+  IF v_end <= v_local THEN
+    v_end := v_end + INTERVAL '1 day';
+  END IF;
+  RETURN v_end AT TIME ZONE v_timezone;
+END;
+$$;
+
+-- Active zones containing a sighting that haven't been alerted for it yet
+-- Skips the reporter's own zones and users without a push token. quiet_until
+-- is set for zones in quiet hours, alerts for those wait until then
+DROP FUNCTION IF EXISTS public.find_watch_zones_for_sighting(UUID);
+
+CREATE OR REPLACE FUNCTION public.find_watch_zones_for_sighting(p_sighting_id UUID)
+RETURNS TABLE (
+  zone_id UUID,
+  zone_name TEXT,
+  auth_user_id UUID,
+  push_token TEXT,
+  distance_km DOUBLE PRECISION,
+  quiet_until TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT zones.zone_id, zones.zone_name, zones.auth_user_id, zones.push_token, zones.distance_km, zones.quiet_until
+  FROM (
+    SELECT
+      z.id AS zone_id,
+      z.name AS zone_name,
+      z.auth_user_id,
+      p.push_token,
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(a.latitude - z.latitude) / 2), 2) +
+        cos(radians(z.latitude)) * cos(radians(a.latitude)) * power(sin(radians(a.longitude - z.longitude) / 2), 2)
+      )) AS distance_km,
+      z.radius_km,
+      CASE
+        WHEN public.is_in_quiet_hours(z.quiet_start_hour, z.quiet_end_hour, z.timezone)
+        THEN public.quiet_hours_end(z.quiet_end_hour, z.timezone)
+      END AS quiet_until
+    FROM public.animals a
+    JOIN public.watch_zones z
+      ON z.is_active
+      AND (z.animal_type IS NULL OR z.animal_type = COALESCE(a.animal_type, 'cat'))
+      -- Cheap bounding box before the exact distance
+      AND a.latitude BETWEEN z.latitude - z.radius_km / 111.0 AND z.latitude + z.radius_km / 111.0
+    JOIN public.profiles p ON p.id = z.auth_user_id
+    WHERE a.id = p_sighting_id
+      AND p.push_token IS NOT NULL
+      AND z.auth_user_id IS DISTINCT FROM a.auth_user_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.watch_zone_alerts wa
+        WHERE wa.zone_id = z.id AND wa.animal_id = a.id
+      )
+  ) zones
+  WHERE zones.distance_km <= zones.radius_km
+  ORDER BY zones.distance_km ASC;
+$$;
+
+-- Call the notify-watch-zones edge function for each new sighting
+CREATE OR REPLACE FUNCTION public.handle_new_sighting_watch_zones()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_url TEXT := current_setting('app.settings.supabase_url', true);
+  v_key TEXT := current_setting('app.settings.service_role_key', true);
+BEGIN
+  IF v_url IS NULL OR v_url = '' OR v_key IS NULL OR v_key = '' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_url || '/functions/v1/notify-watch-zones',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body := jsonb_build_object('sightingId', NEW.id)
+  );
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Never block a sighting insert because alerts failed
+  RAISE WARNING 'notify-watch-zones call failed: %', SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_new_sighting_watch_zones ON public.animals;
+CREATE TRIGGER on_new_sighting_watch_zones
+  AFTER INSERT ON public.animals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_sighting_watch_zones();
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.watch_zones TO authenticated;
+-- Returns push tokens, so only the service role may call it
+REVOKE EXECUTE ON FUNCTION public.find_watch_zones_for_sighting(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Comments
+COMMENT ON TABLE public.watch_zones IS 'Named areas users get push alerts for when new animals are sighted';
+COMMENT ON TABLE public.watch_zone_alerts IS 'Zone/sighting pairs already pushed, used to deduplicate alerts';
+COMMENT ON FUNCTION public.find_watch_zones_for_sighting(UUID) IS 'Active zones containing a sighting that have not been alerted yet, with when their quiet hours end';
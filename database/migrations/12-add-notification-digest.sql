@@ -0,0 +1,177 @@
+-- =====================================================================
+-- Notification Digest Mode
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. Users in hourly or daily digest mode get one push summarising their
+--    queued watch-zone sightings, favorite rescues and lost-animal matches
+--    instead of one push each
+-- 2. notify-watch-zones and match-lost-animals queue items here for digest
+--    users. Favorite rescues are queued by a trigger on animals
+-- 3. Only one pending item per user and event. Once a digest has gone out
+--    the same sighting or match can be queued again, and lost_match items are
+--    keyed on the lost animal too so each match is kept
+-- 4. Watch-zone sightings held back by quiet hours are queued here for every
+--    user with deliver_after set to when the quiet hours end, and sent by the
+--    next run after that even for users not in digest mode
+-- 5. The send-notification-digests edge function is scheduled hourly with
+--    pg_cron and pg_net, see setup-pg-cron-cleanup.sql for enabling pg_cron
+--    and 11-add-watch-zones.sql for the app.settings it reads
+-- =====================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Digest preference, mirrored from the app settings
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS notification_digest TEXT NOT NULL DEFAULT 'off';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_notification_digest_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_notification_digest_check
+  CHECK (notification_digest IN ('off', 'hourly', 'daily'));
+
+-- One queued event per row, grouped into a digest when sent
+CREATE TABLE IF NOT EXISTS public.notification_digest_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  auth_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('sighting', 'rescue', 'lost_match')),
+  animal_id UUID NOT NULL REFERENCES public.animals(id) ON DELETE CASCADE,
+  lost_animal_id UUID REFERENCES public.lost_animals(id) ON DELETE CASCADE,
+  -- Short line shown on the digest screen, e.g. "Near Home" or "92% match for Milo"
+  summary TEXT,
+  -- Not sent before this, set for sightings that arrived in quiet hours
+  deliver_after TIMESTAMP WITH TIME ZONE,
+  -- Shared by all items sent in the same push
+  digest_id UUID,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS notification_digest_items_pending_key
+  ON public.notification_digest_items(auth_user_id, kind, animal_id, lost_animal_id) NULLS NOT DISTINCT
+  WHERE sent_at IS NULL;
+CREATE INDEX IF NOT EXISTS notification_digest_items_pending_idx
+  ON public.notification_digest_items(auth_user_id, created_at) WHERE sent_at IS NULL;
+CREATE INDEX IF NOT EXISTS notification_digest_items_digest_id_idx
+  ON public.notification_digest_items(digest_id);
+
+-- Enable RLS
+ALTER TABLE public.notification_digest_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Items are written by the service role and triggers only
+CREATE POLICY "Users can view their own digest items"
+  ON public.notification_digest_items FOR SELECT
+  USING (auth.uid() = auth_user_id);
+
+-- Queue a rescue item for digest users who favorited an animal when it's rescued
+-- Users not in digest mode keep getting the realtime notification in the app
+CREATE OR REPLACE FUNCTION public.handle_favorite_rescued_digest()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.is_rescued IS TRUE AND OLD.is_rescued IS NOT TRUE THEN
+    INSERT INTO public.notification_digest_items (auth_user_id, kind, animal_id, summary)
+    SELECT f.auth_user_id, 'rescue', NEW.id, 'Rescued'
+    FROM public.favorites f
+    JOIN public.profiles p ON p.id = f.auth_user_id
+    WHERE f.animal_id = NEW.id
+      AND p.notification_digest <> 'off'
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_favorite_rescued_digest ON public.animals;
+CREATE TRIGGER on_favorite_rescued_digest
+  AFTER UPDATE OF is_rescued ON public.animals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_favorite_rescued_digest();
+
+-- Queue items from the edge functions, skipping ones already pending
+-- PostgREST upserts can't target the partial unique index, hence the RPC
+CREATE OR REPLACE FUNCTION public.queue_digest_items(p_items JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  INSERT INTO public.notification_digest_items (auth_user_id, kind, animal_id, lost_animal_id, summary, deliver_after)
+  SELECT i.auth_user_id, i.kind, i.animal_id, i.lost_animal_id, i.summary, i.deliver_after
+  FROM jsonb_to_recordset(p_items) AS i(
+    auth_user_id UUID,
+    kind TEXT,
+    animal_id UUID,
+    lost_animal_id UUID,
+    summary TEXT,
+    deliver_after TIMESTAMP WITH TIME ZONE
+  )
+  ON CONFLICT DO NOTHING;
+$$;
+
+-- Users with items ready to send whose digest interval has elapsed
+-- Users not in digest mode only have items held back by quiet hours, those
+-- go out as soon as they're ready
+-- A few minutes of slack so an hourly cron run doesn't skip a cycle
+CREATE OR REPLACE FUNCTION public.get_due_digest_users()
+RETURNS TABLE (
+  auth_user_id UUID,
+  notification_digest TEXT,
+  push_token TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.id, p.notification_digest, p.push_token
+  FROM public.profiles p
+  WHERE p.push_token IS NOT NULL
+    AND (
+      p.notification_digest = 'off'
+      OR p.last_digest_sent_at IS NULL
+      OR (p.notification_digest = 'hourly' AND p.last_digest_sent_at < NOW() - INTERVAL '55 minutes')
+      OR (p.notification_digest = 'daily' AND p.last_digest_sent_at < NOW() - INTERVAL '23 hours 55 minutes')
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.notification_digest_items i
+      WHERE i.auth_user_id = p.id
+        AND i.sent_at IS NULL
+        AND (i.deliver_after IS NULL OR i.deliver_after <= NOW())
+    );
+$$;
+
+-- Call send-notification-digests at the top of every hour
+SELECT cron.unschedule('send-notification-digests-hourly')
+WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'send-notification-digests-hourly'
+);
+
+SELECT cron.schedule(
+  'send-notification-digests-hourly',
+  '0 * * * *',
+  $$SELECT net.http_post(
+    url := current_setting('app.settings.supabase_url', true) || '/functions/v1/send-notification-digests',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+    ),
+    body := '{}'::jsonb
+  );$$
+);
+
+-- Grant permissions
+GRANT SELECT ON public.notification_digest_items TO authenticated;
+-- Returns push tokens, so only the service role may call it
+REVOKE EXECUTE ON FUNCTION public.get_due_digest_users() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_digest_items(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Comments
+COMMENT ON COLUMN public.profiles.notification_digest IS 'off, hourly or daily - batch alerts into one digest push';
+COMMENT ON TABLE public.notification_digest_items IS 'Alerts queued for digest users, grouped by digest_id once sent';
+COMMENT ON FUNCTION public.queue_digest_items(JSONB) IS 'Queue digest items unless the same event is already pending';
+COMMENT ON FUNCTION public.get_due_digest_users() IS 'Users with items ready to send whose hourly/daily interval has elapsed, or who are held back only by quiet hours';
@@ -0,0 +1,175 @@
+-- =====================================================================
+-- Lost-Animal Match Review: Confirm, Reject, Check and Reunite
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. Owners review each match as checking, confirmed or rejected, then
+--    mark a confirmed match as reunited
+-- 2. Confirming or reuniting pushes the sighting's reporter through the
+--    notify-match-reporter edge function, using the same pg_net settings as
+--    11-add-watch-zones.sql
+-- 3. Reporters can see matches of their sightings once confirmed, so both
+--    sides can get in touch
+-- =====================================================================
+
+ALTER TABLE public.lost_animal_matches
+  ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS reject_reason TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS reunited_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.lost_animal_matches DROP CONSTRAINT IF EXISTS lost_animal_matches_review_status_check;
+ALTER TABLE public.lost_animal_matches ADD CONSTRAINT lost_animal_matches_review_status_check
+  CHECK (review_status IN ('pending', 'checking', 'confirmed', 'rejected', 'reunited'));
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS lost_animal_matches_sighting_id_idx ON public.lost_animal_matches(sighting_id);
+
+-- RLS Policies
+DROP POLICY IF EXISTS "Sighting reporters can view confirmed matches" ON public.lost_animal_matches;
+CREATE POLICY "Sighting reporters can view confirmed matches"
+  ON public.lost_animal_matches FOR SELECT
+  USING (
+    review_status IN ('confirmed', 'reunited')
+    AND EXISTS (
+      SELECT 1 FROM public.animals a
+      WHERE a.id = sighting_id AND a.auth_user_id = auth.uid()
+    )
+  );
+
+-- Owner review of a match: 'checking', 'confirmed' or 'rejected'
+-- Rejecting also dismisses the match so it leaves the list
+CREATE OR REPLACE FUNCTION public.review_lost_animal_match(
+  p_match_id UUID,
+  p_status TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.lost_animal_matches
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_match public.lost_animal_matches;
+BEGIN
+  IF p_status NOT IN ('checking', 'confirmed', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid review status: %', p_status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.lost_animal_matches m
+    JOIN public.lost_animals l ON l.id = m.lost_animal_id
+    WHERE m.id = p_match_id AND l.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the owner of the lost animal can review this match';
+  END IF;
+
+  UPDATE public.lost_animal_matches
+  SET review_status = p_status,
+      reject_reason = CASE WHEN p_status = 'rejected' THEN NULLIF(trim(p_reason), '') END,
+      reviewed_at = NOW(),
+      viewed = true,
+      dismissed = (p_status = 'rejected'),
+      dismissed_at = CASE WHEN p_status = 'rejected' THEN NOW() END
+  WHERE id = p_match_id
+    AND review_status <> 'reunited'
+  RETURNING * INTO v_match;
+
+  RETURN v_match;
+END;
+$$;
+
+-- Owner marks a confirmed match as reunited: the lost animal is found and
+-- the sighting is rescued
+CREATE OR REPLACE FUNCTION public.reunite_lost_animal_match(p_match_id UUID)
+RETURNS public.lost_animal_matches
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_match public.lost_animal_matches;
+BEGIN
+  SELECT m.* INTO v_match
+  FROM public.lost_animal_matches m
+  JOIN public.lost_animals l ON l.id = m.lost_animal_id
+  WHERE m.id = p_match_id AND l.user_id = auth.uid();
+
+  IF v_match.id IS NULL THEN
+    RAISE EXCEPTION 'Only the owner of the lost animal can reunite this match';
+  END IF;
+
+  IF v_match.review_status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Confirm the match before marking it reunited';
+  END IF;
+
+  UPDATE public.lost_animal_matches
+  SET review_status = 'reunited',
+      reunited_at = NOW()
+  WHERE id = p_match_id
+  RETURNING * INTO v_match;
+
+  UPDATE public.lost_animals
+  SET status = 'found',
+      found_at = NOW()
+  WHERE id = v_match.lost_animal_id;
+
+  UPDATE public.animals
+  SET status = 'rescued',
+      is_rescued = true
+  WHERE id = v_match.sighting_id;
+
+  RETURN v_match;
+END;
+$$;
+
+-- Push the sighting's reporter when a match is confirmed or reunited
+CREATE OR REPLACE FUNCTION public.handle_match_review_notify()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_url TEXT := current_setting('app.settings.supabase_url', true);
+  v_key TEXT := current_setting('app.settings.service_role_key', true);
+BEGIN
+  IF NEW.review_status NOT IN ('confirmed', 'reunited')
+    OR NEW.review_status IS NOT DISTINCT FROM OLD.review_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_url IS NULL OR v_url = '' OR v_key IS NULL OR v_key = '' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_url || '/functions/v1/notify-match-reporter',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body := jsonb_build_object('matchId', NEW.id)
+  );
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Never block a review because the push failed
+  RAISE WARNING 'notify-match-reporter call failed: %', SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_match_review_notify ON public.lost_animal_matches;
+CREATE TRIGGER on_match_review_notify
+  AFTER UPDATE OF review_status ON public.lost_animal_matches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_match_review_notify();
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.review_lost_animal_match(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reunite_lost_animal_match(UUID) TO authenticated;
+
+-- Comments
+COMMENT ON COLUMN public.lost_animal_matches.review_status IS 'pending, checking, confirmed, rejected or reunited - set by the lost animal owner';
+COMMENT ON COLUMN public.lost_animal_matches.reject_reason IS 'Why the owner rejected the match, if given';
+COMMENT ON FUNCTION public.review_lost_animal_match(UUID, TEXT, TEXT) IS 'Owner marks a match as checking, confirmed or rejected';
+COMMENT ON FUNCTION public.reunite_lost_animal_match(UUID) IS 'Owner reunites a confirmed match: lost animal found, sighting rescued';
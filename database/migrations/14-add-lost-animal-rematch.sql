@@ -0,0 +1,91 @@
+-- =====================================================================
+-- Scheduled Lost-Animal Re-Matching with a Widening Search
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. match-lost-animals is called with { rematch: true } every hour. It picks
+--    active lost animals that have reached their next search stage and
+--    re-runs matching with a wider radius and time window (stages are defined
+--    in supabase/functions/match-lost-animals/index.ts)
+-- 2. Every vision comparison is recorded in lost_animal_pair_analyses so a
+--    re-match only re-weights known pairs by the new range instead of
+--    calling the vision model again
+-- 3. lost_animals_with_matches is recreated here so its counts come straight
+--    from lost_animal_matches and leave out dismissed matches
+-- 4. Uses the same pg_cron / pg_net setup as 12-add-notification-digest.sql
+-- =====================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Search stage reached by each post, 0 = only the initial match has run
+ALTER TABLE public.lost_animals
+  ADD COLUMN IF NOT EXISTS rematch_stage INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_rematched_at TIMESTAMP WITH TIME ZONE;
+
+-- One row per lost animal / sighting pair the vision model has compared
+CREATE TABLE IF NOT EXISTS public.lost_animal_pair_analyses (
+  lost_animal_id UUID NOT NULL REFERENCES public.lost_animals(id) ON DELETE CASCADE,
+  sighting_id UUID NOT NULL REFERENCES public.animals(id) ON DELETE CASCADE,
+  vision_confidence INTEGER NOT NULL,
+  match_reason TEXT,
+  feature_scores JSONB,
+  photos_compared INTEGER,
+  analyzed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (lost_animal_id, sighting_id)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS lost_animals_rematch_idx
+  ON public.lost_animals(status, rematch_stage, last_rematched_at);
+
+-- Enable RLS - only the edge function (service role) reads and writes analyses
+ALTER TABLE public.lost_animal_pair_analyses ENABLE ROW LEVEL SECURITY;
+
+-- Lost animals with live match counts
+DROP VIEW IF EXISTS public.lost_animals_with_matches;
+CREATE VIEW public.lost_animals_with_matches AS
+SELECT
+  l.*,
+  COALESCE(m.potential_matches_count, 0)::INTEGER AS potential_matches_count,
+  COALESCE(m.unviewed_matches_count, 0)::INTEGER AS unviewed_matches_count
+FROM public.lost_animals l
+LEFT JOIN (
+  SELECT
+    lost_animal_id,
+    COUNT(*) AS potential_matches_count,
+    COUNT(*) FILTER (WHERE NOT viewed) AS unviewed_matches_count
+  FROM public.lost_animal_matches
+  WHERE NOT dismissed
+  GROUP BY lost_animal_id
+) m ON m.lost_animal_id = l.id;
+
+-- Re-match every hour, the edge function decides which posts are due
+SELECT cron.unschedule('rematch-lost-animals-hourly')
+WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'rematch-lost-animals-hourly'
+);
+
+SELECT cron.schedule(
+  'rematch-lost-animals-hourly',
+  '30 * * * *',
+  $$SELECT net.http_post(
+    url := current_setting('app.settings.supabase_url', true) || '/functions/v1/match-lost-animals',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+    ),
+    body := '{"rematch": true}'::jsonb
+  );$$
+);
+
+-- Grant permissions
+GRANT SELECT ON public.lost_animals_with_matches TO anon, authenticated;
+
+-- Comments
+COMMENT ON COLUMN public.lost_animals.rematch_stage IS 'Widest search stage matched so far, 0 = initial match only';
+COMMENT ON COLUMN public.lost_animals.last_rematched_at IS 'When the scheduled re-match last ran for this post';
+COMMENT ON TABLE public.lost_animal_pair_analyses IS 'Vision comparisons already made, so re-matching does not repeat them';
+COMMENT ON VIEW public.lost_animals_with_matches IS 'Lost animals with counts of their non-dismissed and unviewed matches';
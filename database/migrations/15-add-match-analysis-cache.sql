@@ -0,0 +1,55 @@
+-- =====================================================================
+-- Match Analysis Cache, Budget and Deferred Queue
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. lost_animal_pair_analyses is now keyed by both IDs and the photos that
+--    were compared, so a pair is only sent to the vision model again when
+--    either side's photos change
+-- 2. The same table is the usage log for the daily and per-owner match
+--    budgets (MATCH_BUDGETS in supabase/functions/match-lost-animals)
+-- 3. Pairs over budget wait in lost_animal_match_queue and are picked up by
+--    the hourly rematch-lost-animals-hourly cron run, best pre-score first
+-- 4. Existing analyses have no photo hashes and are re-analyzed once
+-- =====================================================================
+
+ALTER TABLE public.lost_animal_pair_analyses
+  ADD COLUMN IF NOT EXISTS lost_photos_hash TEXT NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS sighting_photo_hash TEXT NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.lost_animal_pair_analyses DROP CONSTRAINT IF EXISTS lost_animal_pair_analyses_pkey;
+ALTER TABLE public.lost_animal_pair_analyses ADD CONSTRAINT lost_animal_pair_analyses_pkey
+  PRIMARY KEY (lost_animal_id, sighting_id, lost_photos_hash, sighting_photo_hash);
+
+-- Pairs waiting for budget, with the search range they were found at
+CREATE TABLE IF NOT EXISTS public.lost_animal_match_queue (
+  lost_animal_id UUID NOT NULL REFERENCES public.lost_animals(id) ON DELETE CASCADE,
+  sighting_id UUID NOT NULL REFERENCES public.animals(id) ON DELETE CASCADE,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  pre_score INTEGER NOT NULL,
+  radius_factor DOUBLE PRECISION NOT NULL DEFAULT 1,
+  date_tolerance_days DOUBLE PRECISION NOT NULL DEFAULT 1,
+  queued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (lost_animal_id, sighting_id)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS lost_animal_pair_analyses_analyzed_at_idx
+  ON public.lost_animal_pair_analyses(analyzed_at);
+CREATE INDEX IF NOT EXISTS lost_animal_pair_analyses_owner_idx
+  ON public.lost_animal_pair_analyses(owner_id, analyzed_at);
+CREATE INDEX IF NOT EXISTS lost_animal_match_queue_priority_idx
+  ON public.lost_animal_match_queue(pre_score DESC, queued_at);
+
+-- Enable RLS - only the edge function (service role) uses the queue
+ALTER TABLE public.lost_animal_match_queue ENABLE ROW LEVEL SECURITY;
+
+-- Comments
+COMMENT ON COLUMN public.lost_animal_pair_analyses.lost_photos_hash IS 'SHA-256 of the lost animal photo URLs that were compared';
+COMMENT ON COLUMN public.lost_animal_pair_analyses.sighting_photo_hash IS 'SHA-256 of the sighting image_url that was compared';
+COMMENT ON COLUMN public.lost_animal_pair_analyses.owner_id IS 'Lost animal owner the vision call is charged to';
+COMMENT ON TABLE public.lost_animal_match_queue IS 'Lost animal / sighting pairs deferred by the match budget';
+COMMENT ON COLUMN public.lost_animal_match_queue.pre_score IS 'Best confidence the pair could reach from distance and time alone (0-100)';
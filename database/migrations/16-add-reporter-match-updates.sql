@@ -0,0 +1,241 @@
+-- =====================================================================
+-- Sighting-Reporter Match Notifications, Updates and Contact Consent
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. Reporters opt in with profiles.notify_sighting_matches. When one of
+--    their sightings matches a lost pet, match-lost-animals pushes them and
+--    sets reporter_notified_at, which lets them see the match
+-- 2. Reporters post what they know now (still there? when last seen?) as
+--    match_reporter_updates. Each update pushes the lost animal's owner
+--    through the notify-match-owner edge function, using the same pg_net
+--    settings as 11-add-watch-zones.sql
+-- 3. Contact details are only returned by get_match_contacts once both the
+--    owner and the reporter have agreed to share them. The reporter's
+--    contact is kept in match_reporter_contacts, which clients can't read
+-- =====================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS notify_sighting_matches BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.lost_animal_matches
+  ADD COLUMN IF NOT EXISTS reporter_notified_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS owner_shares_contact BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS reporter_shares_contact BOOLEAN NOT NULL DEFAULT false;
+
+-- Reporter's contact, only readable through get_match_contacts
+CREATE TABLE IF NOT EXISTS public.match_reporter_contacts (
+  match_id UUID PRIMARY KEY REFERENCES public.lost_animal_matches(id) ON DELETE CASCADE,
+  contact TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- What the reporter knows now about the animal they saw
+CREATE TABLE IF NOT EXISTS public.match_reporter_updates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id UUID NOT NULL REFERENCES public.lost_animal_matches(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  still_there TEXT NOT NULL CHECK (still_there IN ('still_here', 'moved_on', 'not_sure')),
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  note TEXT CHECK (char_length(note) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS match_reporter_updates_match_id_idx
+  ON public.match_reporter_updates(match_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.match_reporter_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.match_reporter_updates ENABLE ROW LEVEL SECURITY;
+
+-- True when the current user reported the match's sighting and may see it
+CREATE OR REPLACE FUNCTION public.is_match_reporter(p_match_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.lost_animal_matches m
+    JOIN public.animals a ON a.id = m.sighting_id
+    WHERE m.id = p_match_id
+      AND a.auth_user_id = auth.uid()
+      AND NOT m.dismissed
+      AND (m.reporter_notified_at IS NOT NULL OR m.review_status IN ('confirmed', 'reunited'))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_match_owner(p_match_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.lost_animal_matches m
+    JOIN public.lost_animals l ON l.id = m.lost_animal_id
+    WHERE m.id = p_match_id AND l.user_id = auth.uid()
+  );
+$$;
+
+-- RLS Policies
+-- Replaces the confirmed-only policy from 13-add-match-review.sql
+DROP POLICY IF EXISTS "Sighting reporters can view confirmed matches" ON public.lost_animal_matches;
+DROP POLICY IF EXISTS "Sighting reporters can view their matches" ON public.lost_animal_matches;
+CREATE POLICY "Sighting reporters can view their matches"
+  ON public.lost_animal_matches FOR SELECT
+  USING (public.is_match_reporter(id));
+
+DROP POLICY IF EXISTS "Owners and reporters can view reporter updates" ON public.match_reporter_updates;
+CREATE POLICY "Owners and reporters can view reporter updates"
+  ON public.match_reporter_updates FOR SELECT
+  USING (public.is_match_owner(match_id) OR public.is_match_reporter(match_id));
+
+-- Reporter shares what they know now
+CREATE OR REPLACE FUNCTION public.add_match_reporter_update(
+  p_match_id UUID,
+  p_still_there TEXT,
+  p_last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.match_reporter_updates
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_update public.match_reporter_updates;
+BEGIN
+  IF NOT public.is_match_reporter(p_match_id) THEN
+    RAISE EXCEPTION 'Only the person who reported this sighting can post updates';
+  END IF;
+
+  INSERT INTO public.match_reporter_updates (match_id, reporter_id, still_there, last_seen_at, note)
+  VALUES (p_match_id, auth.uid(), p_still_there, p_last_seen_at, NULLIF(trim(p_note), ''))
+  RETURNING * INTO v_update;
+
+  RETURN v_update;
+END;
+$$;
+
+-- Owner or reporter agrees (or stops agreeing) to share contact details
+-- Reporters pass the contact they want to share
+CREATE OR REPLACE FUNCTION public.set_match_contact_consent(
+  p_match_id UUID,
+  p_share BOOLEAN,
+  p_contact TEXT DEFAULT NULL
+)
+RETURNS public.lost_animal_matches
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_match public.lost_animal_matches;
+BEGIN
+  IF public.is_match_owner(p_match_id) THEN
+    UPDATE public.lost_animal_matches
+    SET owner_shares_contact = p_share
+    WHERE id = p_match_id
+    RETURNING * INTO v_match;
+  ELSIF public.is_match_reporter(p_match_id) THEN
+    IF p_share AND NULLIF(trim(p_contact), '') IS NULL THEN
+      RAISE EXCEPTION 'Add a phone number or email to share';
+    END IF;
+
+    IF p_share THEN
+      INSERT INTO public.match_reporter_contacts (match_id, contact)
+      VALUES (p_match_id, trim(p_contact))
+      ON CONFLICT (match_id) DO UPDATE SET contact = EXCLUDED.contact, updated_at = NOW();
+    ELSE
+      DELETE FROM public.match_reporter_contacts WHERE match_id = p_match_id;
+    END IF;
+
+    UPDATE public.lost_animal_matches
+    SET reporter_shares_contact = p_share
+    WHERE id = p_match_id
+    RETURNING * INTO v_match;
+  ELSE
+    RAISE EXCEPTION 'Only the owner or the reporter can share contact details';
+  END IF;
+
+  RETURN v_match;
+END;
+$$;
+
+-- Both sides' contact details, only once both have agreed to share
+CREATE OR REPLACE FUNCTION public.get_match_contacts(p_match_id UUID)
+RETURNS TABLE (
+  owner_name TEXT,
+  owner_phone TEXT,
+  owner_email TEXT,
+  reporter_contact TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT l.contact_name, l.contact_phone, l.contact_email, c.contact
+  FROM public.lost_animal_matches m
+  JOIN public.lost_animals l ON l.id = m.lost_animal_id
+  LEFT JOIN public.match_reporter_contacts c ON c.match_id = m.id
+  WHERE m.id = p_match_id
+    AND m.owner_shares_contact
+    AND m.reporter_shares_contact
+    AND (public.is_match_owner(p_match_id) OR public.is_match_reporter(p_match_id));
+$$;
+
+-- Push the lost animal's owner when the reporter posts an update
+CREATE OR REPLACE FUNCTION public.handle_match_reporter_update_notify()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_url TEXT := current_setting('app.settings.supabase_url', true);
+  v_key TEXT := current_setting('app.settings.service_role_key', true);
+BEGIN
+  IF v_url IS NULL OR v_url = '' OR v_key IS NULL OR v_key = '' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_url || '/functions/v1/notify-match-owner',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body := jsonb_build_object('updateId', NEW.id)
+  );
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Never block an update because the push failed
+  RAISE WARNING 'notify-match-owner call failed: %', SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_match_reporter_update_notify ON public.match_reporter_updates;
+CREATE TRIGGER on_match_reporter_update_notify
+  AFTER INSERT ON public.match_reporter_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_match_reporter_update_notify();
+
+-- Grant permissions
+GRANT SELECT ON public.match_reporter_updates TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_match_reporter(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_match_owner(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_match_reporter_update(UUID, TEXT, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_match_contact_consent(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_match_contacts(UUID) TO authenticated;
+
+-- Comments
+COMMENT ON COLUMN public.profiles.notify_sighting_matches IS 'Opt-in: push when one of the user''s sightings may be a lost pet';
+COMMENT ON COLUMN public.lost_animal_matches.reporter_notified_at IS 'When the sighting''s reporter was told about the match, lets them see it';
+COMMENT ON COLUMN public.lost_animal_matches.owner_shares_contact IS 'Owner agreed to share contact details with the reporter';
+COMMENT ON COLUMN public.lost_animal_matches.reporter_shares_contact IS 'Reporter agreed to share contact details with the owner';
+COMMENT ON TABLE public.match_reporter_updates IS 'What the sighting''s reporter knows now, shared with the lost animal owner';
+COMMENT ON FUNCTION public.get_match_contacts(UUID) IS 'Both sides'' contact details once both agreed to share';
@@ -0,0 +1,403 @@
+-- =====================================================================
+-- Per-Post Location Privacy (Server-Side Fuzzing)
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. Sightings and lost animal posts have a location_privacy level:
+--    'exact', 'approximate' (within ~100 m) or 'neighborhood' (within ~1 km)
+-- 2. A BEFORE trigger moves the submitted coordinates into a private table
+--    and replaces the public ones with the centre of a grid cell sized for
+--    the level. Clients never have to fuzz anything themselves, and every
+--    existing query (map, lists, search, watch zones, matching) only ever
+--    sees the fuzzed point
+-- 3. The poster gets the exact sighting location from get_animal_exact_location,
+--    and so does the owner of a lost animal once they confirm a match with it.
+--    Self-reported rescues don't count, any signed-in user can record one
+--    Lost animal owners get their own exact last seen location from
+--    get_lost_animal_exact_location
+-- 4. Existing posts stay 'exact'; new posts default to 'approximate'
+-- 5. Radius queries widen their radius by location_fuzz_meters so fuzzed
+--    posts near the edge aren't dropped
+-- =====================================================================
+
+ALTER TABLE public.animals
+  ADD COLUMN IF NOT EXISTS location_privacy TEXT NOT NULL DEFAULT 'exact'
+    CHECK (location_privacy IN ('exact', 'approximate', 'neighborhood'));
+ALTER TABLE public.animals ALTER COLUMN location_privacy SET DEFAULT 'approximate';
+
+ALTER TABLE public.lost_animals
+  ADD COLUMN IF NOT EXISTS location_privacy TEXT NOT NULL DEFAULT 'exact'
+    CHECK (location_privacy IN ('exact', 'approximate', 'neighborhood'));
+ALTER TABLE public.lost_animals ALTER COLUMN location_privacy SET DEFAULT 'approximate';
+
+-- Exact coordinates, never readable by clients directly
+-- The foreign keys are deferred because the rows are written by BEFORE INSERT triggers
+CREATE TABLE IF NOT EXISTS public.animal_exact_locations (
+  animal_id UUID PRIMARY KEY
+    REFERENCES public.animals(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.lost_animal_exact_locations (
+  lost_animal_id UUID PRIMARY KEY
+    REFERENCES public.lost_animals(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Enable RLS - no policies, only SECURITY DEFINER functions read these
+ALTER TABLE public.animal_exact_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lost_animal_exact_locations ENABLE ROW LEVEL SECURITY;
+
+-- Furthest a fuzzed point can be from the real one
+-- Keep in sync with LOCATION_PRIVACY_LEVELS (app/services/location/locationPrivacy.ts)
+-- and FUZZ_RADIUS_KM (supabase/functions/_shared/roaming.ts)
+CREATE OR REPLACE FUNCTION public.location_fuzz_meters(p_privacy TEXT)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_privacy
+    WHEN 'approximate' THEN 100.0
+    WHEN 'neighborhood' THEN 1000.0
+    ELSE 0.0
+  END;
+$$;
+
+-- Snap a point to the centre of its grid cell
+-- Cells are sized so the centre is never further than location_fuzz_meters
+-- away. The same spot always gives the same point, so reposting or editing
+-- can't be averaged out to the real location
+CREATE OR REPLACE FUNCTION public.fuzz_location(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_privacy TEXT,
+  OUT latitude DOUBLE PRECISION,
+  OUT longitude DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_cell_m DOUBLE PRECISION := public.location_fuzz_meters(p_privacy) * sqrt(2.0);
+  v_cell_lat DOUBLE PRECISION;
+  v_cell_lng DOUBLE PRECISION;
+BEGIN
+  latitude := p_lat;
+  longitude := p_lng;
+  IF v_cell_m = 0 OR p_lat IS NULL OR p_lng IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_cell_lat := v_cell_m / 111320.0;
+  latitude := (floor(p_lat / v_cell_lat) + 0.5) * v_cell_lat;
+  -- Longitude cells are sized at the snapped latitude so the grid is stable
+  v_cell_lng := v_cell_m / (111320.0 * GREATEST(cos(radians(latitude)), 0.01));
+  longitude := (floor(p_lng / v_cell_lng) + 0.5) * v_cell_lng;
+END;
+$$;
+
+-- Keep the exact sighting location private and publish the fuzzed one
+CREATE OR REPLACE FUNCTION public.handle_animal_location_privacy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_lat DOUBLE PRECISION := NEW.latitude;
+  v_lng DOUBLE PRECISION := NEW.longitude;
+  v_fuzzed RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.latitude IS NOT DISTINCT FROM OLD.latitude
+    AND NEW.longitude IS NOT DISTINCT FROM OLD.longitude THEN
+    IF NEW.location_privacy IS NOT DISTINCT FROM OLD.location_privacy THEN
+      RETURN NEW;
+    END IF;
+
+    -- Only the level changed: re-fuzz from the real location, not the fuzzed one
+    SELECT COALESCE(e.latitude, v_lat), COALESCE(e.longitude, v_lng)
+    INTO v_lat, v_lng
+    FROM (SELECT 1) s
+    LEFT JOIN public.animal_exact_locations e ON e.animal_id = NEW.id;
+  END IF;
+
+  IF v_lat IS NULL OR v_lng IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.animal_exact_locations (animal_id, latitude, longitude)
+  VALUES (NEW.id, v_lat, v_lng)
+  ON CONFLICT (animal_id) DO UPDATE
+    SET latitude = EXCLUDED.latitude, longitude = EXCLUDED.longitude, updated_at = NOW();
+
+  SELECT * INTO v_fuzzed FROM public.fuzz_location(v_lat, v_lng, NEW.location_privacy);
+  NEW.latitude := v_fuzzed.latitude;
+  NEW.longitude := v_fuzzed.longitude;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_animal_location_privacy ON public.animals;
+CREATE TRIGGER on_animal_location_privacy
+  BEFORE INSERT OR UPDATE OF latitude, longitude, location_privacy ON public.animals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_animal_location_privacy();
+
+-- Same for the last seen location of lost animal posts
+CREATE OR REPLACE FUNCTION public.handle_lost_animal_location_privacy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_lat DOUBLE PRECISION;
+  v_lng DOUBLE PRECISION;
+  v_fuzzed RECORD;
+BEGIN
+  IF NEW.last_seen_location IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_lat := ST_Y(NEW.last_seen_location::geometry);
+  v_lng := ST_X(NEW.last_seen_location::geometry);
+
+  IF TG_OP = 'UPDATE' AND NEW.last_seen_location::geometry = OLD.last_seen_location::geometry THEN
+    IF NEW.location_privacy IS NOT DISTINCT FROM OLD.location_privacy THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(e.latitude, v_lat), COALESCE(e.longitude, v_lng)
+    INTO v_lat, v_lng
+    FROM (SELECT 1) s
+    LEFT JOIN public.lost_animal_exact_locations e ON e.lost_animal_id = NEW.id;
+  END IF;
+
+  INSERT INTO public.lost_animal_exact_locations (lost_animal_id, latitude, longitude)
+  VALUES (NEW.id, v_lat, v_lng)
+  ON CONFLICT (lost_animal_id) DO UPDATE
+    SET latitude = EXCLUDED.latitude, longitude = EXCLUDED.longitude, updated_at = NOW();
+
+  SELECT * INTO v_fuzzed FROM public.fuzz_location(v_lat, v_lng, NEW.location_privacy);
+  NEW.last_seen_location := ST_SetSRID(ST_MakePoint(v_fuzzed.longitude, v_fuzzed.latitude), 4326)::geography;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lost_animal_location_privacy ON public.lost_animals;
+CREATE TRIGGER on_lost_animal_location_privacy
+  BEFORE INSERT OR UPDATE OF last_seen_location, location_privacy ON public.lost_animals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_lost_animal_location_privacy();
+
+-- Exact sighting location for its poster and owners who confirmed it's their animal
+-- Returns no row for everyone else, who should use the public (fuzzed) one
+CREATE OR REPLACE FUNCTION public.get_animal_exact_location(p_animal_id UUID)
+RETURNS TABLE (
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(e.latitude, a.latitude), COALESCE(e.longitude, a.longitude)
+  FROM public.animals a
+  LEFT JOIN public.animal_exact_locations e ON e.animal_id = a.id
+  WHERE a.id = p_animal_id
+    AND auth.uid() IS NOT NULL
+    AND (
+      a.auth_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.lost_animal_matches m
+        JOIN public.lost_animals l ON l.id = m.lost_animal_id
+        WHERE m.sighting_id = a.id
+          AND l.user_id = auth.uid()
+          AND m.review_status IN ('confirmed', 'reunited')
+      )
+    );
+$$;
+
+-- Exact last seen location of a lost animal post, for its owner only
+CREATE OR REPLACE FUNCTION public.get_lost_animal_exact_location(p_lost_animal_id UUID)
+RETURNS TABLE (
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    COALESCE(e.latitude, ST_Y(l.last_seen_location::geometry)),
+    COALESCE(e.longitude, ST_X(l.last_seen_location::geometry))
+  FROM public.lost_animals l
+  LEFT JOIN public.lost_animal_exact_locations e ON e.lost_animal_id = l.id
+  WHERE l.id = p_lost_animal_id
+    AND auth.uid() IS NOT NULL
+    AND l.user_id = auth.uid();
+$$;
+
+-- Sightings within a radius, now on animals and allowing for each post's fuzzing
+-- Replaces the cats-table version from database/schemas
+DROP FUNCTION IF EXISTS public.find_cats_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER);
+CREATE FUNCTION public.find_cats_within_radius(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION,
+  hours_ago INTEGER DEFAULT 24
+)
+RETURNS SETOF public.animals
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT a.*
+  FROM public.animals a
+  WHERE a.spotted_at >= NOW() - make_interval(hours => hours_ago)
+    -- Cheap bounding box first, padded by the largest fuzz radius
+    AND a.latitude BETWEEN lat - (radius_km + 1) / 111.0 AND lat + (radius_km + 1) / 111.0
+    AND a.longitude BETWEEN lng - (radius_km + 1) / (111.0 * cos(radians(lat)))
+      AND lng + (radius_km + 1) / (111.0 * cos(radians(lat)))
+    AND 2 * 6371 * asin(sqrt(
+      power(sin(radians(a.latitude - lat) / 2), 2) +
+      cos(radians(lat)) * cos(radians(a.latitude)) * power(sin(radians(a.longitude - lng) / 2), 2)
+    )) <= radius_km + public.location_fuzz_meters(a.location_privacy) / 1000.0
+  ORDER BY a.spotted_at DESC;
+$$;
+
+-- Map region query from 08-add-map-region-clustering.sql, now returning
+-- each pin's privacy level so the map can show how approximate it is
+DROP FUNCTION IF EXISTS public.get_map_region(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER, INTEGER);
+CREATE FUNCTION public.get_map_region(
+  p_min_lat DOUBLE PRECISION,
+  p_min_lng DOUBLE PRECISION,
+  p_max_lat DOUBLE PRECISION,
+  p_max_lng DOUBLE PRECISION,
+  p_animal_type TEXT DEFAULT NULL,
+  p_pin_max_span DOUBLE PRECISION DEFAULT 0.2,
+  p_grid_size INTEGER DEFAULT 8,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  is_cluster BOOLEAN,
+  cluster_id TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  cat_count INTEGER,
+  dog_count INTEGER,
+  id UUID,
+  name TEXT,
+  description TEXT,
+  image_url TEXT,
+  animal_type TEXT,
+  spotted_at TIMESTAMP WITH TIME ZONE,
+  location_privacy TEXT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_cell_lat DOUBLE PRECISION := GREATEST(p_max_lat - p_min_lat, 0.0001) / p_grid_size;
+  v_cell_lng DOUBLE PRECISION := GREATEST(p_max_lng - p_min_lng, 0.0001) / p_grid_size;
+BEGIN
+  IF p_max_lat - p_min_lat <= p_pin_max_span THEN
+    RETURN QUERY
+    SELECT
+      false,
+      NULL::TEXT,
+      v.latitude,
+      v.longitude,
+      CASE WHEN v.animal_type = 'dog' THEN 0 ELSE 1 END,
+      CASE WHEN v.animal_type = 'dog' THEN 1 ELSE 0 END,
+      v.id,
+      v.name,
+      v.description,
+      v.image_url,
+      v.animal_type,
+      v.spotted_at,
+      v.location_privacy
+    FROM (
+      SELECT DISTINCT ON (COALESCE(a.individual_id, a.id)) a.*
+      FROM public.animals a
+      WHERE a.latitude BETWEEN p_min_lat AND p_max_lat
+        AND a.longitude BETWEEN p_min_lng AND p_max_lng
+        AND (a.is_rescued IS NULL OR a.is_rescued = false)
+        AND (p_animal_type IS NULL OR a.animal_type = p_animal_type)
+      ORDER BY COALESCE(a.individual_id, a.id), a.spotted_at DESC
+    ) v
+    ORDER BY v.spotted_at DESC
+    LIMIT p_limit;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH visible AS (
+    SELECT DISTINCT ON (COALESCE(a.individual_id, a.id)) a.*
+    FROM public.animals a
+    WHERE a.latitude BETWEEN p_min_lat AND p_max_lat
+      AND a.longitude BETWEEN p_min_lng AND p_max_lng
+      AND (a.is_rescued IS NULL OR a.is_rescued = false)
+      AND (p_animal_type IS NULL OR a.animal_type = p_animal_type)
+    ORDER BY COALESCE(a.individual_id, a.id), a.spotted_at DESC
+  ),
+  cells AS (
+    SELECT
+      floor((v.latitude - p_min_lat) / v_cell_lat)::INTEGER AS cell_y,
+      floor((v.longitude - p_min_lng) / v_cell_lng)::INTEGER AS cell_x,
+      v.*
+    FROM visible v
+  ),
+  grouped AS (
+    SELECT
+      c.cell_y,
+      c.cell_x,
+      AVG(c.latitude) AS latitude,
+      AVG(c.longitude) AS longitude,
+      COUNT(*) FILTER (WHERE c.animal_type IS DISTINCT FROM 'dog')::INTEGER AS cat_count,
+      COUNT(*) FILTER (WHERE c.animal_type = 'dog')::INTEGER AS dog_count,
+      -- The single animal of one-animal cells
+      (ARRAY_AGG(c.id))[1] AS only_id
+    FROM cells c
+    GROUP BY c.cell_y, c.cell_x
+  )
+  SELECT
+    (g.cat_count + g.dog_count) > 1,
+    CASE WHEN (g.cat_count + g.dog_count) > 1 THEN g.cell_y || ':' || g.cell_x END,
+    CASE WHEN (g.cat_count + g.dog_count) > 1 THEN g.latitude ELSE a.latitude END,
+    CASE WHEN (g.cat_count + g.dog_count) > 1 THEN g.longitude ELSE a.longitude END,
+    g.cat_count,
+    g.dog_count,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.id END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.name END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.description END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.image_url END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.animal_type END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.spotted_at END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.location_privacy END
+  FROM grouped g
+  JOIN public.animals a ON a.id = g.only_id
+  LIMIT p_limit;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.location_fuzz_meters(TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.get_animal_exact_location(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_lost_animal_exact_location(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.find_cats_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.get_map_region(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_map_region(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER, INTEGER) TO anon;
+
+-- Comments
+COMMENT ON COLUMN public.animals.location_privacy IS 'exact, approximate (~100 m) or neighborhood (~1 km); latitude/longitude are fuzzed to match';
+COMMENT ON COLUMN public.lost_animals.location_privacy IS 'exact, approximate (~100 m) or neighborhood (~1 km); last_seen_location is fuzzed to match';
+COMMENT ON TABLE public.animal_exact_locations IS 'Real sighting coordinates, only returned by get_animal_exact_location';
+COMMENT ON TABLE public.lost_animal_exact_locations IS 'Real last seen coordinates of lost animal posts, only returned by get_lost_animal_exact_location';
+COMMENT ON FUNCTION public.get_animal_exact_location(UUID) IS 'Exact sighting location for the poster and owners with a confirmed match';
+COMMENT ON FUNCTION public.get_lost_animal_exact_location(UUID) IS 'Exact last seen location of a lost animal post for its owner';
+COMMENT ON FUNCTION public.get_map_region IS 'Animals inside a map region: grid clusters with cat/dog counts when zoomed out, pins when zoomed in';
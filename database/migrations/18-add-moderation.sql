@@ -0,0 +1,569 @@
+-- =====================================================================
+-- Content Reports, Moderator Queue, Hiding and Bans
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. Moderators are profiles with role 'admin', the same admin tier used by
+--    RATE_LIMITS in the analyze-animal edge function. Roles are only granted
+--    from the dashboard or SQL editor:
+--      UPDATE public.profiles SET role = 'admin' WHERE id = '<user id>';
+-- 2. Anyone signed in can report a sighting, comment or lost animal post
+--    with report_content. Moderators work through get_moderation_queue and
+--    act on it with moderate_content (hide, restore, ban or dismiss)
+-- 3. Hidden rows are filtered by RESTRICTIVE select policies, so every list
+--    query, RPC and realtime channel that runs as the user drops them.
+--    Moderators can still open hidden content, but the map and list queries
+--    skip it for them as well
+-- 4. Banned users can't post sightings, comments, lost animal posts or reports
+-- =====================================================================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user',
+  ADD COLUMN IF NOT EXISTS banned_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS ban_reason TEXT;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_role_check
+  CHECK (role IN ('user', 'admin'));
+
+ALTER TABLE public.animals
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT;
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT;
+
+ALTER TABLE public.lost_animals
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT;
+
+-- One report per user per item, reporting again updates it
+CREATE TABLE IF NOT EXISTS public.content_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  target_type TEXT NOT NULL CHECK (target_type IN ('animal', 'comment', 'lost_animal')),
+  target_id UUID NOT NULL,
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('spam', 'abuse', 'wrong_location', 'animal_cruelty')),
+  note TEXT CHECK (char_length(note) <= 500),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'actioned', 'dismissed')),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (target_type, target_id, reporter_id)
+);
+
+-- What moderators did, and why
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  moderator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  target_type TEXT NOT NULL,
+  target_id UUID NOT NULL,
+  target_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('hide', 'restore', 'ban', 'dismiss')),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS content_reports_open_idx
+  ON public.content_reports(target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS moderation_actions_target_idx
+  ON public.moderation_actions(target_type, target_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- True when the current user is a moderator
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+-- True when the current user has been banned
+CREATE OR REPLACE FUNCTION public.is_banned()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND banned_at IS NOT NULL
+  );
+$$;
+
+-- Users can update their own profile, but not their role or ban
+-- Requests without a user (dashboard, SQL editor, service role) are trusted
+CREATE OR REPLACE FUNCTION public.protect_profile_moderation_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'user';
+    NEW.banned_at := NULL;
+    NEW.ban_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Roles can only be changed by an administrator';
+  END IF;
+
+  IF (NEW.banned_at IS DISTINCT FROM OLD.banned_at OR NEW.ban_reason IS DISTINCT FROM OLD.ban_reason)
+    AND NOT public.is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can ban users';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_profile_moderation_fields ON public.profiles;
+CREATE TRIGGER on_profile_moderation_fields
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_moderation_fields();
+
+-- RLS Policies
+-- Restrictive, so they apply on top of whatever select/insert policies exist
+DROP POLICY IF EXISTS "Hidden animals are only visible to moderators" ON public.animals;
+CREATE POLICY "Hidden animals are only visible to moderators"
+  ON public.animals AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL OR (SELECT public.is_moderator()));
+
+DROP POLICY IF EXISTS "Hidden comments are only visible to moderators" ON public.comments;
+CREATE POLICY "Hidden comments are only visible to moderators"
+  ON public.comments AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL OR (SELECT public.is_moderator()));
+
+DROP POLICY IF EXISTS "Hidden lost animals are only visible to moderators" ON public.lost_animals;
+CREATE POLICY "Hidden lost animals are only visible to moderators"
+  ON public.lost_animals AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL OR (SELECT public.is_moderator()));
+
+DROP POLICY IF EXISTS "Banned users can't post animals" ON public.animals;
+CREATE POLICY "Banned users can't post animals"
+  ON public.animals AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT (SELECT public.is_banned()));
+
+DROP POLICY IF EXISTS "Banned users can't post comments" ON public.comments;
+CREATE POLICY "Banned users can't post comments"
+  ON public.comments AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT (SELECT public.is_banned()));
+
+DROP POLICY IF EXISTS "Banned users can't post lost animals" ON public.lost_animals;
+CREATE POLICY "Banned users can't post lost animals"
+  ON public.lost_animals AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT (SELECT public.is_banned()));
+
+DROP POLICY IF EXISTS "Users can view their own reports" ON public.content_reports;
+CREATE POLICY "Users can view their own reports"
+  ON public.content_reports FOR SELECT
+  USING (reporter_id = auth.uid() OR (SELECT public.is_moderator()));
+
+DROP POLICY IF EXISTS "Moderators can view moderation actions" ON public.moderation_actions;
+CREATE POLICY "Moderators can view moderation actions"
+  ON public.moderation_actions FOR SELECT
+  USING ((SELECT public.is_moderator()));
+
+-- Lost animals view from 14-add-lost-animal-rematch.sql
+-- Views bypass RLS, so hidden posts are filtered here as well. Recreating it
+-- also picks up the columns added since (location_privacy, hidden_at)
+DROP VIEW IF EXISTS public.lost_animals_with_matches;
+CREATE VIEW public.lost_animals_with_matches AS
+SELECT
+  l.*,
+  COALESCE(m.potential_matches_count, 0)::INTEGER AS potential_matches_count,
+  COALESCE(m.unviewed_matches_count, 0)::INTEGER AS unviewed_matches_count
+FROM public.lost_animals l
+LEFT JOIN (
+  SELECT
+    lost_animal_id,
+    COUNT(*) AS potential_matches_count,
+    COUNT(*) FILTER (WHERE NOT viewed) AS unviewed_matches_count
+  FROM public.lost_animal_matches
+  WHERE NOT dismissed
+  GROUP BY lost_animal_id
+) m ON m.lost_animal_id = l.id
+WHERE l.hidden_at IS NULL OR public.is_moderator();
+
+-- Sightings within a radius from 17-add-location-privacy.sql, skipping hidden
+-- sightings for moderators too so lists look the same for everyone
+DROP FUNCTION IF EXISTS public.find_cats_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER);
+CREATE FUNCTION public.find_cats_within_radius(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION,
+  hours_ago INTEGER DEFAULT 24
+)
+RETURNS SETOF public.animals
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT a.*
+  FROM public.animals a
+  WHERE a.spotted_at >= NOW() - make_interval(hours => hours_ago)
+    AND a.hidden_at IS NULL
+    -- Cheap bounding box first, padded by the largest fuzz radius
+    AND a.latitude BETWEEN lat - (radius_km + 1) / 111.0 AND lat + (radius_km + 1) / 111.0
+    AND a.longitude BETWEEN lng - (radius_km + 1) / (111.0 * cos(radians(lat)))
+      AND lng + (radius_km + 1) / (111.0 * cos(radians(lat)))
+    AND 2 * 6371 * asin(sqrt(
+      power(sin(radians(a.latitude - lat) / 2), 2) +
+      cos(radians(lat)) * cos(radians(a.latitude)) * power(sin(radians(a.longitude - lng) / 2), 2)
+    )) <= radius_km + public.location_fuzz_meters(a.location_privacy) / 1000.0
+  ORDER BY a.spotted_at DESC;
+$$;
+
+-- Map region query from 17-add-location-privacy.sql, skipping hidden sightings
+DROP FUNCTION IF EXISTS public.get_map_region(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER, INTEGER);
+CREATE FUNCTION public.get_map_region(
+  p_min_lat DOUBLE PRECISION,
+  p_min_lng DOUBLE PRECISION,
+  p_max_lat DOUBLE PRECISION,
+  p_max_lng DOUBLE PRECISION,
+  p_animal_type TEXT DEFAULT NULL,
+  p_pin_max_span DOUBLE PRECISION DEFAULT 0.2,
+  p_grid_size INTEGER DEFAULT 8,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  is_cluster BOOLEAN,
+  cluster_id TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  cat_count INTEGER,
+  dog_count INTEGER,
+  id UUID,
+  name TEXT,
+  description TEXT,
+  image_url TEXT,
+  animal_type TEXT,
+  spotted_at TIMESTAMP WITH TIME ZONE,
+  location_privacy TEXT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_cell_lat DOUBLE PRECISION := GREATEST(p_max_lat - p_min_lat, 0.0001) / p_grid_size;
+  v_cell_lng DOUBLE PRECISION := GREATEST(p_max_lng - p_min_lng, 0.0001) / p_grid_size;
+BEGIN
+  IF p_max_lat - p_min_lat <= p_pin_max_span THEN
+    RETURN QUERY
+    SELECT
+      false,
+      NULL::TEXT,
+      v.latitude,
+      v.longitude,
+      CASE WHEN v.animal_type = 'dog' THEN 0 ELSE 1 END,
+      CASE WHEN v.animal_type = 'dog' THEN 1 ELSE 0 END,
+      v.id,
+      v.name,
+      v.description,
+      v.image_url,
+      v.animal_type,
+      v.spotted_at,
+      v.location_privacy
+    FROM (
+      SELECT DISTINCT ON (COALESCE(a.individual_id, a.id)) a.*
+      FROM public.animals a
+      WHERE a.latitude BETWEEN p_min_lat AND p_max_lat
+        AND a.longitude BETWEEN p_min_lng AND p_max_lng
+        AND (a.is_rescued IS NULL OR a.is_rescued = false)
+        AND a.hidden_at IS NULL
+        AND (p_animal_type IS NULL OR a.animal_type = p_animal_type)
+      ORDER BY COALESCE(a.individual_id, a.id), a.spotted_at DESC
+    ) v
+    ORDER BY v.spotted_at DESC
+    LIMIT p_limit;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH visible AS (
+    SELECT DISTINCT ON (COALESCE(a.individual_id, a.id)) a.*
+    FROM public.animals a
+    WHERE a.latitude BETWEEN p_min_lat AND p_max_lat
+      AND a.longitude BETWEEN p_min_lng AND p_max_lng
+      AND (a.is_rescued IS NULL OR a.is_rescued = false)
+      AND a.hidden_at IS NULL
+      AND (p_animal_type IS NULL OR a.animal_type = p_animal_type)
+    ORDER BY COALESCE(a.individual_id, a.id), a.spotted_at DESC
+  ),
+  cells AS (
+    SELECT
+      floor((v.latitude - p_min_lat) / v_cell_lat)::INTEGER AS cell_y,
+      floor((v.longitude - p_min_lng) / v_cell_lng)::INTEGER AS cell_x,
+      v.*
+    FROM visible v
+  ),
+  grouped AS (
+    SELECT
+      c.cell_y,
+      c.cell_x,
+      AVG(c.latitude) AS latitude,
+      AVG(c.longitude) AS longitude,
+      COUNT(*) FILTER (WHERE c.animal_type IS DISTINCT FROM 'dog')::INTEGER AS cat_count,
+      COUNT(*) FILTER (WHERE c.animal_type = 'dog')::INTEGER AS dog_count,
+      -- The single animal of one-animal cells
+      (ARRAY_AGG(c.id))[1] AS only_id
+    FROM cells c
+    GROUP BY c.cell_y, c.cell_x
+  )
+  SELECT
+    (g.cat_count + g.dog_count) > 1,
+    CASE WHEN (g.cat_count + g.dog_count) > 1 THEN g.cell_y || ':' || g.cell_x END,
+    CASE WHEN (g.cat_count + g.dog_count) > 1 THEN g.latitude ELSE a.latitude END,
+    CASE WHEN (g.cat_count + g.dog_count) > 1 THEN g.longitude ELSE a.longitude END,
+    g.cat_count,
+    g.dog_count,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.id END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.name END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.description END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.image_url END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.animal_type END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.spotted_at END,
+    CASE WHEN (g.cat_count + g.dog_count) = 1 THEN a.location_privacy END
+  FROM grouped g
+  JOIN public.animals a ON a.id = g.only_id
+  LIMIT p_limit;
+END;
+$$;
+
+-- Report a sighting, comment or lost animal post
+CREATE OR REPLACE FUNCTION public.report_content(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_category TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.content_reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_report public.content_reports;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to report content';
+  END IF;
+
+  IF public.is_banned() THEN
+    RAISE EXCEPTION 'Your account can''t send reports';
+  END IF;
+
+  IF NOT CASE p_target_type
+    WHEN 'animal' THEN EXISTS (SELECT 1 FROM public.animals WHERE id = p_target_id)
+    WHEN 'comment' THEN EXISTS (SELECT 1 FROM public.comments WHERE id = p_target_id)
+    WHEN 'lost_animal' THEN EXISTS (SELECT 1 FROM public.lost_animals WHERE id = p_target_id)
+    ELSE false
+  END THEN
+    RAISE EXCEPTION 'Nothing to report';
+  END IF;
+
+  INSERT INTO public.content_reports (target_type, target_id, reporter_id, category, note)
+  VALUES (p_target_type, p_target_id, auth.uid(), p_category, NULLIF(trim(p_note), ''))
+  ON CONFLICT (target_type, target_id, reporter_id) DO UPDATE
+    SET category = EXCLUDED.category,
+        note = EXCLUDED.note,
+        status = 'open',
+        resolved_by = NULL,
+        resolved_at = NULL,
+        created_at = NOW()
+  RETURNING * INTO v_report;
+
+  RETURN v_report;
+END;
+$$;
+
+-- Open reports grouped by item, animal cruelty first, then the most reported
+CREATE OR REPLACE FUNCTION public.get_moderation_queue(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  target_type TEXT,
+  target_id UUID,
+  report_count INTEGER,
+  categories TEXT[],
+  notes TEXT[],
+  first_reported_at TIMESTAMP WITH TIME ZONE,
+  author_id UUID,
+  author_name TEXT,
+  author_banned BOOLEAN,
+  preview_text TEXT,
+  preview_image_url TEXT,
+  hidden_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can review reports';
+  END IF;
+
+  RETURN QUERY
+  WITH open_reports AS (
+    SELECT
+      r.target_type,
+      r.target_id,
+      COUNT(*)::INTEGER AS report_count,
+      ARRAY_AGG(DISTINCT r.category) AS categories,
+      ARRAY_REMOVE(ARRAY_AGG(r.note ORDER BY r.created_at DESC), NULL) AS notes,
+      MIN(r.created_at) AS first_reported_at
+    FROM public.content_reports r
+    WHERE r.status = 'open'
+    GROUP BY r.target_type, r.target_id
+  ),
+  targets AS (
+    SELECT 'animal'::TEXT AS target_type, a.id AS target_id, a.auth_user_id AS author_id,
+      COALESCE(a.name, a.description) AS preview_text, a.image_url AS preview_image_url, a.hidden_at
+    FROM public.animals a
+    WHERE a.id IN (SELECT o.target_id FROM open_reports o WHERE o.target_type = 'animal')
+    UNION ALL
+    SELECT 'comment'::TEXT, c.id, c.auth_user_id, c.comment_text, NULL::TEXT, c.hidden_at
+    FROM public.comments c
+    WHERE c.id IN (SELECT o.target_id FROM open_reports o WHERE o.target_type = 'comment')
+    UNION ALL
+    SELECT 'lost_animal'::TEXT, l.id, l.user_id, l.name || ': ' || l.description, l.photo_url_1, l.hidden_at
+    FROM public.lost_animals l
+    WHERE l.id IN (SELECT o.target_id FROM open_reports o WHERE o.target_type = 'lost_animal')
+  )
+  SELECT
+    o.target_type,
+    o.target_id,
+    o.report_count,
+    o.categories,
+    o.notes,
+    o.first_reported_at,
+    t.author_id,
+    p.display_name,
+    COALESCE(p.banned_at IS NOT NULL, false),
+    t.preview_text,
+    t.preview_image_url,
+    t.hidden_at
+  FROM open_reports o
+  LEFT JOIN targets t ON t.target_type = o.target_type AND t.target_id = o.target_id
+  LEFT JOIN public.profiles p ON p.id = t.author_id
+  ORDER BY ('animal_cruelty' = ANY(o.categories)) DESC, o.report_count DESC, o.first_reported_at
+  LIMIT p_limit;
+END;
+$$;
+
+-- Moderator decision on a reported item
+-- 'hide' and 'restore' toggle the item, 'ban' hides it and bans its author,
+-- 'dismiss' leaves it alone. Every action closes the item's open reports
+CREATE OR REPLACE FUNCTION public.moderate_content(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_action TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_author UUID;
+  v_hide BOOLEAN := p_action IN ('hide', 'ban');
+  v_note TEXT := NULLIF(trim(p_note), '');
+BEGIN
+  IF NOT public.is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can moderate content';
+  END IF;
+
+  IF p_action NOT IN ('hide', 'restore', 'ban', 'dismiss') THEN
+    RAISE EXCEPTION 'Invalid moderation action: %', p_action;
+  END IF;
+
+  IF p_target_type = 'animal' THEN
+    SELECT auth_user_id INTO v_author FROM public.animals WHERE id = p_target_id;
+    IF p_action <> 'dismiss' THEN
+      UPDATE public.animals
+      SET hidden_at = CASE WHEN v_hide THEN NOW() END,
+          hidden_by = CASE WHEN v_hide THEN auth.uid() END,
+          hidden_reason = CASE WHEN v_hide THEN v_note END
+      WHERE id = p_target_id;
+    END IF;
+  ELSIF p_target_type = 'comment' THEN
+    SELECT auth_user_id INTO v_author FROM public.comments WHERE id = p_target_id;
+    IF p_action <> 'dismiss' THEN
+      UPDATE public.comments
+      SET hidden_at = CASE WHEN v_hide THEN NOW() END,
+          hidden_by = CASE WHEN v_hide THEN auth.uid() END,
+          hidden_reason = CASE WHEN v_hide THEN v_note END
+      WHERE id = p_target_id;
+    END IF;
+  ELSIF p_target_type = 'lost_animal' THEN
+    SELECT user_id INTO v_author FROM public.lost_animals WHERE id = p_target_id;
+    IF p_action <> 'dismiss' THEN
+      UPDATE public.lost_animals
+      SET hidden_at = CASE WHEN v_hide THEN NOW() END,
+          hidden_by = CASE WHEN v_hide THEN auth.uid() END,
+          hidden_reason = CASE WHEN v_hide THEN v_note END
+      WHERE id = p_target_id;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Invalid target type: %', p_target_type;
+  END IF;
+
+  IF p_action = 'ban' AND v_author IS NOT NULL THEN
+    UPDATE public.profiles
+    SET banned_at = COALESCE(banned_at, NOW()),
+        ban_reason = COALESCE(v_note, ban_reason)
+    WHERE id = v_author AND role <> 'admin';
+  END IF;
+
+  UPDATE public.content_reports
+  SET status = CASE WHEN p_action IN ('hide', 'ban') THEN 'actioned' ELSE 'dismissed' END,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE target_type = p_target_type
+    AND target_id = p_target_id
+    AND status = 'open';
+
+  INSERT INTO public.moderation_actions (moderator_id, target_type, target_id, target_user_id, action, note)
+  VALUES (auth.uid(), p_target_type, p_target_id, v_author, p_action, v_note);
+END;
+$$;
+
+-- Grant permissions
+GRANT SELECT ON public.content_reports TO authenticated;
+GRANT SELECT ON public.moderation_actions TO authenticated;
+GRANT SELECT ON public.lost_animals_with_matches TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_moderator() TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.is_banned() TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.report_content(TEXT, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_moderation_queue(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_content(TEXT, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.find_cats_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.get_map_region(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER, INTEGER) TO authenticated, anon;
+
+-- Comments
+COMMENT ON COLUMN public.profiles.role IS 'user or admin; admins are moderators and get the admin rate-limit tier';
+COMMENT ON COLUMN public.profiles.banned_at IS 'Set by moderators; banned users can''t post or report';
+COMMENT ON COLUMN public.animals.hidden_at IS 'Hidden by a moderator, only moderators can still see it';
+COMMENT ON COLUMN public.comments.hidden_at IS 'Hidden by a moderator, only moderators can still see it';
+COMMENT ON COLUMN public.lost_animals.hidden_at IS 'Hidden by a moderator, only moderators can still see it';
+COMMENT ON TABLE public.content_reports IS 'User reports of sightings, comments and lost animal posts';
+COMMENT ON TABLE public.moderation_actions IS 'Audit log of moderator decisions';
+COMMENT ON FUNCTION public.get_moderation_queue(INTEGER) IS 'Open reports grouped by item for the moderator queue';
+COMMENT ON FUNCTION public.moderate_content(TEXT, UUID, TEXT, TEXT) IS 'Hide, restore, ban the author of, or dismiss reports on an item';
+COMMENT ON VIEW public.lost_animals_with_matches IS 'Lost animals with counts of their non-dismissed and unviewed matches';
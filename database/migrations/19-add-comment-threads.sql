@@ -0,0 +1,251 @@
+-- =====================================================================
+-- Threaded Comment Replies, @Mentions and Edit History
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. Replies point at a parent comment on the same animal. Threads are one
+--    level deep: replying to a reply attaches to the thread's top comment.
+--    Deleting a comment deletes its replies
+-- 2. @handles in a comment are resolved to the people taking part in the
+--    conversation (the poster and anyone who commented on the animal). A
+--    handle is a display name without spaces or punctuation, e.g. @JaneDoe
+-- 3. Each new mention pushes the mentioned user through the
+--    notify-comment-mention edge function, using the same pg_net settings
+--    as 11-add-watch-zones.sql. Edits only notify newly mentioned users
+-- 4. Editing a comment keeps the earlier text in comment_revisions and sets
+--    comments.edited_at, which the app shows as "edited"
+-- =====================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Earlier versions of edited comments, newest last
+CREATE TABLE IF NOT EXISTS public.comment_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  comment_text TEXT NOT NULL,
+  -- When this text was replaced
+  replaced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Users mentioned in a comment, one row per user
+CREATE TABLE IF NOT EXISTS public.comment_mentions (
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  mentioned_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (comment_id, mentioned_user_id)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS comments_parent_id_idx
+  ON public.comments(parent_id)
+  WHERE parent_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS comment_revisions_comment_id_idx
+  ON public.comment_revisions(comment_id, replaced_at);
+
+CREATE INDEX IF NOT EXISTS comment_mentions_user_idx
+  ON public.comment_mentions(mentioned_user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.comment_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comment_mentions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Revisions and mentions are as visible as their comment (hidden ones drop out)
+-- and only written by the triggers below
+DROP POLICY IF EXISTS "Revisions are viewable with their comment" ON public.comment_revisions;
+CREATE POLICY "Revisions are viewable with their comment"
+  ON public.comment_revisions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.comments c WHERE c.id = comment_id));
+
+DROP POLICY IF EXISTS "Mentions are viewable with their comment" ON public.comment_mentions;
+CREATE POLICY "Mentions are viewable with their comment"
+  ON public.comment_mentions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.comments c WHERE c.id = comment_id));
+
+DROP POLICY IF EXISTS "Users can update their own comments" ON public.comments;
+CREATE POLICY "Users can update their own comments"
+  ON public.comments FOR UPDATE
+  USING (auth.uid() = auth_user_id)
+  WITH CHECK (auth.uid() = auth_user_id);
+
+DROP POLICY IF EXISTS "Banned users can't edit comments" ON public.comments;
+CREATE POLICY "Banned users can't edit comments"
+  ON public.comments AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (NOT (SELECT public.is_banned()));
+
+-- The @handle for a display name: letters, digits and underscores only
+CREATE OR REPLACE FUNCTION public.mention_handle(p_display_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(COALESCE(p_display_name, ''), '[^[:alnum:]_]', '', 'g'));
+$$;
+
+-- Attach replies to the top comment of their thread, on the same animal
+CREATE OR REPLACE FUNCTION public.handle_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_parent public.comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM public.comments WHERE id = NEW.parent_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The comment you replied to no longer exists';
+  END IF;
+
+  IF v_parent.animal_id <> NEW.animal_id THEN
+    RAISE EXCEPTION 'Replies must be on the same animal as their comment';
+  END IF;
+
+  NEW.parent_id := COALESCE(v_parent.parent_id, v_parent.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_thread ON public.comments;
+CREATE TRIGGER on_comment_thread
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_comment_thread();
+
+-- Keep the replaced text when a comment is edited
+-- SECURITY DEFINER to write comment_revisions, which clients can't insert into
+CREATE OR REPLACE FUNCTION public.handle_comment_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Only the text is editable, a comment can't move or change hands
+  NEW.animal_id := OLD.animal_id;
+  NEW.auth_user_id := OLD.auth_user_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.comment_text IS DISTINCT FROM OLD.comment_text THEN
+    INSERT INTO public.comment_revisions (comment_id, comment_text)
+    VALUES (OLD.id, OLD.comment_text);
+
+    NEW.edited_at := NOW();
+    NEW.updated_at := NOW();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_edit ON public.comments;
+CREATE TRIGGER on_comment_edit
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_comment_edit();
+
+-- Record who a comment mentions, among the people in the conversation
+-- Only new rows fire the notify trigger, so edits don't notify anyone twice
+CREATE OR REPLACE FUNCTION public.handle_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.comment_text !~ '@[[:alnum:]_]' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.comment_mentions (comment_id, mentioned_user_id)
+  SELECT DISTINCT NEW.id, p.id
+  FROM (
+    SELECT lower(m[1]) AS handle
+    FROM regexp_matches(NEW.comment_text, '@([[:alnum:]_]+)', 'g') AS m
+  ) h
+  JOIN public.profiles p ON public.mention_handle(p.display_name) = h.handle
+  WHERE p.id <> NEW.auth_user_id
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.animals a
+        WHERE a.id = NEW.animal_id AND a.auth_user_id = p.id
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.comments c
+        WHERE c.animal_id = NEW.animal_id AND c.auth_user_id = p.id
+      )
+    )
+  ON CONFLICT (comment_id, mentioned_user_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_mentions ON public.comments;
+CREATE TRIGGER on_comment_mentions
+  AFTER INSERT OR UPDATE OF comment_text ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_comment_mentions();
+
+-- Push the mentioned user
+CREATE OR REPLACE FUNCTION public.handle_comment_mention_notify()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_url TEXT := current_setting('app.settings.supabase_url', true);
+  v_key TEXT := current_setting('app.settings.service_role_key', true);
+BEGIN
+  IF v_url IS NULL OR v_url = '' OR v_key IS NULL OR v_key = '' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_url || '/functions/v1/notify-comment-mention',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body := jsonb_build_object(
+      'commentId', NEW.comment_id,
+      'mentionedUserId', NEW.mentioned_user_id
+    )
+  );
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Never block a comment because the push failed
+  RAISE WARNING 'notify-comment-mention call failed: %', SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_mention_notify ON public.comment_mentions;
+CREATE TRIGGER on_comment_mention_notify
+  AFTER INSERT ON public.comment_mentions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_comment_mention_notify();
+
+-- Grant permissions
+GRANT SELECT ON public.comment_revisions TO anon, authenticated;
+GRANT SELECT ON public.comment_mentions TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mention_handle(TEXT) TO anon, authenticated;
+
+-- Comments
+COMMENT ON COLUMN public.comments.parent_id IS 'Top comment of the thread this reply belongs to, null for top comments';
+COMMENT ON COLUMN public.comments.edited_at IS 'Last time the text was edited, null if never';
+COMMENT ON TABLE public.comment_revisions IS 'Earlier text of edited comments';
+COMMENT ON TABLE public.comment_mentions IS 'Users @mentioned in a comment; inserts push the mentioned user';
+COMMENT ON FUNCTION public.mention_handle(TEXT) IS 'Lowercase @handle for a display name, matching the app''s toMentionHandle';
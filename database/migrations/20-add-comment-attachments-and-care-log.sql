@@ -0,0 +1,139 @@
+-- =====================================================================
+-- Comment Photo Attachments and Status-Update Comments (Care Log)
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. Comment photos are uploaded to the same cat-images storage bucket as
+--    sightings and stored as public URLs in comments.image_urls (up to 4)
+-- 2. A status update is a comment with comment_type 'status_update' and a
+--    care_action: fed, vet_visit, trapped or released. It may carry the
+--    health status the volunteer saw. Together they make the animal's care log
+-- 3. Status updates change the animal as well, for anyone allowed to comment:
+--      fed       -> health_status, if given
+--      vet_visit -> health_status, if given, and status 'helped'
+--      trapped   -> status 'helped'
+--      released  -> status 'active', back outdoors
+--    A rescued animal keeps its 'rescued' status, only its health changes
+-- 4. Comments with photos or a status update may have empty text
+-- =====================================================================
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS image_urls TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS comment_type TEXT NOT NULL DEFAULT 'comment',
+  ADD COLUMN IF NOT EXISTS care_action TEXT,
+  ADD COLUMN IF NOT EXISTS health_status TEXT;
+
+ALTER TABLE public.comments DROP CONSTRAINT IF EXISTS comments_image_urls_check;
+ALTER TABLE public.comments ADD CONSTRAINT comments_image_urls_check
+  CHECK (cardinality(image_urls) <= 4);
+
+ALTER TABLE public.comments DROP CONSTRAINT IF EXISTS comments_comment_type_check;
+ALTER TABLE public.comments ADD CONSTRAINT comments_comment_type_check
+  CHECK (comment_type IN ('comment', 'status_update'));
+
+ALTER TABLE public.comments DROP CONSTRAINT IF EXISTS comments_care_action_check;
+ALTER TABLE public.comments ADD CONSTRAINT comments_care_action_check
+  CHECK (
+    (comment_type = 'comment' AND care_action IS NULL AND health_status IS NULL)
+    OR (
+      comment_type = 'status_update'
+      AND care_action IN ('fed', 'vet_visit', 'trapped', 'released')
+    )
+  );
+
+ALTER TABLE public.comments DROP CONSTRAINT IF EXISTS comments_health_status_check;
+ALTER TABLE public.comments ADD CONSTRAINT comments_health_status_check
+  CHECK (health_status IS NULL OR health_status IN ('healthy', 'injured', 'sick'));
+
+-- Plain comments still need something to say
+ALTER TABLE public.comments DROP CONSTRAINT IF EXISTS comments_content_check;
+ALTER TABLE public.comments ADD CONSTRAINT comments_content_check
+  CHECK (
+    comment_type = 'status_update'
+    OR char_length(btrim(comment_text)) > 0
+    OR cardinality(image_urls) > 0
+  );
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS comments_care_log_idx
+  ON public.comments(animal_id, created_at DESC)
+  WHERE comment_type = 'status_update';
+
+-- Apply a status update to its animal
+-- SECURITY DEFINER because volunteers can't otherwise update someone else's sighting
+CREATE OR REPLACE FUNCTION public.handle_comment_status_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.comment_type <> 'status_update' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.animals
+  SET
+    health_status = CASE
+      WHEN NEW.care_action IN ('fed', 'vet_visit') AND NEW.health_status IS NOT NULL
+        THEN NEW.health_status
+      ELSE health_status
+    END,
+    -- A rescued animal stays rescued, e.g. one reunited with its owner, so
+    -- status and is_rescued keep agreeing
+    status = CASE
+      WHEN status = 'rescued' OR is_rescued IS TRUE THEN status
+      WHEN NEW.care_action IN ('vet_visit', 'trapped') THEN 'helped'
+      WHEN NEW.care_action = 'released' THEN 'active'
+      ELSE status
+    END
+  WHERE id = NEW.animal_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_status_update ON public.comments;
+CREATE TRIGGER on_comment_status_update
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_comment_status_update();
+
+-- Edit trigger from 19-add-comment-threads.sql, now also keeping the
+-- attachments and status update as posted, since the animal was already changed
+CREATE OR REPLACE FUNCTION public.handle_comment_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Only the text is editable, a comment can't move or change hands
+  NEW.animal_id := OLD.animal_id;
+  NEW.auth_user_id := OLD.auth_user_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+  NEW.image_urls := OLD.image_urls;
+  NEW.comment_type := OLD.comment_type;
+  NEW.care_action := OLD.care_action;
+  NEW.health_status := OLD.health_status;
+
+  IF NEW.comment_text IS DISTINCT FROM OLD.comment_text THEN
+    INSERT INTO public.comment_revisions (comment_id, comment_text)
+    VALUES (OLD.id, OLD.comment_text);
+
+    NEW.edited_at := NOW();
+    NEW.updated_at := NOW();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Comments
+COMMENT ON COLUMN public.comments.image_urls IS 'Public cat-images URLs of photos attached to the comment';
+COMMENT ON COLUMN public.comments.comment_type IS 'comment, or status_update for care log entries';
+COMMENT ON COLUMN public.comments.care_action IS 'fed, vet_visit, trapped or released, for status updates';
+COMMENT ON COLUMN public.comments.health_status IS 'Health the volunteer saw with a status update, copied to the animal';
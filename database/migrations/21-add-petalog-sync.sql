@@ -0,0 +1,186 @@
+-- =====================================================================
+-- Pet-a-log Cloud Sync and Multi-Device Backup
+-- =====================================================================
+
+-- =====================================================================
+-- IMPORTANT NOTES:
+-- =====================================================================
+-- 1. Pet-a-log pages and stickers are copied from each phone's local
+--    collection, keeping the app's own ids (page_..., sticker_...)
+-- 2. Deleted pages and stickers stay as rows with deleted_at set, so other
+--    devices learn about the deletion instead of uploading the item again
+-- 3. Conflicts are resolved per page and per sticker by updated_at: a change
+--    is only applied if it's newer than the stored row (sync_petalog below)
+-- 4. Sticker images are uploaded to the private petalog-stickers bucket
+--    under <user id>/<sticker id>.<ext>, only readable by their owner
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS public.petalog_pages (
+  auth_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  background_color TEXT NOT NULL DEFAULT '#FFFFFF',
+  -- Order of the page in the collection
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (auth_user_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS public.petalog_stickers (
+  auth_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  page_id TEXT NOT NULL,
+  -- petalog-stickers storage path, or image_url for images already online
+  image_path TEXT,
+  image_url TEXT,
+  name TEXT NOT NULL DEFAULT '',
+  position_x DOUBLE PRECISION NOT NULL DEFAULT 0,
+  position_y DOUBLE PRECISION NOT NULL DEFAULT 0,
+  scale DOUBLE PRECISION NOT NULL DEFAULT 1,
+  rotation DOUBLE PRECISION NOT NULL DEFAULT 0,
+  animal_type TEXT CHECK (animal_type IN ('cat', 'dog', 'unknown')),
+  captured_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (auth_user_id, id),
+  FOREIGN KEY (auth_user_id, page_id)
+    REFERENCES public.petalog_pages(auth_user_id, id) ON DELETE CASCADE
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS petalog_stickers_page_idx
+  ON public.petalog_stickers(auth_user_id, page_id);
+
+-- Enable RLS
+ALTER TABLE public.petalog_pages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.petalog_stickers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- A collection is private to its owner
+DROP POLICY IF EXISTS "Users can manage their own Pet-a-log pages" ON public.petalog_pages;
+CREATE POLICY "Users can manage their own Pet-a-log pages"
+  ON public.petalog_pages FOR ALL
+  USING (auth.uid() = auth_user_id)
+  WITH CHECK (auth.uid() = auth_user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own Pet-a-log stickers" ON public.petalog_stickers;
+CREATE POLICY "Users can manage their own Pet-a-log stickers"
+  ON public.petalog_stickers FOR ALL
+  USING (auth.uid() = auth_user_id)
+  WITH CHECK (auth.uid() = auth_user_id);
+
+-- Storage bucket for sticker images, private unlike cat-images
+INSERT INTO storage.buckets (id, name, public)
+SELECT 'petalog-stickers', 'petalog-stickers', false
+WHERE NOT EXISTS (SELECT 1 FROM storage.buckets WHERE name = 'petalog-stickers');
+
+DROP POLICY IF EXISTS "Users can read their own Pet-a-log images" ON storage.objects;
+CREATE POLICY "Users can read their own Pet-a-log images" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'petalog-stickers' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can upload their own Pet-a-log images" ON storage.objects;
+CREATE POLICY "Users can upload their own Pet-a-log images" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'petalog-stickers' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can update their own Pet-a-log images" ON storage.objects;
+CREATE POLICY "Users can update their own Pet-a-log images" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (bucket_id = 'petalog-stickers' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete their own Pet-a-log images" ON storage.objects;
+CREATE POLICY "Users can delete their own Pet-a-log images" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'petalog-stickers' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Apply a batch of page and sticker changes from one device
+-- Each row only replaces the stored one if its updated_at is newer, so
+-- the latest change to a sticker wins whichever device sends it last
+-- Returns how many rows were written
+CREATE OR REPLACE FUNCTION public.sync_petalog(
+  p_pages JSONB,
+  p_stickers JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_pages INTEGER;
+  v_stickers INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.petalog_pages AS p (
+    auth_user_id, id, name, background_color, position, created_at, updated_at, deleted_at
+  )
+  SELECT
+    v_user_id, r.id, r.name, COALESCE(r.background_color, '#FFFFFF'), COALESCE(r.position, 0),
+    COALESCE(r.created_at, r.updated_at), r.updated_at, r.deleted_at
+  FROM jsonb_to_recordset(COALESCE(p_pages, '[]'::jsonb)) AS r(
+    id TEXT, name TEXT, background_color TEXT, position INTEGER,
+    created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ, deleted_at TIMESTAMPTZ
+  )
+  -- Pages created and deleted between syncs never need a row
+  WHERE r.deleted_at IS NULL
+    OR EXISTS (SELECT 1 FROM public.petalog_pages e WHERE e.auth_user_id = v_user_id AND e.id = r.id)
+  ON CONFLICT (auth_user_id, id) DO UPDATE SET
+    name = EXCLUDED.name,
+    background_color = EXCLUDED.background_color,
+    position = EXCLUDED.position,
+    updated_at = EXCLUDED.updated_at,
+    deleted_at = EXCLUDED.deleted_at
+  WHERE p.updated_at < EXCLUDED.updated_at;
+  GET DIAGNOSTICS v_pages = ROW_COUNT;
+
+  INSERT INTO public.petalog_stickers AS s (
+    auth_user_id, id, page_id, image_path, image_url, name, position_x, position_y,
+    scale, rotation, animal_type, captured_at, updated_at, deleted_at
+  )
+  SELECT
+    v_user_id, r.id, r.page_id, r.image_path, r.image_url, COALESCE(r.name, ''),
+    COALESCE(r.position_x, 0), COALESCE(r.position_y, 0), COALESCE(r.scale, 1), COALESCE(r.rotation, 0),
+    r.animal_type, COALESCE(r.captured_at, r.updated_at), r.updated_at, r.deleted_at
+  FROM jsonb_to_recordset(COALESCE(p_stickers, '[]'::jsonb)) AS r(
+    id TEXT, page_id TEXT, image_path TEXT, image_url TEXT, name TEXT,
+    position_x DOUBLE PRECISION, position_y DOUBLE PRECISION, scale DOUBLE PRECISION,
+    rotation DOUBLE PRECISION, animal_type TEXT, captured_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ, deleted_at TIMESTAMPTZ
+  )
+  -- Deletions only carry the id, so they only apply to existing rows
+  WHERE r.deleted_at IS NULL
+    OR EXISTS (SELECT 1 FROM public.petalog_stickers e WHERE e.auth_user_id = v_user_id AND e.id = r.id)
+  ON CONFLICT (auth_user_id, id) DO UPDATE SET
+    page_id = CASE WHEN EXCLUDED.deleted_at IS NULL THEN EXCLUDED.page_id ELSE s.page_id END,
+    -- A deletion carries no image, keep the uploaded one
+    image_path = COALESCE(EXCLUDED.image_path, s.image_path),
+    image_url = COALESCE(EXCLUDED.image_url, s.image_url),
+    name = EXCLUDED.name,
+    position_x = EXCLUDED.position_x,
+    position_y = EXCLUDED.position_y,
+    scale = EXCLUDED.scale,
+    rotation = EXCLUDED.rotation,
+    animal_type = EXCLUDED.animal_type,
+    updated_at = EXCLUDED.updated_at,
+    deleted_at = EXCLUDED.deleted_at
+  WHERE s.updated_at < EXCLUDED.updated_at;
+  GET DIAGNOSTICS v_stickers = ROW_COUNT;
+
+  RETURN v_pages + v_stickers;
+END;
+$$;
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.petalog_pages TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.petalog_stickers TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_petalog(JSONB, JSONB) TO authenticated;
+
+-- Comments
+COMMENT ON TABLE public.petalog_pages IS 'Synced Pet-a-log collection pages, soft-deleted with deleted_at';
+COMMENT ON TABLE public.petalog_stickers IS 'Synced Pet-a-log stickers, soft-deleted with deleted_at';
+COMMENT ON FUNCTION public.sync_petalog(JSONB, JSONB) IS 'Upsert Pet-a-log pages and stickers, keeping whichever version has the newer updated_at';
@@ -0,0 +1,26 @@
+import { formatCoat, getImpliedColors, parseCoat } from '../coatColors'
+
+describe('parseCoat', () => {
+  it('adds the colors a pattern implies', () => {
+    expect(parseCoat('tux')).toEqual({ colors: ['black', 'white'], patterns: ['tuxedo'] })
+    expect(parseCoat('Black Tuxedo')).toEqual({ colors: ['black', 'white'], patterns: ['tuxedo'] })
+  })
+
+  it('keeps only the named colors when implied colors are off', () => {
+    expect(parseCoat('Black Tuxedo', { impliedColors: false })).toEqual({ colors: ['black'], patterns: ['tuxedo'] })
+    expect(parseCoat('Calico', { impliedColors: false })).toEqual({ colors: [], patterns: ['calico'] })
+  })
+
+  it('round-trips a formatted coat with implied colors off', () => {
+    const coat = { colors: ['orange' as const], patterns: ['calico' as const] }
+    expect(formatCoat(coat)).toBe('Orange Calico')
+    expect(parseCoat(formatCoat(coat), { impliedColors: false })).toEqual(coat)
+  })
+})
+
+describe('getImpliedColors', () => {
+  it('lists the colors of multi-color patterns only', () => {
+    expect(getImpliedColors('calico')).toEqual(['white', 'orange', 'black'])
+    expect(getImpliedColors('tabby')).toEqual([])
+  })
+})
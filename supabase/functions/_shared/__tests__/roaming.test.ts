@@ -0,0 +1,123 @@
+import {
+  DEFAULT_SEARCH_RANGE,
+  ROAMING_MODELS,
+  scoreProximity,
+  weightConfidence,
+} from '../roaming'
+
+// Same value as MATCH_THRESHOLD in match-lost-animals
+const MATCH_THRESHOLD = 80
+
+const LAST_SEEN = { latitude: 51.5, longitude: -0.12 }
+const LAST_SEEN_DATE = '2026-01-01T12:00:00Z'
+
+// A point roughly km kilometers north of the last seen location
+const north = (km: number) => ({ latitude: LAST_SEEN.latitude + km / 111.2, longitude: LAST_SEEN.longitude })
+const daysLater = (days: number) =>
+  new Date(new Date(LAST_SEEN_DATE).getTime() + days * 24 * 60 * 60 * 1000).toISOString()
+
+const score = (animalType: string, km: number, days: number, uncertaintyKm = 0) =>
+  scoreProximity(animalType, LAST_SEEN, LAST_SEEN_DATE, north(km), daysLater(days), DEFAULT_SEARCH_RANGE, uncertaintyKm)
+
+describe('scoreProximity', () => {
+  it('gives full weight to a sighting where the animal was last seen', () => {
+    const proximity = score('cat', 0, 0)!
+    expect(proximity.distanceFactor).toBe(1)
+    expect(proximity.timeFactor).toBe(1)
+    expect(proximity.score).toBe(1)
+  })
+
+  it.each(['cat', 'dog'])('never discounts a %s sighting in range for its age alone', (animalType) => {
+    for (const days of [7, 15, 30, 35, 75, 120, 365]) {
+      const proximity = score(animalType, 0, days)!
+      expect(proximity.timeFactor).toBeLessThan(1)
+      expect(proximity.score).toBe(1)
+    }
+  })
+
+  it('grows the expected range with time up to the species maximum', () => {
+    const early = score('dog', 0, 1)!
+    const later = score('dog', 0, 30)!
+    expect(later.expectedRadiusKm).toBeGreaterThan(early.expectedRadiusKm)
+    expect(score('dog', 0, 10000)!.expectedRadiusKm).toBe(ROAMING_MODELS.dog.maxRadiusKm)
+  })
+
+  it('discounts sightings beyond the expected range, more so as time passes', () => {
+    const fresh = score('cat', 3, 1)!
+    expect(fresh.distanceFactor).toBeLessThan(1)
+    expect(fresh.score).toBeCloseTo(Math.pow(fresh.distanceFactor, 1 / fresh.timeFactor))
+
+    // Further away scores lower
+    expect(score('cat', 5, 1)!.score).toBeLessThan(fresh.score)
+
+    // Same distance outside the range weighs more heavily once the time factor drops
+    const outside = score('dog', 20, 2)!
+    const sharpened = Math.pow(outside.distanceFactor, 1 / 0.5)
+    expect(outside.score).toBeGreaterThan(sharpened)
+  })
+
+  it('rules out sightings beyond the species maximum or before the animal went missing', () => {
+    expect(score('cat', ROAMING_MODELS.cat.maxRadiusKm + 1, 5)).toBeNull()
+    expect(score('dog', 0, -3)).toBeNull()
+    // Hand-entered dates get a day of slack
+    expect(score('dog', 0, -0.5)).not.toBeNull()
+  })
+
+  it('scores fuzzed posts as if they were closer', () => {
+    const exact = score('cat', 2, 1)!
+    const fuzzed = score('cat', 2, 1, 1)!
+    expect(fuzzed.distanceKm).toBeCloseTo(exact.distanceKm!)
+    expect(fuzzed.score).toBeGreaterThan(exact.score)
+  })
+
+  it('does not penalize unknown coordinates', () => {
+    const proximity = scoreProximity('dog', null, LAST_SEEN_DATE, null, daysLater(60))!
+    expect(proximity.distanceKm).toBeNull()
+    expect(proximity.score).toBe(1)
+  })
+
+  it('widens the maximum radius with the search range', () => {
+    const km = ROAMING_MODELS.cat.maxRadiusKm + 2
+    expect(score('cat', km, 5)).toBeNull()
+    expect(
+      scoreProximity('cat', LAST_SEEN, LAST_SEEN_DATE, north(km), daysLater(5), {
+        radiusFactor: 1.5,
+        dateToleranceDays: 1,
+      })
+    ).not.toBeNull()
+  })
+})
+
+describe('weightConfidence', () => {
+  it('keeps the vision confidence for a sighting in range', () => {
+    expect(weightConfidence(90, score('dog', 0, 0)!)).toBe(90)
+  })
+
+  it.each([
+    ['dog', 100, 35],
+    ['dog', 90, 15],
+    ['dog', 97, 30],
+    ['dog', 85, 30],
+    ['cat', 100, 75],
+    ['cat', 90, 120],
+  ])('lets a %s match of %i%% at 0 km through after %i days', (animalType, vision, days) => {
+    const proximity = score(animalType as string, 0, days as number)!
+    expect(weightConfidence(vision as number, proximity)).toBeGreaterThanOrEqual(MATCH_THRESHOLD)
+  })
+
+  it('lets a perfect nearby match clear the pre-score gate at any age', () => {
+    for (const days of [0, 30, 90, 365]) {
+      expect(weightConfidence(100, score('dog', 1, days)!)).toBeGreaterThanOrEqual(MATCH_THRESHOLD)
+    }
+  })
+
+  it('rejects strong matches that are far outside the expected range', () => {
+    const proximity = score('cat', 8, 1)!
+    expect(weightConfidence(100, proximity)).toBeLessThan(MATCH_THRESHOLD)
+  })
+
+  it('never goes below the vision-only share of the confidence', () => {
+    const proximity = score('cat', 9.5, 200)!
+    expect(weightConfidence(100, proximity)).toBeGreaterThanOrEqual(70)
+  })
+})
@@ -0,0 +1,249 @@
+// Coat color and pattern vocabulary shared by the app and the edge functions
+//
+// Free-text colors ("ginger tabby", "black and white", "tortie") are parsed into
+// canonical colors and patterns so they can be compared. Keep this file free of
+// Deno and React Native APIs - the app imports it through app/services/coatColors.ts.
+
+export const COAT_COLORS = [
+  'black',
+  'white',
+  'gray',
+  'silver',
+  'orange',
+  'cream',
+  'brown',
+  'tan',
+  'golden',
+] as const
+
+export const COAT_PATTERNS = [
+  'solid',
+  'bicolor',
+  'tabby',
+  'tuxedo',
+  'calico',
+  'tortoiseshell',
+  'colorpoint',
+  'spotted',
+  'brindle',
+  'merle',
+  'tricolor',
+] as const
+
+export type CoatColor = typeof COAT_COLORS[number]
+export type CoatPattern = typeof COAT_PATTERNS[number]
+
+export interface Coat {
+  colors: CoatColor[]
+  patterns: CoatPattern[]
+}
+
+export interface ParseCoatOptions {
+  // Add the colors a pattern implies, e.g. black and white for a tuxedo.
+  // The picker turns this off so the user can remove them
+  impliedColors?: boolean
+}
+
+export const COAT_COLOR_LABELS: Record<CoatColor, string> = {
+  black: 'Black',
+  white: 'White',
+  gray: 'Gray',
+  silver: 'Silver',
+  orange: 'Orange',
+  cream: 'Cream',
+  brown: 'Brown',
+  tan: 'Tan',
+  golden: 'Golden',
+}
+
+export const COAT_PATTERN_LABELS: Record<CoatPattern, string> = {
+  solid: 'Solid',
+  bicolor: 'Bicolor',
+  tabby: 'Tabby',
+  tuxedo: 'Tuxedo',
+  calico: 'Calico',
+  tortoiseshell: 'Tortoiseshell',
+  colorpoint: 'Colorpoint',
+  spotted: 'Spotted',
+  brindle: 'Brindle',
+  merle: 'Merle',
+  tricolor: 'Tricolor',
+}
+
+// Patterns that only make sense for one species, used to trim picker options
+export const CAT_ONLY_PATTERNS: CoatPattern[] = ['tuxedo', 'calico', 'tortoiseshell', 'colorpoint']
+export const DOG_ONLY_PATTERNS: CoatPattern[] = ['brindle', 'merle']
+
+// Words people (and the vision model) use for each color
+const COLOR_SYNONYMS: Record<CoatColor, string[]> = {
+  black: ['black', 'ebony', 'jet', 'charcoal', 'sable'],
+  white: ['white', 'snow', 'snowy', 'ivory'],
+  gray: ['gray', 'grey', 'blue', 'smoke', 'smokey', 'smoky', 'slate', 'ash', 'lilac'],
+  silver: ['silver', 'silvery'],
+  orange: ['orange', 'ginger', 'marmalade', 'red', 'rust', 'copper', 'flame'],
+  cream: ['cream', 'beige', 'buff', 'apricot', 'ivory cream', 'off white', 'off-white'],
+  brown: ['brown', 'chocolate', 'liver', 'cinnamon', 'mahogany', 'chestnut', 'bronze', 'dark brown'],
+  tan: ['tan', 'fawn', 'sandy', 'sand', 'caramel', 'wheaten', 'light brown'],
+  golden: ['golden', 'gold', 'yellow', 'blonde', 'blond', 'honey'],
+}
+
+// Words for each pattern, with the colors a pattern implies
+const PATTERN_SYNONYMS: Record<CoatPattern, string[]> = {
+  solid: ['solid', 'self', 'plain', 'all black', 'all white', 'all gray', 'all grey'],
+  bicolor: ['bicolor', 'bi-color', 'bicolour', 'two tone', 'two-tone', 'piebald', 'patched', 'patches', 'van', 'harlequin'],
+  tabby: ['tabby', 'tabbies', 'striped', 'stripes', 'stripy', 'mackerel', 'classic tabby', 'ticked', 'torbie', 'lynx point'],
+  tuxedo: ['tuxedo', 'tux', 'jellicle'],
+  calico: ['calico', 'caliby'],
+  tortoiseshell: ['tortoiseshell', 'tortie', 'torti', 'torbie', 'tortoise shell'],
+  colorpoint: ['colorpoint', 'color point', 'colourpoint', 'pointed', 'points', 'siamese', 'himalayan', 'ragdoll', 'lynx point'],
+  spotted: ['spotted', 'spots', 'spotty', 'dalmatian', 'rosettes'],
+  brindle: ['brindle', 'brindled', 'tiger striped'],
+  merle: ['merle', 'dapple', 'blue merle', 'red merle'],
+  tricolor: ['tricolor', 'tri-color', 'tricolour', 'tri color', 'tri-colour'],
+}
+
+const PATTERN_IMPLIED_COLORS: Partial<Record<CoatPattern, CoatColor[]>> = {
+  tuxedo: ['black', 'white'],
+  calico: ['white', 'orange', 'black'],
+  tortoiseshell: ['orange', 'black'],
+}
+
+// Colors that are easily confused in photos or descriptions
+const NEIGHBOR_COLORS: Record<CoatColor, CoatColor[]> = {
+  black: ['gray', 'brown'],
+  white: ['cream', 'silver'],
+  gray: ['black', 'silver'],
+  silver: ['gray', 'white'],
+  orange: ['cream', 'golden', 'tan'],
+  cream: ['white', 'orange', 'tan', 'golden'],
+  brown: ['black', 'tan'],
+  tan: ['brown', 'golden', 'cream', 'orange'],
+  golden: ['tan', 'orange', 'cream'],
+}
+
+// Pattern pairs that can't describe the same coat
+const PATTERN_CONFLICTS: [CoatPattern, CoatPattern][] = [
+  ['calico', 'tuxedo'],
+  ['calico', 'colorpoint'],
+  ['tortoiseshell', 'tuxedo'],
+  ['tortoiseshell', 'colorpoint'],
+  ['tuxedo', 'colorpoint'],
+  ['merle', 'brindle'],
+]
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`(^|[^a-z])${escapeRegExp(term)}([^a-z]|$)`).test(text)
+}
+
+/**
+ * Colors a pattern implies, empty for patterns that come in any color
+ */
+export function getImpliedColors(pattern: CoatPattern): CoatColor[] {
+  return PATTERN_IMPLIED_COLORS[pattern] ?? []
+}
+
+/**
+ * Parse a free-text color description into canonical colors and patterns
+ * Unknown words are ignored, an empty coat means "unknown"
+ */
+export function parseCoat(
+  text: string | null | undefined,
+  { impliedColors = true }: ParseCoatOptions = {}
+): Coat {
+  const colors = new Set<CoatColor>()
+  const patterns = new Set<CoatPattern>()
+  if (!text) return { colors: [], patterns: [] }
+
+  const normalized = text.toLowerCase().replace(/[&+/,]/g, ' ').replace(/\s+/g, ' ').trim()
+
+  for (const pattern of COAT_PATTERNS) {
+    if (PATTERN_SYNONYMS[pattern].some((term) => containsTerm(normalized, term))) {
+      patterns.add(pattern)
+      if (impliedColors) {
+        getImpliedColors(pattern).forEach((color) => colors.add(color))
+      }
+    }
+  }
+
+  for (const color of COAT_COLORS) {
+    if (COLOR_SYNONYMS[color].some((term) => containsTerm(normalized, term))) {
+      colors.add(color)
+    }
+  }
+
+  return {
+    colors: COAT_COLORS.filter((c) => colors.has(c)),
+    patterns: COAT_PATTERNS.filter((p) => patterns.has(p)),
+  }
+}
+
+/**
+ * Canonical display string for a coat, e.g. "Black & White Tuxedo"
+ * parseCoat(formatCoat(coat), { impliedColors: false }) returns the same coat
+ */
+export function formatCoat(coat: Coat): string {
+  const colorPart = coat.colors.map((c) => COAT_COLOR_LABELS[c]).join(' & ')
+  const patternPart = coat.patterns.map((p) => COAT_PATTERN_LABELS[p]).join(' ')
+  return [colorPart, patternPart].filter(Boolean).join(' ')
+}
+
+/**
+ * Normalize a free-text color to the canonical vocabulary
+ * Returns the original text when nothing in it is recognized
+ */
+export function normalizeCoatText(text: string | null | undefined): string | null {
+  if (!text || !text.trim()) return null
+  const coat = parseCoat(text)
+  if (coat.colors.length === 0 && coat.patterns.length === 0) return text.trim()
+  return formatCoat(coat)
+}
+
+export interface CoatCompatibility {
+  compatible: boolean
+  reason?: string
+}
+
+function colorsOverlap(a: CoatColor[], b: CoatColor[]): boolean {
+  return a.some((color) => b.includes(color) || NEIGHBOR_COLORS[color].some((n) => b.includes(n)))
+}
+
+/**
+ * Cheap check whether two coat descriptions could be the same animal
+ * Only rules out clear contradictions - unknown or partial descriptions stay compatible.
+ * Multi-color coats match if any color is shared, since a photo may only show one side
+ */
+export function areCoatsCompatible(a: Coat, b: Coat): CoatCompatibility {
+  if (a.colors.length > 0 && b.colors.length > 0 && !colorsOverlap(a.colors, b.colors)) {
+    return {
+      compatible: false,
+      reason: `Different colors: ${formatCoat({ colors: a.colors, patterns: [] })} vs ${formatCoat({ colors: b.colors, patterns: [] })}`,
+    }
+  }
+
+  // A single-color solid coat can't be patterned
+  const aSolid = a.patterns.includes('solid') && a.patterns.length === 1
+  const bSolid = b.patterns.includes('solid') && b.patterns.length === 1
+  if ((aSolid && b.patterns.length > 0 && !bSolid) || (bSolid && a.patterns.length > 0 && !aSolid)) {
+    const patterned = aSolid ? b : a
+    return {
+      compatible: false,
+      reason: `Solid coat vs ${formatCoat({ colors: [], patterns: patterned.patterns })}`,
+    }
+  }
+
+  for (const [p1, p2] of PATTERN_CONFLICTS) {
+    if ((a.patterns.includes(p1) && b.patterns.includes(p2)) ||
+        (a.patterns.includes(p2) && b.patterns.includes(p1))) {
+      return {
+        compatible: false,
+        reason: `Different patterns: ${COAT_PATTERN_LABELS[p1]} vs ${COAT_PATTERN_LABELS[p2]}`,
+      }
+    }
+  }
+
+  return { compatible: true }
+}
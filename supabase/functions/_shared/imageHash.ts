@@ -0,0 +1,110 @@
+// Perceptual image hashing (dHash) for spotting repeat photos of the same animal
+//
+// The image is shrunk to 9x8 grayscale and each pixel is compared with its right
+// neighbour, giving 64 bits that survive resizing, recompression and small crops.
+// Hashes are 16 hex chars; similar photos have a small Hamming distance
+// (compared in SQL by image_hash_distance).
+
+import { decode, GIF, Image } from 'https://deno.land/x/imagescript@1.2.15/mod.ts'
+
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+
+// Sighting photos are scaled down before upload, anything bigger isn't one
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+const FETCH_TIMEOUT_MS = 10000
+const SIGHTING_IMAGES_PATH = '/storage/v1/object/public/cat-images/'
+
+// Only public photos in this project's cat-images bucket are fetched, so the
+// function can't be pointed at arbitrary hosts
+export function isSightingImageUrl(url: string, supabaseUrl: string): boolean {
+  try {
+    const parsed = new URL(url)
+    const project = new URL(supabaseUrl)
+    return parsed.origin === project.origin && parsed.pathname.startsWith(SIGHTING_IMAGES_PATH)
+  } catch {
+    return false
+  }
+}
+
+// Download an image, giving up after FETCH_TIMEOUT_MS or MAX_IMAGE_BYTES
+export async function fetchImageBytes(url: string): Promise<Uint8Array> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, { signal: controller.signal, redirect: 'error' })
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to fetch image (${response.status})`)
+    }
+
+    const declared = Number(response.headers.get('content-length'))
+    if (declared > MAX_IMAGE_BYTES) {
+      throw new Error('Image is too large')
+    }
+
+    // Content-Length can be missing or wrong, so count while reading too
+    const chunks: Uint8Array[] = []
+    let total = 0
+    const reader = response.body.getReader()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      total += value.length
+      if (total > MAX_IMAGE_BYTES) {
+        await reader.cancel()
+        throw new Error('Image is too large')
+      }
+      chunks.push(value)
+    }
+
+    const bytes = new Uint8Array(total)
+    let offset = 0
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset)
+      offset += chunk.length
+    }
+    return bytes
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const data = base64.replace(/^data:image\/\w+;base64,/, '')
+  if (data.length * 0.75 > MAX_IMAGE_BYTES) {
+    throw new Error('Image is too large')
+  }
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export async function computeImageHash(bytes: Uint8Array): Promise<string> {
+  const decoded = await decode(bytes)
+  const image: Image = decoded instanceof GIF ? decoded[0] : decoded as Image
+  const small = image.clone().resize(HASH_WIDTH, HASH_HEIGHT)
+
+  // Luma of every pixel, row by row
+  const gray: number[] = []
+  const pixels = small.bitmap
+  for (let i = 0; i < pixels.length; i += 4) {
+    gray.push(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2])
+  }
+
+  let hash = ''
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    // Two nibbles per row: 8 comparisons between neighbouring pixels
+    let row = 0
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = gray[y * HASH_WIDTH + x]
+      const right = gray[y * HASH_WIDTH + x + 1]
+      row = (row << 1) | (left > right ? 1 : 0)
+    }
+    hash += row.toString(16).padStart(2, '0')
+  }
+  return hash
+}
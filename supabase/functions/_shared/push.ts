@@ -0,0 +1,62 @@
+// Expo push notifications for the edge functions
+//
+// Expo accepts up to 100 messages per request, so larger batches are split.
+// Failures are logged and counted, never thrown - a failed push shouldn't fail
+// the job that triggered it.
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send'
+const EXPO_BATCH_SIZE = 100
+
+export interface ExpoPushMessage {
+  to: string
+  title: string
+  body: string
+  data?: Record<string, unknown>
+  sound?: 'default' | null
+}
+
+export interface PushResult {
+  sent: number
+  failed: number
+}
+
+export async function sendExpoPush(messages: ExpoPushMessage[]): Promise<PushResult> {
+  const result: PushResult = { sent: 0, failed: 0 }
+
+  for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+    const batch = messages.slice(i, i + EXPO_BATCH_SIZE)
+    try {
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(batch),
+      })
+
+      if (!response.ok) {
+        console.error('Expo push error:', response.status, await response.text())
+        result.failed += batch.length
+        continue
+      }
+
+      // One ticket per message, in order
+      const { data } = await response.json()
+      const tickets: { status: string; message?: string }[] = Array.isArray(data) ? data : []
+      tickets.forEach((ticket) => {
+        if (ticket.status === 'ok') {
+          result.sent++
+        } else {
+          result.failed++
+          console.error('Expo push ticket error:', ticket.message)
+        }
+      })
+    } catch (error) {
+      console.error('Expo push request failed:', error)
+      result.failed += batch.length
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,181 @@
+// Species roaming models used to weight lost-animal matches by distance and time
+//
+// A lost animal's plausible range grows with time since it was last seen,
+// roughly like a random walk (radius ~ sqrt(days)), up to a species maximum.
+// Sightings inside that range keep their vision confidence however long
+// the animal has been missing. Sightings further out are discounted, and the
+// longer ago the animal went missing the harder that discount gets.
+// Time alone never counts against a sighting, since the range already
+// grows with time and a strong match right where the pet vanished should
+// always come through.
+
+export type AnimalType = 'cat' | 'dog'
+
+export interface RoamingModel {
+  // Range on the day the animal went missing
+  baseRadiusKm: number
+  // Growth of the range per sqrt(day) missing
+  spreadKmPerSqrtDay: number
+  // Sightings beyond this are not considered at all
+  maxRadiusKm: number
+  // How quickly distance beyond the expected range weighs more heavily as
+  // time since last seen grows
+  freshnessHalfLifeDays: number
+}
+
+// Cats mostly stay within a few blocks and hide, dogs travel far and fast
+export const ROAMING_MODELS: Record<AnimalType, RoamingModel> = {
+  cat: {
+    baseRadiusKm: 0.5,
+    spreadKmPerSqrtDay: 0.4,
+    maxRadiusKm: 10,
+    freshnessHalfLifeDays: 45,
+  },
+  dog: {
+    baseRadiusKm: 2,
+    spreadKmPerSqrtDay: 4,
+    maxRadiusKm: 50,
+    freshnessHalfLifeDays: 21,
+  },
+}
+
+// Share of the final score that comes from the vision model alone
+const VISION_ONLY_WEIGHT = 0.7
+// Lowest time factor, at which the distance discount is raised to the 4th power
+const MIN_TIME_FACTOR = 0.25
+// Sighting dates are entered by hand, allow some slack before last seen
+export const DATE_TOLERANCE_DAYS = 1
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+// Widened search used by scheduled re-matching as a post ages
+export interface SearchRange {
+  // Multiplies both the expected and the maximum roaming radius
+  radiusFactor: number
+  // Replaces DATE_TOLERANCE_DAYS
+  dateToleranceDays: number
+}
+
+export const DEFAULT_SEARCH_RANGE: SearchRange = {
+  radiusFactor: 1,
+  dateToleranceDays: DATE_TOLERANCE_DAYS,
+}
+
+// Furthest a post's public coordinates can be from where it really was,
+// by location_privacy (see location_fuzz_meters in 17-add-location-privacy.sql)
+export const FUZZ_RADIUS_KM: Record<string, number> = {
+  exact: 0,
+  approximate: 0.1,
+  neighborhood: 1,
+}
+
+export function getFuzzRadiusKm(locationPrivacy?: string | null): number {
+  return FUZZ_RADIUS_KM[locationPrivacy ?? 'exact'] ?? 0
+}
+
+export interface ProximityScore {
+  distanceKm: number | null
+  daysSinceLastSeen: number
+  expectedRadiusKm: number
+  // 1 inside the expected range, falling off beyond it
+  distanceFactor: number
+  // 1 on the day the animal went missing, halving every freshnessHalfLifeDays
+  timeFactor: number
+  // distanceFactor sharpened by timeFactor, 1 whenever the sighting is in range
+  score: number
+}
+
+export function getRoamingModel(animalType: string): RoamingModel {
+  return ROAMING_MODELS[animalType as AnimalType] ?? ROAMING_MODELS.dog
+}
+
+// Haversine distance in kilometers
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const R = 6371
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.latitude - a.latitude)
+  const dLng = toRad(b.longitude - a.longitude)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2
+  return 2 * R * Math.asin(Math.sqrt(h))
+}
+
+export function expectedRoamingRadiusKm(model: RoamingModel, days: number): number {
+  return Math.min(
+    model.maxRadiusKm,
+    model.baseRadiusKm + model.spreadKmPerSqrtDay * Math.sqrt(Math.max(0, days))
+  )
+}
+
+/**
+ * Score how plausible it is for a sighting to be the lost animal based on
+ * where and when it was seen
+ * Returns null when the sighting is outside the species range or predates
+ * the animal going missing, so the vision call can be skipped
+ * Unknown coordinates don't penalize the pair
+ * A wider range scales the species radii and allows more date slack
+ * uncertaintyKm is how far off the fuzzed coordinates of both posts can be
+ * together, the pair is scored as if it were that much closer
+ */
+export function scoreProximity(
+  animalType: string,
+  lastSeen: Coordinates | null,
+  lastSeenDate: string,
+  sighting: Coordinates | null,
+  spottedAt: string,
+  range: SearchRange = DEFAULT_SEARCH_RANGE,
+  uncertaintyKm = 0
+): ProximityScore | null {
+  const model = getRoamingModel(animalType)
+  const maxRadiusKm = model.maxRadiusKm * range.radiusFactor
+  const days = (new Date(spottedAt).getTime() - new Date(lastSeenDate).getTime()) / DAY_MS
+
+  if (Number.isFinite(days) && days < -range.dateToleranceDays) {
+    return null
+  }
+
+  const daysSinceLastSeen = Number.isFinite(days) ? Math.max(0, days) : 0
+  const expectedRadiusKm = expectedRoamingRadiusKm(model, daysSinceLastSeen) * range.radiusFactor
+
+  let distance: number | null = null
+  let distanceFactor = 1
+  if (lastSeen && sighting) {
+    distance = distanceKm(lastSeen, sighting)
+    const closest = Math.max(0, distance - uncertaintyKm)
+    if (closest > maxRadiusKm) {
+      return null
+    }
+    // Full weight inside the expected range, exponential falloff beyond it
+    distanceFactor = closest <= expectedRadiusKm
+      ? 1
+      : Math.exp(-(closest - expectedRadiusKm) / expectedRadiusKm)
+  }
+
+  const timeFactor = Math.max(
+    MIN_TIME_FACTOR,
+    Math.pow(0.5, daysSinceLastSeen / model.freshnessHalfLifeDays)
+  )
+
+  return {
+    distanceKm: distance,
+    daysSinceLastSeen,
+    expectedRadiusKm,
+    distanceFactor,
+    timeFactor,
+    // Only the distance discount decays, a sighting in range keeps full weight
+    score: Math.pow(distanceFactor, 1 / timeFactor),
+  }
+}
+
+// Combine vision confidence (0-100) with a proximity score (0-1)
+export function weightConfidence(visionConfidence: number, proximity: ProximityScore): number {
+  return Math.round(
+    visionConfidence * (VISION_ONLY_WEIGHT + (1 - VISION_ONLY_WEIGHT) * proximity.score)
+  )
+}
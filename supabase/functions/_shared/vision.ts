@@ -0,0 +1,189 @@
+// Shared vision model access for the edge functions
+//
+// Provider and model are picked through environment variables:
+//   VISION_PROVIDER           openai (default) | local | fixture
+//   VISION_MODEL              model name, defaults to gpt-4o
+//   OPENAI_API_KEY            API key for the openai provider
+//   VISION_BASE_URL           base URL of an OpenAI-compatible server for the
+//                             local provider, e.g. http://localhost:11434/v1
+//   VISION_API_KEY            optional API key for the local provider
+//   VISION_FIXTURE_RESPONSE   canned model output for the fixture provider
+
+export interface VisionImage {
+  url: string
+  detail?: 'low' | 'high' | 'auto'
+}
+
+export interface VisionRequest {
+  system: string
+  prompt: string
+  images: VisionImage[]
+  maxTokens?: number
+  temperature?: number
+}
+
+export interface VisionUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+export interface VisionResponse {
+  content: string
+  usage: VisionUsage
+  provider: string
+  model: string
+}
+
+export interface VisionProvider {
+  name: string
+  model: string
+  complete(request: VisionRequest): Promise<VisionResponse>
+}
+
+export class VisionProviderError extends Error {
+  status: number
+  details: string
+
+  constructor(message: string, status: number, details: string) {
+    super(message)
+    this.name = 'VisionProviderError'
+    this.status = status
+    this.details = details
+  }
+}
+
+const DEFAULT_MODEL = 'gpt-4o'
+
+// Chat completions adapter shared by OpenAI and compatible local servers
+function createChatCompletionsProvider(
+  name: string,
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string
+): VisionProvider {
+  return {
+    name,
+    model,
+    async complete(request: VisionRequest): Promise<VisionResponse> {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`
+      }
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: request.system },
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: request.prompt },
+                ...request.images.map((image) => ({
+                  type: 'image_url',
+                  image_url: { url: image.url, detail: image.detail ?? 'auto' },
+                })),
+              ],
+            },
+          ],
+          max_tokens: request.maxTokens ?? 500,
+          temperature: request.temperature ?? 0.3,
+        }),
+      })
+
+      if (!response.ok) {
+        const details = await response.text()
+        throw new VisionProviderError(`${name} request failed`, response.status, details)
+      }
+
+      const result = await response.json()
+      const inputTokens = result.usage?.input_tokens ?? result.usage?.prompt_tokens ?? 0
+      const outputTokens = result.usage?.output_tokens ?? result.usage?.completion_tokens ?? 0
+
+      return {
+        content: result.choices?.[0]?.message?.content ?? '',
+        usage: {
+          inputTokens,
+          outputTokens,
+          totalTokens: result.usage?.total_tokens ?? inputTokens + outputTokens,
+        },
+        provider: name,
+        model,
+      }
+    },
+  }
+}
+
+export function createOpenAIProvider(apiKey: string | undefined, model = DEFAULT_MODEL): VisionProvider {
+  return createChatCompletionsProvider('openai', 'https://api.openai.com/v1', apiKey, model)
+}
+
+export function createLocalProvider(
+  baseUrl: string,
+  apiKey: string | undefined,
+  model = DEFAULT_MODEL
+): VisionProvider {
+  return createChatCompletionsProvider('local', baseUrl, apiKey, model)
+}
+
+// Deterministic provider for tests and offline runs - never touches the network
+export function createFixtureProvider(content: string, model = 'fixture'): VisionProvider {
+  return {
+    name: 'fixture',
+    model,
+    async complete(request: VisionRequest): Promise<VisionResponse> {
+      const inputTokens = Math.ceil((request.system.length + request.prompt.length) / 4)
+      const outputTokens = Math.ceil(content.length / 4)
+      return {
+        content,
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        provider: 'fixture',
+        model,
+      }
+    },
+  }
+}
+
+/**
+ * Build the provider configured through the environment
+ * @param fixture - Default output for the fixture provider when
+ *                  VISION_FIXTURE_RESPONSE is not set
+ */
+export function getVisionProvider(fixture = '{}'): VisionProvider {
+  const providerName = (Deno.env.get('VISION_PROVIDER') ?? 'openai').toLowerCase()
+  const model = Deno.env.get('VISION_MODEL') || DEFAULT_MODEL
+
+  switch (providerName) {
+    case 'openai':
+      return createOpenAIProvider(Deno.env.get('OPENAI_API_KEY'), model)
+    case 'local': {
+      const baseUrl = Deno.env.get('VISION_BASE_URL')
+      if (!baseUrl) {
+        throw new Error('VISION_BASE_URL is required for the local vision provider')
+      }
+      return createLocalProvider(baseUrl, Deno.env.get('VISION_API_KEY'), model)
+    }
+    case 'fixture':
+      return createFixtureProvider(Deno.env.get('VISION_FIXTURE_RESPONSE') ?? fixture)
+    default:
+      throw new Error(`Unknown VISION_PROVIDER: ${providerName}`)
+  }
+}
+
+/**
+ * Extract a JSON object from model output
+ * Strips markdown code fences and any text around the object
+ * Returns null if nothing parseable is found
+ */
+export function parseJsonContent<T = any>(content: string): T | null {
+  try {
+    const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+    const jsonMatch = cleanContent.match(/\{[\s\S]*\}/)
+    return JSON.parse(jsonMatch ? jsonMatch[0] : cleanContent)
+  } catch {
+    return null
+  }
+}
@@ -1,5 +1,18 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getVisionProvider, parseJsonContent, VisionProviderError } from '../_shared/vision.ts'
+import { COAT_COLORS, COAT_PATTERNS, normalizeCoatText, parseCoat } from '../_shared/coatColors.ts'
+
+const ANALYSIS_FIXTURE = JSON.stringify({
+  animalType: 'cat',
+  breed: 'Domestic Shorthair',
+  confidence: 0.8,
+  color: 'orange',
+  estimatedAge: 'adult',
+  healthStatus: 'healthy',
+  description: 'An orange tabby cat sitting calmly. Appears well fed with a clean coat.',
+  distinctiveFeatures: ['tabby stripes'],
+})
 
 // Rate limit configuration
 const RATE_LIMITS = {
@@ -161,11 +174,12 @@ serve(async (req) => {
     // Get user tier
     const { data: profile } = await supabaseClient
       .from('profiles')
-      .select('is_supporter')
+      .select('is_supporter, role')
       .eq('id', user.id)
       .single()
 
-    const userTier = profile?.is_supporter ? 'supporter' : 'free'
+    // Moderators (role 'admin', see 18-add-moderation.sql) get the admin tier
+    const userTier = profile?.role === 'admin' ? 'admin' : profile?.is_supporter ? 'supporter' : 'free'
 
     // Check rate limit
     const rateLimitResult = await checkRateLimit(supabaseClient, user.id, userTier)
@@ -204,88 +218,55 @@ serve(async (req) => {
       )
     }
 
-    // Call OpenAI Vision API
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o', // Latest vision model
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert veterinarian and animal breed specialist. Analyze images accurately and provide helpful, structured information.',
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt || `Analyze this cat or dog image. Provide a JSON response with:
+    // Call the configured vision model
+    const provider = getVisionProvider(ANALYSIS_FIXTURE)
+    let result
+    try {
+      result = await provider.complete({
+        system: 'You are an expert veterinarian and animal breed specialist. Analyze images accurately and provide helpful, structured information.',
+        prompt: prompt || `Analyze this cat or dog image. Provide a JSON response with:
 {
   "animalType": "cat" or "dog",
   "breed": "specific breed name",
   "confidence": 0.0-1.0,
-  "color": "primary color",
+  "color": "coat colors and pattern, e.g. 'Black & White Tuxedo' (colors: ${COAT_COLORS.join(', ')}; patterns: ${COAT_PATTERNS.join(', ')})",
   "estimatedAge": "kitten/puppy, young, adult, or senior",
   "healthStatus": "healthy, injured, sick, or unknown",
   "description": "2-3 sentence description",
   "distinctiveFeatures": ["feature1", "feature2"]
 }`,
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: image,
-                  detail: 'low', // Use 'low' for cost efficiency
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 500,
+        images: [{ url: image, detail: 'low' }], // Use 'low' for cost efficiency
+        maxTokens: 500,
         temperature: 0.3, // Lower for more consistent results
-      }),
-    })
+      })
+    } catch (error) {
+      if (!(error instanceof VisionProviderError)) throw error
+      console.error(`Vision API error (${provider.name}):`, error.details)
 
-    if (!openaiResponse.ok) {
-      const error = await openaiResponse.text()
-      console.error('OpenAI API error:', error)
-      
       // Log failed attempt
       await logUsage(supabaseClient, user.id, false, 0, 0)
-      
+
       return new Response(
-        JSON.stringify({ error: 'AI analysis failed', details: error }),
+        JSON.stringify({ error: 'AI analysis failed', details: error.details }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    const result = await openaiResponse.json()
-    
     // Calculate cost (approximate)
-    const tokensUsed = result.usage?.total_tokens || 0
-    const costPer1kTokens = 0.01 // GPT-4o pricing
+    const tokensUsed = result.usage.totalTokens
+    const costPer1kTokens = provider.name === 'openai' ? 0.01 : 0 // GPT-4o pricing
     const cost = (tokensUsed / 1000) * costPer1kTokens
 
     // Log successful usage
     await logUsage(supabaseClient, user.id, true, tokensUsed, cost)
 
     // Parse AI response
-    let analysis
-    try {
-      const content = result.choices[0].message.content
-      // Try to extract JSON from response
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        analysis = JSON.parse(jsonMatch[0])
-      } else {
-        analysis = { description: content }
-      }
-    } catch (e) {
-      analysis = { description: result.choices[0].message.content }
+    const analysis = parseJsonContent(result.content) ?? { description: result.content }
+
+    // Map the model's color wording onto the shared coat vocabulary
+    if (typeof analysis.color === 'string') {
+      analysis.coat = parseCoat(analysis.color)
+      analysis.color = normalizeCoatText(analysis.color)
     }
 
     return new Response(
@@ -1,11 +1,24 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getVisionProvider, parseJsonContent, VisionProviderError } from '../_shared/vision.ts'
+import { COAT_COLORS, COAT_PATTERNS, normalizeCoatText, parseCoat } from '../_shared/coatColors.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const ANALYSIS_FIXTURE = JSON.stringify({
+  animalType: 'cat',
+  breed: 'Domestic Shorthair',
+  confidence: 0.8,
+  color: 'orange',
+  age: 'adult',
+  healthStatus: 'healthy',
+  description: 'A friendly orange tabby spotted resting outdoors. Looks healthy and well fed.',
+  features: ['tabby stripes'],
+})
+
 // Rate limit configuration
 const RATE_LIMITS = {
   free: {
@@ -163,36 +176,23 @@ serve(async (req) => {
       )
     }
 
-    // Prepare image for OpenAI
+    // Prepare image for the vision model
     const imageInput = imageBase64
       ? `data:image/jpeg;base64,${imageBase64}`
       : imageUrl
 
-    // Call OpenAI Vision API (gpt-4o for image analysis)
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o', // Vision model for analyzing images
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert veterinarian and animal breed specialist. Analyze pet images accurately and return ONLY valid JSON.',
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Analyze this cat or dog image. Return ONLY a JSON object with this structure:
+    // Call the configured vision model
+    const provider = getVisionProvider(ANALYSIS_FIXTURE)
+    let result
+    try {
+      result = await provider.complete({
+        system: 'You are an expert veterinarian and animal breed specialist. Analyze pet images accurately and return ONLY valid JSON.',
+        prompt: `Analyze this cat or dog image. Return ONLY a JSON object with this structure:
 {
   "animalType": "cat" or "dog",
   "breed": "specific breed name (e.g., 'Domestic Shorthair', 'Labrador Retriever')",
   "confidence": 0.0-1.0,
-  "color": "primary color",
+  "color": "coat colors and pattern, e.g. 'Black & White Tuxedo' (colors: ${COAT_COLORS.join(', ')}; patterns: ${COAT_PATTERNS.join(', ')})",
   "age": "kitten/puppy, young, adult, or senior",
   "healthStatus": "healthy, injured, sick, or unknown",
   "description": "2-3 sentence friendly description for a sighting report",
@@ -200,73 +200,56 @@ serve(async (req) => {
 }
 
 Be specific with breeds. Return ONLY the JSON, no other text.`,
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageInput,
-                  detail: 'low', // Cost optimization
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 500,
+        images: [{ url: imageInput, detail: 'low' }], // Cost optimization
+        maxTokens: 500,
         temperature: 0.3,
-      }),
-    })
-
-    if (!openaiResponse.ok) {
-      const error = await openaiResponse.text()
-      console.error('OpenAI error:', error)
+      })
+    } catch (error) {
+      if (!(error instanceof VisionProviderError)) throw error
+      console.error(`Vision API error (${provider.name}):`, error.details)
       await logUsage(supabaseClient, user.id, false, 0, 0)
 
       return new Response(
-        JSON.stringify({ error: 'AI analysis failed', details: error }),
+        JSON.stringify({ error: 'AI analysis failed', details: error.details }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    const result = await openaiResponse.json()
-
-    // Calculate cost using GPT-4o rates
-    // Prefer explicit input/output token fields, fall back to prompt/completion, then total
-    const inputTokens =
-      result.usage?.input_tokens ??
-      result.usage?.prompt_tokens ??
-      0
-    const outputTokens =
-      result.usage?.output_tokens ??
-      result.usage?.completion_tokens ??
-      0
-    let tokensUsed = (inputTokens || 0) + (outputTokens || 0)
+    // Calculate cost using GPT-4o rates (self-hosted and fixture providers are free)
+    const { inputTokens, outputTokens, totalTokens } = result.usage
+    let tokensUsed = inputTokens + outputTokens
     let cost = 0
     // If only total_tokens is provided, estimate a 75/25 split input/output
-    if (!inputTokens && !outputTokens && (result.usage?.total_tokens ?? 0) > 0) {
-      tokensUsed = result.usage.total_tokens
+    if (!inputTokens && !outputTokens && totalTokens > 0) {
+      tokensUsed = totalTokens
       const estInput = Math.round(tokensUsed * 0.75)
       const estOutput = tokensUsed - estInput
       // Compute cost: $5 / 1M input, $20 / 1M output
       cost = (estInput / 1_000_000) * 5 + (estOutput / 1_000_000) * 20
     } else {
-      cost = ((inputTokens || 0) / 1_000_000) * 5 + ((outputTokens || 0) / 1_000_000) * 20
+      cost = (inputTokens / 1_000_000) * 5 + (outputTokens / 1_000_000) * 20
+    }
+    if (provider.name !== 'openai') {
+      cost = 0
     }
 
     // Parse AI response
-    let analysis
-    try {
-      const content = result.choices[0].message.content
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      analysis = jsonMatch ? JSON.parse(jsonMatch[0]) : JSON.parse(content)
-    } catch (e) {
-      console.error('Parse error:', e)
+    let analysis = parseJsonContent(result.content)
+    if (!analysis) {
+      console.error('Parse error: no JSON in vision response')
       analysis = {
         animalType: 'unknown',
         breed: 'Unknown',
-        description: result.choices[0].message.content,
+        description: result.content,
       }
     }
 
+    // Map the model's color wording onto the shared coat vocabulary
+    if (typeof analysis.color === 'string') {
+      analysis.coat = parseCoat(analysis.color)
+      analysis.color = normalizeCoatText(analysis.color)
+    }
+
     // Log successful usage
     await logUsage(supabaseClient, user.id, true, tokensUsed, cost)
 
@@ -0,0 +1,68 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { base64ToBytes, computeImageHash, fetchImageBytes, isSightingImageUrl } from '../_shared/imageHash.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Compute the perceptual hash of a sighting photo
+// Used by catService.addCat and AddCatScreen's duplicate check
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    )
+
+    // Authenticate user
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser()
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { imageUrl, imageBase64 } = await req.json()
+
+    if (!imageUrl && !imageBase64) {
+      return new Response(
+        JSON.stringify({ error: 'Image URL or base64 required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!imageBase64 && !isSightingImageUrl(imageUrl, Deno.env.get('SUPABASE_URL') ?? '')) {
+      return new Response(
+        JSON.stringify({ error: 'Only sighting photos can be hashed' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const bytes = imageBase64 ? base64ToBytes(imageBase64) : await fetchImageBytes(imageUrl)
+    const hash = await computeImageHash(bytes)
+
+    return new Response(
+      JSON.stringify({ success: true, hash }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Image hash error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to hash image', message: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -1,5 +1,117 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getVisionProvider, parseJsonContent, VisionProviderError } from '../_shared/vision.ts'
+import { areCoatsCompatible, parseCoat } from '../_shared/coatColors.ts'
+import { sendExpoPush } from '../_shared/push.ts'
+import {
+    Coordinates,
+    DAY_MS,
+    DEFAULT_SEARCH_RANGE,
+    FUZZ_RADIUS_KM,
+    getFuzzRadiusKm,
+    getRoamingModel,
+    ProximityScore,
+    scoreProximity,
+    SearchRange,
+    weightConfidence,
+} from '../_shared/roaming.ts'
+
+const MATCH_FIXTURE = JSON.stringify({
+    features: {
+        coat_color: { score: 0, note: 'Fixture provider: no comparison performed' },
+        pattern: { score: 0, note: 'Fixture provider: no comparison performed' },
+        size: null,
+        markings: null,
+        eye_color: null,
+    },
+    reason: 'Fixture provider: no comparison performed',
+})
+
+// Minimum combined confidence before a match is recorded
+const MATCH_THRESHOLD = 80
+
+// How much each visual feature contributes to confidence_score
+// Weights of features the model could not see are redistributed
+const FEATURE_WEIGHTS = {
+    coat_color: 0.3,
+    pattern: 0.25,
+    markings: 0.2,
+    size: 0.15,
+    eye_color: 0.1,
+}
+
+type FeatureKey = keyof typeof FEATURE_WEIGHTS
+
+// Scheduled re-matching widens the search as a post ages, counted from when
+// it was created. Stage N runs once the post is REMATCH_STAGES[N - 1].afterDays old
+interface RematchStage extends SearchRange {
+    afterDays: number
+}
+
+const REMATCH_STAGES: RematchStage[] = [
+    { afterDays: 2, radiusFactor: 1.25, dateToleranceDays: 2 },
+    { afterDays: 7, radiusFactor: 1.5, dateToleranceDays: 4 },
+    { afterDays: 14, radiusFactor: 2, dateToleranceDays: 7 },
+    { afterDays: 30, radiusFactor: 3, dateToleranceDays: 14 },
+]
+
+// Keeps one cron run well inside the edge function time limit
+const MAX_REMATCHES_PER_RUN = 5
+const MAX_QUEUE_DRAIN_PER_RUN = 10
+
+// Vision calls for matching over the last 24 hours, like RATE_LIMITS in
+// analyze-animal. perUser is charged to the lost animal's owner. Pairs over
+// budget wait in lost_animal_match_queue until the cron run frees them
+const MATCH_BUDGETS = {
+    perDay: 1000,
+    perUser: {
+        free: { perDay: 50 },
+        supporter: { perDay: 200 },
+    },
+}
+
+// A clear mismatch on either of these rules the pair out regardless of the rest
+const DECISIVE_FEATURES: FeatureKey[] = ['coat_color', 'pattern']
+const DECISIVE_MISMATCH_SCORE = 30
+
+interface FeatureScore {
+    score: number
+    note?: string
+}
+
+type FeatureScores = Record<FeatureKey, FeatureScore | null>
+
+// A stored vision comparison, see lost_animal_pair_analyses
+interface PairAnalysis {
+    vision_confidence: number
+    match_reason: string | null
+    feature_scores: FeatureScores | null
+    photos_compared: number | null
+}
+
+// Identifies the photos a comparison was made with, so edited photos are re-analyzed
+interface PairPhotoHashes {
+    lostPhotosHash: string
+    sightingPhotoHash: string
+}
+
+// Remaining vision calls for this invocation, per owner loaded on first use
+interface MatchBudget {
+    globalRemaining: number
+    userRemaining: Map<string, number>
+}
+
+type PairOutcome = 'done' | 'deferred'
+
+interface MatchResult {
+    confidence: number
+    reason: string
+    featureScores?: FeatureScores
+    photosCompared?: number
+    // Set once the vision confidence has been weighted by distance and time
+    visionConfidence?: number
+    proximity?: ProximityScore
+}
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -19,20 +131,43 @@ serve(async (req) => {
             Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', // Use service role for full access
         )
 
-        const { lostAnimalId, sightingId } = await req.json()
-        console.log('Request params:', { lostAnimalId, sightingId })
+        const { lostAnimalId, sightingId, rematch } = await req.json()
+        console.log('Request params:', { lostAnimalId, sightingId, rematch })
+
+        const budget = await loadMatchBudget(supabaseClient)
+        console.log(`Match budget: ${budget.globalRemaining} vision calls left today`)
 
         // If lostAnimalId provided, match against that specific lost animal
         // If sightingId provided, match that sighting against all active lost animals
+        // If rematch is set, widen the search for every post that is due (cron only)
+
+        if (rematch) {
+            const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+            if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+                return new Response(
+                    JSON.stringify({ error: 'Unauthorized' }),
+                    { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                )
+            }
 
-        if (sightingId) {
+            // Pairs deferred by the budget go first, best pre-score first
+            console.log('Draining deferred pairs...')
+            const drained = await drainMatchQueue(supabaseClient, budget)
+
+            console.log('Re-matching lost animals that are due...')
+            const rematched = await rematchDueLostAnimals(supabaseClient, budget)
+            return new Response(
+                JSON.stringify({ success: true, drained, rematched }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        } else if (sightingId) {
             console.log('Matching sighting against lost animals...')
             // New sighting - check against all active lost animals
-            await matchSightingWithLostAnimals(supabaseClient, sightingId)
+            await matchSightingWithLostAnimals(supabaseClient, budget, sightingId)
         } else if (lostAnimalId) {
             console.log('Matching lost animal against sightings...')
             // New lost animal post - check against existing sightings
-            await matchLostAnimalWithSightings(supabaseClient, lostAnimalId)
+            await matchLostAnimalWithSightings(supabaseClient, budget, lostAnimalId)
         } else {
             console.log('No lostAnimalId or sightingId provided')
         }
@@ -53,7 +188,7 @@ serve(async (req) => {
     }
 })
 
-async function matchSightingWithLostAnimals(supabase: any, sightingId: string) {
+async function matchSightingWithLostAnimals(supabase: any, budget: MatchBudget, sightingId: string) {
     // Get the sighting details
     const { data: sighting, error: sightingError } = await supabase
         .from('animals')
@@ -66,11 +201,18 @@ async function matchSightingWithLostAnimals(supabase: any, sightingId: string) {
         return
     }
 
+    // Hidden by a moderator (18-add-moderation.sql) - the service role still sees it
+    if (sighting.hidden_at) {
+        console.log(`Skipping hidden sighting ${sighting.id}`)
+        return
+    }
+
     // Get all active lost animals of the same type
     const { data: lostAnimals, error: lostError } = await supabase
         .from('lost_animals')
         .select('*')
         .eq('status', 'active')
+        .is('hidden_at', null)
         .eq('animal_type', sighting.animal_type)
 
     if (lostError || !lostAnimals || lostAnimals.length === 0) {
@@ -83,36 +225,75 @@ async function matchSightingWithLostAnimals(supabase: any, sightingId: string) {
 
     for (const lostAnimal of lostAnimals) {
         console.log(`Comparing with lost animal: ${lostAnimal.name} (${lostAnimal.id})`)
-        const matchResult = await analyzeMatch(supabase, lostAnimal, sighting)
+        const lastSeen = await getLostAnimalCoordinates(supabase, lostAnimal.id)
+        await evaluatePair(supabase, budget, lostAnimal, lastSeen, sighting)
+    }
+}
+
+// Widest stage a post has reached by its age, 0 if none yet
+function getDueRematchStage(lostAnimal: any, now: number): number {
+    const ageDays = (now - new Date(lostAnimal.created_at).getTime()) / DAY_MS
+    let stage = 0
+    REMATCH_STAGES.forEach((entry, index) => {
+        if (ageDays >= entry.afterDays) stage = index + 1
+    })
+    return stage
+}
 
-        if (matchResult && matchResult.confidence >= 80) {
-            console.log(`✅ MATCH FOUND! Confidence: ${matchResult.confidence}%`)
-            console.log(`Reason: ${matchResult.reason}`)
+// Re-run matching for active posts that have reached a new search stage,
+// least recently re-matched first. Returns how many posts were re-matched
+async function rematchDueLostAnimals(supabase: any, budget: MatchBudget): Promise<number> {
+    const now = Date.now()
+    const oldEnough = new Date(now - REMATCH_STAGES[0].afterDays * DAY_MS).toISOString()
 
-            // Insert match record
-            const { error: insertError } = await supabase
-                .from('lost_animal_matches')
-                .insert({
-                    lost_animal_id: lostAnimal.id,
-                    sighting_id: sighting.id,
-                    confidence_score: matchResult.confidence,
-                    match_reason: matchResult.reason,
-                })
+    const { data: lostAnimals, error } = await supabase
+        .from('lost_animals')
+        .select('*')
+        .eq('status', 'active')
+        .is('hidden_at', null)
+        .lt('rematch_stage', REMATCH_STAGES.length)
+        .lte('created_at', oldEnough)
+        .order('last_rematched_at', { ascending: true, nullsFirst: true })
+        .limit(100)
+
+    if (error) {
+        console.error('Error fetching lost animals to re-match:', error)
+        return 0
+    }
 
-            if (insertError) {
-                console.error('Error inserting match:', insertError)
-            } else {
-                console.log('Match record inserted successfully')
-                // Send push notification to lost animal owner
-                await sendMatchNotification(supabase, lostAnimal, sighting, matchResult.confidence)
-            }
-        } else {
-            console.log(`No match (confidence: ${matchResult?.confidence || 0}%)`)
-        }
+    let rematched = 0
+    for (const lostAnimal of lostAnimals || []) {
+        if (rematched >= MAX_REMATCHES_PER_RUN) break
+
+        const stage = getDueRematchStage(lostAnimal, now)
+        if (stage <= lostAnimal.rematch_stage) continue
+
+        const range = REMATCH_STAGES[stage - 1]
+        console.log(
+            `Re-matching ${lostAnimal.name} (${lostAnimal.id}) at stage ${stage}: ` +
+            `radius x${range.radiusFactor}, ${range.dateToleranceDays} days slack`
+        )
+        await matchLostAnimalWithSightings(supabase, budget, lostAnimal.id, range)
+
+        const { error: updateError } = await supabase
+            .from('lost_animals')
+            .update({ rematch_stage: stage, last_rematched_at: new Date().toISOString() })
+            .eq('id', lostAnimal.id)
+
+        if (updateError) console.error('Error saving re-match stage:', updateError)
+        rematched++
     }
+
+    console.log(`Re-matched ${rematched} lost animals`)
+    return rematched
 }
 
-async function matchLostAnimalWithSightings(supabase: any, lostAnimalId: string) {
+async function matchLostAnimalWithSightings(
+    supabase: any,
+    budget: MatchBudget,
+    lostAnimalId: string,
+    range: SearchRange = DEFAULT_SEARCH_RANGE
+) {
     // Get the lost animal details
     const { data: lostAnimal, error: lostError } = await supabase
         .from('lost_animals')
@@ -125,256 +306,484 @@ async function matchLostAnimalWithSightings(supabase: any, lostAnimalId: string)
         return
     }
 
-    // Extract coordinates from PostGIS geography type using SQL
-    // Query with ST_X and ST_Y directly in the RPC call
-    const { data: coordData, error: coordError } = await supabase
-        .rpc('get_lost_animal_coordinates', { lost_animal_id: lostAnimalId })
+    if (lostAnimal.hidden_at) {
+        console.log(`Skipping hidden lost animal ${lostAnimal.id}`)
+        return
+    }
 
-    let lat: number, lng: number
+    const lastSeen = await getLostAnimalCoordinates(supabase, lostAnimalId)
+    const sightings = await findCandidateSightings(supabase, lostAnimal, lastSeen, range)
 
-    if (coordError || !coordData || coordData.length === 0) {
-        console.error('Could not fetch location via RPC:', coordError)
-        console.log('Trying alternative method...')
+    if (sightings.length === 0) {
+        console.log('No recent sightings found')
+        return
+    }
 
-        // Fallback: Get all sightings without location filter
-        // This ensures matching still works even if location parsing fails
-        // Include rescued animals so owners can contact rescuers
-        const { data: allSightings, error: allSightingsError } = await supabase
-            .from('animals')
-            .select('*')
-            .eq('animal_type', lostAnimal.animal_type)
-            .gte('spotted_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
-            .limit(50)
+    const matchedIds = await getMatchedSightingIds(supabase, lostAnimalId)
 
-        if (allSightingsError || !allSightings || allSightings.length === 0) {
-            console.log('No recent sightings found (fallback)')
-            return
-        }
+    // Analyze each sighting for potential match
+    console.log(`Analyzing ${sightings.length} sightings for matches...`)
 
-        console.log(`Found ${allSightings.length} sightings (without location filter)`)
-
-        // Analyze each sighting
-        for (const sighting of allSightings) {
-            console.log(`Comparing with sighting: ${sighting.id}`)
-            const matchResult = await analyzeMatch(supabase, lostAnimal, sighting)
-
-            if (matchResult && matchResult.confidence >= 80) {
-                console.log(`✅ MATCH FOUND! Confidence: ${matchResult.confidence}%`)
-
-                const { error: insertError } = await supabase
-                    .from('lost_animal_matches')
-                    .insert({
-                        lost_animal_id: lostAnimal.id,
-                        sighting_id: sighting.id,
-                        confidence_score: matchResult.confidence,
-                        match_reason: matchResult.reason,
-                    })
-
-                if (insertError) {
-                    console.error('Error inserting match:', insertError)
-                } else {
-                    console.log('Match record inserted successfully')
-                }
-            } else {
-                console.log(`No match (confidence: ${matchResult?.confidence || 0}%)`)
-            }
+    for (const sighting of sightings) {
+        if (matchedIds.has(sighting.id)) {
+            console.log(`Skipping ${sighting.id}: already matched`)
+            continue
         }
-        return
+        console.log(`Comparing with sighting: ${sighting.id}`)
+        await evaluatePair(supabase, budget, lostAnimal, lastSeen, sighting, range)
     }
+}
 
-    lat = coordData[0].latitude
-    lng = coordData[0].longitude
+async function getMatchedSightingIds(supabase: any, lostAnimalId: string): Promise<Set<string>> {
+    const { data, error } = await supabase
+        .from('lost_animal_matches')
+        .select('sighting_id')
+        .eq('lost_animal_id', lostAnimalId)
 
-    console.log(`Location: lat=${lat}, lng=${lng}`)
+    if (error) {
+        console.error('Error fetching existing matches:', error)
+    }
+    return new Set((data || []).map((row: any) => row.sighting_id))
+}
 
-    // Get recent sightings of the same type within reasonable distance (e.g., 50km)
-    console.log(`Searching for ${lostAnimal.animal_type} sightings within 50km...`)
+async function sha256Hex(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+    return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
 
-    const { data: sightings, error: sightingsError } = await supabase
-        .rpc('get_nearby_animals', {
-            lat: lat,
-            lng: lng,
-            radius_km: 50,
-        })
-        .eq('animal_type', lostAnimal.animal_type)
-        .gte('spotted_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()) // Last 30 days
+// Photos are keyed by their URLs, every upload gets a new one. image_hash
+// isn't used for sightings as it is filled in after the first match run
+async function getPairPhotoHashes(lostAnimal: any, sighting: any): Promise<PairPhotoHashes> {
+    const lostPhotos = [lostAnimal.photo_url_1, lostAnimal.photo_url_2, lostAnimal.photo_url_3]
+        .filter(Boolean)
+        .join('\n')
+    return {
+        lostPhotosHash: await sha256Hex(lostPhotos),
+        sightingPhotoHash: await sha256Hex(sighting.image_url || ''),
+    }
+}
 
-    if (sightingsError) {
-        console.error('Error fetching nearby animals:', sightingsError)
-        console.log('Trying without location filter...')
+// A vision comparison of these exact photos, if one was made before
+async function findPairAnalysis(
+    supabase: any,
+    lostAnimalId: string,
+    sightingId: string,
+    hashes: PairPhotoHashes
+): Promise<PairAnalysis | null> {
+    const { data, error } = await supabase
+        .from('lost_animal_pair_analyses')
+        .select('vision_confidence, match_reason, feature_scores, photos_compared')
+        .eq('lost_animal_id', lostAnimalId)
+        .eq('sighting_id', sightingId)
+        .eq('lost_photos_hash', hashes.lostPhotosHash)
+        .eq('sighting_photo_hash', hashes.sightingPhotoHash)
+        .maybeSingle()
+
+    if (error) {
+        console.error('Error fetching pair analysis:', error)
+    }
+    return data ?? null
+}
+
+async function savePairAnalysis(
+    supabase: any,
+    lostAnimal: any,
+    sightingId: string,
+    hashes: PairPhotoHashes,
+    matchResult: MatchResult
+) {
+    const { error } = await supabase
+        .from('lost_animal_pair_analyses')
+        .upsert({
+            lost_animal_id: lostAnimal.id,
+            sighting_id: sightingId,
+            lost_photos_hash: hashes.lostPhotosHash,
+            sighting_photo_hash: hashes.sightingPhotoHash,
+            owner_id: lostAnimal.user_id,
+            vision_confidence: matchResult.confidence,
+            match_reason: matchResult.reason,
+            feature_scores: matchResult.featureScores ?? null,
+            photos_compared: matchResult.photosCompared ?? null,
+            analyzed_at: new Date().toISOString(),
+        }, { onConflict: 'lost_animal_id,sighting_id,lost_photos_hash,sighting_photo_hash' })
+
+    if (error) console.error('Error saving pair analysis:', error)
+}
+
+// Vision calls made in the last 24 hours, optionally for one owner
+// Every analysis is stored in lost_animal_pair_analyses, so it doubles as the usage log
+async function countMatchCalls(supabase: any, ownerId?: string): Promise<number | null> {
+    let query = supabase
+        .from('lost_animal_pair_analyses')
+        .select('*', { count: 'exact', head: true })
+        .gte('analyzed_at', new Date(Date.now() - DAY_MS).toISOString())
+    if (ownerId) query = query.eq('owner_id', ownerId)
+
+    const { count, error } = await query
+    if (error) {
+        console.error('Match budget check error:', error)
+        return null
+    }
+    return count ?? 0
+}
+
+// If usage can't be counted, fail closed and leave the work to the queue
+async function loadMatchBudget(supabase: any): Promise<MatchBudget> {
+    const used = await countMatchCalls(supabase)
+    return {
+        globalRemaining: used === null ? 0 : Math.max(0, MATCH_BUDGETS.perDay - used),
+        userRemaining: new Map(),
+    }
+}
 
-        // Fallback: get all recent sightings without location filter
-        const { data: allSightings, error: allError } = await supabase
-            .from('animals')
+// Take one vision call from the budget, false if the owner or everyone is out
+async function reserveMatchCall(supabase: any, budget: MatchBudget, ownerId: string): Promise<boolean> {
+    if (budget.globalRemaining <= 0) return false
+
+    if (!budget.userRemaining.has(ownerId)) {
+        const { data: profile } = await supabase
+            .from('profiles')
+            .select('is_supporter')
+            .eq('id', ownerId)
+            .maybeSingle()
+        const limits = MATCH_BUDGETS.perUser[profile?.is_supporter ? 'supporter' : 'free']
+        const used = await countMatchCalls(supabase, ownerId)
+        budget.userRemaining.set(ownerId, used === null ? 0 : Math.max(0, limits.perDay - used))
+    }
+
+    const userRemaining = budget.userRemaining.get(ownerId) ?? 0
+    if (userRemaining <= 0) return false
+
+    budget.globalRemaining--
+    budget.userRemaining.set(ownerId, userRemaining - 1)
+    return true
+}
+
+// Park a pair until the budget allows a vision call, with the range it was found at
+async function queuePair(
+    supabase: any,
+    lostAnimal: any,
+    sightingId: string,
+    preScore: number,
+    range: SearchRange
+) {
+    const { error } = await supabase
+        .from('lost_animal_match_queue')
+        .upsert({
+            lost_animal_id: lostAnimal.id,
+            sighting_id: sightingId,
+            owner_id: lostAnimal.user_id,
+            pre_score: preScore,
+            radius_factor: range.radiusFactor,
+            date_tolerance_days: range.dateToleranceDays,
+            queued_at: new Date().toISOString(),
+        }, { onConflict: 'lost_animal_id,sighting_id' })
+
+    if (error) console.error('Error queueing pair:', error)
+}
+
+// Evaluate deferred pairs, highest pre-score first, while the budget lasts
+// Owners out of budget are skipped so their pairs can't hold up everyone else's
+// Returns how many left the queue
+async function drainMatchQueue(supabase: any, budget: MatchBudget): Promise<number> {
+    const exhaustedOwners = new Set(
+        [...budget.userRemaining].filter(([, remaining]) => remaining <= 0).map(([ownerId]) => ownerId)
+    )
+
+    let drained = 0
+    let evaluated = 0
+    while (evaluated < MAX_QUEUE_DRAIN_PER_RUN && budget.globalRemaining > 0) {
+        let query = supabase
+            .from('lost_animal_match_queue')
             .select('*')
-            .eq('animal_type', lostAnimal.animal_type)
-            .gte('spotted_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
-            .limit(50)
+            .order('pre_score', { ascending: false })
+            .order('queued_at', { ascending: true })
+            .limit(MAX_QUEUE_DRAIN_PER_RUN - evaluated)
+        if (exhaustedOwners.size > 0) {
+            query = query.not('owner_id', 'in', `(${[...exhaustedOwners].join(',')})`)
+        }
 
-        if (allError || !allSightings || allSightings.length === 0) {
-            console.log('No recent sightings found at all')
-            return
+        const { data: queued, error } = await query
+        if (error) {
+            console.error('Error fetching match queue:', error)
+            break
         }
+        if (!queued || queued.length === 0) break
+
+        for (const entry of queued) {
+            if (budget.globalRemaining <= 0) break
+            // Ran out earlier in this batch
+            if (exhaustedOwners.has(entry.owner_id)) continue
+            evaluated++
+
+            const { data: lostAnimal } = await supabase
+                .from('lost_animals')
+                .select('*')
+                .eq('id', entry.lost_animal_id)
+                .maybeSingle()
+            const { data: sighting } = await supabase
+                .from('animals')
+                .select('*')
+                .eq('id', entry.sighting_id)
+                .maybeSingle()
+
+            // Gone, found or matched in the meantime - nothing left to do
+            const matchedIds = lostAnimal ? await getMatchedSightingIds(supabase, lostAnimal.id) : new Set()
+            let outcome: PairOutcome = 'done'
+            if (
+                lostAnimal?.status === 'active' && !lostAnimal.hidden_at &&
+                sighting && !sighting.hidden_at && !matchedIds.has(sighting.id)
+            ) {
+                const lastSeen = await getLostAnimalCoordinates(supabase, lostAnimal.id)
+                outcome = await evaluatePair(supabase, budget, lostAnimal, lastSeen, sighting, {
+                    radiusFactor: entry.radius_factor,
+                    dateToleranceDays: entry.date_tolerance_days,
+                })
+            }
 
-        console.log(`Found ${allSightings.length} sightings (without location filter)`)
-
-        // Use the fallback sightings
-        for (const sighting of allSightings) {
-            console.log(`Comparing with sighting: ${sighting.id}`)
-            const matchResult = await analyzeMatch(supabase, lostAnimal, sighting)
-
-            if (matchResult && matchResult.confidence >= 80) {
-                console.log(`✅ MATCH FOUND! Confidence: ${matchResult.confidence}%`)
-
-                const { error: insertError } = await supabase
-                    .from('lost_animal_matches')
-                    .insert({
-                        lost_animal_id: lostAnimal.id,
-                        sighting_id: sighting.id,
-                        confidence_score: matchResult.confidence,
-                        match_reason: matchResult.reason,
-                    })
-
-                if (!insertError) {
-                    await sendMatchNotification(supabase, lostAnimal, sighting, matchResult.confidence)
-                }
-            } else {
-                console.log(`No match (confidence: ${matchResult?.confidence || 0}%)`)
+            // Deferred again means this owner is still out of budget
+            if (outcome === 'deferred') {
+                exhaustedOwners.add(entry.owner_id)
+                continue
             }
+
+            await supabase
+                .from('lost_animal_match_queue')
+                .delete()
+                .eq('lost_animal_id', entry.lost_animal_id)
+                .eq('sighting_id', entry.sighting_id)
+            drained++
         }
-        return
     }
 
-    if (!sightings || sightings.length === 0) {
-        console.log('No recent sightings within 50km - trying without location filter...')
+    console.log(`Drained ${drained} deferred pairs`)
+    return drained
+}
 
-        // Fallback to all sightings
-        const { data: allSightings } = await supabase
-            .from('animals')
-            .select('*')
+// Extract coordinates from the PostGIS geography column, null if unavailable
+async function getLostAnimalCoordinates(supabase: any, lostAnimalId: string): Promise<Coordinates | null> {
+    const { data: coordData, error: coordError } = await supabase
+        .rpc('get_lost_animal_coordinates', { lost_animal_id: lostAnimalId })
+
+    if (coordError || !coordData || coordData.length === 0) {
+        console.error('Could not fetch location via RPC:', coordError)
+        return null
+    }
+
+    console.log(`Location: lat=${coordData[0].latitude}, lng=${coordData[0].longitude}`)
+    return { latitude: coordData[0].latitude, longitude: coordData[0].longitude }
+}
+
+function getSightingCoordinates(sighting: any): Coordinates | null {
+    if (typeof sighting.latitude !== 'number' || typeof sighting.longitude !== 'number') {
+        return null
+    }
+    return { latitude: sighting.latitude, longitude: sighting.longitude }
+}
+
+// Sightings of the same type since the animal went missing, within its species range
+async function findCandidateSightings(
+    supabase: any,
+    lostAnimal: any,
+    lastSeen: Coordinates | null,
+    range: SearchRange
+): Promise<any[]> {
+    // Both posts' coordinates may be fuzzed, see 17-add-location-privacy.sql
+    const radiusKm = getRoamingModel(lostAnimal.animal_type).maxRadiusKm * range.radiusFactor
+        + getFuzzRadiusKm(lostAnimal.location_privacy)
+        + Math.max(...Object.values(FUZZ_RADIUS_KM))
+    const since = new Date(
+        new Date(lostAnimal.last_seen_date).getTime() - range.dateToleranceDays * DAY_MS
+    ).toISOString()
+
+    if (lastSeen) {
+        console.log(`Searching for ${lostAnimal.animal_type} sightings within ${radiusKm}km...`)
+
+        const { data: sightings, error: sightingsError } = await supabase
+            .rpc('get_nearby_animals', {
+                lat: lastSeen.latitude,
+                lng: lastSeen.longitude,
+                radius_km: radiusKm,
+            })
             .eq('animal_type', lostAnimal.animal_type)
-            .gte('spotted_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
-            .limit(50)
+            .gte('spotted_at', since)
 
-        if (!allSightings || allSightings.length === 0) {
-            console.log('No recent sightings found at all')
-            return
+        if (!sightingsError) {
+            return (sightings || []).filter((s: any) => !s.hidden_at)
         }
 
-        console.log(`Found ${allSightings.length} sightings (fallback)`)
-
-        for (const sighting of allSightings) {
-            console.log(`Comparing with sighting: ${sighting.id}`)
-            const matchResult = await analyzeMatch(supabase, lostAnimal, sighting)
-
-            if (matchResult && matchResult.confidence >= 80) {
-                console.log(`✅ MATCH FOUND! Confidence: ${matchResult.confidence}%`)
-
-                const { error: insertError } = await supabase
-                    .from('lost_animal_matches')
-                    .insert({
-                        lost_animal_id: lostAnimal.id,
-                        sighting_id: sighting.id,
-                        confidence_score: matchResult.confidence,
-                        match_reason: matchResult.reason,
-                    })
-
-                if (!insertError) {
-                    await sendMatchNotification(supabase, lostAnimal, sighting, matchResult.confidence)
-                }
-            } else {
-                console.log(`No match (confidence: ${matchResult?.confidence || 0}%)`)
-            }
-        }
-        return
+        console.error('Error fetching nearby animals:', sightingsError)
     }
 
-    // Analyze each sighting for potential match
-    console.log(`Analyzing ${sightings.length} sightings for matches...`)
+    // Fallback: get recent sightings without location filter
+    // This ensures matching still works even if location parsing fails
+    // Include rescued animals so owners can contact rescuers
+    console.log('Trying without location filter...')
+    const { data: allSightings, error: allError } = await supabase
+        .from('animals')
+        .select('*')
+        .eq('animal_type', lostAnimal.animal_type)
+        .is('hidden_at', null)
+        .gte('spotted_at', since)
+        .order('spotted_at', { ascending: false })
+        .limit(50)
+
+    if (allError) {
+        console.error('Error fetching sightings (fallback):', allError)
+        return []
+    }
 
-    for (const sighting of sightings) {
-        console.log(`Comparing with sighting: ${sighting.id}`)
-        const matchResult = await analyzeMatch(supabase, lostAnimal, sighting)
+    return allSightings || []
+}
 
-        if (matchResult && matchResult.confidence >= 80) {
-            console.log(`✅ MATCH FOUND! Confidence: ${matchResult.confidence}%`)
+// Score one lost animal / sighting pair and record it if it clears the threshold
+// Pairs analyzed before with the same photos are only re-weighted for the
+// current range. Returns 'deferred' when the pair was queued for lack of budget
+async function evaluatePair(
+    supabase: any,
+    budget: MatchBudget,
+    lostAnimal: any,
+    lastSeen: Coordinates | null,
+    sighting: any,
+    range: SearchRange = DEFAULT_SEARCH_RANGE
+): Promise<PairOutcome> {
+    const proximity = scoreProximity(
+        lostAnimal.animal_type,
+        lastSeen,
+        lostAnimal.last_seen_date,
+        getSightingCoordinates(sighting),
+        sighting.spotted_at,
+        range,
+        getFuzzRadiusKm(lostAnimal.location_privacy) + getFuzzRadiusKm(sighting.location_privacy)
+    )
+
+    // Outside the species range or before the animal went missing - skip the vision call
+    if (!proximity) {
+        console.log(`Skipping ${sighting.id}: outside ${lostAnimal.animal_type} roaming range`)
+        return 'done'
+    }
 
-            // Insert match record
-            const { error: insertError } = await supabase
-                .from('lost_animal_matches')
-                .insert({
-                    lost_animal_id: lostAnimal.id,
-                    sighting_id: sighting.id,
-                    confidence_score: matchResult.confidence,
-                    match_reason: matchResult.reason,
-                })
+    // Cheap pre-score: the confidence a perfect photo match would reach here
+    // Pairs that can't clear the threshold even then never need the vision model
+    const preScore = weightConfidence(100, proximity)
+    if (preScore < MATCH_THRESHOLD) {
+        console.log(`Skipping ${sighting.id}: at most ${preScore}% this far away and this long after`)
+        return 'done'
+    }
 
-            if (insertError) {
-                console.error('Error inserting match:', insertError)
-            } else {
-                console.log('Match record inserted successfully')
+    const hashes = await getPairPhotoHashes(lostAnimal, sighting)
+    const previous = await findPairAnalysis(supabase, lostAnimal.id, sighting.id, hashes)
+
+    let matchResult: MatchResult | null
+    if (previous) {
+        console.log(`Reusing analysis of ${sighting.id} (vision ${previous.vision_confidence}%)`)
+        matchResult = {
+            confidence: previous.vision_confidence,
+            reason: previous.match_reason || 'No reason provided',
+            featureScores: previous.feature_scores ?? undefined,
+            photosCompared: previous.photos_compared ?? undefined,
+        }
+    } else {
+        matchResult = precheckPair(lostAnimal, sighting)
+        if (!matchResult) {
+            if (!(await reserveMatchCall(supabase, budget, lostAnimal.user_id))) {
+                console.log(`Deferring ${sighting.id}: match budget used up (pre-score ${preScore}%)`)
+                await queuePair(supabase, lostAnimal, sighting.id, preScore, range)
+                return 'deferred'
+            }
+
+            matchResult = await analyzeMatch(supabase, lostAnimal, sighting)
+            if (matchResult) {
+                await savePairAnalysis(supabase, lostAnimal, sighting.id, hashes, matchResult)
             }
-        } else {
-            console.log(`No match (confidence: ${matchResult?.confidence || 0}%)`)
         }
     }
+
+    if (!matchResult) {
+        console.log('No match (analysis failed)')
+        return 'done'
+    }
+
+    const visionConfidence = matchResult.confidence
+    const confidence = weightConfidence(visionConfidence, proximity)
+    console.log(
+        `Vision ${visionConfidence}%, distance ${proximity.distanceKm?.toFixed(1) ?? '?'}km ` +
+        `(expected ${proximity.expectedRadiusKm.toFixed(1)}km), ` +
+        `${proximity.daysSinceLastSeen.toFixed(1)} days -> ${confidence}%`
+    )
+
+    if (confidence < MATCH_THRESHOLD) {
+        console.log(`No match (confidence: ${confidence}%)`)
+        return 'done'
+    }
+
+    console.log(`✅ MATCH FOUND! Confidence: ${confidence}%`)
+    console.log(`Reason: ${matchResult.reason}`)
+
+    const { error: insertError, matchId } = await saveMatch(supabase, lostAnimal, sighting, {
+        ...matchResult,
+        confidence,
+        visionConfidence,
+        proximity,
+    })
+
+    if (insertError) {
+        console.error('Error inserting match:', insertError)
+    } else {
+        console.log('Match record inserted successfully')
+        // Send push notification to lost animal owner
+        await sendMatchNotification(supabase, lostAnimal, sighting, confidence, matchId)
+        // And to the sighting's reporter, if they opted in
+        if (matchId) {
+            await sendReporterNotification(supabase, lostAnimal, sighting, matchId)
+        }
+    }
+    return 'done'
+}
+
+// Rule a pair out without the vision model when the basics contradict
+function precheckPair(lostAnimal: any, sighting: any): MatchResult | null {
+    // Pre-check: Animal types must match
+    if (lostAnimal.animal_type !== sighting.animal_type) {
+        console.log(`Type mismatch: ${lostAnimal.animal_type} vs ${sighting.animal_type}`)
+        return { confidence: 0, reason: 'Different animal types (cat vs dog)' }
+    }
+
+    // Pre-check: If the coats clearly contradict each other, skip AI call
+    const coatCheck = areCoatsCompatible(parseCoat(lostAnimal.color), parseCoat(sighting.color))
+    if (!coatCheck.compatible) {
+        console.log(`Coat mismatch: ${lostAnimal.color} vs ${sighting.color}`)
+        return { confidence: 0, reason: coatCheck.reason ?? 'Different coats' }
+    }
+
+    return null
 }
 
 async function analyzeMatch(
     supabase: any,
     lostAnimal: any,
     sighting: any
-): Promise<{ confidence: number; reason: string } | null> {
+): Promise<MatchResult | null> {
     try {
-        // Pre-check: Animal types must match
-        if (lostAnimal.animal_type !== sighting.animal_type) {
-            console.log(`Type mismatch: ${lostAnimal.animal_type} vs ${sighting.animal_type}`);
-            return { confidence: 0, reason: 'Different animal types (cat vs dog)' };
-        }
-
-        // Pre-check: If colors are explicitly different, skip AI call
-        if (lostAnimal.color && sighting.color) {
-            const lostColor = lostAnimal.color.toLowerCase();
-            const sightingColor = sighting.color.toLowerCase();
-            
-            // Check for obvious color mismatches
-            const colorMismatches = [
-                ['white', 'orange'], ['white', 'black'], ['white', 'brown'],
-                ['black', 'white'], ['black', 'orange'], 
-                ['orange', 'white'], ['orange', 'black'],
-            ];
-            
-            for (const [color1, color2] of colorMismatches) {
-                if ((lostColor.includes(color1) && sightingColor.includes(color2)) ||
-                    (lostColor.includes(color2) && sightingColor.includes(color1))) {
-                    console.log(`Color mismatch: ${lostColor} vs ${sightingColor}`);
-                    return { confidence: 0, reason: `Different colors: ${lostColor} vs ${sightingColor}` };
-                }
-            }
-        }
+        // Compare every photo of the lost animal against the sighting photo
+        const lostPhotos: string[] = [
+            lostAnimal.photo_url_1,
+            lostAnimal.photo_url_2,
+            lostAnimal.photo_url_3,
+        ].filter(Boolean)
+        const photoList = lostPhotos.length === 1
+            ? 'Photo 1 is the LOST ANIMAL'
+            : `Photos 1-${lostPhotos.length} are the LOST ANIMAL (different angles of the same animal)`
+
+        const provider = getVisionProvider(MATCH_FIXTURE)
+        let result
+        try {
+            result = await provider.complete({
+                system: 'You are an expert at identifying and matching animals. Compare the lost animal with the sighting and score each visual feature separately. Return ONLY valid JSON.',
+                prompt: `You are comparing animal photos to determine if they show the EXACT SAME individual animal.
+${photoList}. Photo ${lostPhotos.length + 1} is the SIGHTING.
 
-        // Use OpenAI to compare the images and descriptions
-        const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                model: 'gpt-4o',
-                messages: [
-                    {
-                        role: 'system',
-                        content: 'You are an expert at identifying and matching animals. Compare the lost animal with the sighting and determine if they could be the same animal. Return ONLY valid JSON.',
-                    },
-                    {
-                        role: 'user',
-                        content: [
-                            {
-                                type: 'text',
-                                text: `You are comparing two animal photos to determine if they are the EXACT SAME individual animal.
-
-LOST ANIMAL (Photo 1):
+LOST ANIMAL:
 - Name: ${lostAnimal.name}
 - Type: ${lostAnimal.animal_type}
 - Breed: ${lostAnimal.breed || 'Unknown'}
@@ -382,88 +791,73 @@ LOST ANIMAL (Photo 1):
 - Description: ${lostAnimal.description}
 - Distinctive features: ${lostAnimal.distinctive_features?.join(', ') || 'None listed'}
 
-SIGHTING (Photo 2):
+SIGHTING:
 - Type: ${sighting.animal_type}
 - Breed: ${sighting.breed || 'Unknown'}
 - Color: ${sighting.color || 'Unknown'}
 - Description: ${sighting.description || 'No description'}
 
-CRITICAL MATCHING RULES - FOLLOW THESE EXACTLY:
-1. SPECIES MUST MATCH: If one is a DOG and the other is a CAT, confidence MUST be 0%. DOGS AND CATS ARE NEVER THE SAME ANIMAL.
-2. COLOR MUST MATCH: If one is white and the other is orange/brown/tabby, confidence MUST be 0%
-3. PATTERN MUST MATCH: Solid color vs striped/tabby is NOT a match
-4. SIZE MUST BE SIMILAR: A kitten cannot match an adult cat
-5. DISTINCTIVE MARKINGS: Unique markings (spots, patches) must be present in both
-6. BE VERY STRICT: Only high confidence (80%+) if you are certain it's the same individual animal
-7. IF ANIMAL TYPES DON'T MATCH (cat vs dog), IMMEDIATELY return confidence: 0
-
-EXAMINE CAREFULLY:
-- Primary coat color (white, black, orange, gray, brown, etc.)
-- Patterns (solid, tabby stripes, calico patches, tuxedo markings)
-- Facial features and markings
-- Eye color if visible
-- Body size and build
-- Any unique identifying marks
+Score how well the SIGHTING matches the LOST ANIMAL on each feature, from 0 (clearly different) to 100 (identical).
+Use every lost animal photo - a feature hidden in one photo may be visible in another.
+If a feature cannot be seen in the sighting photo or in any lost animal photo, use null instead of guessing.
+
+- coat_color: primary and secondary coat colors (white, black, orange, gray, brown, etc.)
+- pattern: solid, tabby stripes, calico patches, tuxedo, tortoiseshell, spotted, etc.
+- size: body size, build and life stage (a kitten cannot match an adult)
+- markings: unique marks such as spots, patches, blazes, scars, ear tips
+- eye_color: iris color
+
+SCORING RULES:
+1. If one is a DOG and the other is a CAT, score every feature 0.
+2. White vs orange/brown/tabby coat is a coat_color score below 20.
+3. Solid coat vs striped/tabby coat is a pattern score below 20.
+4. Only score above 80 when you are confident the feature belongs to the same individual.
 
 Return ONLY valid JSON (no markdown, no extra text):
 {
-  "isMatch": true or false,
-  "confidence": number from 0 to 100,
-  "reason": "detailed explanation comparing specific visual features, especially color"
+  "features": {
+    "coat_color": { "score": number or null, "note": "short comparison" },
+    "pattern": { "score": number or null, "note": "short comparison" },
+    "size": { "score": number or null, "note": "short comparison" },
+    "markings": { "score": number or null, "note": "short comparison" },
+    "eye_color": { "score": number or null, "note": "short comparison" }
+  },
+  "reason": "overall explanation comparing the specific visual features"
 }`,
-                            },
-                            {
-                                type: 'image_url',
-                                image_url: {
-                                    url: lostAnimal.photo_url_1,
-                                    detail: 'high',
-                                },
-                            },
-                            {
-                                type: 'image_url',
-                                image_url: {
-                                    url: sighting.image_url,
-                                    detail: 'high',
-                                },
-                            },
-                        ],
-                    },
+                images: [
+                    ...lostPhotos.map((url) => ({ url, detail: 'high' as const })),
+                    { url: sighting.image_url, detail: 'high' },
                 ],
-                max_tokens: 300,
+                maxTokens: 500,
                 temperature: 0.3,
-            }),
-        })
-
-        if (!openaiResponse.ok) {
-            console.error('OpenAI error:', await openaiResponse.text())
+            })
+        } catch (error) {
+            if (!(error instanceof VisionProviderError)) throw error
+            console.error(`Vision API error (${provider.name}):`, error.details)
             return null
         }
 
-        const result = await openaiResponse.json()
-        const content = result.choices[0].message.content
+        console.log(`Vision response content (${provider.name}/${provider.model}):`, result.content)
 
-        console.log('OpenAI response content:', content)
-
-        // Try to extract JSON from the response
-        let analysis
-        try {
-            // Remove markdown code blocks if present
-            const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
-            const jsonMatch = cleanContent.match(/\{[\s\S]*\}/)
-            analysis = jsonMatch ? JSON.parse(jsonMatch[0]) : JSON.parse(cleanContent)
-        } catch (parseError) {
-            console.error('Failed to parse OpenAI response:', parseError)
-            console.error('Content was:', content)
+        const analysis = parseJsonContent(result.content)
+        if (!analysis) {
+            console.error('Failed to parse vision response')
+            console.error('Content was:', result.content)
             return null
         }
 
         console.log('Parsed analysis:', analysis)
 
+        const featureScores = normalizeFeatureScores(analysis.features)
+        const confidence = combineFeatureScores(featureScores)
+
         // Return the result regardless of match status (for logging)
-        // Only create match record if confidence >= 80
+        // evaluatePair weights it by distance and time before comparing to MATCH_THRESHOLD
         return {
-            confidence: analysis.confidence || 0,
+            confidence,
             reason: analysis.reason || 'No reason provided',
+            featureScores,
+            photosCompared: lostPhotos.length,
         }
     } catch (error) {
         console.error('Analysis error:', error)
@@ -471,45 +865,200 @@ Return ONLY valid JSON (no markdown, no extra text):
     }
 }
 
+// Coerce the model's per-feature output into 0-100 scores, null when not visible
+function normalizeFeatureScores(raw: any): FeatureScores {
+    const scores = {} as FeatureScores
+    for (const key of Object.keys(FEATURE_WEIGHTS) as FeatureKey[]) {
+        const entry = raw?.[key]
+        const value = typeof entry === 'number' ? entry : entry?.score
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+            scores[key] = null
+            continue
+        }
+        scores[key] = {
+            score: Math.max(0, Math.min(100, Math.round(value))),
+            note: typeof entry?.note === 'string' ? entry.note : undefined,
+        }
+    }
+    return scores
+}
+
+// Weighted average of the visible features, capped by any decisive mismatch
+function combineFeatureScores(scores: FeatureScores): number {
+    let weightedSum = 0
+    let totalWeight = 0
+    for (const key of Object.keys(FEATURE_WEIGHTS) as FeatureKey[]) {
+        const feature = scores[key]
+        if (!feature) continue
+        weightedSum += feature.score * FEATURE_WEIGHTS[key]
+        totalWeight += FEATURE_WEIGHTS[key]
+    }
+
+    // Nothing comparable was visible
+    if (totalWeight === 0) return 0
+
+    let confidence = weightedSum / totalWeight
+    for (const key of DECISIVE_FEATURES) {
+        const feature = scores[key]
+        if (feature && feature.score < DECISIVE_MISMATCH_SCORE) {
+            confidence = Math.min(confidence, feature.score)
+        }
+    }
+    return Math.round(confidence)
+}
+
+// Insert a match record with its feature breakdown, returns the insert error if any
+async function saveMatch(
+    supabase: any,
+    lostAnimal: any,
+    sighting: any,
+    matchResult: MatchResult
+) {
+    const { data, error } = await supabase
+        .from('lost_animal_matches')
+        .insert({
+            lost_animal_id: lostAnimal.id,
+            sighting_id: sighting.id,
+            confidence_score: matchResult.confidence,
+            match_reason: matchResult.reason,
+            feature_scores: matchResult.featureScores ?? null,
+            photos_compared: matchResult.photosCompared ?? null,
+            vision_confidence: matchResult.visionConfidence ?? null,
+            distance_km: matchResult.proximity?.distanceKm ?? null,
+            days_since_last_seen: matchResult.proximity?.daysSinceLastSeen ?? null,
+            proximity_score: matchResult.proximity?.score ?? null,
+        })
+        .select('id')
+        .single()
+    return { error, matchId: data?.id as string | undefined }
+}
+
 async function sendMatchNotification(
     supabase: any,
     lostAnimal: any,
     sighting: any,
-    confidence: number
+    confidence: number,
+    matchId?: string
 ) {
     try {
         // Get user's push token
         const { data: profile } = await supabase
             .from('profiles')
-            .select('push_token')
+            .select('push_token, notification_digest')
             .eq('id', lostAnimal.user_id)
             .single()
 
+        // Digest users get the match in their next digest instead
+        if (profile?.notification_digest && profile.notification_digest !== 'off') {
+            const { error } = await supabase.rpc('queue_digest_items', {
+                p_items: [{
+                    auth_user_id: lostAnimal.user_id,
+                    kind: 'lost_match',
+                    animal_id: sighting.id,
+                    lost_animal_id: lostAnimal.id,
+                    summary: `${confidence}% match for ${lostAnimal.name}`,
+                }],
+            })
+
+            if (error) console.error('Error queueing digest item:', error)
+            return
+        }
+
         if (!profile?.push_token) {
             console.log('No push token for user')
             return
         }
 
-        // Send push notification via Expo
-        await fetch('https://exp.host/--/api/v2/push/send', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
+        const result = await sendExpoPush([{
+            to: profile.push_token,
+            title: '🔍 Potential Match Found!',
+            body: `We found a ${confidence}% match for ${lostAnimal.name}. Tap to view.`,
+            data: {
+                type: 'lost_animal_match',
+                matchId,
+                lostAnimalId: lostAnimal.id,
+                sightingId: sighting.id,
             },
-            body: JSON.stringify({
-                to: profile.push_token,
-                title: '🔍 Potential Match Found!',
-                body: `We found a ${confidence}% match for ${lostAnimal.name}. Tap to view.`,
-                data: {
-                    type: 'lost_animal_match',
-                    lostAnimalId: lostAnimal.id,
-                    sightingId: sighting.id,
-                },
-            }),
-        })
+        }])
 
-        console.log('Notification sent successfully')
+        if (result.sent > 0) console.log('Notification sent successfully')
     } catch (error) {
         console.error('Notification error:', error)
     }
 }
+
+// Tell the person who posted the sighting it may be someone's pet
+// Opt-in via profiles.notify_sighting_matches. Marking the match as notified
+// is what lets the reporter open it (16-add-reporter-match-updates.sql)
+async function sendReporterNotification(
+    supabase: any,
+    lostAnimal: any,
+    sighting: any,
+    matchId: string
+) {
+    try {
+        const reporterId = sighting.auth_user_id
+        // Owners who reported the sighting themselves already know
+        if (!reporterId || reporterId === lostAnimal.user_id) return
+
+        const { data: profile } = await supabase
+            .from('profiles')
+            .select('push_token, notify_sighting_matches, notification_digest')
+            .eq('id', reporterId)
+            .single()
+
+        if (!profile?.notify_sighting_matches) {
+            console.log('Reporter has not opted in to match notifications')
+            return
+        }
+
+        const { error: notifiedError } = await supabase
+            .from('lost_animal_matches')
+            .update({ reporter_notified_at: new Date().toISOString() })
+            .eq('id', matchId)
+
+        if (notifiedError) {
+            console.error('Error marking reporter notified:', notifiedError)
+            return
+        }
+
+        const title = `Your sighting may be ${lostAnimal.name}`
+
+        // Digest users get the match in their next digest instead
+        if (profile.notification_digest && profile.notification_digest !== 'off') {
+            const { error } = await supabase.rpc('queue_digest_items', {
+                p_items: [{
+                    auth_user_id: reporterId,
+                    kind: 'lost_match',
+                    animal_id: sighting.id,
+                    lost_animal_id: lostAnimal.id,
+                    summary: title,
+                }],
+            })
+
+            if (error) console.error('Error queueing reporter digest item:', error)
+            return
+        }
+
+        if (!profile.push_token) {
+            console.log('No push token for reporter')
+            return
+        }
+
+        const result = await sendExpoPush([{
+            to: profile.push_token,
+            title: `🐾 ${title}`,
+            body: `Someone is looking for their ${lostAnimal.animal_type}. Is it still around? Tap to let them know.`,
+            data: {
+                type: 'sighting_match',
+                matchId,
+                lostAnimalId: lostAnimal.id,
+                sightingId: sighting.id,
+            },
+        }])
+
+        if (result.sent > 0) console.log('Reporter notification sent successfully')
+    } catch (error) {
+        console.error('Reporter notification error:', error)
+    }
+}
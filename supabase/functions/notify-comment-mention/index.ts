@@ -0,0 +1,109 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendExpoPush } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface MentionProfile {
+  id: string
+  display_name: string | null
+  push_token: string | null
+}
+
+// Longest comment excerpt shown in the push
+const EXCERPT_LENGTH = 120
+
+// Tell a user they were @mentioned in a comment
+// Called by the on_comment_mention_notify trigger (19-add-comment-threads.sql)
+// with the service role key, never by the app
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const authHeader = req.headers.get('Authorization') ?? ''
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { commentId, mentionedUserId } = await req.json()
+
+    if (!commentId || !mentionedUserId) {
+      return new Response(
+        JSON.stringify({ error: 'Comment ID and mentioned user ID required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    const { data: comment, error: commentError } = await supabaseAdmin
+      .from('comments')
+      .select('id, animal_id, auth_user_id, comment_text, hidden_at')
+      .eq('id', commentId)
+      .single()
+
+    if (commentError || !comment) {
+      return new Response(
+        JSON.stringify({ error: 'Comment not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Hidden before the push went out
+    if (comment.hidden_at) {
+      return new Response(
+        JSON.stringify({ success: true, notified: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: profiles } = await supabaseAdmin
+      .from('profiles')
+      .select('id, display_name, push_token')
+      .in('id', [mentionedUserId, comment.auth_user_id])
+
+    const mentioned = profiles?.find((p: MentionProfile) => p.id === mentionedUserId)
+    const author = profiles?.find((p: MentionProfile) => p.id === comment.auth_user_id)
+
+    if (!mentioned?.push_token) {
+      return new Response(
+        JSON.stringify({ success: true, notified: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const text: string = comment.comment_text || ''
+    const excerpt = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text
+    const result = await sendExpoPush([{
+      to: mentioned.push_token,
+      title: `${author?.display_name || 'Someone'} mentioned you`,
+      body: excerpt,
+      data: { type: 'comment_mention', animalId: comment.animal_id, commentId },
+      sound: 'default',
+    }])
+
+    return new Response(
+      JSON.stringify({ success: true, notified: result.sent }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Notify comment mention error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to notify mentioned user', message: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,106 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendExpoPush } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const STILL_THERE_TEXT: Record<string, string> = {
+  still_here: 'is still there',
+  moved_on: 'has moved on',
+  not_sure: "isn't sure if it's still there",
+}
+
+// Tell a lost animal's owner what the sighting's reporter knows now
+// Called by the on_match_reporter_update_notify trigger
+// (16-add-reporter-match-updates.sql) with the service role key, never by the app
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const authHeader = req.headers.get('Authorization') ?? ''
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { updateId } = await req.json()
+
+    if (!updateId) {
+      return new Response(
+        JSON.stringify({ error: 'Update ID required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    const { data: update, error: updateError } = await supabaseAdmin
+      .from('match_reporter_updates')
+      .select(`
+        id,
+        match_id,
+        still_there,
+        match:lost_animal_matches(
+          id,
+          lost_animal:lost_animals(id, name, user_id)
+        )
+      `)
+      .eq('id', updateId)
+      .single()
+
+    if (updateError || !update) {
+      return new Response(
+        JSON.stringify({ error: 'Update not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const lostAnimal = update.match?.lost_animal
+    const { data: profile } = lostAnimal?.user_id
+      ? await supabaseAdmin
+        .from('profiles')
+        .select('push_token')
+        .eq('id', lostAnimal.user_id)
+        .single()
+      : { data: null }
+
+    if (!profile?.push_token) {
+      return new Response(
+        JSON.stringify({ success: true, notified: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const name = lostAnimal?.name || 'your pet'
+    const result = await sendExpoPush([{
+      to: profile.push_token,
+      title: `Update on the sighting of ${name}`,
+      body: `The person who saw the animal says it ${STILL_THERE_TEXT[update.still_there] ?? 'has news'}. Tap to see more.`,
+      data: { type: 'match_reporter_update', matchId: update.match_id },
+      sound: 'default',
+    }])
+
+    return new Response(
+      JSON.stringify({ success: true, notified: result.sent }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Notify match owner error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to notify match owner', message: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
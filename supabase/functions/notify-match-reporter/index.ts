@@ -0,0 +1,106 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendExpoPush } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Tell a sighting's reporter that the owner confirmed or reunited a match
+// Called by the on_match_review_notify trigger (13-add-match-review.sql)
+// with the service role key, never by the app
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const authHeader = req.headers.get('Authorization') ?? ''
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { matchId } = await req.json()
+
+    if (!matchId) {
+      return new Response(
+        JSON.stringify({ error: 'Match ID required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    const { data: match, error: matchError } = await supabaseAdmin
+      .from('lost_animal_matches')
+      .select(`
+        id,
+        review_status,
+        lost_animal:lost_animals(id, name, user_id),
+        sighting:animals(id, auth_user_id)
+      `)
+      .eq('id', matchId)
+      .single()
+
+    if (matchError || !match) {
+      return new Response(
+        JSON.stringify({ error: 'Match not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const reporterId = match.sighting?.auth_user_id
+    // Owners who reported the sighting themselves don't need telling
+    if (!reporterId || reporterId === match.lost_animal?.user_id) {
+      return new Response(
+        JSON.stringify({ success: true, notified: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('push_token')
+      .eq('id', reporterId)
+      .single()
+
+    if (!profile?.push_token) {
+      return new Response(
+        JSON.stringify({ success: true, notified: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const name = match.lost_animal?.name || 'A lost pet'
+    const reunited = match.review_status === 'reunited'
+    const result = await sendExpoPush([{
+      to: profile.push_token,
+      title: reunited ? `🎉 ${name} is home!` : `Your sighting may be ${name}`,
+      body: reunited
+        ? `${name} was reunited with their owner thanks to your sighting.`
+        : `${name}'s owner thinks the animal you reported is their pet. Tap to get in touch.`,
+      data: { type: reunited ? 'match_reunited' : 'match_confirmed', matchId },
+      sound: 'default',
+    }])
+
+    return new Response(
+      JSON.stringify({ success: true, notified: result.sent }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Notify match reporter error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to notify match reporter', message: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,164 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ExpoPushMessage, sendExpoPush } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ZoneMatch {
+  zone_id: string
+  zone_name: string
+  auth_user_id: string
+  push_token: string
+  distance_km: number
+  // Set while the zone is in quiet hours
+  quiet_until: string | null
+}
+
+// Push watch-zone owners about a new sighting inside their zones
+// Called by the on_new_sighting_watch_zones trigger (11-add-watch-zones.sql)
+// with the service role key, never by the app
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const authHeader = req.headers.get('Authorization') ?? ''
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { sightingId } = await req.json()
+
+    if (!sightingId) {
+      return new Response(
+        JSON.stringify({ error: 'Sighting ID required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    const { data: sighting, error: sightingError } = await supabaseAdmin
+      .from('animals')
+      .select('id, name, animal_type')
+      .eq('id', sightingId)
+      .single()
+
+    if (sightingError || !sighting) {
+      return new Response(
+        JSON.stringify({ error: 'Sighting not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: zones, error: zonesError } = await supabaseAdmin
+      .rpc('find_watch_zones_for_sighting', { p_sighting_id: sightingId })
+
+    if (zonesError) throw zonesError
+
+    const matches = (zones ?? []) as ZoneMatch[]
+    if (matches.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, notified: 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // One push per user even when several of their zones overlap, naming the
+    // closest one that isn't in quiet hours
+    const closestByUser = new Map<string, ZoneMatch>()
+    matches.forEach((match) => {
+      const current = closestByUser.get(match.auth_user_id)
+      if (!current || isPreferredZone(match, current)) {
+        closestByUser.set(match.auth_user_id, match)
+      }
+    })
+
+    // Digest users get the sighting queued for their next digest instead, and
+    // sightings in quiet hours are queued until the quiet hours end
+    const { data: digestProfiles } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .in('id', Array.from(closestByUser.keys()))
+      .neq('notification_digest', 'off')
+
+    const digestUserIds = new Set((digestProfiles ?? []).map((profile: { id: string }) => profile.id))
+    const isQueued = (match: ZoneMatch) => digestUserIds.has(match.auth_user_id) || match.quiet_until !== null
+    const immediate = Array.from(closestByUser.values()).filter((match) => !isQueued(match))
+    const queued = Array.from(closestByUser.values()).filter(isQueued)
+
+    if (queued.length > 0) {
+      const { error: queueError } = await supabaseAdmin.rpc('queue_digest_items', {
+        p_items: queued.map((match) => ({
+          auth_user_id: match.auth_user_id,
+          kind: 'sighting',
+          animal_id: sightingId,
+          summary: `Near ${match.zone_name}`,
+          deliver_after: match.quiet_until,
+        })),
+      })
+
+      if (queueError) {
+        console.error('Error queueing digest items:', queueError)
+      }
+    }
+
+    const species = sighting.animal_type === 'dog' ? 'Dog' : 'Cat'
+    const messages: ExpoPushMessage[] = immediate.map((match) => ({
+      to: match.push_token,
+      title: `${species} spotted near ${match.zone_name}`,
+      body: `${sighting.name || `A ${species.toLowerCase()}`} was seen ${formatDistance(match.distance_km)} from the center of your zone`,
+      data: { type: 'watch_zone_sighting', sightingId, zoneId: match.zone_id },
+      sound: 'default',
+    }))
+
+    const result = await sendExpoPush(messages)
+
+    // Record every matched zone, including overlapping ones, so retries skip them
+    const { error: alertsError } = await supabaseAdmin
+      .from('watch_zone_alerts')
+      .upsert(
+        matches.map((match) => ({ zone_id: match.zone_id, animal_id: sightingId })),
+        { onConflict: 'zone_id,animal_id', ignoreDuplicates: true }
+      )
+
+    if (alertsError) {
+      console.error('Error recording watch zone alerts:', alertsError)
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, notified: result.sent, failed: result.failed, queued: queued.length }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Notify watch zones error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to notify watch zones', message: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+// Zones outside quiet hours first, then the closest
+function isPreferredZone(match: ZoneMatch, current: ZoneMatch): boolean {
+  if ((match.quiet_until === null) !== (current.quiet_until === null)) {
+    return match.quiet_until === null
+  }
+  return match.distance_km < current.distance_km
+}
+
+function formatDistance(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`
+}
@@ -0,0 +1,144 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ExpoPushMessage, sendExpoPush } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface DueUser {
+  auth_user_id: string
+  // 'off' users only have sightings held back by watch-zone quiet hours
+  notification_digest: 'off' | 'hourly' | 'daily'
+  push_token: string
+}
+
+interface DigestItem {
+  id: string
+  kind: 'sighting' | 'rescue' | 'lost_match'
+}
+
+const DIGEST_TITLES: Record<DueUser['notification_digest'], string> = {
+  off: 'While your alerts were quiet',
+  hourly: 'Your hourly digest',
+  daily: 'Your daily digest',
+}
+
+const KIND_LABELS: Record<DigestItem['kind'], [string, string]> = {
+  sighting: ['new sighting', 'new sightings'],
+  rescue: ['rescue', 'rescues'],
+  lost_match: ['possible match', 'possible matches'],
+}
+
+// Send one push per digest user summarising their queued items, and one to
+// other users for sightings held back by quiet hours that have now ended
+// Scheduled hourly by 12-add-notification-digest.sql with the service role key
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const authHeader = req.headers.get('Authorization') ?? ''
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    const { data: dueUsers, error: dueError } = await supabaseAdmin.rpc('get_due_digest_users')
+    if (dueError) throw dueError
+
+    const messages: ExpoPushMessage[] = []
+    let digestsSent = 0
+
+    for (const user of (dueUsers ?? []) as DueUser[]) {
+      const { data: items, error: itemsError } = await supabaseAdmin
+        .from('notification_digest_items')
+        .select('id, kind')
+        .eq('auth_user_id', user.auth_user_id)
+        .is('sent_at', null)
+        .or(`deliver_after.is.null,deliver_after.lte.${new Date().toISOString()}`)
+
+      if (itemsError) {
+        console.error('Error loading digest items:', itemsError)
+        continue
+      }
+
+      const pending = (items ?? []) as DigestItem[]
+      if (pending.length === 0) continue
+
+      // Claim the items before pushing so an overlapping run can't send them twice
+      const digestId = crypto.randomUUID()
+      const sentAt = new Date().toISOString()
+      const { data: claimedRows, error: claimError } = await supabaseAdmin
+        .from('notification_digest_items')
+        .update({ digest_id: digestId, sent_at: sentAt })
+        .in('id', pending.map((item) => item.id))
+        .is('sent_at', null)
+        .select('id')
+
+      if (claimError) {
+        console.error('Error claiming digest items:', claimError)
+        continue
+      }
+
+      // Only summarise what this run claimed, the rest belongs to another run
+      const claimedIds = new Set((claimedRows ?? []).map((row: { id: string }) => row.id))
+      const claimed = pending.filter((item) => claimedIds.has(item.id))
+      if (claimed.length === 0) continue
+
+      await supabaseAdmin
+        .from('profiles')
+        .update({ last_digest_sent_at: sentAt })
+        .eq('id', user.auth_user_id)
+
+      messages.push({
+        to: user.push_token,
+        title: DIGEST_TITLES[user.notification_digest],
+        body: `${summarize(claimed)}. Tap to see them all.`,
+        data: { type: 'notification_digest', digestId },
+        sound: 'default',
+      })
+      digestsSent++
+    }
+
+    const result = await sendExpoPush(messages)
+
+    return new Response(
+      JSON.stringify({ success: true, digests: digestsSent, notified: result.sent, failed: result.failed }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error: any) {
+    console.error('Send notification digests error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to send notification digests', message: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+// e.g. "3 new sightings, 1 rescue and 1 possible match"
+function summarize(items: DigestItem[]): string {
+  const parts = (Object.keys(KIND_LABELS) as DigestItem['kind'][])
+    .map((kind) => {
+      const count = items.filter((item) => item.kind === kind).length
+      if (count === 0) return null
+      const [singular, plural] = KIND_LABELS[kind]
+      return `${count} ${count === 1 ? singular : plural}`
+    })
+    .filter((part): part is string => part !== null)
+
+  return parts.length > 1
+    ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+    : parts[0]
+}
@@ -4,4 +4,5 @@ declare module '@env' {
   export const EXPO_PUBLIC_SUPABASE_URL: string;
   export const EXPO_PUBLIC_SUPABASE_ANON_KEY: string;
   export const REMOVE_BG_API_KEY: string;
+  export const SEGMENTATION_BACKENDS: string;
 }